@@ -10,13 +10,15 @@
  *
  * Example prompts:
  *   "Show me the top 5 customers with outstanding AR balances and their risk scores"
- *   "Draft dunning emails for the top 3 high-risk accounts and send them to my inbox"
+ *   "Draft dunning emails for the top 3 high-risk accounts to their AP contacts"
+ *   "Show me the drafts waiting for approval" / "Approve draft 3f2a..."
  *   "Create a 6-month payment plan for the highest-risk customer and email it to me"
  *   "Which customers have broken the most payment promises?"
  *   "Record that customer X promised to pay $10,000 by March 15"
  *
  * Requirements:
  *   - AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT_NAME in .env
+ *     (or LLM_PROVIDER=openai-compatible / scripted — see docs/SETUP.md)
  *   - GRAPH_USER_EMAIL set to your email address (used as default recipient for drafts)
  *   - DEMO_MODE=true for mock D365 data, or configure ERP_* vars for live D365
  */
@@ -59,11 +61,25 @@ function toolLabel(name: string, args: Record<string, unknown>): string {
     case 'analyze_customer_risk':
       return `Analyzing risk${id}`;
     case 'send_dunning_email':
-      return `Drafting & sending dunning email to ${args.recipient_email}${id}`;
+      return `Drafting dunning email to ${args.recipient_email ?? 'billing contact'}${id}`;
     case 'propose_payment_plan':
-      return `Building ${args.months ?? 6}-month payment plan → ${args.recipient_email}${id}`;
+      return `Building ${args.months ?? 6}-month payment plan → ${args.recipient_email ?? 'billing contact'}${id}`;
+    case 'list_drafts':
+      return `Listing ${args.status ?? 'pending'} drafts...`;
+    case 'edit_draft':
+      return `Editing draft ${String(args.draft_id).substring(0, 8)}...`;
+    case 'approve_draft':
+      return `Approving & sending draft ${String(args.draft_id).substring(0, 8)}...`;
+    case 'reject_draft':
+      return `Rejecting draft ${String(args.draft_id).substring(0, 8)}...`;
     case 'send_teams_notification':
       return `Sending Teams alert to ${args.recipient_email}${id}`;
+    case 'get_customer_contacts':
+      return `Looking up customer contacts${id}`;
+    case 'get_contact_preferences':
+      return `Checking contact preferences${id}`;
+    case 'update_contact_preferences':
+      return `Updating contact preferences${id}`;
     case 'record_promise_to_pay':
       return `Recording promise to pay $${args.amount} by ${args.date}${id}`;
     default:
@@ -85,7 +101,7 @@ function banner(): void {
   ln();
   ln(`${C.dim}  Example prompts:${C.reset}`);
   ln(`${C.dim}    • "Show me top 5 customers by AR balance with risk scores and next steps"`);
-  ln(`    • "Draft dunning emails for high-risk accounts and send to my inbox for review"`);
+  ln(`    • "Draft dunning emails for high-risk accounts, then show me the approval queue"`);
   ln(`    • "Create a 6-month payment plan for the top customer and email it to me"`);
   ln(`    • "Which customer has the most overdue balance past 90 days?"${C.reset}`);
   ln();
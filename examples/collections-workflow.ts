@@ -22,6 +22,7 @@
 
 import * as dotenv from 'dotenv';
 import { CollectionsAgent } from '../src/agents/collectionsAgent';
+import { OutboundDraft } from '../src/types';
 
 // Load environment variables
 dotenv.config();
@@ -79,8 +80,8 @@ async function completeCollectionsWorkflow() {
       if (customerEmail !== 'customer@example.com') {
         console.log('  Action: Sending urgent dunning email...');
         try {
-          await agent.sendDunningEmail(customerId, customerEmail);
-          console.log(`  ✅ Dunning email sent to ${customerEmail}`);
+          const draft = await agent.sendDunningEmail(customerId, customerEmail);
+          console.log(`  ✅ Dunning email ${outcome(draft)} (${customerEmail})`);
         } catch (error: any) {
           console.log(`  ⚠️  Email failed: ${error.message}`);
         }
@@ -111,8 +112,8 @@ async function completeCollectionsWorkflow() {
       if (customerEmail !== 'customer@example.com') {
         console.log('Step 2: Medium-risk customer. Proposing payment plan...');
         try {
-          await agent.proposePaymentPlan(customerId, customerEmail, 6);
-          console.log(`  ✅ Payment plan sent to ${customerEmail}`);
+          const draft = await agent.proposePaymentPlan(customerId, customerEmail, 6);
+          console.log(`  ✅ Payment plan ${outcome(draft)} (${customerEmail})`);
         } catch (error: any) {
           console.log(`  ⚠️  Payment plan failed: ${error.message}`);
         }
@@ -128,8 +129,8 @@ async function completeCollectionsWorkflow() {
       if (customerEmail !== 'customer@example.com') {
         console.log('Step 2: Low-risk customer. Sending standard reminder...');
         try {
-          await agent.sendDunningEmail(customerId, customerEmail);
-          console.log(`  ✅ Reminder email sent to ${customerEmail}`);
+          const draft = await agent.sendDunningEmail(customerId, customerEmail);
+          console.log(`  ✅ Reminder email ${outcome(draft)} (${customerEmail})`);
         } catch (error: any) {
           console.log(`  ⚠️  Email failed: ${error.message}`);
         }
@@ -304,6 +305,7 @@ async function detailedRiskAnalysis() {
 
     console.log(`  Total Promises: ${promiseSummary.totalPromises}`);
     console.log(`  Fulfilled: ${promiseSummary.fulfilledPromises}`);
+    console.log(`  Partially Kept: ${promiseSummary.partiallyKeptPromises}`);
     console.log(`  Broken: ${promiseSummary.brokenPromises}`);
     console.log(`  Pending: ${promiseSummary.pendingPromises}`);
     console.log(`  Fulfillment Rate: ${(promiseSummary.fulfillmentRate * 100).toFixed(1)}%`);
@@ -329,6 +331,11 @@ async function detailedRiskAnalysis() {
   }
 }
 
+/** "sent", or where to find the draft when OUTBOUND_APPROVAL=required */
+function outcome(draft: OutboundDraft): string {
+  return draft.status === 'sent' ? 'sent' : `queued for approval (draft ${draft.draftId})`;
+}
+
 // Run examples
 if (require.main === module) {
   const exampleToRun = process.argv[2] || 'workflow';
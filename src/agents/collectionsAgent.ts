@@ -1,9 +1,73 @@
+import { randomUUID } from 'crypto';
 import { ERPConnector } from '../connectors/erpConnector';
 import { GraphConnector } from '../connectors/graphConnector';
 import { RiskScoringService } from '../services/riskScoringService';
 import { DunningService } from '../services/dunningService';
 import { PaymentPlanService } from '../services/paymentPlanService';
-import { RiskScore, CRMNote, PrioritizedCustomer, PromiseSummary } from '../types';
+import { CadenceService } from '../services/cadenceService';
+import { PromiseService, getPromiseStatus } from '../services/promiseService';
+import { CurrencyService, formatCurrency } from '../services/currencyService';
+import { CustomerListService } from '../services/customerListService';
+import { RiskHistoryService, riskScoreRecordId } from '../services/riskHistoryService';
+import { DisputeService } from '../services/disputeService';
+import { ApprovalService } from '../services/approvalService';
+import { ComplianceService } from '../services/complianceService';
+import type { ComplianceContext } from '../services/complianceService';
+import { ContactService } from '../services/contactService';
+import type { RecipientPurpose } from '../services/contactService';
+import { LocaleService, dunningMessages, localeLanguage } from '../services/localeService';
+import type { DunningLanguage } from '../services/localeService';
+import { DunningTemplateService, escapeHtml, stageForTone } from '../services/dunningTemplateService';
+import { StatementService } from '../services/statementService';
+import { excludeDisputedAmounts, oldestDaysOverdue } from '../services/agingService';
+import type { PaymentFileFormat } from '../services/paymentImportService';
+import { createCollectionsStore } from '../store';
+import type { CollectionsStore } from '../store';
+import { getLLMProvider } from '../llm';
+import type { LLMProvider } from '../llm';
+import { TtlCache } from '../utils/ttlCache';
+import { mapWithConcurrency } from '../utils/concurrency';
+import {
+  ARAgingData,
+  Invoice,
+  RiskScore,
+  RiskScoreRecord,
+  RiskTrend,
+  CRMNote,
+  PrioritizedCustomer,
+  CustomerListQuery,
+  CustomerPage,
+  PromiseSummary,
+  PromiseToPay,
+  PromiseChannel,
+  PaymentHistory,
+  PaymentIngestionResult,
+  PaymentRecord,
+  PaymentPlan,
+  DunningAction,
+  CustomerActivityHistory,
+  DunningCadence,
+  DunningTone,
+  DunningStage,
+  DunningTemplate,
+  DunningTemplateEdit,
+  DunningTemplateRef,
+  ScheduledDunningAction,
+  Dispute,
+  DisputeReason,
+  DisputeResolution,
+  DisputeStatus,
+  DisputeUpdate,
+  DraftEdit,
+  DraftStatus,
+  OutboundDraft,
+  ComplianceFinding,
+  ComplianceReview,
+  ContactPreferences,
+  ContactPreferencesUpdate,
+  CustomerContactDirectory,
+  EmailAttachment,
+} from '../types';
 
 export class CollectionsAgent {
   private erpConnector: ERPConnector;
@@ -11,18 +75,58 @@ export class CollectionsAgent {
   private riskScoringService: RiskScoringService;
   private dunningService: DunningService;
   private paymentPlanService: PaymentPlanService;
+  private cadenceService: CadenceService;
+  private promiseService: PromiseService;
+  private currencyService: CurrencyService;
+  private customerListService: CustomerListService;
+  private riskHistoryService: RiskHistoryService;
+  private disputeService: DisputeService;
+  private approvalService: ApprovalService;
+  private complianceService: ComplianceService;
+  private contactService: ContactService;
+  private localeService: LocaleService;
+  private templateService: DunningTemplateService;
+  private statementService: StatementService;
+  private store: CollectionsStore;
 
-  constructor() {
+  // Per-customer ERP data and scores, reused across requests until the TTL expires
+  private arDataCache: TtlCache<ARAgingData>;
+  private paymentHistoryCache: TtlCache<PaymentHistory>;
+  private riskScoreCache: TtlCache<RiskScore>;
+  private recommendationCache: TtlCache<string>;
+  private prioritizationConcurrency = Number(process.env.PRIORITIZATION_CONCURRENCY ?? 8);
+
+  constructor(store: CollectionsStore = createCollectionsStore(), llm: LLMProvider = getLLMProvider()) {
+    this.store = store;
     this.erpConnector = new ERPConnector();
     this.graphConnector = new GraphConnector();
-    this.riskScoringService = new RiskScoringService();
-    this.dunningService = new DunningService();
+    this.riskScoringService = new RiskScoringService(undefined, undefined, llm);
+    this.dunningService = new DunningService(llm);
     this.paymentPlanService = new PaymentPlanService();
+    this.cadenceService = new CadenceService(store);
+    this.promiseService = new PromiseService();
+    this.currencyService = new CurrencyService();
+    this.customerListService = new CustomerListService();
+    this.riskHistoryService = new RiskHistoryService();
+    this.disputeService = new DisputeService();
+    this.approvalService = new ApprovalService();
+    this.complianceService = new ComplianceService();
+    this.contactService = new ContactService();
+    this.localeService = new LocaleService();
+    this.templateService = new DunningTemplateService(store);
+    this.statementService = new StatementService();
+
+    const cacheTtlMs = Number(process.env.CUSTOMER_CACHE_TTL_MS ?? 300_000);
+    this.arDataCache = new TtlCache(cacheTtlMs);
+    this.paymentHistoryCache = new TtlCache(cacheTtlMs);
+    this.riskScoreCache = new TtlCache(cacheTtlMs);
+    this.recommendationCache = new TtlCache(cacheTtlMs);
   }
 
-  /** Shut down the MCP server child process spawned by the ERP connector. */
+  /** Shut down the MCP server child process and flush the collections store. */
   async close(): Promise<void> {
     await this.erpConnector.close();
+    await this.store.close();
   }
 
   /**
@@ -38,12 +142,8 @@ export class CollectionsAgent {
   async analyzeCustomerRisk(customerId: string): Promise<RiskScore> {
     console.log(`Analyzing risk for customer ${customerId}...`);
 
-    // Fetch data from ERP
-    const arData = await this.erpConnector.getARAgingData(customerId);
-    const paymentHistory = await this.erpConnector.getPaymentHistory(customerId);
-
-    // Calculate risk score
-    const riskScore = await this.riskScoringService.calculateRiskScore(arData, paymentHistory);
+    // Score from cached ERP data, then add the AI recommendation
+    const riskScore = await this.withRecommendation(await this.scoreCustomer(customerId));
 
     console.log(`Risk analysis complete: ${riskScore.riskLevel} risk (${(riskScore.score * 100).toFixed(1)}%)`);
 
@@ -51,116 +151,320 @@ export class CollectionsAgent {
   }
 
   /**
-   * Send dunning email to customer
+   * Risk trend for a customer from its recorded scores: direction, change
+   * versus last week and the factors that drove it. Scores the customer first
+   * so the trend ends with a current score.
    */
-  async sendDunningEmail(customerId: string, customerEmail: string, fromEmail?: string): Promise<void> {
+  async getRiskTrend(customerId: string, days?: number): Promise<RiskTrend> {
+    await this.scoreCustomer(customerId);
+    const records = await this.store.listByCustomer<RiskScoreRecord>('risk_scores', customerId);
+    return this.riskHistoryService.buildTrend(customerId, records, days);
+  }
+
+  /**
+   * Generate a dunning email for a customer as a draft. With OUTBOUND_APPROVAL
+   * required (the default) it waits in the approval queue; otherwise it is
+   * sent straight away. It is written from the template for `stage`, or the
+   * stage the tone maps to, in the customer's locale. Without a recipient it
+   * goes to the customer's billing contact, or for a firm email, final demand
+   * or pre-legal notice to its escalation contact. A PDF statement of account
+   * listing the open invoices is attached unless ATTACH_STATEMENT is false.
+   */
+  async sendDunningEmail(
+    customerId: string,
+    customerEmail?: string,
+    fromEmail?: string,
+    tone?: DunningTone,
+    stage: DunningStage = stageForTone(tone)
+  ): Promise<OutboundDraft> {
     console.log(`Generating dunning email for customer ${customerId}...`);
 
-    // Get customer data
-    const arData = await this.erpConnector.getARAgingData(customerId);
+    const escalate = tone === 'firm' || stage === 'final-demand' || stage === 'pre-legal';
+    const to = customerEmail ?? await this.resolveRecipient(customerId, escalate ? 'escalation' : 'billing');
+    const locale = await this.customerLocale(customerId);
+    const template = await this.templateService.getTemplate(stage, localeLanguage(locale));
+
+    // Get customer data, with locally recorded disputes held out of the balance
+    const arData = await this.loadARAgingData(customerId);
     const riskScore = await this.analyzeCustomerRisk(customerId);
 
+    // Statement of every open invoice, attached as a PDF when the email is sent
+    const statement = this.statementService.attach ? this.statementService.buildStatement(arData, locale) : undefined;
+    const attachStatement = statement !== undefined && statement.lines.length > 0;
+
     // Generate personalized email
     const email = await this.dunningService.generateDunningEmail(
       arData.customerName,
       arData,
-      riskScore
+      riskScore,
+      template,
+      locale,
+      attachStatement
     );
 
-    // Send email via Graph
-    await this.graphConnector.sendEmail(customerEmail, email.subject, email.body, fromEmail);
-
-    // Log to CRM
-    await this.logCRMNote(customerId, `Dunning email sent: ${email.subject}`, 'contact-attempt');
-
-    console.log(`Dunning email sent successfully to ${customerEmail}`);
+    return this.submitDraft(this.approvalService.createDraft('dunning-email', customerId, {
+      to,
+      from: fromEmail,
+      subject: email.subject,
+      body: email.body,
+      locale,
+      template: email.template,
+      statement: attachStatement ? statement : undefined,
+      customerName: arData.customerName,
+      riskScore,
+    }));
   }
 
   /**
-   * Send Teams message for collections follow-up
+   * Send Teams message for collections follow-up. Throws when the compliance
+   * policy blocks it.
    */
   async sendTeamsFollowUp(customerId: string, userEmail: string): Promise<void> {
     console.log(`Sending Teams follow-up for customer ${customerId}...`);
 
-    // Get customer data
-    const arData = await this.erpConnector.getARAgingData(customerId);
+    // Get customer data, with locally recorded disputes held out of the balance
+    const arData = await this.loadARAgingData(customerId);
     const riskScore = await this.analyzeCustomerRisk(customerId);
 
     // Generate message
-    const message = await this.dunningService.generateTeamsMessage(
-      arData.customerName,
-      arData,
-      riskScore
+    const locale = await this.customerLocale(customerId);
+    const message = await this.dunningService.generateTeamsMessage(arData.customerName, arData, riskScore, locale);
+
+    // Check it against the compliance policy as it is about to go out. It goes
+    // to a collector, not the customer, so the customer's frequency cap doesn't apply
+    const review = this.complianceService.evaluate(
+      { channel: 'teams', body: message, locale },
+      { ...await this.complianceContext(customerId, true), recentContacts: undefined }
     );
+    await this.logComplianceReview(customerId, `Teams message to ${userEmail}`, review);
+    if (!review.allowed) {
+      throw new Error(`Teams message to ${userEmail} blocked by compliance policy: ${blockReasons(review.findings)}`);
+    }
 
     // Create or get chat
     const chatId = await this.graphConnector.createChat(userEmail);
 
     // Send message
-    await this.graphConnector.sendTeamsMessage(chatId, message);
+    await this.graphConnector.sendTeamsMessage(chatId, review.body);
 
     // Log to CRM
     await this.logCRMNote(customerId, `Teams message sent to ${userEmail}`, 'contact-attempt');
+    await this.recordDunningAction(customerId, 'teams-chat', review.body, riskScore);
 
     console.log(`Teams message sent successfully`);
   }
 
   /**
-   * Create and send payment plan proposal
+   * Create a payment plan proposal email as a draft, queued for approval or
+   * sent straight away like sendDunningEmail. Without a recipient it goes to
+   * the customer's billing contact. It is written in the customer's locale.
    */
   async proposePaymentPlan(
     customerId: string,
-    customerEmail: string,
+    customerEmail?: string,
     numberOfMonths: number = 6
-  ): Promise<void> {
+  ): Promise<OutboundDraft> {
     console.log(`Creating payment plan for customer ${customerId}...`);
 
-    // Get customer data
-    const arData = await this.erpConnector.getARAgingData(customerId);
+    const to = customerEmail ?? await this.resolveRecipient(customerId, 'billing');
+    const locale = await this.customerLocale(customerId);
+    const text = dunningMessages(locale);
+
+    // Get customer data; amounts under dispute are not part of the plan
+    const arData = excludeDisputedAmounts(await this.loadARAgingData(customerId), this.currencyService);
 
-    // Create payment plan
+    // Create payment plan in the currency the customer is invoiced in
+    const balance = this.currencyService.customerCurrency(arData);
     const paymentPlan = this.paymentPlanService.proposePaymentPlan(
       customerId,
-      arData.totalOutstanding,
-      numberOfMonths
+      balance.totalOutstanding,
+      numberOfMonths,
+      0,
+      balance.currency
     );
 
     // Format for email
-    const planHtml = this.paymentPlanService.formatPaymentPlanForEmail(paymentPlan);
+    const planHtml = this.paymentPlanService.formatPaymentPlanForEmail(paymentPlan, locale);
 
-    // Send email with payment plan
+    // Email with the payment plan
     const emailBody = `
-      <html>
+      <html${locale ? ` lang="${locale}"` : ''}>
       <body style="font-family: Arial, sans-serif;">
-        <p>Dear ${arData.customerName},</p>
+        <p>${text.greeting(escapeHtml(arData.customerName))}</p>
         
-        <p>Thank you for your willingness to resolve your outstanding balance of $${arData.totalOutstanding.toFixed(2)}.</p>
+        <p>${text.paymentPlan.thanks(formatCurrency(balance.totalOutstanding, balance.currency, locale))}${arData.disputedAmount
+          ? ` ${text.paymentPlan.disputesExcluded}`
+          : ''}</p>
         
-        <p>We would like to propose the following payment plan to help you manage this balance:</p>
+        <p>${text.paymentPlan.proposal}</p>
         
         ${planHtml}
         
-        <p>Please review this proposal and let us know if you would like to proceed or if you need any adjustments.</p>
+        <p>${text.paymentPlan.review}</p>
         
-        <p>Best regards,<br/>Accounts Receivable Team</p>
+        <p>${text.signOff}</p>
       </body>
       </html>
     `;
 
-    await this.graphConnector.sendEmail(
-      customerEmail,
-      'Payment Plan Proposal - Account ' + customerId,
-      emailBody
-    );
+    return this.submitDraft(this.approvalService.createDraft('payment-plan', customerId, {
+      to,
+      subject: text.paymentPlan.subject(customerId),
+      body: emailBody,
+      locale,
+      customerName: arData.customerName,
+      paymentPlan,
+    }));
+  }
 
-    // Log to CRM
+  /**
+   * Drafts in the approval queue and past ones, newest first, optionally
+   * filtered by status and customer
+   */
+  async listDrafts(filter: { status?: DraftStatus; customerId?: string } = {}): Promise<OutboundDraft[]> {
+    const drafts = filter.customerId
+      ? await this.store.listByCustomer<OutboundDraft>('drafts', filter.customerId)
+      : await this.store.listAll<OutboundDraft>('drafts');
+    return drafts
+      .filter(d => !filter.status || d.status === filter.status)
+      .sort((a, b) => b.createdDate.localeCompare(a.createdDate));
+  }
+
+  /**
+   * Get a draft by ID
+   */
+  async getDraft(draftId: string): Promise<OutboundDraft | undefined> {
+    return this.store.get<OutboundDraft>('drafts', draftId);
+  }
+
+  /**
+   * Change the recipient, subject or body of a draft before it is approved
+   */
+  async editDraft(draftId: string, changes: DraftEdit, editor: string): Promise<OutboundDraft> {
+    const draft = this.approvalService.edit(await this.requireDraft(draftId), changes, editor);
+    await this.store.put<OutboundDraft>('drafts', draftId, draft.customerId, draft);
+    return draft;
+  }
+
+  /**
+   * Approve a draft and send it. The approval is recorded even when the send
+   * fails; a failed draft can be approved again.
+   */
+  async approveDraft(draftId: string, approver: string, comment?: string): Promise<OutboundDraft> {
+    const draft = this.approvalService.approve(await this.requireDraft(draftId), approver, comment);
+    await this.store.put<OutboundDraft>('drafts', draftId, draft.customerId, draft);
+    return this.deliverDraft(draft);
+  }
+
+  /**
+   * Reject a draft so it is never sent
+   */
+  async rejectDraft(draftId: string, approver: string, reason?: string): Promise<OutboundDraft> {
+    const draft = this.approvalService.reject(await this.requireDraft(draftId), approver, reason);
+    await this.store.put<OutboundDraft>('drafts', draftId, draft.customerId, draft);
     await this.logCRMNote(
+      draft.customerId,
+      `${draftLabel(draft)} to ${draft.to} rejected by ${approver}${reason ? `: ${reason}` : ''}`,
+      'general'
+    );
+    await this.settleCadenceStep(
+      draft,
+      'rejected',
+      `Draft ${draftId} rejected by ${approver}${reason ? `: ${reason}` : ''}; a new email is drafted at the next run`
+    );
+    return draft;
+  }
+
+  /**
+   * Contact restrictions recorded for a customer, if any
+   */
+  async getContactPreferences(customerId: string): Promise<ContactPreferences | undefined> {
+    return this.store.get<ContactPreferences>('contact_preferences', customerId);
+  }
+
+  /**
+   * Set a customer's time zone or do-not-contact and cease-communication flags.
+   * The change is logged as a CRM note and written back to the ERP.
+   */
+  async updateContactPreferences(
+    customerId: string,
+    changes: ContactPreferencesUpdate,
+    updatedBy?: string
+  ): Promise<ContactPreferences> {
+    const preferences = this.complianceService.updatePreferences(
+      await this.getContactPreferences(customerId),
       customerId,
-      `Payment plan proposed: ${numberOfMonths} monthly payments of $${(arData.totalOutstanding / numberOfMonths).toFixed(2)}`,
-      'payment-plan'
+      changes,
+      updatedBy
     );
+    await this.store.put<ContactPreferences>('contact_preferences', customerId, customerId, preferences);
+
+    const note = `Contact preferences updated${updatedBy ? ` by ${updatedBy}` : ''}: ` +
+      `do-not-contact ${preferences.doNotContact ? 'on' : 'off'}, ` +
+      `cease-communication ${preferences.ceaseCommunication ? 'on' : 'off'}` +
+      `${preferences.timeZone ? `, time zone ${preferences.timeZone}` : ''}` +
+      `${preferences.locale ? `, locale ${preferences.locale}` : ''}. ${changes.reason ?? ''}`;
+    await this.logCRMNote(customerId, note.trim(), 'compliance');
+    await this.erpConnector.updateCustomerNotes(customerId, note.trim());
+
+    return preferences;
+  }
+
+  /**
+   * The dunning template in use for every stage and language
+   */
+  async listDunningTemplates(): Promise<DunningTemplate[]> {
+    return this.templateService.listTemplates();
+  }
+
+  /**
+   * Every version of the dunning template for a stage and language, oldest first
+   */
+  async getDunningTemplateVersions(stage: DunningStage, language: DunningLanguage): Promise<DunningTemplate[]> {
+    return this.templateService.listVersions(stage, language);
+  }
+
+  /**
+   * Change a dunning template. The change is saved as a new version, which
+   * emails for that stage and language use from now on.
+   */
+  async updateDunningTemplate(
+    stage: DunningStage,
+    language: DunningLanguage,
+    changes: DunningTemplateEdit,
+    updatedBy?: string
+  ): Promise<DunningTemplate> {
+    const template = await this.templateService.createVersion(stage, language, changes, updatedBy);
+    console.log(`Dunning template ${template.templateId} is now version ${template.version}`);
+    return template;
+  }
+
+  /**
+   * Statement of account for a customer as a PDF: every open invoice as of
+   * today, in the customer's locale
+   */
+  async getStatementPdf(customerId: string): Promise<EmailAttachment> {
+    const arData = await this.loadARAgingData(customerId);
+    const statement = this.statementService.buildStatement(arData, await this.customerLocale(customerId));
+    return this.statementService.toAttachment(statement);
+  }
+
+  /**
+   * The statement of account a dunning email draft attaches, as a PDF;
+   * undefined when it has none
+   */
+  async getDraftStatementPdf(draftId: string): Promise<EmailAttachment | undefined> {
+    const draft = await this.requireDraft(draftId);
+    return draft.statement ? this.statementService.toAttachment(draft.statement) : undefined;
+  }
 
-    console.log(`Payment plan sent to ${customerEmail}`);
+  /**
+   * A customer's contacts from the ERP, with the billing and escalation
+   * contacts outbound email goes to by default
+   */
+  async getCustomerContacts(customerId: string): Promise<CustomerContactDirectory> {
+    const contacts = await this.erpConnector.getCustomerContacts(customerId);
+    return this.contactService.buildDirectory(customerId, contacts);
   }
 
   /**
@@ -190,45 +494,26 @@ export class CollectionsAgent {
 
   /**
    * Prioritize collection efforts by analyzing all customers and returning a sorted list
-   * by risk score and outstanding balance
+   * by risk score and outstanding balance.
+   *
+   * ERP data for customers not already cached is fetched in one bulk call, then
+   * customers are scored in parallel (PRIORITIZATION_CONCURRENCY at a time).
+   * AI recommendations are generated only for the top `topN` customers
+   * returned; omit `topN` to return and recommend for everyone.
    */
-  async prioritizeCollectionEfforts(): Promise<PrioritizedCustomer[]> {
-    console.log('Prioritizing collection efforts...');
-
-    const customerIds = await this.erpConnector.getCustomersWithOutstandingBalance();
-    const prioritizedCustomers: PrioritizedCustomer[] = [];
-
-    for (const customerId of customerIds) {
-      try {
-        // Fetch AR data and payment history once — avoids the duplicate fetch that
-        // would occur if we called analyzeCustomerRisk() (which re-fetches AR data)
-        const arData = await this.erpConnector.getARAgingData(customerId);
-        const paymentHistory = await this.erpConnector.getPaymentHistory(customerId);
-        const riskScore = await this.riskScoringService.calculateRiskScore(arData, paymentHistory);
-
-        // Calculate priority score: risk score (0-1) * 70% + normalized outstanding amount * 30%
-        // This ensures high-risk accounts with large balances get highest priority
-        const normalizedAmount = Math.min(arData.totalOutstanding / 100000, 1); // Normalize to max $100k
-        const priority = (riskScore.score * 0.7) + (normalizedAmount * 0.3);
-
-        prioritizedCustomers.push({
-          customerId,
-          customerName: arData.customerName,
-          riskScore,
-          totalOutstanding: arData.totalOutstanding,
-          priority,
-        });
-      } catch (error) {
-        console.error(`Error analyzing customer ${customerId}:`, error);
-      }
-    }
-
-    // Sort by priority (highest first)
-    prioritizedCustomers.sort((a, b) => b.priority - a.priority);
+  async prioritizeCollectionEfforts(topN?: number): Promise<PrioritizedCustomer[]> {
+    const ranked = await this.rankCustomers();
+    return this.withRecommendations(topN === undefined ? ranked : ranked.slice(0, topN));
+  }
 
-    console.log(`Collection efforts prioritized: ${prioritizedCustomers.length} customers analyzed`);
-    
-    return prioritizedCustomers;
+  /**
+   * One page of the prioritized customer list, filtered by risk level, balance,
+   * days overdue, collector or name and sorted by priority, balance or oldest
+   * invoice. Only the customers on the page get an AI recommendation.
+   */
+  async listCustomers(query: CustomerListQuery = {}): Promise<CustomerPage> {
+    const page = this.customerListService.page(await this.rankCustomers(), query);
+    return { ...page, customers: await this.withRecommendations(page.customers) };
   }
 
   /**
@@ -237,16 +522,20 @@ export class CollectionsAgent {
   async summarizeCustomerPromises(customerId: string): Promise<PromiseSummary> {
     console.log(`Summarizing promises for customer ${customerId}...`);
 
-    const paymentHistory = await this.erpConnector.getPaymentHistory(customerId);
+    const paymentHistory = await this.getPaymentHistory(customerId);
     const arData = await this.erpConnector.getARAgingData(customerId);
-    const promises = paymentHistory.promiseToPayHistory;
+    const promises = [...paymentHistory.promiseToPayHistory];
 
-    const fulfilled = promises.filter(p => p.fulfilled).length;
-    const broken = promises.filter(p => !p.fulfilled && new Date(p.promisedDate) < new Date()).length;
-    const pending = promises.filter(p => !p.fulfilled && new Date(p.promisedDate) >= new Date()).length;
+    const statuses = promises.map(p => getPromiseStatus(p));
+    const fulfilled = statuses.filter(s => s === 'kept').length;
+    const partiallyKept = statuses.filter(s => s === 'partially-kept').length;
+    const broken = statuses.filter(s => s === 'broken').length;
+    const pending = statuses.filter(s => s === 'open').length;
     
     const totalPromisedAmount = promises.reduce((sum, p) => sum + p.promisedAmount, 0);
-    const fulfillmentRate = promises.length > 0 ? fulfilled / promises.length : 0;
+    // Rate is measured over promises that have come due — open promises can't be kept yet
+    const resolved = promises.length - pending;
+    const fulfillmentRate = resolved > 0 ? fulfilled / resolved : 0;
 
     // Get recent promises (last 5)
     const recentPromises = promises
@@ -258,6 +547,7 @@ export class CollectionsAgent {
       customerName: arData.customerName,
       totalPromises: promises.length,
       fulfilledPromises: fulfilled,
+      partiallyKeptPromises: partiallyKept,
       brokenPromises: broken,
       pendingPromises: pending,
       totalPromisedAmount,
@@ -265,27 +555,777 @@ export class CollectionsAgent {
       recentPromises,
     };
 
-    console.log(`Promise summary complete: ${fulfilled}/${promises.length} fulfilled (${(fulfillmentRate * 100).toFixed(1)}%)`);
+    console.log(`Promise summary complete: ${fulfilled}/${resolved} kept (${(fulfillmentRate * 100).toFixed(1)}%)`);
 
     return summary;
   }
 
   /**
-   * Record customer promise to pay
+   * Record customer promise to pay as a structured, reconcilable promise
+   * record. The amount is in the currency the customer is invoiced in.
    */
   async recordPromiseToPay(
     customerId: string,
     promisedAmount: number,
     promisedDate: string,
-    notes?: string
-  ): Promise<void> {
+    notes?: string,
+    channel?: PromiseChannel,
+    collector?: string
+  ): Promise<PromiseToPay> {
     console.log(`Recording promise to pay for customer ${customerId}...`);
 
-    const noteContent = `Customer promised to pay $${promisedAmount.toFixed(2)} by ${promisedDate}. ${notes || ''}`;
+    const { currency } = this.currencyService.customerCurrency(await this.erpConnector.getARAgingData(customerId));
+    const promise = this.promiseService.createPromise(
+      customerId,
+      promisedAmount,
+      promisedDate,
+      channel,
+      collector,
+      notes || undefined,
+      currency
+    );
+    await this.store.put<PromiseToPay>('promises', promise.promiseId as string, customerId, promise);
+    this.invalidateCustomer(customerId);
+
+    const amount = formatCurrency(promisedAmount, currency, await this.customerLocale(customerId));
+    const noteContent = `Customer promised to pay ${amount} by ${promisedDate}. ${notes || ''}`;
     await this.logCRMNote(customerId, noteContent, 'promise-to-pay');
     await this.erpConnector.updateCustomerNotes(customerId, noteContent);
 
     console.log('Promise to pay recorded');
+
+    return promise;
+  }
+
+  /**
+   * Reconcile every locally recorded promise against payments received, marking
+   * each kept, partially kept or broken. Intended to run on a schedule.
+   */
+  async reconcilePromisesToPay(asOf: Date = new Date()): Promise<PromiseToPay[]> {
+    console.log('Reconciling promises to pay...');
+
+    const openPromises = (await this.store.listAll<PromiseToPay>('promises'))
+      .filter(p => p.customerId && getPromiseStatus(p, asOf) === 'open');
+    const customerIds = Array.from(new Set(openPromises.map(p => p.customerId as string)));
+
+    const reconciled: PromiseToPay[] = [];
+    for (const customerId of customerIds) {
+      try {
+        const erpHistory = await this.erpConnector.getPaymentHistory(customerId);
+        reconciled.push(...await this.reconcileCustomerPromises(customerId, erpHistory, asOf));
+        this.invalidateCustomer(customerId);
+      } catch (error) {
+        console.error(`Error reconciling promises for customer ${customerId}:`, error);
+      }
+    }
+
+    console.log(`Promise reconciliation complete: ${reconciled.length} promises across ${customerIds.length} customers`);
+
+    return reconciled;
+  }
+
+  /**
+   * Record received payments in the ERP payment ledger, then reconcile open
+   * promises so payments that satisfy a promise are reflected immediately.
+   */
+  async recordPayments(payments: PaymentRecord[]): Promise<PaymentIngestionResult> {
+    console.log(`Recording ${payments.length} payments...`);
+
+    const result = await this.erpConnector.recordPayments(payments);
+    if (result.recorded > 0) {
+      this.invalidateAllCustomers();
+      await this.reconcilePromisesToPay();
+    }
+
+    return result;
+  }
+
+  /**
+   * Import payments from a bank or lockbox file (CSV, BAI2 or camt.053)
+   */
+  async importPaymentFile(format: PaymentFileFormat, content: string): Promise<PaymentIngestionResult> {
+    console.log(`Importing ${format} payment file...`);
+
+    const result = await this.erpConnector.importPaymentFile(format, content);
+    if (result.recorded > 0) {
+      this.invalidateAllCustomers();
+      await this.reconcilePromisesToPay();
+    }
+
+    console.log(`Payment import complete: ${result.recorded} recorded, ${result.duplicates} duplicates, ${result.unidentified.length} unidentified`);
+
+    return result;
+  }
+
+  /**
+   * Get everything recorded locally for a customer: CRM notes, promises,
+   * dunning actions, payment plans and disputes.
+   */
+  async getCustomerHistory(customerId: string): Promise<CustomerActivityHistory> {
+    const [notes, promises, dunningActions, paymentPlans, disputes] = await Promise.all([
+      this.store.listByCustomer<CRMNote>('crm_notes', customerId),
+      this.store.listByCustomer<PromiseToPay>('promises', customerId),
+      this.store.listByCustomer<DunningAction>('dunning_actions', customerId),
+      this.store.listByCustomer<PaymentPlan>('payment_plans', customerId),
+      this.store.listByCustomer<Dispute>('disputes', customerId),
+    ]);
+
+    return { customerId, notes, promises, dunningActions, paymentPlans, disputes };
+  }
+
+  /**
+   * Open a dispute on one of a customer's open invoices, by invoice ID or
+   * number. Until it is resolved the disputed amount is left out of dunning
+   * and of the aging risk score. One unresolved dispute per invoice.
+   */
+  async openDispute(
+    customerId: string,
+    invoiceId: string,
+    reason: DisputeReason,
+    options: { amount?: number; owner?: string; description?: string } = {}
+  ): Promise<Dispute> {
+    console.log(`Opening dispute on invoice ${invoiceId} for customer ${customerId}...`);
+
+    const arData = await this.erpConnector.getARAgingData(customerId);
+    const invoice = arData.invoices.find(inv => inv.invoiceId === invoiceId || inv.invoiceNumber === invoiceId);
+    if (!invoice || invoice.amountOutstanding <= 0) {
+      throw new Error(`Invoice ${invoiceId} is not an open invoice of customer ${customerId}`);
+    }
+    const existing = (await this.store.listByCustomer<Dispute>('disputes', customerId))
+      .find(d => d.invoiceId === invoice.invoiceId && d.status !== 'resolved');
+    if (existing) {
+      throw new Error(`Invoice ${invoiceId} already has an unresolved dispute (${existing.disputeId})`);
+    }
+
+    const dispute = this.disputeService.createDispute(customerId, invoice, reason, options);
+    await this.store.put<Dispute>('disputes', dispute.disputeId, customerId, dispute);
+    this.invalidateCustomer(customerId);
+
+    await this.recordDisputeNote(
+      dispute,
+      `Dispute opened on invoice ${dispute.invoiceNumber ?? dispute.invoiceId}: ` +
+      `${formatCurrency(dispute.amount, dispute.currency)} (${dispute.reason})` +
+      `${dispute.owner ? `, owner ${dispute.owner}` : ''}. ${dispute.description ?? ''}`
+    );
+
+    return dispute;
+  }
+
+  /**
+   * Change the status, owner, reason or amount of an unresolved dispute, or
+   * add a progress note
+   */
+  async updateDispute(disputeId: string, changes: DisputeUpdate): Promise<Dispute> {
+    const dispute = await this.requireDispute(disputeId);
+
+    let outstanding: number | undefined;
+    if (changes.amount !== undefined) {
+      const arData = await this.erpConnector.getARAgingData(dispute.customerId);
+      outstanding = arData.invoices.find(inv => inv.invoiceId === dispute.invoiceId)?.amountOutstanding;
+    }
+    const updated = this.disputeService.update(dispute, changes, outstanding);
+    await this.store.put<Dispute>('disputes', disputeId, updated.customerId, updated);
+    this.invalidateCustomer(updated.customerId);
+
+    const changed = [
+      changes.status && `status ${updated.status}`,
+      changes.owner && `owner ${updated.owner}`,
+      changes.reason && `reason ${updated.reason}`,
+      changes.amount !== undefined && `amount ${formatCurrency(updated.amount, updated.currency)}`,
+    ].filter(Boolean).join(', ');
+    await this.recordDisputeNote(
+      updated,
+      `Dispute on invoice ${updated.invoiceNumber ?? updated.invoiceId} updated${changed ? `: ${changed}` : ''}. ${changes.note ?? ''}`
+    );
+
+    return updated;
+  }
+
+  /**
+   * Resolve a dispute. Whatever was not credited becomes collectible again;
+   * a credit stays held out of dunning until the invoice's open amount in the
+   * ERP has dropped by it (payments aside) or the invoice is closed.
+   */
+  async resolveDispute(
+    disputeId: string,
+    resolution: DisputeResolution,
+    notes?: string,
+    creditAmount?: number
+  ): Promise<Dispute> {
+    const dispute = await this.requireDispute(disputeId);
+    let invoice: Invoice | undefined;
+    if (resolution === 'credited' || resolution === 'partially-credited') {
+      const arData = await this.erpConnector.getARAgingData(dispute.customerId);
+      invoice = arData.invoices.find(inv => inv.invoiceId === dispute.invoiceId);
+    }
+    const resolved = this.disputeService.resolve(dispute, resolution, notes, creditAmount, invoice);
+    await this.store.put<Dispute>('disputes', disputeId, resolved.customerId, resolved);
+    this.invalidateCustomer(resolved.customerId);
+
+    await this.recordDisputeNote(
+      resolved,
+      `Dispute on invoice ${resolved.invoiceNumber ?? resolved.invoiceId} resolved: ${resolution}` +
+      `${resolved.creditAmount ? `, credit of ${formatCurrency(resolved.creditAmount, resolved.currency)}` : ''}. ${notes ?? ''}`
+    );
+
+    return resolved;
+  }
+
+  /**
+   * Get a dispute by ID
+   */
+  async getDispute(disputeId: string): Promise<Dispute | undefined> {
+    return this.store.get<Dispute>('disputes', disputeId);
+  }
+
+  /**
+   * A customer's disputes, oldest first, optionally only those in one status
+   */
+  async listDisputes(customerId: string, status?: DisputeStatus): Promise<Dispute[]> {
+    const disputes = await this.store.listByCustomer<Dispute>('disputes', customerId);
+    return status ? disputes.filter(d => d.status === status) : disputes;
+  }
+
+  /**
+   * Start a dunning cadence for a customer. The escalation ladder is chosen by
+   * the customer's current risk level; any existing cadence is replaced.
+   * Without a contact email each cadence email goes to the customer's
+   * contacts as sendDunningEmail picks them, so the customer needs one now.
+   */
+  async startDunningCadence(
+    customerId: string,
+    contactEmail?: string,
+    collectorEmail?: string
+  ): Promise<DunningCadence> {
+    console.log(`Starting dunning cadence for customer ${customerId}...`);
+
+    if (!contactEmail) await this.resolveRecipient(customerId, 'billing');
+
+    const arData = await this.erpConnector.getARAgingData(customerId);
+    const riskScore = await this.analyzeCustomerRisk(customerId);
+    const cadence = await this.cadenceService.enroll(arData, riskScore.riskLevel, contactEmail, collectorEmail);
+
+    await this.logCRMNote(
+      customerId,
+      `Dunning cadence started (${riskScore.riskLevel} risk ladder, ${cadence.actions.length} steps)`,
+      'general'
+    );
+
+    return cadence;
+  }
+
+  /**
+   * Get the current dunning cadence state for a customer
+   */
+  async getDunningCadence(customerId: string): Promise<DunningCadence | undefined> {
+    return this.cadenceService.getCadence(customerId);
+  }
+
+  /**
+   * Run every due cadence step across all active cadences. Cadences stop when a
+   * payment is detected; due steps are skipped while a promise to pay is open.
+   * An email step queued for approval holds the rest of its ladder until the
+   * draft is sent.
+   */
+  async runDunningCadences(asOf: Date = new Date()): Promise<DunningCadence[]> {
+    console.log('Running dunning cadences...');
+
+    const cadences = await this.cadenceService.listActiveCadences();
+
+    for (const cadence of cadences) {
+      try {
+        const arData = await this.erpConnector.getARAgingData(cadence.customerId);
+        const paymentHistory = await this.getPaymentHistory(cadence.customerId);
+        const evaluation = this.cadenceService.evaluate(cadence, arData, paymentHistory, asOf);
+
+        if (evaluation.stopReason) {
+          this.cadenceService.stop(cadence, evaluation.stopReason);
+          await this.logCRMNote(cadence.customerId, `Dunning cadence stopped: ${evaluation.stopReason}`, 'general');
+        } else {
+          for (const action of this.cadenceService.getDueActions(cadence, asOf)) {
+            if (evaluation.skipReason) {
+              this.cadenceService.markAction(cadence, action.stepId, 'skipped', evaluation.skipReason, asOf);
+              continue;
+            }
+            try {
+              const { skipReason, queuedDraftId } = await this.executeCadenceAction(cadence, action);
+              if (queuedDraftId) {
+                // Later steps wait until this email has been approved and sent
+                this.cadenceService.markQueued(cadence, action.stepId, queuedDraftId);
+                break;
+              }
+              this.cadenceService.markAction(cadence, action.stepId, skipReason ? 'skipped' : 'completed', skipReason, asOf);
+            } catch (error) {
+              const message = error instanceof Error ? error.message : String(error);
+              this.cadenceService.markAction(cadence, action.stepId, 'failed', message, asOf);
+            }
+          }
+          this.cadenceService.completeIfFinished(cadence);
+        }
+      } catch (error) {
+        console.error(`Error running cadence for customer ${cadence.customerId}:`, error);
+      }
+
+      cadence.lastEvaluated = asOf.toISOString();
+      await this.cadenceService.save(cadence);
+    }
+
+    console.log(`Dunning cadences processed: ${cadences.length}`);
+
+    return cadences;
+  }
+
+  /**
+   * Execute a single cadence step through the matching channel. Returns why
+   * the step was skipped when the compliance policy blocks its email, or the
+   * draft it is waiting on when the email is queued for approval.
+   */
+  private async executeCadenceAction(
+    cadence: DunningCadence,
+    action: ScheduledDunningAction
+  ): Promise<{ skipReason?: string; queuedDraftId?: string }> {
+    switch (action.actionType) {
+      case 'email': {
+        const draft = await this.sendDunningEmail(
+          cadence.customerId,
+          cadence.contactEmail,
+          undefined,
+          action.tone,
+          action.stage ?? stageForTone(action.tone)
+        );
+        if (draft.status === 'blocked') {
+          return { skipReason: `Blocked by compliance policy: ${blockReasons(draft.compliance)}` };
+        }
+        if (draft.status === 'pending') {
+          return { queuedDraftId: draft.draftId };
+        }
+        break;
+      }
+
+      case 'teams-chat':
+        if (!cadence.collectorEmail) {
+          throw new Error('No collector email configured for Teams escalation');
+        }
+        await this.sendTeamsFollowUp(cadence.customerId, cadence.collectorEmail);
+        break;
+
+      case 'phone-call': {
+        const taskNote = `Phone call task: call customer about overdue balance (cadence step ${action.priority})`;
+        await this.logCRMNote(cadence.customerId, taskNote, 'contact-attempt');
+        await this.erpConnector.updateCustomerNotes(cadence.customerId, taskNote);
+        break;
+      }
+    }
+    return {};
+  }
+
+  /**
+   * Complete the cadence email step waiting on a draft once it is sent, or
+   * schedule the step again when the draft is rejected
+   */
+  private async settleCadenceStep(draft: OutboundDraft, outcome: 'sent' | 'rejected', reason?: string): Promise<void> {
+    const cadence = await this.cadenceService.getCadence(draft.customerId);
+    if (!cadence || !this.cadenceService.settleQueued(cadence, draft.draftId, outcome, reason)) return;
+    this.cadenceService.completeIfFinished(cadence);
+    await this.cadenceService.save(cadence);
+  }
+
+  /**
+   * AR aging for a customer, from the cache when fresh
+   */
+  private getARAgingData(customerId: string): Promise<ARAgingData> {
+    return this.arDataCache.getOrLoad(customerId, () => this.loadARAgingData(customerId));
+  }
+
+  /**
+   * Fetch AR aging from the ERP and mark the invoices under a locally
+   * recorded dispute
+   */
+  private async loadARAgingData(customerId: string): Promise<ARAgingData> {
+    return this.withRecordedDisputes(customerId, await this.erpConnector.getARAgingData(customerId));
+  }
+
+  /**
+   * Mark the invoices in a customer's AR aging that have an unresolved
+   * locally recorded dispute
+   */
+  private async withRecordedDisputes(customerId: string, arData: ARAgingData): Promise<ARAgingData> {
+    const disputes = await this.store.listByCustomer<Dispute>('disputes', customerId);
+    return this.disputeService.applyDisputes(arData, disputes);
+  }
+
+  /**
+   * Check a new draft against the compliance policy and store it, then send it
+   * at once unless approval is required or the policy blocks it
+   */
+  private async submitDraft(generated: OutboundDraft): Promise<OutboundDraft> {
+    const draft = await this.checkDraft(generated, false);
+    await this.store.put<OutboundDraft>('drafts', draft.draftId, draft.customerId, draft);
+    if (draft.status === 'blocked') {
+      return draft;
+    }
+    if (this.approvalService.mode === 'required') {
+      console.log(`${draftLabel(draft)} for ${draft.to} queued for approval (draft ${draft.draftId})`);
+      return draft;
+    }
+
+    const approved = this.approvalService.approve(draft, 'system', 'OUTBOUND_APPROVAL=auto');
+    await this.store.put<OutboundDraft>('drafts', approved.draftId, approved.customerId, approved);
+    return this.deliverDraft(approved);
+  }
+
+  /**
+   * Send an approved draft via Graph and log it, unless the compliance policy
+   * blocks it now. A failed send is recorded on the draft and rethrown.
+   */
+  private async deliverDraft(approved: OutboundDraft): Promise<OutboundDraft> {
+    const draft = await this.checkDraft(approved, true);
+    if (draft.status === 'blocked') {
+      await this.store.put<OutboundDraft>('drafts', draft.draftId, draft.customerId, draft);
+      return draft;
+    }
+
+    try {
+      const attachments = draft.statement ? [this.statementService.toAttachment(draft.statement)] : [];
+      await this.graphConnector.sendEmail(draft.to, draft.subject, draft.body, draft.from, attachments);
+    } catch (error) {
+      const failed = this.approvalService.markFailed(draft, error instanceof Error ? error.message : String(error));
+      await this.store.put<OutboundDraft>('drafts', failed.draftId, failed.customerId, failed);
+      throw error;
+    }
+
+    const sent = this.approvalService.markSent(draft);
+    await this.store.put<OutboundDraft>('drafts', sent.draftId, sent.customerId, sent);
+
+    const approval = sent.approvedBy && sent.approvedBy !== 'system' ? ` (approved by ${sent.approvedBy})` : '';
+    if (sent.kind === 'payment-plan' && sent.paymentPlan) {
+      const plan = { ...sent.paymentPlan, proposedDate: sent.sentDate };
+      await this.store.put<PaymentPlan>('payment_plans', randomUUID(), sent.customerId, plan);
+      await this.logCRMNote(
+        sent.customerId,
+        `Payment plan proposed: ${plan.numberOfPayments} monthly payments of ${formatCurrency(plan.totalAmount / plan.numberOfPayments, plan.currency)}${approval}`,
+        'payment-plan'
+      );
+    } else {
+      const template = sent.template ? ` (template ${sent.template.templateId} v${sent.template.version})` : '';
+      const statement = sent.statement
+        ? ` with statement of account (${sent.statement.lines.length} open invoice${sent.statement.lines.length === 1 ? '' : 's'})`
+        : '';
+      await this.logCRMNote(sent.customerId, `Dunning email sent: ${sent.subject}${template}${statement}${approval}`, 'contact-attempt');
+      if (sent.riskScore) {
+        await this.recordDunningAction(sent.customerId, 'email', sent.subject, sent.riskScore, sent.template);
+      }
+    }
+
+    await this.settleCadenceStep(sent, 'sent', `Sent${approval}`);
+
+    console.log(`${draftLabel(sent)} sent to ${sent.to}`);
+    return sent;
+  }
+
+  /**
+   * Run a draft through the compliance policy, applying any rewording. Quiet
+   * hours and the frequency cap only apply when it is about to be sent.
+   */
+  private async checkDraft(draft: OutboundDraft, sending: boolean): Promise<OutboundDraft> {
+    const review = this.complianceService.evaluate(
+      { channel: 'email', subject: draft.subject, body: draft.body, locale: draft.locale },
+      await this.complianceContext(draft.customerId, sending)
+    );
+    await this.logComplianceReview(draft.customerId, `${draftLabel(draft)} to ${draft.to}`, review);
+    return this.approvalService.applyReview(draft, review);
+  }
+
+  /**
+   * A customer's contact preferences and, for a message about to be sent, the
+   * send time and when the recent emails to them went out. Teams messages and
+   * phone calls go to collectors, not the customer, so they don't count.
+   */
+  private async complianceContext(customerId: string, sending: boolean): Promise<ComplianceContext> {
+    const preferences = await this.getContactPreferences(customerId);
+    if (!sending) return { preferences };
+
+    const [actions, plans] = await Promise.all([
+      this.store.listByCustomer<DunningAction>('dunning_actions', customerId),
+      this.store.listByCustomer<PaymentPlan>('payment_plans', customerId),
+    ]);
+    const recentContacts = [
+      ...actions.filter(a => a.actionType === 'email').map(a => a.scheduledDate),
+      ...plans.map(p => p.proposedDate).filter((date): date is string => Boolean(date)),
+    ];
+    return { preferences, recentContacts, sendAt: new Date() };
+  }
+
+  /**
+   * Log a CRM note when the compliance policy blocks a message or rewords
+   * prohibited language in it
+   */
+  private async logComplianceReview(customerId: string, message: string, review: ComplianceReview): Promise<void> {
+    const logged = review.findings.filter(f => f.action === 'block' || f.rule === 'prohibited-language');
+    if (logged.length === 0) return;
+    await this.logCRMNote(
+      customerId,
+      `${message} ${review.allowed ? 'reworded' : 'blocked'} by compliance policy: ${logged.map(f => f.reason).join('; ')}`,
+      'compliance'
+    );
+  }
+
+  /**
+   * Email address of the customer contact an email defaults to, or an error
+   * when the customer has no contact who can receive it
+   */
+  private async resolveRecipient(customerId: string, purpose: RecipientPurpose): Promise<string> {
+    const contact = this.contactService.recipient(await this.getCustomerContacts(customerId), purpose);
+    if (!contact?.email) {
+      throw new Error(`No ${purpose} contact with an email address for customer ${customerId}; give a recipient email`);
+    }
+    return contact.email;
+  }
+
+  /**
+   * Locale a customer's emails and messages are written in: its own setting,
+   * else the language of its billing contact, else DUNNING_DEFAULT_LOCALE.
+   * A failed contact lookup falls back to the default rather than failing.
+   */
+  private async customerLocale(customerId: string): Promise<string | undefined> {
+    const preferences = await this.getContactPreferences(customerId);
+    if (preferences?.locale) return this.localeService.resolve(preferences.locale);
+
+    const contacts = await this.getCustomerContacts(customerId).catch(() => undefined);
+    return this.localeService.resolve(contacts?.billing?.language);
+  }
+
+  /**
+   * A stored draft, or an error when there is none with this ID
+   */
+  private async requireDraft(draftId: string): Promise<OutboundDraft> {
+    const draft = await this.getDraft(draftId);
+    if (!draft) throw new Error(`Draft not found: ${draftId}`);
+    return draft;
+  }
+
+  /**
+   * A stored dispute, or an error when there is none with this ID
+   */
+  private async requireDispute(disputeId: string): Promise<Dispute> {
+    const dispute = await this.getDispute(disputeId);
+    if (!dispute) throw new Error(`Dispute not found: ${disputeId}`);
+    return dispute;
+  }
+
+  /**
+   * Log a dispute change as a CRM note and write it back to the ERP
+   */
+  private async recordDisputeNote(dispute: Dispute, content: string): Promise<void> {
+    const note = content.trim();
+    await this.logCRMNote(dispute.customerId, note, 'dispute');
+    await this.erpConnector.updateCustomerNotes(dispute.customerId, note);
+  }
+
+  /**
+   * Payment history with reconciled promises for a customer, from the cache when fresh
+   */
+  private getCachedPaymentHistory(customerId: string): Promise<PaymentHistory> {
+    return this.paymentHistoryCache.getOrLoad(customerId, () => this.getPaymentHistory(customerId));
+  }
+
+  /**
+   * Risk score for a customer without an AI recommendation, from the cache when
+   * fresh. Every newly computed score is recorded in the risk history.
+   */
+  private scoreCustomer(customerId: string): Promise<RiskScore> {
+    return this.riskScoreCache.getOrLoad(customerId, async () => {
+      const [arData, paymentHistory] = await Promise.all([
+        this.getARAgingData(customerId),
+        this.getCachedPaymentHistory(customerId),
+      ]);
+      const riskScore = this.riskScoringService.scoreRisk(arData, paymentHistory);
+      await this.recordRiskScore(riskScore, arData, paymentHistory);
+      return riskScore;
+    });
+  }
+
+  /**
+   * Save a score as the customer's record for the day, with a summary of the
+   * data it was computed from. The record is only rewritten when the score
+   * changes, and the first record of a day removes those past the retention
+   * period. A failed write is logged rather than failing the scoring.
+   */
+  private async recordRiskScore(riskScore: RiskScore, arData: ARAgingData, paymentHistory: PaymentHistory): Promise<void> {
+    const record = this.riskHistoryService.toRecord(riskScore, arData, paymentHistory);
+    const id = riskScoreRecordId(record.customerId, record.scoredAt);
+    try {
+      const recorded = await this.store.get<RiskScoreRecord>('risk_scores', id);
+      if (!this.riskHistoryService.hasChanged(recorded, riskScore)) return;
+      await this.store.put<RiskScoreRecord>('risk_scores', id, record.customerId, record);
+      if (recorded) return;
+
+      const history = await this.store.listByCustomer<RiskScoreRecord>('risk_scores', record.customerId);
+      for (const expired of this.riskHistoryService.expired(history)) {
+        await this.store.delete('risk_scores', riskScoreRecordId(expired.customerId, expired.scoredAt));
+      }
+    } catch (error) {
+      console.error(`Failed to record risk score for customer ${riskScore.customerId}:`, error);
+    }
+  }
+
+  /**
+   * Copy of a risk score carrying the AI recommendation, generated once per TTL
+   */
+  private async withRecommendation(riskScore: RiskScore): Promise<RiskScore> {
+    const recommendation = await this.recommendationCache.getOrLoad(riskScore.customerId, async () => {
+      const [arData, paymentHistory] = await Promise.all([
+        this.getARAgingData(riskScore.customerId),
+        this.getCachedPaymentHistory(riskScore.customerId),
+      ]);
+      return this.riskScoringService.generateRecommendation(arData, paymentHistory, riskScore);
+    });
+    return { ...riskScore, recommendation };
+  }
+
+  /**
+   * Score every customer with an outstanding balance, highest priority first,
+   * without AI recommendations
+   */
+  private async rankCustomers(): Promise<PrioritizedCustomer[]> {
+    console.log('Prioritizing collection efforts...');
+
+    const customerIds = await this.erpConnector.getCustomersWithOutstandingBalance();
+    await this.preloadCustomers(customerIds);
+
+    const results = await mapWithConcurrency(customerIds, this.prioritizationConcurrency, async (customerId): Promise<PrioritizedCustomer> => {
+      const arData = await this.getARAgingData(customerId);
+      const riskScore = await this.scoreCustomer(customerId);
+
+      // Calculate priority score: risk score (0-1) * 70% + normalized outstanding amount * 30%
+      // This ensures high-risk accounts with large balances get highest priority
+      const normalizedAmount = Math.min(arData.totalOutstanding / 100000, 1); // Normalize to max $100k
+      const priority = (riskScore.score * 0.7) + (normalizedAmount * 0.3);
+
+      return {
+        customerId,
+        customerName: arData.customerName,
+        riskScore,
+        totalOutstanding: arData.totalOutstanding,
+        priority,
+        daysOverdue: oldestDaysOverdue(arData),
+        collector: arData.collector,
+      };
+    });
+
+    const prioritizedCustomers: PrioritizedCustomer[] = [];
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') prioritizedCustomers.push(result.value);
+      else console.error(`Error analyzing customer ${customerIds[i]}:`, result.reason);
+    });
+
+    // Sort by priority (highest first)
+    prioritizedCustomers.sort((a, b) => b.priority - a.priority);
+
+    console.log(`Collection efforts prioritized: ${prioritizedCustomers.length} customers analyzed`);
+
+    return prioritizedCustomers;
+  }
+
+  /**
+   * Add AI recommendations to the given customers, PRIORITIZATION_CONCURRENCY at a time
+   */
+  private async withRecommendations(customers: PrioritizedCustomer[]): Promise<PrioritizedCustomer[]> {
+    const results = await mapWithConcurrency(customers, this.prioritizationConcurrency, async customer => ({
+      ...customer,
+      riskScore: await this.withRecommendation(customer.riskScore),
+    }));
+    // withRecommendation falls back to a rule-based recommendation rather than failing
+    return results.map((result, i) => (result.status === 'fulfilled' ? result.value : customers[i]));
+  }
+
+  /**
+   * Fill the AR aging and payment history caches for customers not already
+   * cached, with one bulk ERP call instead of two calls per customer. Customers
+   * the bulk call misses are left to the per-customer loaders.
+   */
+  private async preloadCustomers(customerIds: string[]): Promise<void> {
+    const missing = customerIds.filter(id => !this.arDataCache.has(id) || !this.paymentHistoryCache.has(id));
+    if (missing.length === 0) return;
+
+    try {
+      const { accounts, failed } = await this.erpConnector.getCustomerAccounts(missing);
+      for (const account of accounts) {
+        this.arDataCache.set(account.customerId, await this.withRecordedDisputes(account.customerId, account.arData));
+        this.paymentHistoryCache.set(
+          account.customerId,
+          await this.withRecordedPromises(account.customerId, account.paymentHistory)
+        );
+      }
+      console.log(`Loaded ${accounts.length} customers in bulk (${failed.length} failed)`);
+    } catch (error) {
+      console.error('Bulk customer fetch failed, fetching customers one at a time:', error);
+    }
+  }
+
+  /**
+   * Forget cached data for a customer after something changes their balance or promises
+   */
+  private invalidateCustomer(customerId: string): void {
+    this.arDataCache.delete(customerId);
+    this.paymentHistoryCache.delete(customerId);
+    this.riskScoreCache.delete(customerId);
+    this.recommendationCache.delete(customerId);
+  }
+
+  /**
+   * Forget cached data for every customer — payments may land on any account
+   */
+  private invalidateAllCustomers(): void {
+    this.arDataCache.clear();
+    this.paymentHistoryCache.clear();
+    this.riskScoreCache.clear();
+    this.recommendationCache.clear();
+  }
+
+  /**
+   * Fetch payment history from the ERP and merge in the locally recorded
+   * promises, reconciled against the payments in that history.
+   */
+  private async getPaymentHistory(customerId: string): Promise<PaymentHistory> {
+    return this.withRecordedPromises(customerId, await this.erpConnector.getPaymentHistory(customerId));
+  }
+
+  /**
+   * Merge a customer's locally recorded promises, reconciled against the
+   * payments in the ERP history, into that history
+   */
+  private async withRecordedPromises(customerId: string, erpHistory: PaymentHistory): Promise<PaymentHistory> {
+    const recorded = await this.reconcileCustomerPromises(customerId, erpHistory);
+
+    return {
+      ...erpHistory,
+      promiseToPayHistory: [...erpHistory.promiseToPayHistory, ...recorded],
+    };
+  }
+
+  /**
+   * Reconcile a customer's stored promises and persist any status changes
+   */
+  private async reconcileCustomerPromises(
+    customerId: string,
+    erpHistory: PaymentHistory,
+    asOf: Date = new Date()
+  ): Promise<PromiseToPay[]> {
+    const stored = await this.store.listByCustomer<PromiseToPay>('promises', customerId);
+    // Promises recorded before structured records existed have no id and can't be updated
+    const tracked = stored.filter(p => p.promiseId);
+    const untracked = stored.filter(p => !p.promiseId);
+
+    const reconciled = this.promiseService.reconcile(tracked, erpHistory.payments ?? [], asOf);
+    for (const promise of reconciled) {
+      const previous = tracked.find(p => p.promiseId === promise.promiseId);
+      if (previous?.status !== promise.status || previous?.amountPaid !== promise.amountPaid) {
+        await this.store.put<PromiseToPay>('promises', promise.promiseId as string, customerId, promise);
+      }
+    }
+
+    return [...untracked, ...reconciled];
   }
 
   /**
@@ -294,7 +1334,7 @@ export class CollectionsAgent {
   private async logCRMNote(
     customerId: string,
     content: string,
-    category: 'promise-to-pay' | 'contact-attempt' | 'payment-plan' | 'general'
+    category: CRMNote['category']
   ): Promise<void> {
     const note: CRMNote = {
       customerId,
@@ -304,11 +1344,41 @@ export class CollectionsAgent {
       category,
     };
 
-    // In a real implementation, you would specify the actual SharePoint site and list IDs
-    // For now, we'll just log it
+    await this.store.put<CRMNote>('crm_notes', randomUUID(), customerId, note);
     console.log(`CRM Note: ${JSON.stringify(note)}`);
 
-    // Optionally save to SharePoint via Graph API
+    // Optionally mirror to SharePoint via Graph API
     // await this.graphConnector.addCRMNote(note, siteId, listId);
   }
+
+  /**
+   * Record an outbound collections action in the store
+   */
+  private async recordDunningAction(
+    customerId: string,
+    actionType: DunningAction['actionType'],
+    message: string,
+    riskScore: RiskScore,
+    template?: DunningTemplateRef
+  ): Promise<void> {
+    const action: DunningAction = {
+      customerId,
+      actionType,
+      priority: riskScore.score,
+      message,
+      scheduledDate: new Date().toISOString(),
+      template,
+    };
+    await this.store.put<DunningAction>('dunning_actions', randomUUID(), customerId, action);
+  }
+}
+
+/** Why the compliance policy blocked a message, for errors and cadence steps. */
+function blockReasons(findings: ComplianceFinding[] = []): string {
+  return findings.filter(f => f.action === 'block').map(f => f.reason).join('; ');
+}
+
+/** "Dunning email" or "Payment plan", for log lines and notes. */
+function draftLabel(draft: OutboundDraft): string {
+  return draft.kind === 'payment-plan' ? 'Payment plan' : 'Dunning email';
 }
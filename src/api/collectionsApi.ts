@@ -5,12 +5,37 @@
  * endpoints consumed by the M365 Copilot Chat declarative agent (via API Plugin).
  *
  * Endpoints:
- *   GET  /api/customers                              → Prioritized customer list
+ *   GET  /api/customers                              → Prioritized customer list (filters, cursor pages)
  *   GET  /api/customers/:customerId/risk             → Risk analysis
- *   POST /api/customers/:customerId/dunning-email    → Send dunning email
- *   POST /api/customers/:customerId/payment-plan     → Propose payment plan
+ *   GET  /api/customers/:customerId/risk/history     → Risk trend and drivers
+ *   POST /api/customers/:customerId/dunning-email    → Draft (and, without approval, send) dunning email
+ *   POST /api/customers/:customerId/payment-plan     → Draft (and, without approval, send) payment plan
+ *   GET  /api/drafts                                 → Approval queue
+ *   GET  /api/drafts/:draftId                        → One draft with its audit trail
+ *   GET  /api/drafts/:draftId/statement              → PDF statement of account the draft attaches
+ *   POST /api/drafts/:draftId                        → Edit a draft
+ *   POST /api/drafts/:draftId/approve                → Approve and send
+ *   POST /api/drafts/:draftId/reject                 → Reject
+ *   GET  /api/dunning-templates                      → Dunning templates in use
+ *   GET  /api/dunning-templates/:stage/:language     → Every version of one template
+ *   POST /api/dunning-templates/:stage/:language     → Save a new version
  *   POST /api/customers/:customerId/teams-notification → Teams alert
+ *   GET  /api/customers/:customerId/contacts         → Billing and escalation contacts
+ *   GET  /api/customers/:customerId/contact-preferences → Do-not-contact flags, time zone, locale
+ *   POST /api/customers/:customerId/contact-preferences → Update them
  *   POST /api/customers/:customerId/promise-to-pay   → Record promise
+ *   POST /api/promises/reconcile                     → Mark promises kept/broken
+ *   POST /api/payments                               → Record received payments
+ *   POST /api/payments/import                        → Import CSV/BAI2/camt.053 file
+ *   GET  /api/customers/:customerId/history          → Notes, promises, actions, plans, disputes
+ *   GET  /api/customers/:customerId/statement        → PDF statement of account
+ *   GET  /api/customers/:customerId/disputes         → Invoice disputes
+ *   POST /api/customers/:customerId/disputes         → Open a dispute
+ *   POST /api/disputes/:disputeId                    → Update a dispute
+ *   POST /api/disputes/:disputeId/resolve            → Resolve a dispute
+ *   POST /api/customers/:customerId/cadence          → Start dunning cadence
+ *   GET  /api/customers/:customerId/cadence          → Dunning cadence state
+ *   POST /api/cadences/run                           → Run due cadence steps
  *
  * Usage:
  *   npm run api-server          (ts-node, development)
@@ -22,6 +47,31 @@ import * as http from 'http';
 import express from 'express';
 import type { Request, Response, NextFunction } from 'express';
 import { CollectionsAgent } from '../agents/collectionsAgent';
+import type {
+  CustomerListQuery,
+  EmailAttachment,
+  CustomerSortField,
+  DisputeReason,
+  DisputeResolution,
+  DisputeStatus,
+  DraftStatus,
+  DunningStage,
+  DunningTemplateEdit,
+  OutboundDraft,
+  PaymentRecord,
+  PromiseChannel,
+  RiskScore,
+} from '../types';
+import { describeInvalidPayments, invalidPayments } from '../services/cashApplicationService';
+import { CUSTOMER_SORT_FIELDS, MAX_CUSTOMER_PAGE_SIZE, decodeCustomerCursor } from '../services/customerListService';
+import { DISPUTE_REASONS, DISPUTE_RESOLUTIONS, DISPUTE_STATUSES } from '../services/disputeService';
+import { DRAFT_STATUSES, DraftStateError } from '../services/approvalService';
+import { isValidTimeZone } from '../services/complianceService';
+import { DUNNING_LANGUAGES, supportedLocale } from '../services/localeService';
+import type { DunningLanguage } from '../services/localeService';
+import { DUNNING_STAGES, TEMPLATE_MODES, validateTemplateText } from '../services/dunningTemplateService';
+import { PAYMENT_FILE_FORMATS } from '../services/paymentImportService';
+import type { PaymentFileFormat } from '../services/paymentImportService';
 
 dotenv.config();
 
@@ -57,14 +107,65 @@ app.get('/health', (_req: Request, res: Response) => {
 
 // ---------------------------------------------------------------------------
 // GET /api/customers
-// Returns customers ranked by risk × balance.
+// Returns customers ranked by risk × balance, one page at a time.
+//
+// Query: limit (or top_n), cursor, risk_level (comma-separated), min_balance,
+//        min_days_overdue, collector, search, sort (priority|balance|oldest-invoice)
 // ---------------------------------------------------------------------------
 
+const RISK_LEVELS: RiskScore['riskLevel'][] = ['low', 'medium', 'high'];
+
+/** Parse and validate the list query; returns an error message when invalid. */
+function parseCustomerListQuery(params: Request['query']): CustomerListQuery | string {
+  const param = (name: string) => (typeof params[name] === 'string' ? params[name] as string : undefined);
+  const number = (name: string): number | undefined | string => {
+    const value = param(name);
+    if (value === undefined || value === '') return undefined;
+    const n = Number(value);
+    return isNaN(n) || n < 0 ? `${name} must be a non-negative number` : n;
+  };
+
+  const limit = number('limit') ?? number('top_n');
+  const minBalance = number('min_balance');
+  const minDaysOverdue = number('min_days_overdue');
+  for (const value of [limit, minBalance, minDaysOverdue]) {
+    if (typeof value === 'string') return value;
+  }
+  if (typeof limit === 'number' && !(Number.isInteger(limit) && limit >= 1 && limit <= MAX_CUSTOMER_PAGE_SIZE)) {
+    return `limit must be a whole number from 1 to ${MAX_CUSTOMER_PAGE_SIZE}; use nextCursor to read further pages`;
+  }
+
+  const riskLevels = param('risk_level')?.split(',').map(l => l.trim().toLowerCase()).filter(l => l);
+  const unknownLevel = riskLevels?.find(l => !RISK_LEVELS.includes(l as RiskScore['riskLevel']));
+  if (unknownLevel) return `risk_level must be one of: ${RISK_LEVELS.join(', ')}`;
+
+  const sort = (param('sort') || 'priority') as CustomerSortField;
+  if (!CUSTOMER_SORT_FIELDS.includes(sort)) return `sort must be one of: ${CUSTOMER_SORT_FIELDS.join(', ')}`;
+
+  const cursor = param('cursor') || undefined;
+  if (cursor && !decodeCustomerCursor(cursor, sort)) return 'cursor is invalid or was issued for a different sort';
+
+  return {
+    riskLevels:     riskLevels as RiskScore['riskLevel'][] | undefined,
+    minBalance:     minBalance as number | undefined,
+    minDaysOverdue: minDaysOverdue as number | undefined,
+    collector:      param('collector') || undefined,
+    search:         param('search') || undefined,
+    sort,
+    limit:          (limit as number | undefined) ?? 5,
+    cursor,
+  };
+}
+
 app.get('/api/customers', async (req: Request, res: Response) => {
+  const query = parseCustomerListQuery(req.query);
+  if (typeof query === 'string') {
+    res.status(400).json({ error: query });
+    return;
+  }
+
   try {
-    const topN = Math.max(1, parseInt((req.query.top_n as string) || '5', 10));
-    const all = await agent.prioritizeCollectionEfforts();
-    res.json({ customers: all.slice(0, topN) });
+    res.json(await agent.listCustomers(query));
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     res.status(500).json({ error: message });
@@ -86,20 +187,77 @@ app.get('/api/customers/:customerId/risk', async (req: Request, res: Response) =
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/risk/history
+// Recorded risk scores: trend, change versus last week and the factors that
+// drove it. Optional ?days= limits the history (default RISK_HISTORY_DAYS, 90).
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/risk/history', async (req: Request, res: Response) => {
+  const days = req.query.days === undefined ? undefined : Number(req.query.days);
+  if (days !== undefined && !(Number.isInteger(days) && days > 0)) {
+    res.status(400).json({ error: 'days must be a positive integer' });
+    return;
+  }
+
+  try {
+    const trend = await agent.getRiskTrend(req.params.customerId, days);
+    res.json(trend);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * Response for a generated customer email: sent, waiting in the approval
+ * queue, or blocked by the compliance policy.
+ */
+function draftResult(draft: OutboundDraft): Record<string, unknown> {
+  if (draft.status === 'blocked') {
+    return {
+      success: false,
+      draftId: draft.draftId,
+      status:  draft.status,
+      blockedReasons: (draft.compliance ?? []).filter(f => f.action === 'block').map(f => f.reason),
+    };
+  }
+  return {
+    success: true,
+    draftId: draft.draftId,
+    status:  draft.status,
+    ...(draft.status === 'sent' ? { sentTo: draft.to } : { pendingApprovalFor: draft.to }),
+  };
+}
+
+/** Send a generated file inline, e.g. a statement PDF, under its attachment name. */
+function sendAttachment(res: Response, attachment: EmailAttachment): void {
+  res.type(attachment.contentType);
+  res.setHeader('Content-Disposition', `inline; filename="${attachment.name}"`);
+  res.send(attachment.content);
+}
+
 // ---------------------------------------------------------------------------
 // POST /api/customers/:customerId/dunning-email
-// Generate and send a personalized dunning email.
+// Generate a personalized dunning email — queued for approval, or sent when
+// OUTBOUND_APPROVAL=auto. recipientEmail defaults to the billing contact;
+// stage picks the template (default second-notice). statementInvoices is the
+// number of open invoices on the attached statement of account (0 = none).
 // ---------------------------------------------------------------------------
 
 app.post('/api/customers/:customerId/dunning-email', async (req: Request, res: Response) => {
-  const { recipientEmail } = req.body as { recipientEmail?: string };
-  if (!recipientEmail) {
-    res.status(400).json({ error: 'recipientEmail is required' });
+  const { recipientEmail, stage } = req.body as { recipientEmail?: string; stage?: DunningStage };
+  if (stage !== undefined && !DUNNING_STAGES.includes(stage)) {
+    res.status(400).json({ error: `stage must be one of: ${DUNNING_STAGES.join(', ')}` });
     return;
   }
   try {
-    await agent.sendDunningEmail(req.params.customerId, recipientEmail);
-    res.json({ success: true, sentTo: recipientEmail });
+    const draft = await agent.sendDunningEmail(req.params.customerId, recipientEmail, undefined, undefined, stage);
+    res.json({
+      ...draftResult(draft),
+      template: draft.template,
+      statementInvoices: draft.statement?.lines.length ?? 0,
+    });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     res.status(500).json({ error: message });
@@ -108,19 +266,244 @@ app.post('/api/customers/:customerId/dunning-email', async (req: Request, res: R
 
 // ---------------------------------------------------------------------------
 // POST /api/customers/:customerId/payment-plan
-// Create a tailored payment plan and email it.
+// Create a tailored payment plan email — queued for approval, or sent when
+// OUTBOUND_APPROVAL=auto. recipientEmail defaults to the billing contact.
 // ---------------------------------------------------------------------------
 
 app.post('/api/customers/:customerId/payment-plan', async (req: Request, res: Response) => {
   const { recipientEmail, months } = req.body as { recipientEmail?: string; months?: number };
-  if (!recipientEmail) {
-    res.status(400).json({ error: 'recipientEmail is required' });
+  const numberOfMonths = months ?? 6;
+  try {
+    const draft = await agent.proposePaymentPlan(req.params.customerId, recipientEmail, numberOfMonths);
+    res.json({ ...draftResult(draft), months: numberOfMonths });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/drafts
+// The approval queue and past drafts, newest first.
+// Query: status (pending|approved|rejected|sent|failed, default pending), customerId
+// ---------------------------------------------------------------------------
+
+app.get('/api/drafts', async (req: Request, res: Response) => {
+  const status = (typeof req.query.status === 'string' && req.query.status ? req.query.status : 'pending') as DraftStatus | 'all';
+  if (status !== 'all' && !DRAFT_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be all or one of: ${DRAFT_STATUSES.join(', ')}` });
     return;
   }
-  const numberOfMonths = months ?? 6;
+  const customerId = typeof req.query.customerId === 'string' && req.query.customerId ? req.query.customerId : undefined;
   try {
-    await agent.proposePaymentPlan(req.params.customerId, recipientEmail, numberOfMonths);
-    res.json({ success: true, sentTo: recipientEmail, months: numberOfMonths });
+    const drafts = await agent.listDrafts({ status: status === 'all' ? undefined : status, customerId });
+    res.json({ drafts });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/drafts/:draftId
+// One draft with its full content and audit trail.
+// ---------------------------------------------------------------------------
+
+app.get('/api/drafts/:draftId', async (req: Request, res: Response) => {
+  try {
+    const draft = await agent.getDraft(req.params.draftId);
+    if (!draft) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    res.json(draft);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/drafts/:draftId/statement
+// The statement of account a dunning email draft attaches, as a PDF.
+// ---------------------------------------------------------------------------
+
+app.get('/api/drafts/:draftId/statement', async (req: Request, res: Response) => {
+  try {
+    if (!await agent.getDraft(req.params.draftId)) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    const pdf = await agent.getDraftStatementPdf(req.params.draftId);
+    if (!pdf) {
+      res.status(404).json({ error: 'Draft has no statement of account attached' });
+      return;
+    }
+    sendAttachment(res, pdf);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/drafts/:draftId
+// Edit a draft's recipient, subject or body before approving it. 409 once the
+// draft has been approved, sent or rejected.
+// ---------------------------------------------------------------------------
+
+app.post('/api/drafts/:draftId', async (req: Request, res: Response) => {
+  const { editor, to, subject, body } = req.body as { editor?: string; to?: string; subject?: string; body?: string };
+  if (!editor) {
+    res.status(400).json({ error: 'editor is required' });
+    return;
+  }
+  try {
+    if (!await agent.getDraft(req.params.draftId)) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    const draft = await agent.editDraft(req.params.draftId, { to, subject, body }, editor);
+    res.json(draft);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(err instanceof DraftStateError ? 409 : 500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/drafts/:draftId/approve
+// Approve a draft and send it. The approver is recorded on the draft. 409 once
+// the draft has been approved, sent or rejected.
+// ---------------------------------------------------------------------------
+
+app.post('/api/drafts/:draftId/approve', async (req: Request, res: Response) => {
+  const { approver, comment } = req.body as { approver?: string; comment?: string };
+  if (!approver) {
+    res.status(400).json({ error: 'approver is required' });
+    return;
+  }
+  try {
+    if (!await agent.getDraft(req.params.draftId)) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    const draft = await agent.approveDraft(req.params.draftId, approver, comment);
+    res.json(draft);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(err instanceof DraftStateError ? 409 : 500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/drafts/:draftId/reject
+// Reject a draft so it is never sent. 409 once the draft has been approved,
+// sent or rejected.
+// ---------------------------------------------------------------------------
+
+app.post('/api/drafts/:draftId/reject', async (req: Request, res: Response) => {
+  const { approver, reason } = req.body as { approver?: string; reason?: string };
+  if (!approver) {
+    res.status(400).json({ error: 'approver is required' });
+    return;
+  }
+  try {
+    if (!await agent.getDraft(req.params.draftId)) {
+      res.status(404).json({ error: 'Draft not found' });
+      return;
+    }
+    const draft = await agent.rejectDraft(req.params.draftId, approver, reason);
+    res.json(draft);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(err instanceof DraftStateError ? 409 : 500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/dunning-templates
+// The newest version of the dunning template for every stage and language.
+// ---------------------------------------------------------------------------
+
+app.get('/api/dunning-templates', async (_req: Request, res: Response) => {
+  try {
+    const templates = await agent.listDunningTemplates();
+    res.json({ templates });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+/**
+ * The stage and language in a template route, or undefined after sending a
+ * 400 when either is unknown.
+ */
+function templateKey(req: Request, res: Response): { stage: DunningStage; language: DunningLanguage } | undefined {
+  const stage = req.params.stage as DunningStage;
+  const language = req.params.language as DunningLanguage;
+  if (!DUNNING_STAGES.includes(stage)) {
+    res.status(400).json({ error: `stage must be one of: ${DUNNING_STAGES.join(', ')}` });
+    return undefined;
+  }
+  if (!DUNNING_LANGUAGES.includes(language)) {
+    res.status(400).json({ error: `language must be one of: ${DUNNING_LANGUAGES.join(', ')}` });
+    return undefined;
+  }
+  return { stage, language };
+}
+
+// ---------------------------------------------------------------------------
+// GET /api/dunning-templates/:stage/:language
+// Every version of one template, oldest first; the last one is in use.
+// ---------------------------------------------------------------------------
+
+app.get('/api/dunning-templates/:stage/:language', async (req: Request, res: Response) => {
+  const key = templateKey(req, res);
+  if (!key) return;
+  try {
+    const versions = await agent.getDunningTemplateVersions(key.stage, key.language);
+    res.json({ versions });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/dunning-templates/:stage/:language
+// Save a new version of a template from the newest one with the given subject,
+// body, style or mode changed. Emails use it from then on.
+// ---------------------------------------------------------------------------
+
+app.post('/api/dunning-templates/:stage/:language', async (req: Request, res: Response) => {
+  const key = templateKey(req, res);
+  if (!key) return;
+  const { subject, body, style, mode, comment, updatedBy } = req.body as DunningTemplateEdit & { updatedBy?: string };
+  if ([subject, body, style, comment].some(field => field !== undefined && typeof field !== 'string')) {
+    res.status(400).json({ error: 'subject, body, style and comment must be strings' });
+    return;
+  }
+  if (mode !== undefined && !TEMPLATE_MODES.includes(mode)) {
+    res.status(400).json({ error: `mode must be one of: ${TEMPLATE_MODES.join(', ')}` });
+    return;
+  }
+  try {
+    validateTemplateText(subject ?? '');
+    validateTemplateText(body ?? '');
+  } catch (err: unknown) {
+    res.status(400).json({ error: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+  try {
+    const template = await agent.updateDunningTemplate(
+      key.stage,
+      key.language,
+      { subject, body, style, mode, comment },
+      updatedBy
+    );
+    res.json(template);
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     res.status(500).json({ error: message });
@@ -147,20 +530,351 @@ app.post('/api/customers/:customerId/teams-notification', async (req: Request, r
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/contacts
+// The customer's contacts from the ERP, with the billing and escalation
+// contacts emails go to when no recipient is given.
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/contacts', async (req: Request, res: Response) => {
+  try {
+    const directory = await agent.getCustomerContacts(req.params.customerId);
+    res.json(directory);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/contact-preferences
+// Do-not-contact and cease-communication flags, the time zone quiet hours
+// are applied in and the locale emails are written in. A customer with none
+// recorded gets just its ID back.
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/contact-preferences', async (req: Request, res: Response) => {
+  try {
+    const preferences = await agent.getContactPreferences(req.params.customerId);
+    res.json(preferences ?? { customerId: req.params.customerId });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/customers/:customerId/contact-preferences
+// Set the customer's time zone, locale (e.g. "de-DE") or do-not-contact /
+// cease-communication flags.
+// ---------------------------------------------------------------------------
+
+app.post('/api/customers/:customerId/contact-preferences', async (req: Request, res: Response) => {
+  const { timeZone, locale, doNotContact, ceaseCommunication, reason, updatedBy } = req.body as {
+    timeZone?: string; locale?: string; doNotContact?: boolean; ceaseCommunication?: boolean; reason?: string;
+    updatedBy?: string;
+  };
+  if ([doNotContact, ceaseCommunication].some(flag => flag !== undefined && typeof flag !== 'boolean')) {
+    res.status(400).json({ error: 'doNotContact and ceaseCommunication must be true or false' });
+    return;
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    res.status(400).json({ error: `Unknown time zone "${timeZone}". Use an IANA name such as America/New_York` });
+    return;
+  }
+  if (locale !== undefined && (typeof locale !== 'string' || !supportedLocale(locale))) {
+    res.status(400).json({ error: `Unsupported locale "${locale}". Use a locale in ${DUNNING_LANGUAGES.join(', ')}, e.g. de-DE` });
+    return;
+  }
+  try {
+    const preferences = await agent.updateContactPreferences(
+      req.params.customerId,
+      { timeZone, locale, doNotContact, ceaseCommunication, reason },
+      updatedBy
+    );
+    res.json(preferences);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
 // ---------------------------------------------------------------------------
 // POST /api/customers/:customerId/promise-to-pay
 // Record a customer payment promise in the ERP system.
 // ---------------------------------------------------------------------------
 
 app.post('/api/customers/:customerId/promise-to-pay', async (req: Request, res: Response) => {
-  const { amount, date, notes } = req.body as { amount?: number; date?: string; notes?: string };
+  const { amount, date, notes, channel, collector } = req.body as {
+    amount?: unknown; date?: unknown; notes?: string; channel?: PromiseChannel; collector?: string;
+  };
   if (amount === undefined || !date) {
     res.status(400).json({ error: 'amount and date are required' });
     return;
   }
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    res.status(400).json({ error: 'amount must be a positive number' });
+    return;
+  }
+  if (typeof date !== 'string' || Number.isNaN(new Date(date).getTime())) {
+    res.status(400).json({ error: 'date must be a valid date, e.g. 2026-11-30' });
+    return;
+  }
+  try {
+    const promise = await agent.recordPromiseToPay(req.params.customerId, amount, date, notes ?? '', channel, collector);
+    res.json({ success: true, promiseId: promise.promiseId });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/promises/reconcile
+// Match payments against open promises — intended for a scheduler.
+// ---------------------------------------------------------------------------
+
+app.post('/api/promises/reconcile', async (_req: Request, res: Response) => {
+  try {
+    const promises = await agent.reconcilePromisesToPay();
+    res.json({ reconciled: promises.length, promises });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/payments
+// Record received payments for cash application against open invoices.
+// ---------------------------------------------------------------------------
+
+app.post('/api/payments', async (req: Request, res: Response) => {
+  const { payments } = req.body as { payments?: PaymentRecord[] };
+  if (!Array.isArray(payments) || payments.length === 0) {
+    res.status(400).json({ error: 'payments must be a non-empty array' });
+    return;
+  }
+  const invalid = invalidPayments(payments);
+  if (invalid.length > 0) {
+    res.status(400).json({ error: describeInvalidPayments(invalid), invalid });
+    return;
+  }
+  try {
+    const result = await agent.recordPayments(payments);
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/payments/import
+// Import a bank or lockbox payment file (CSV, BAI2 or camt.053).
+// ---------------------------------------------------------------------------
+
+app.post('/api/payments/import', async (req: Request, res: Response) => {
+  const { format, content } = req.body as { format?: PaymentFileFormat; content?: string };
+  if (!format || !PAYMENT_FILE_FORMATS.includes(format) || !content) {
+    res.status(400).json({ error: `format (${PAYMENT_FILE_FORMATS.join(', ')}) and content are required` });
+    return;
+  }
+  try {
+    const result = await agent.importPaymentFile(format, content);
+    res.json(result);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/history
+// CRM notes, promises, dunning actions, payment plans and disputes recorded locally.
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/history', async (req: Request, res: Response) => {
+  try {
+    const history = await agent.getCustomerHistory(req.params.customerId);
+    res.json(history);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/statement
+// Statement of account as a PDF: every open invoice as of today, in the
+// customer's locale — the same document dunning emails attach.
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/statement', async (req: Request, res: Response) => {
+  try {
+    sendAttachment(res, await agent.getStatementPdf(req.params.customerId));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/disputes
+// The customer's invoice disputes. Query: status (open|under-review|resolved)
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/disputes', async (req: Request, res: Response) => {
+  const status = typeof req.query.status === 'string' && req.query.status ? req.query.status as DisputeStatus : undefined;
+  if (status && !DISPUTE_STATUSES.includes(status)) {
+    res.status(400).json({ error: `status must be one of: ${DISPUTE_STATUSES.join(', ')}` });
+    return;
+  }
+  try {
+    const disputes = await agent.listDisputes(req.params.customerId, status);
+    res.json({ customerId: req.params.customerId, disputes });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/customers/:customerId/disputes
+// Open a dispute on an invoice; the disputed amount is held out of dunning
+// and aging risk until it is resolved.
+// ---------------------------------------------------------------------------
+
+app.post('/api/customers/:customerId/disputes', async (req: Request, res: Response) => {
+  const { invoiceId, reason, amount, owner, description } = req.body as {
+    invoiceId?: string; reason?: DisputeReason; amount?: number; owner?: string; description?: string;
+  };
+  if (!invoiceId || !reason || !DISPUTE_REASONS.includes(reason)) {
+    res.status(400).json({ error: `invoiceId and reason (${DISPUTE_REASONS.join(', ')}) are required` });
+    return;
+  }
+  if (amount !== undefined && !(typeof amount === 'number' && amount > 0)) {
+    res.status(400).json({ error: 'amount must be a positive number' });
+    return;
+  }
+  try {
+    const dispute = await agent.openDispute(req.params.customerId, invoiceId, reason, { amount, owner, description });
+    res.json(dispute);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/disputes/:disputeId
+// Update an unresolved dispute's status, owner, reason or amount, or add a note.
+// ---------------------------------------------------------------------------
+
+app.post('/api/disputes/:disputeId', async (req: Request, res: Response) => {
+  const { status, owner, reason, amount, note, author } = req.body as {
+    status?: DisputeStatus; owner?: string; reason?: DisputeReason; amount?: number; note?: string; author?: string;
+  };
+  if (status !== undefined && (status === 'resolved' || !DISPUTE_STATUSES.includes(status))) {
+    res.status(400).json({ error: 'status must be open or under-review; resolve disputes with /resolve' });
+    return;
+  }
+  if (reason !== undefined && !DISPUTE_REASONS.includes(reason)) {
+    res.status(400).json({ error: `reason must be one of: ${DISPUTE_REASONS.join(', ')}` });
+    return;
+  }
+  if (amount !== undefined && !(typeof amount === 'number' && amount > 0)) {
+    res.status(400).json({ error: 'amount must be a positive number' });
+    return;
+  }
+  try {
+    if (!await agent.getDispute(req.params.disputeId)) {
+      res.status(404).json({ error: 'Dispute not found' });
+      return;
+    }
+    const dispute = await agent.updateDispute(req.params.disputeId, { status, owner, reason, amount, note, author });
+    res.json(dispute);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/disputes/:disputeId/resolve
+// Close a dispute as credited, partially credited, rejected or withdrawn.
+// ---------------------------------------------------------------------------
+
+app.post('/api/disputes/:disputeId/resolve', async (req: Request, res: Response) => {
+  const { resolution, notes, creditAmount } = req.body as {
+    resolution?: DisputeResolution; notes?: string; creditAmount?: number;
+  };
+  if (!resolution || !DISPUTE_RESOLUTIONS.includes(resolution)) {
+    res.status(400).json({ error: `resolution (${DISPUTE_RESOLUTIONS.join(', ')}) is required` });
+    return;
+  }
+  if (creditAmount !== undefined && !(typeof creditAmount === 'number' && creditAmount > 0)) {
+    res.status(400).json({ error: 'creditAmount must be a positive number' });
+    return;
+  }
+  try {
+    if (!await agent.getDispute(req.params.disputeId)) {
+      res.status(404).json({ error: 'Dispute not found' });
+      return;
+    }
+    const dispute = await agent.resolveDispute(req.params.disputeId, resolution, notes, creditAmount);
+    res.json(dispute);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/customers/:customerId/cadence
+// Start (or restart) the dunning escalation ladder for a customer. Without
+// contactEmail each email goes to the customer's billing or escalation contact.
+// ---------------------------------------------------------------------------
+
+app.post('/api/customers/:customerId/cadence', async (req: Request, res: Response) => {
+  const { contactEmail, collectorEmail } = req.body as { contactEmail?: string; collectorEmail?: string };
+  try {
+    const cadence = await agent.startDunningCadence(req.params.customerId, contactEmail, collectorEmail);
+    res.json(cadence);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// GET /api/customers/:customerId/cadence
+// Current dunning cadence state (scheduled, completed and skipped steps).
+// ---------------------------------------------------------------------------
+
+app.get('/api/customers/:customerId/cadence', async (req: Request, res: Response) => {
+  try {
+    const cadence = await agent.getDunningCadence(req.params.customerId);
+    if (!cadence) {
+      res.status(404).json({ error: 'No dunning cadence for this customer' });
+      return;
+    }
+    res.json(cadence);
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    res.status(500).json({ error: message });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /api/cadences/run
+// Execute all due cadence steps — intended for a scheduler (cron, Logic App).
+// ---------------------------------------------------------------------------
+
+app.post('/api/cadences/run', async (_req: Request, res: Response) => {
   try {
-    await agent.recordPromiseToPay(req.params.customerId, amount, date, notes ?? '');
-    res.json({ success: true });
+    const cadences = await agent.runDunningCadences();
+    res.json({ processed: cadences.length, cadences });
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     res.status(500).json({ error: message });
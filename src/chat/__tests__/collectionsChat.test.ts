@@ -0,0 +1,155 @@
+import { describe, expect, it } from '@jest/globals';
+import { CollectionsChat } from '../collectionsChat';
+import { CollectionsAgent } from '../../agents/collectionsAgent';
+import { LLMCompletionRequest, LLMOutputError, LLMProvider, ScriptedCompletion, ScriptedLLMProvider } from '../../llm';
+
+/** The scripted provider, keeping every request so the tool results sent back can be checked. */
+function scripted(completions: ScriptedCompletion[]): LLMProvider & { requests: LLMCompletionRequest[] } {
+  const provider = new ScriptedLLMProvider(completions);
+  const requests: LLMCompletionRequest[] = [];
+  return {
+    name: provider.name,
+    requests,
+    complete: request => {
+      requests.push({ ...request, messages: [...request.messages] });
+      return provider.complete(request);
+    },
+  };
+}
+
+/** The agent calls the chat tools make, answered from fixed data instead of the ERP. */
+function stubAgent(calls: unknown[][]): CollectionsAgent {
+  const agent = {
+    prioritizeCollectionEfforts: async (topN?: number) => {
+      calls.push(['prioritizeCollectionEfforts', topN]);
+      return [{ customerId: 'C001', customerName: 'Contoso', totalOutstanding: 5000 }].slice(0, topN);
+    },
+    analyzeCustomerRisk: async (customerId: string) => {
+      calls.push(['analyzeCustomerRisk', customerId]);
+      if (customerId !== 'C001') throw new Error(`Customer not found: ${customerId}`);
+      return { customerId, score: 0.72, riskLevel: 'high' };
+    },
+  };
+  return agent as unknown as CollectionsAgent;
+}
+
+/** The tool results the chat sent back with a request. */
+function toolResults(request: LLMCompletionRequest): unknown[] {
+  return request.messages.filter(m => m.role === 'tool').map(m => JSON.parse(m.content as string));
+}
+
+describe('CollectionsChat', () => {
+  it('runs the tool calls the model asks for and returns its final answer', async () => {
+    const llm = scripted([
+      { match: 'top customers', toolCalls: [{ name: 'get_prioritized_customers', arguments: { top_n: 1 } }] },
+      { match: 'Contoso', content: 'Contoso owes 5,000 and is your top priority.' },
+    ]);
+    const agentCalls: unknown[][] = [];
+    const toolCalls: unknown[][] = [];
+    const chat = new CollectionsChat((name, args) => toolCalls.push([name, args]), llm, stubAgent(agentCalls));
+
+    const reply = await chat.sendMessage('Show my top customers');
+
+    expect(reply).toBe('Contoso owes 5,000 and is your top priority.');
+    expect(toolCalls).toEqual([['get_prioritized_customers', { top_n: 1 }]]);
+    expect(agentCalls).toEqual([['prioritizeCollectionEfforts', 1]]);
+    expect(llm.requests).toHaveLength(2);
+    expect(toolResults(llm.requests[1])).toEqual([[{ customerId: 'C001', customerName: 'Contoso', totalOutstanding: 5000 }]]);
+  });
+
+  it('runs several tool calls from one reply and hands tool errors back to the model', async () => {
+    const llm = scripted([
+      {
+        toolCalls: [
+          { name: 'analyze_customer_risk', arguments: { customer_id: 'C001' } },
+          { name: 'analyze_customer_risk', arguments: { customer_id: 'C404' } },
+        ],
+      },
+      { content: 'C001 is high risk; C404 was not found.' },
+    ]);
+    const agentCalls: unknown[][] = [];
+    const chat = new CollectionsChat(undefined, llm, stubAgent(agentCalls));
+
+    expect(await chat.sendMessage('Compare C001 and C404')).toBe('C001 is high risk; C404 was not found.');
+    expect(agentCalls).toEqual([['analyzeCustomerRisk', 'C001'], ['analyzeCustomerRisk', 'C404']]);
+    expect(toolResults(llm.requests[1])).toEqual([
+      { customerId: 'C001', score: 0.72, riskLevel: 'high' },
+      { error: 'Customer not found: C404' },
+    ]);
+  });
+
+  it('keeps the conversation across messages', async () => {
+    const llm = scripted([
+      { match: 'hello', content: 'Hi, how can I help?' },
+      { match: 'thanks', content: 'You are welcome.' },
+    ]);
+    const chat = new CollectionsChat(undefined, llm, stubAgent([]));
+
+    await chat.sendMessage('hello');
+    await chat.sendMessage('thanks');
+
+    expect(llm.requests[1].messages.map(m => m.role)).toEqual(['system', 'user', 'assistant', 'user']);
+  });
+
+  it('does not run tool calls with invalid arguments and gives the model one round to correct them', async () => {
+    const llm = scripted([
+      {
+        toolCalls: [
+          { name: 'analyze_customer_risk', arguments: {} },
+          { name: 'get_prioritized_customers', arguments: { top_n: 1 } },
+        ],
+      },
+      { toolCalls: [{ name: 'analyze_customer_risk', arguments: { customer_id: 'C001' } }] },
+      { match: 'high', content: 'C001 is high risk.' },
+    ]);
+    const agentCalls: unknown[][] = [];
+    const chat = new CollectionsChat(undefined, llm, stubAgent(agentCalls));
+
+    expect(await chat.sendMessage('How risky is my top customer?')).toBe('C001 is high risk.');
+    expect(toolResults(llm.requests[1])).toEqual([
+      {
+        error: 'Invalid arguments for analyze_customer_risk: $.customer_id is required. ' +
+          'Call the tool again with corrected arguments.',
+      },
+      [{ customerId: 'C001', customerName: 'Contoso', totalOutstanding: 5000 }],
+    ]);
+    expect(agentCalls).toEqual([['prioritizeCollectionEfforts', 1], ['analyzeCustomerRisk', 'C001']]);
+  });
+
+  it('throws when the corrected tool calls are still invalid, answering every call first', async () => {
+    const llm = scripted([
+      { toolCalls: [{ name: 'analyze_customer_risk', arguments: { customer_id: 42 } }] },
+      { toolCalls: [{ name: 'lookup_everything', arguments: {} }, { name: 'get_prioritized_customers', arguments: {} }] },
+      { content: 'Sorry, C001 is high risk.' },
+    ]);
+    const agentCalls: unknown[][] = [];
+    const chat = new CollectionsChat(undefined, llm, stubAgent(agentCalls));
+
+    const error = await chat.sendMessage('Check C001').catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(LLMOutputError);
+    expect((error as LLMOutputError).issues[0]).toMatch(/^unknown tool "lookup_everything"; use one of get_prioritized_customers, /);
+    expect(toolResults(llm.requests[1])).toEqual([
+      { error: 'Invalid arguments for analyze_customer_risk: $.customer_id must be a string. Call the tool again with corrected arguments.' },
+    ]);
+    expect(agentCalls).toEqual([]);
+
+    // Every call in the history has a result, so the conversation can go on
+    expect(await chat.sendMessage('Try again')).toBe('Sorry, C001 is high risk.');
+    expect(llm.requests[2].messages.slice(-4).map(m => m.role)).toEqual(['assistant', 'tool', 'tool', 'user']);
+    expect(toolResults(llm.requests[2]).slice(-2)).toEqual([
+      { error: 'Not run: the tool calls were still invalid after a correction' },
+      { error: 'Not run: the tool calls were still invalid after a correction' },
+    ]);
+  });
+
+  it('stops after the maximum number of tool rounds', async () => {
+    const llm = scripted([
+      { repeat: true, toolCalls: [{ name: 'get_prioritized_customers', arguments: {} }] },
+    ]);
+    const chat = new CollectionsChat(undefined, llm, stubAgent([]));
+
+    expect(await chat.sendMessage('loop')).toBe('I reached the maximum number of steps. Please try a more specific request.');
+    expect(llm.requests).toHaveLength(15);
+  });
+});
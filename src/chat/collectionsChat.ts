@@ -2,27 +2,51 @@
  * Collections Chat Engine
  *
  * Provides a natural-language chat interface over the CollectionsAgent using
- * Azure OpenAI function calling (tool use). The AI interprets free-form requests,
+ * LLM function calling (tool use) through the configured LLM_PROVIDER. The AI interprets free-form requests,
  * selects the appropriate agent tools, executes them, and returns a formatted response.
  *
  * Tools exposed to the AI:
  *   - get_prioritized_customers     : Rank all customers by risk × balance
  *   - analyze_customer_risk         : Detailed risk breakdown for one customer
- *   - send_dunning_email            : Draft + send dunning email to any address
- *   - propose_payment_plan          : Create + email a payment plan
+ *   - get_risk_trend                : Risk score trend and what drove it
+ *   - send_dunning_email            : Draft a dunning email for approval from a stage template (default: billing contact)
+ *   - propose_payment_plan          : Draft a payment plan email for approval
+ *   - list_drafts                   : Drafts waiting for approval (or past ones)
+ *   - edit_draft                    : Change a draft's recipient, subject or body
+ *   - approve_draft                 : Approve and send a draft
+ *   - reject_draft                  : Reject a draft
  *   - send_teams_notification       : Send Teams alert to a collections team member
+ *   - get_customer_contacts         : A customer's billing and escalation contacts
+ *   - get_contact_preferences       : A customer's do-not-contact flags, time zone and locale
+ *   - update_contact_preferences    : Set do-not-contact / cease-communication, time zone or locale
  *   - record_promise_to_pay         : Record a customer payment promise in ERP
+ *   - open_dispute                  : Open a dispute on an invoice
+ *   - update_dispute                : Change a dispute's status, owner or amount, or add a note
+ *   - resolve_dispute               : Close a dispute with its outcome
+ *   - list_disputes                 : A customer's disputes
  */
 
 import * as dotenv from 'dotenv';
-import { AzureOpenAI } from 'openai';
-import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
 import type {
   ChatCompletionMessageParam,
   ChatCompletionTool,
   ChatCompletionMessageToolCall,
 } from 'openai/resources';
 import { CollectionsAgent } from '../agents/collectionsAgent';
+import { LLMOutputError, LLMProvider, getLLMProvider, parseJsonReply } from '../llm';
+import type { JsonSchema } from '../llm';
+import { describeRiskFactorWeights } from '../services/riskFactors';
+import { DISPUTE_REASONS, DISPUTE_RESOLUTIONS, DISPUTE_STATUSES } from '../services/disputeService';
+import { DRAFT_STATUSES } from '../services/approvalService';
+import { DUNNING_STAGES } from '../services/dunningTemplateService';
+import type {
+  DisputeReason,
+  DisputeResolution,
+  DisputeStatus,
+  DraftStatus,
+  DunningStage,
+  PromiseChannel,
+} from '../types';
 
 dotenv.config();
 
@@ -35,7 +59,7 @@ function buildSystemPrompt(userEmail: string): string {
 You help collections specialists prioritize accounts, understand risk, and take action.
 
 The current user's email address is: ${userEmail}
-When the user says "send to my email" or "draft for me to review", use this email address as the recipient.
+When the user says "send to my email", use this email address as the recipient.
 
 You have access to tools that connect to Dynamics 365 (via MCP server) and Microsoft 365.
 Always use tools to fetch live data — do not make up customer names, balances, or risk scores.
@@ -44,15 +68,34 @@ When presenting results:
 - Use clear formatting with customer name, ID (shortened), risk level, and balance
 - For risk levels: HIGH = urgent action needed, MEDIUM = payment plan, LOW = reminder
 - Include next-step recommendations from the risk analysis
-- Confirm when emails / Teams messages have been sent and to whom
+- Confirm when Teams messages have been sent and to whom
 - Be concise: summary first, details on request
-
-When the user asks to "draft" or "send for review", always send to the user's own email
-(${userEmail}) so they can review before forwarding to customers.
+- When a customer contests an invoice, open a dispute rather than chasing it — disputed
+  amounts are left out of dunning emails, payment plans and the aging risk score until resolved
+
+Customer emails — dunning emails and payment plans — are created as drafts. Unless
+OUTBOUND_APPROVAL=auto they wait in an approval queue: report the draft ID and that it is
+pending approval, not that it was sent. Only call approve_draft or reject_draft when the user
+explicitly asks to; the decision is recorded under ${userEmail}.
+Leave recipient_email out unless the user names a recipient: emails then go to the customer's
+billing contact from the ERP, and firm follow-ups to its escalation contact. Use
+get_customer_contacts to say who that is. Dunning emails are written from a template per stage:
+friendly-reminder, second-notice (the default), final-demand and pre-legal. Only pick a later
+stage when the user asks for it or the account's history shows the earlier ones were sent. Dunning
+emails carry a PDF statement of account listing each open invoice with its number, dates, amount
+and days overdue, so customers can see which invoices are meant. Emails and Teams messages are written in the
+customer's language (English, German, French or Spanish); set it with update_contact_preferences
+when a customer asks for another one.
+
+Every email and Teams message passes a compliance policy before it goes out: do-not-contact
+and cease-communication flags, a contact frequency cap, quiet hours in the customer's time zone,
+a required disclosure and a check for threatening language. A draft it stops has status blocked —
+report the reasons and do not try to get around them. When a customer asks not to be contacted,
+record it with update_contact_preferences.
 
 IMPORTANT — avoid redundant tool calls:
 - get_prioritized_customers already returns COMPLETE risk data for each customer: risk score,
-  risk level, all three factor breakdowns (aging, payment history, promise keeping), and the
+  risk level, the weighted risk factor breakdown (${describeRiskFactorWeights()}), and the
   AI-generated recommendation. Do NOT call analyze_customer_risk separately after calling
   get_prioritized_customers — all the data you need is already in the response.
 - If fewer customers are returned than requested (e.g. 3 instead of 5), it means fewer
@@ -72,8 +115,8 @@ const TOOLS: ChatCompletionTool[] = [
       description:
         'Get all customers ranked by combined risk score and outstanding balance. ' +
         'Returns the top N customers with COMPLETE data: customer names, outstanding balances, ' +
-        'risk levels, risk scores, all three factor breakdowns (aging 50%, payment history 30%, ' +
-        'promise keeping 20%), and AI-generated next-step recommendations. ' +
+        'risk levels, risk scores, the weighted risk factor breakdown ' +
+        `(${describeRiskFactorWeights()}), and AI-generated next-step recommendations. ` +
         'This tool already includes everything analyze_customer_risk returns — do NOT call ' +
         'analyze_customer_risk again for customers already returned by this tool. ' +
         'If fewer customers are returned than requested, the ERP system has fewer customers ' +
@@ -98,8 +141,8 @@ const TOOLS: ChatCompletionTool[] = [
       name: 'analyze_customer_risk',
       description:
         'Perform a detailed risk analysis for a single customer. Returns risk score, ' +
-        'risk level, the three weighted factor breakdowns (aging, payment history, ' +
-        'promise keeping), and an AI-generated recommendation for next steps.',
+        'risk level, the weighted risk factor breakdown ' +
+        `(${describeRiskFactorWeights()}), and an AI-generated recommendation for next steps.`,
       parameters: {
         type: 'object',
         properties: {
@@ -112,14 +155,42 @@ const TOOLS: ChatCompletionTool[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'get_risk_trend',
+      description:
+        'Show how a customer\'s risk score has changed over time. Returns whether the account ' +
+        'is worsening, improving or stable, the score change versus last week, which risk ' +
+        'factors drove the change (with before/after descriptions), and the daily score history. ' +
+        'Use for questions like "is this account getting worse?" or "why did the risk go up?".',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+          days: {
+            type: 'number',
+            description: 'How many days of history to return. Default: 90.',
+          },
+        },
+        required: ['customer_id'],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
       name: 'send_dunning_email',
       description:
-        'Draft a personalized AI-generated dunning email for a customer and send it to ' +
-        'the specified email address. When the user wants to review before sending to the ' +
-        'customer, use the user\'s own email as recipient_email.',
+        'Draft a personalized AI-generated dunning email for a customer, addressed to the ' +
+        'given email address or else the customer\'s billing contact, written from the template for the stage. ' +
+        'A PDF statement of account listing each open invoice is attached. ' +
+        'The draft waits in the approval queue (status pending) ' +
+        'unless approval is switched off, in which case it is sent (status sent). Status blocked ' +
+        'means the compliance policy stopped it; the reasons are returned.',
       parameters: {
         type: 'object',
         properties: {
@@ -129,10 +200,16 @@ const TOOLS: ChatCompletionTool[] = [
           },
           recipient_email: {
             type: 'string',
-            description: 'Email address to send the dunning email to',
+            description: 'Email address the dunning email is for; omit for the billing contact',
+          },
+          stage: {
+            type: 'string',
+            enum: DUNNING_STAGES,
+            description: 'How far the account has escalated; default second-notice. final-demand and pre-legal ' +
+              'go to the escalation contact when no recipient is given',
           },
         },
-        required: ['customer_id', 'recipient_email'],
+        required: ['customer_id'],
       },
     },
   },
@@ -141,8 +218,8 @@ const TOOLS: ChatCompletionTool[] = [
     function: {
       name: 'propose_payment_plan',
       description:
-        'Create a tailored payment plan with amortization schedule for a customer ' +
-        'and send it as an HTML email to the specified address.',
+        'Create a tailored payment plan with amortization schedule for a customer as an ' +
+        'HTML email draft to the given address or the billing contact, queued for approval like send_dunning_email.',
       parameters: {
         type: 'object',
         properties: {
@@ -152,14 +229,113 @@ const TOOLS: ChatCompletionTool[] = [
           },
           recipient_email: {
             type: 'string',
-            description: 'Email address to send the payment plan to',
+            description: 'Email address the payment plan is for; omit for the billing contact',
           },
           months: {
             type: 'number',
             description: 'Number of installment months. Default: 6.',
           },
         },
-        required: ['customer_id', 'recipient_email'],
+        required: ['customer_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_drafts',
+      description:
+        'List customer email drafts, newest first — by default those pending approval. ' +
+        'Returns each draft\'s ID, customer, recipient, subject, body, status and audit trail.',
+      parameters: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'string',
+            enum: DRAFT_STATUSES,
+            description: 'Only drafts in this status. Default: pending.',
+          },
+          customer_id: {
+            type: 'string',
+            description: 'Only drafts for this customer',
+          },
+        },
+        required: [],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'edit_draft',
+      description:
+        'Change the recipient, subject or HTML body of a draft before it is approved.',
+      parameters: {
+        type: 'object',
+        properties: {
+          draft_id: {
+            type: 'string',
+            description: 'The draft ID',
+          },
+          recipient_email: {
+            type: 'string',
+            description: 'New recipient',
+          },
+          subject: {
+            type: 'string',
+            description: 'New subject',
+          },
+          body: {
+            type: 'string',
+            description: 'New HTML body',
+          },
+        },
+        required: ['draft_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'approve_draft',
+      description:
+        'Approve a draft and send it to its recipient. Only use when the user explicitly ' +
+        'approves; the approval is recorded under the user\'s name.',
+      parameters: {
+        type: 'object',
+        properties: {
+          draft_id: {
+            type: 'string',
+            description: 'The draft ID',
+          },
+          comment: {
+            type: 'string',
+            description: 'Optional approval comment',
+          },
+        },
+        required: ['draft_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'reject_draft',
+      description:
+        'Reject a draft so it is never sent. The rejection is recorded under the user\'s name.',
+      parameters: {
+        type: 'object',
+        properties: {
+          draft_id: {
+            type: 'string',
+            description: 'The draft ID',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why the draft was rejected',
+          },
+        },
+        required: ['draft_id'],
       },
     },
   },
@@ -169,7 +345,8 @@ const TOOLS: ChatCompletionTool[] = [
       name: 'send_teams_notification',
       description:
         'Send a Teams message to a collections team member alerting them about a ' +
-        'high-priority customer account that needs immediate attention.',
+        'high-priority customer account that needs immediate attention. Fails with the ' +
+        'reasons when the compliance policy blocks it.',
       parameters: {
         type: 'object',
         properties: {
@@ -186,13 +363,92 @@ const TOOLS: ChatCompletionTool[] = [
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'get_customer_contacts',
+      description:
+        'Get the people at a customer from the ERP — name, email, phone, job title, role, preferred ' +
+        'channel and language — and the billing and escalation contacts emails go to by default.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+        },
+        required: ['customer_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'get_contact_preferences',
+      description:
+        'Get a customer\'s contact restrictions: do-not-contact and cease-communication flags, ' +
+        'why they were set, the time zone quiet hours are applied in and the locale emails are written in.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+        },
+        required: ['customer_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_contact_preferences',
+      description:
+        'Set or clear a customer\'s do-not-contact or cease-communication flag, or set their time ' +
+        'zone or the locale their emails are written in. Use when a customer asks not to be contacted or to stop collection communications. ' +
+        'Flagged customers get no emails or Teams messages until the flag is cleared.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+          do_not_contact: {
+            type: 'boolean',
+            description: 'No collections contact of any kind',
+          },
+          cease_communication: {
+            type: 'boolean',
+            description: 'The customer has asked in writing that collection communications stop',
+          },
+          time_zone: {
+            type: 'string',
+            description: 'IANA time zone for quiet hours, e.g. "America/Chicago"',
+          },
+          locale: {
+            type: 'string',
+            description: 'Locale for emails and Teams messages: English, German, French or Spanish, e.g. "de-DE"',
+          },
+          reason: {
+            type: 'string',
+            description: 'Why, e.g. "Customer request by phone"',
+          },
+        },
+        required: ['customer_id'],
+      },
+    },
+  },
   {
     type: 'function',
     function: {
       name: 'record_promise_to_pay',
       description:
         'Record a customer payment promise in the ERP system. Use when a customer ' +
-        'has verbally committed to pay by a specific date.',
+        'has committed to pay by a specific date. The promise is tracked and later ' +
+        'reconciled against payments as kept, partially kept, or broken.',
       parameters: {
         type: 'object',
         properties: {
@@ -202,7 +458,7 @@ const TOOLS: ChatCompletionTool[] = [
           },
           amount: {
             type: 'number',
-            description: 'Promised payment amount in dollars',
+            description: 'Promised payment amount in the currency the customer is invoiced in',
           },
           date: {
             type: 'string',
@@ -212,11 +468,158 @@ const TOOLS: ChatCompletionTool[] = [
             type: 'string',
             description: 'Additional context about the promise',
           },
+          channel: {
+            type: 'string',
+            enum: ['phone', 'email', 'teams', 'portal', 'other'],
+            description: 'Channel the promise was made through. Default: other.',
+          },
+          collector: {
+            type: 'string',
+            description: 'Name or email of the collector who took the promise',
+          },
         },
         required: ['customer_id', 'amount', 'date'],
       },
     },
   },
+  {
+    type: 'function',
+    function: {
+      name: 'open_dispute',
+      description:
+        'Open a dispute on one of a customer\'s open invoices when they contest it. The disputed ' +
+        'amount is held out of dunning emails, payment plans and the aging risk score until the ' +
+        'dispute is resolved, and a note is written to the ERP.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+          invoice_id: {
+            type: 'string',
+            description: 'The invoice ID or invoice number',
+          },
+          reason: {
+            type: 'string',
+            enum: DISPUTE_REASONS,
+            description: 'Why the customer contests the invoice',
+          },
+          amount: {
+            type: 'number',
+            description: 'Amount contested, in the invoice currency. Default: everything outstanding on the invoice.',
+          },
+          owner: {
+            type: 'string',
+            description: 'Who will work the dispute (name or email)',
+          },
+          description: {
+            type: 'string',
+            description: 'What the customer says is wrong',
+          },
+        },
+        required: ['customer_id', 'invoice_id', 'reason'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'update_dispute',
+      description:
+        'Update an unresolved dispute: move it to under-review, reassign it, correct the reason ' +
+        'or amount, or add a progress note. Use resolve_dispute to close it.',
+      parameters: {
+        type: 'object',
+        properties: {
+          dispute_id: {
+            type: 'string',
+            description: 'The dispute ID',
+          },
+          status: {
+            type: 'string',
+            enum: ['open', 'under-review'],
+            description: 'New status',
+          },
+          owner: {
+            type: 'string',
+            description: 'New owner (name or email)',
+          },
+          reason: {
+            type: 'string',
+            enum: DISPUTE_REASONS,
+            description: 'Corrected reason',
+          },
+          amount: {
+            type: 'number',
+            description: 'Corrected disputed amount, in the invoice currency',
+          },
+          note: {
+            type: 'string',
+            description: 'Progress note to add',
+          },
+        },
+        required: ['dispute_id'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'resolve_dispute',
+      description:
+        'Resolve a dispute. "credited" credits the disputed amount in full, "partially-credited" ' +
+        'needs credit_amount, "rejected" means the charge stands and "withdrawn" means the ' +
+        'customer dropped it. Anything not credited becomes collectible again.',
+      parameters: {
+        type: 'object',
+        properties: {
+          dispute_id: {
+            type: 'string',
+            description: 'The dispute ID',
+          },
+          resolution: {
+            type: 'string',
+            enum: DISPUTE_RESOLUTIONS,
+            description: 'How the dispute ended',
+          },
+          credit_amount: {
+            type: 'number',
+            description: 'Credit granted, in the invoice currency',
+          },
+          notes: {
+            type: 'string',
+            description: 'Resolution notes',
+          },
+        },
+        required: ['dispute_id', 'resolution'],
+      },
+    },
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_disputes',
+      description:
+        'List a customer\'s invoice disputes with reason, amount, owner, status and resolution.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_id: {
+            type: 'string',
+            description: 'The customer ID',
+          },
+          status: {
+            type: 'string',
+            enum: DISPUTE_STATUSES,
+            description: 'Only disputes in this status. Default: all.',
+          },
+        },
+        required: ['customer_id'],
+      },
+    },
+  },
 ];
 
 // ---------------------------------------------------------------------------
@@ -227,53 +630,39 @@ export type ToolCallCallback = (toolName: string, args: Record<string, unknown>)
 
 export class CollectionsChat {
   private agent: CollectionsAgent;
-  private client: AzureOpenAI;
-  private deploymentName: string;
+  private llm: LLMProvider;
   private history: ChatCompletionMessageParam[];
   private onToolCall?: ToolCallCallback;
-
-  constructor(onToolCall?: ToolCallCallback) {
-    this.agent = new CollectionsAgent();
+  private userEmail: string;
+
+  constructor(
+    onToolCall?: ToolCallCallback,
+    llm: LLMProvider = getLLMProvider(),
+    agent: CollectionsAgent = new CollectionsAgent(undefined, llm),
+  ) {
+    this.llm = llm;
+    this.agent = agent;
     this.onToolCall = onToolCall;
 
-    const endpoint    = process.env.AZURE_OPENAI_ENDPOINT    ?? '';
-    const apiKey      = process.env.AZURE_OPENAI_API_KEY     ?? '';
-    const apiVersion  = process.env.AZURE_OPENAI_API_VERSION ?? '2025-01-01-preview';
-    this.deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME ?? 'gpt-5';
-
-    if (!apiKey) {
-      const credential        = new DefaultAzureCredential();
-      const azureADTokenProvider = getBearerTokenProvider(
-        credential,
-        'https://cognitiveservices.azure.com/.default',
-      );
-      this.client = new AzureOpenAI({ endpoint, azureADTokenProvider, deployment: this.deploymentName, apiVersion });
-    } else {
-      this.client = new AzureOpenAI({ endpoint, apiKey, deployment: this.deploymentName, apiVersion });
-    }
-
-    const userEmail = process.env.GRAPH_USER_EMAIL ?? 'your-email@example.com';
-    this.history = [{ role: 'system', content: buildSystemPrompt(userEmail) }];
+    this.userEmail = process.env.GRAPH_USER_EMAIL ?? 'your-email@example.com';
+    this.history = [{ role: 'system', content: buildSystemPrompt(this.userEmail) }];
   }
 
   /**
    * Send a user message and get an assistant response.
    * The method runs an agentic tool-call loop until the model produces a final text response.
+   * Tool calls whose arguments don't fit the tool's parameters are not run; the
+   * model is told what was wrong and gets one round to correct them, after
+   * which an LLMOutputError is thrown.
    */
   async sendMessage(userMessage: string): Promise<string> {
     this.history.push({ role: 'user', content: userMessage });
 
     const MAX_ITERATIONS = 15;
+    let repaired = false;
 
     for (let i = 0; i < MAX_ITERATIONS; i++) {
-      const response = await this.client.chat.completions.create({
-        model:        this.deploymentName,
-        messages:     this.history,
-        tools:        TOOLS,
-        tool_choice:  'auto',
-      });
-
-      const message = response.choices[0].message;
+      const message = await this.llm.complete({ messages: this.history, tools: TOOLS });
       this.history.push(message as ChatCompletionMessageParam);
 
       // No tool calls → final text response
@@ -281,29 +670,55 @@ export class CollectionsChat {
         return message.content ?? '';
       }
 
-      // Execute all requested tool calls and feed results back
-      for (const toolCall of message.tool_calls) {
-        const args = JSON.parse(toolCall.function.arguments) as Record<string, unknown>;
-        this.onToolCall?.(toolCall.function.name, args);
-
-        let result: unknown;
+      const calls = message.tool_calls.map(toolCall => {
         try {
-          result = await this.executeTool(toolCall.function.name, args);
+          return { toolCall, args: parseToolArguments(toolCall) };
         } catch (err: unknown) {
-          result = { error: err instanceof Error ? err.message : String(err) };
+          if (!(err instanceof LLMOutputError)) throw err;
+          return { toolCall, invalid: err };
+        }
+      });
+      const invalid = calls.find(call => call.invalid)?.invalid;
+      if (invalid && repaired) {
+        // Every tool call needs a result for the history to stay usable
+        for (const { toolCall } of calls) {
+          this.pushToolResult(toolCall.id, { error: 'Not run: the tool calls were still invalid after a correction' });
         }
+        throw invalid;
+      }
+      repaired ||= invalid !== undefined;
 
-        this.history.push({
-          role:         'tool',
-          tool_call_id: toolCall.id,
-          content:      JSON.stringify(result),
-        } as ChatCompletionMessageParam);
+      // Execute all requested tool calls and feed results back
+      for (const { toolCall, args, invalid: error } of calls) {
+        let result: unknown;
+        if (error) {
+          result = {
+            error: `Invalid arguments for ${toolCall.function.name}: ${error.issues.join('; ')}. ` +
+              'Call the tool again with corrected arguments.',
+          };
+        } else {
+          this.onToolCall?.(toolCall.function.name, args);
+          try {
+            result = await this.executeTool(toolCall.function.name, args);
+          } catch (err: unknown) {
+            result = { error: err instanceof Error ? err.message : String(err) };
+          }
+        }
+        this.pushToolResult(toolCall.id, result);
       }
     }
 
     return 'I reached the maximum number of steps. Please try a more specific request.';
   }
 
+  private pushToolResult(toolCallId: string, result: unknown): void {
+    this.history.push({
+      role:         'tool',
+      tool_call_id: toolCallId,
+      content:      JSON.stringify(result),
+    } as ChatCompletionMessageParam);
+  }
+
   // ---------------------------------------------------------------------------
   // Tool execution
   // ---------------------------------------------------------------------------
@@ -315,27 +730,73 @@ export class CollectionsChat {
     switch (name) {
       case 'get_prioritized_customers': {
         const topN = (args.top_n as number) || 5;
-        const all  = await this.agent.prioritizeCollectionEfforts();
-        return all.slice(0, topN);
+        return this.agent.prioritizeCollectionEfforts(topN);
       }
 
       case 'analyze_customer_risk':
         return this.agent.analyzeCustomerRisk(args.customer_id as string);
 
-      case 'send_dunning_email':
-        await this.agent.sendDunningEmail(
+      case 'get_risk_trend':
+        return this.agent.getRiskTrend(args.customer_id as string, args.days as number | undefined);
+
+      case 'send_dunning_email': {
+        const draft = await this.agent.sendDunningEmail(
           args.customer_id  as string,
-          args.recipient_email as string,
+          args.recipient_email as string | undefined,
+          undefined,
+          undefined,
+          args.stage as DunningStage | undefined,
         );
-        return { success: true, sentTo: args.recipient_email };
+        return {
+          success: draft.status !== 'blocked',
+          draftId: draft.draftId,
+          status: draft.status,
+          to: draft.to,
+          subject: draft.subject,
+          template: draft.template,
+          statementInvoices: draft.statement?.lines.length ?? 0,
+          compliance: draft.compliance,
+        };
+      }
 
-      case 'propose_payment_plan':
-        await this.agent.proposePaymentPlan(
+      case 'propose_payment_plan': {
+        const draft = await this.agent.proposePaymentPlan(
           args.customer_id    as string,
-          args.recipient_email as string,
+          args.recipient_email as string | undefined,
           (args.months as number) || 6,
         );
-        return { success: true, sentTo: args.recipient_email, months: (args.months as number) || 6 };
+        return {
+          success: draft.status !== 'blocked',
+          draftId: draft.draftId,
+          status: draft.status,
+          to: draft.to,
+          months: (args.months as number) || 6,
+          compliance: draft.compliance,
+        };
+      }
+
+      case 'list_drafts':
+        return this.agent.listDrafts({
+          status:     (args.status as DraftStatus | undefined) ?? 'pending',
+          customerId: args.customer_id as string | undefined,
+        });
+
+      case 'edit_draft':
+        return this.agent.editDraft(
+          args.draft_id as string,
+          {
+            to:      args.recipient_email as string | undefined,
+            subject: args.subject         as string | undefined,
+            body:    args.body            as string | undefined,
+          },
+          this.userEmail,
+        );
+
+      case 'approve_draft':
+        return this.agent.approveDraft(args.draft_id as string, this.userEmail, args.comment as string | undefined);
+
+      case 'reject_draft':
+        return this.agent.rejectDraft(args.draft_id as string, this.userEmail, args.reason as string | undefined);
 
       case 'send_teams_notification':
         await this.agent.sendTeamsFollowUp(
@@ -344,14 +805,69 @@ export class CollectionsChat {
         );
         return { success: true, sentTo: args.recipient_email };
 
-      case 'record_promise_to_pay':
-        await this.agent.recordPromiseToPay(
+      case 'get_customer_contacts':
+        return this.agent.getCustomerContacts(args.customer_id as string);
+
+      case 'get_contact_preferences':
+        return (await this.agent.getContactPreferences(args.customer_id as string))
+          ?? { customerId: args.customer_id, doNotContact: false, ceaseCommunication: false };
+
+      case 'update_contact_preferences':
+        return this.agent.updateContactPreferences(
+          args.customer_id as string,
+          {
+            doNotContact:       args.do_not_contact      as boolean | undefined,
+            ceaseCommunication: args.cease_communication as boolean | undefined,
+            timeZone:           args.time_zone           as string | undefined,
+            locale:             args.locale              as string | undefined,
+            reason:             args.reason              as string | undefined,
+          },
+          this.userEmail,
+        );
+
+      case 'record_promise_to_pay': {
+        const promise = await this.agent.recordPromiseToPay(
           args.customer_id as string,
           args.amount      as number,
           args.date        as string,
           (args.notes as string) || '',
+          args.channel     as PromiseChannel | undefined,
+          args.collector   as string | undefined,
+        );
+        return { success: true, promiseId: promise.promiseId };
+      }
+
+      case 'open_dispute':
+        return this.agent.openDispute(
+          args.customer_id as string,
+          args.invoice_id  as string,
+          args.reason      as DisputeReason,
+          {
+            amount:      args.amount      as number | undefined,
+            owner:       args.owner       as string | undefined,
+            description: args.description as string | undefined,
+          },
         );
-        return { success: true };
+
+      case 'update_dispute':
+        return this.agent.updateDispute(args.dispute_id as string, {
+          status: args.status as 'open' | 'under-review' | undefined,
+          owner:  args.owner  as string | undefined,
+          reason: args.reason as DisputeReason | undefined,
+          amount: args.amount as number | undefined,
+          note:   args.note   as string | undefined,
+        });
+
+      case 'resolve_dispute':
+        return this.agent.resolveDispute(
+          args.dispute_id    as string,
+          args.resolution    as DisputeResolution,
+          args.notes         as string | undefined,
+          args.credit_amount as number | undefined,
+        );
+
+      case 'list_disputes':
+        return this.agent.listDisputes(args.customer_id as string, args.status as DisputeStatus | undefined);
 
       default:
         throw new Error(`Unknown tool: ${name}`);
@@ -363,3 +879,18 @@ export class CollectionsChat {
     await this.agent.close();
   }
 }
+
+/**
+ * A tool call's arguments, checked against the tool's parameter schema.
+ * Throws LLMOutputError for an unknown tool, arguments that aren't a JSON
+ * object, or ones that don't fit the parameters.
+ */
+function parseToolArguments(toolCall: ChatCompletionMessageToolCall): Record<string, unknown> {
+  const { name, arguments: raw } = toolCall.function;
+  const tool = TOOLS.find(t => t.function.name === name);
+  if (!tool) {
+    throw new LLMOutputError('schema', [`unknown tool "${name}"; use one of ${TOOLS.map(t => t.function.name).join(', ')}`], raw);
+  }
+  const schema = (tool.function.parameters ?? { type: 'object' }) as JsonSchema;
+  return parseJsonReply<Record<string, unknown>>(raw.trim() || '{}', schema);
+}
@@ -9,7 +9,15 @@
  */
 
 import path from 'path';
-import { ARAgingData, PaymentHistory } from '../types';
+import {
+  ARAgingData,
+  CustomerAccountsResult,
+  CustomerContact,
+  PaymentHistory,
+  PaymentIngestionResult,
+  PaymentRecord,
+} from '../types';
+import type { PaymentFileFormat } from '../services/paymentImportService';
 
 // ---------------------------------------------------------------------------
 // Minimal MCP SDK type definitions (runtime resolved via require)
@@ -112,11 +120,34 @@ export class ERPConnector {
     return this.callTool<string[]>('get_customers_with_outstanding_balance', {});
   }
 
+  /**
+   * Fetch AR aging and payment history for many customers in one call —
+   * the given IDs, or every customer with an outstanding balance.
+   */
+  async getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult> {
+    return this.callTool<CustomerAccountsResult>('get_customer_accounts', customerIds ? { customerIds } : {});
+  }
+
+  /** Fetch the contacts at a customer, each with its collections role. */
+  async getCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+    return this.callTool<CustomerContact[]>('get_customer_contacts', { customerId });
+  }
+
   /** Append a collections note to the customer record in the ERP. */
   async updateCustomerNotes(customerId: string, note: string): Promise<void> {
     await this.callTool<{ success: boolean }>('update_customer_notes', { customerId, note });
   }
 
+  /** Record received payments for cash application against open invoices. */
+  async recordPayments(payments: PaymentRecord[]): Promise<PaymentIngestionResult> {
+    return this.callTool<PaymentIngestionResult>('record_payments', { payments });
+  }
+
+  /** Import received payments from a CSV, BAI2 or camt.053 file's content. */
+  async importPaymentFile(format: PaymentFileFormat, content: string): Promise<PaymentIngestionResult> {
+    return this.callTool<PaymentIngestionResult>('import_payment_file', { format, content });
+  }
+
   /** Gracefully shut down the MCP client and the spawned server process. */
   async close(): Promise<void> {
     if (this.mcpClient) {
@@ -1,7 +1,7 @@
 import { Client } from '@microsoft/microsoft-graph-client';
 import { InteractiveBrowserCredential } from '@azure/identity';
 import { TokenCredentialAuthenticationProvider } from '@microsoft/microsoft-graph-client/authProviders/azureTokenCredentials';
-import { CRMNote } from '../types';
+import { CRMNote, EmailAttachment } from '../types';
 
 export class GraphConnector {
   private client: Client;
@@ -31,8 +31,15 @@ export class GraphConnector {
   /**
    * Send email via Microsoft Graph (Delegated authentication)
    * Email will be sent from the signed-in user's mailbox
+   * Attachments go inline with the message, so each must stay under Graph's 3 MB limit
    */
-  async sendEmail(to: string, subject: string, body: string, from?: string): Promise<void> {
+  async sendEmail(
+    to: string,
+    subject: string,
+    body: string,
+    from?: string,
+    attachments: EmailAttachment[] = []
+  ): Promise<void> {
     try {
       const message = {
         subject,
@@ -47,6 +54,12 @@ export class GraphConnector {
             },
           },
         ],
+        attachments: attachments.map(attachment => ({
+          '@odata.type': '#microsoft.graph.fileAttachment',
+          name: attachment.name,
+          contentType: attachment.contentType,
+          contentBytes: attachment.content.toString('base64'),
+        })),
       };
 
       // For delegated flow, use /me/sendMail - sends from signed-in user
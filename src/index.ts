@@ -1,5 +1,6 @@
 import * as dotenv from 'dotenv';
 import { CollectionsAgent } from './agents/collectionsAgent';
+import { formatCurrency } from './services/currencyService';
 
 // Load environment variables
 dotenv.config();
@@ -39,12 +40,12 @@ async function main() {
 
     // Example 2: Prioritize collection efforts
     console.log('Example 2: Prioritizing collection efforts...');
-    const prioritizedCustomers = await agent.prioritizeCollectionEfforts();
+    const prioritizedCustomers = await agent.prioritizeCollectionEfforts(3);
     console.log(`Top 3 priority customers:`);
-    prioritizedCustomers.slice(0, 3).forEach((customer, index) => {
+    prioritizedCustomers.forEach((customer, index) => {
       console.log(`  ${index + 1}. ${customer.customerName} (${customer.customerId.substring(0, 8)}...)`);
       console.log(`     Risk: ${customer.riskScore.riskLevel}, Score: ${(customer.riskScore.score * 100).toFixed(1)}%`);
-      console.log(`     Outstanding: $${customer.totalOutstanding.toFixed(2)}, Priority: ${(customer.priority * 100).toFixed(1)}`);
+      console.log(`     Outstanding: ${formatCurrency(customer.totalOutstanding)}, Priority: ${(customer.priority * 100).toFixed(1)}`);
     });
     console.log();
 
@@ -53,7 +54,7 @@ async function main() {
     const promiseSummary = await agent.summarizeCustomerPromises(customerId);
     console.log(`Customer: ${promiseSummary.customerName}`);
     console.log(`Total Promises: ${promiseSummary.totalPromises}`);
-    console.log(`Fulfilled: ${promiseSummary.fulfilledPromises}, Broken: ${promiseSummary.brokenPromises}, Pending: ${promiseSummary.pendingPromises}`);
+    console.log(`Kept: ${promiseSummary.fulfilledPromises}, Partially kept: ${promiseSummary.partiallyKeptPromises}, Broken: ${promiseSummary.brokenPromises}, Pending: ${promiseSummary.pendingPromises}`);
     console.log(`Fulfillment Rate: ${(promiseSummary.fulfillmentRate * 100).toFixed(1)}%`);
     console.log(`Total Promised Amount: $${promiseSummary.totalPromisedAmount.toFixed(2)}`);
     console.log();
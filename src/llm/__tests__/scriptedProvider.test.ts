@@ -0,0 +1,38 @@
+import { describe, expect, it } from '@jest/globals';
+import { ScriptedLLMProvider } from '../scriptedProvider';
+import { LLMCompletionRequest } from '../llmProvider';
+
+function ask(text: string): LLMCompletionRequest {
+  return { messages: [{ role: 'system', content: 'You are helpful.' }, { role: 'user', content: text }] };
+}
+
+describe('ScriptedLLMProvider', () => {
+  it('answers with the first unused entry whose match is in the latest message', async () => {
+    const provider = new ScriptedLLMProvider([
+      { match: 'RISK', content: 'risk answer' },
+      { content: 'first fallback' },
+      { content: 'second fallback' },
+    ]);
+
+    expect((await provider.complete(ask('hello'))).content).toBe('first fallback');
+    expect((await provider.complete(ask('what is the risk?'))).content).toBe('risk answer');
+    expect((await provider.complete(ask('what is the risk?'))).content).toBe('second fallback');
+    await expect(provider.complete(ask('anything'))).rejects.toThrow('no scripted completion for "anything"');
+  });
+
+  it('reuses repeat entries and turns tool call arguments into JSON with generated IDs', async () => {
+    const provider = new ScriptedLLMProvider([
+      { repeat: true, toolCalls: [{ name: 'analyze_customer_risk', arguments: { customer_id: 'C001' } }] },
+    ]);
+
+    const first = await provider.complete(ask('go'));
+    const second = await provider.complete(ask('go'));
+
+    expect(first).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'analyze_customer_risk', arguments: '{"customer_id":"C001"}' } }],
+    });
+    expect(second.tool_calls?.[0].id).toBe('call_2');
+  });
+});
@@ -0,0 +1,141 @@
+import { afterAll, beforeAll, describe, expect, it, jest } from '@jest/globals';
+import { JsonSchema, LLMOutputError, completeValidated, parseJsonReply, validateJson } from '../structuredOutput';
+import { LLMCompletionRequest } from '../llmProvider';
+import { ScriptedCompletion, ScriptedLLMProvider } from '../scriptedProvider';
+
+const EMAIL: JsonSchema = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', minLength: 1 },
+    body: { type: 'string', minLength: 1 },
+    tone: { type: 'string', enum: ['reminder', 'firm'] },
+  },
+  required: ['subject', 'body'],
+};
+
+function ask(text: string): LLMCompletionRequest {
+  return { messages: [{ role: 'system', content: 'Reply in JSON.' }, { role: 'user', content: text }] };
+}
+
+/** The scripted provider, keeping every request it was sent. */
+function scripted(completions: ScriptedCompletion[]) {
+  const provider = new ScriptedLLMProvider(completions);
+  const requests: LLMCompletionRequest[] = [];
+  return {
+    name: provider.name,
+    requests,
+    complete: (request: LLMCompletionRequest) => {
+      requests.push(request);
+      return provider.complete(request);
+    },
+  };
+}
+
+// completeValidated warns on each rejected reply
+let warn: ReturnType<typeof jest.spyOn>;
+beforeAll(() => {
+  warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+afterAll(() => {
+  warn.mockRestore();
+});
+
+describe('validateJson', () => {
+  it('accepts a value that fits and lets optional properties be null', () => {
+    expect(validateJson({ subject: 'Overdue', body: 'Please pay', tone: null }, EMAIL)).toEqual([]);
+  });
+
+  it('reports one problem per offending path', () => {
+    expect(validateJson({ subject: ' ', tone: 'angry', extra: 1 }, EMAIL)).toEqual([
+      '$.body is required',
+      '$.subject must not be empty',
+      '$.tone must be one of reminder, firm',
+    ]);
+    expect(validateJson({ subject: 'x', body: 'y', extra: 1 }, { ...EMAIL, additionalProperties: false }))
+      .toEqual(['$.extra is not an allowed property']);
+    expect(validateJson([], EMAIL)).toEqual(['$ must be an object']);
+  });
+
+  it('checks numbers, booleans and array items', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        payments: { type: 'array', items: { type: 'integer', minimum: 1 } },
+        rate: { type: 'number' },
+        urgent: { type: 'boolean' },
+      },
+    };
+
+    expect(validateJson({ payments: [3, 0, 1.5], rate: Number.NaN, urgent: 'yes' }, schema)).toEqual([
+      '$.payments[1] must be at least 1',
+      '$.payments[2] must be a whole number',
+      '$.rate must be a number',
+      '$.urgent must be true or false',
+    ]);
+  });
+});
+
+describe('parseJsonReply', () => {
+  it('finds the first JSON object in fenced or surrounding text, skipping braces in strings', () => {
+    const reply = 'Here it is:\n```json\n{"subject": "Balance {overdue}", "body": "Pay \\"now\\""}\n```\n{"ignored": true}';
+
+    expect(parseJsonReply(reply, EMAIL)).toEqual({ subject: 'Balance {overdue}', body: 'Pay "now"' });
+  });
+
+  it('throws a parse error without an object and a schema error for the wrong shape', () => {
+    expect(() => parseJsonReply('No JSON here', EMAIL)).toThrow('Reply is not valid JSON: no JSON object found');
+    expect(() => parseJsonReply('{"subject": }', EMAIL)).toThrow(LLMOutputError);
+
+    try {
+      parseJsonReply('{"subject": "Hi"}', EMAIL);
+      throw new Error('expected a schema error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(LLMOutputError);
+      expect(error).toMatchObject({ kind: 'schema', issues: ['$.body is required'], output: '{"subject": "Hi"}' });
+    }
+  });
+});
+
+describe('completeValidated', () => {
+  const parse = (content: string) => parseJsonReply<{ subject: string; body: string }>(content, EMAIL);
+
+  it('returns a valid first reply without asking again', async () => {
+    const llm = scripted([{ content: '{"subject": "Hi", "body": "Pay"}' }]);
+
+    expect(await completeValidated(llm, ask('Write'), parse)).toEqual({ subject: 'Hi', body: 'Pay' });
+    expect(llm.requests).toHaveLength(1);
+  });
+
+  it('shows the model what was wrong and uses its corrected reply', async () => {
+    const llm = scripted([
+      { content: '{"subject": "Hi"}' },
+      { match: 'could not be used', content: '{"subject": "Hi", "body": "Pay"}' },
+    ]);
+
+    expect(await completeValidated(llm, ask('Write'), parse)).toEqual({ subject: 'Hi', body: 'Pay' });
+    const repair = llm.requests[1].messages;
+    expect(repair.slice(0, 2)).toEqual(ask('Write').messages);
+    expect(repair[2]).toEqual({ role: 'assistant', content: '{"subject": "Hi"}' });
+    expect(repair[3].content).toContain('Follow the requested format exactly.\nProblems:\n- $.body is required');
+  });
+
+  it('asks only for quoted amounts after an amount error, and fails when the second reply is rejected too', async () => {
+    const llm = scripted([{ repeat: true, content: 'You owe $999.' }]);
+    const checkAmounts = (content: string) => {
+      throw new LLMOutputError('amount', ['$999 is not an amount in the account data'], content);
+    };
+
+    await expect(completeValidated(llm, ask('Summarize'), checkAmounts)).rejects.toThrow(
+      'Reply quotes amounts not in the account data: $999 is not an amount in the account data');
+    expect(llm.requests).toHaveLength(2);
+    expect(llm.requests[1].messages[3].content).toContain('Only quote amounts exactly as given in the request.');
+  });
+
+  it('does not retry errors that are not about the reply', async () => {
+    const llm = scripted([{ repeat: true, content: 'anything' }]);
+
+    await expect(completeValidated(llm, ask('Write'), () => { throw new Error('store offline'); }))
+      .rejects.toThrow('store offline');
+    expect(llm.requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { AzureOpenAI } from 'openai';
+import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
+import type { LLMCompletionRequest, LLMMessage, LLMProvider } from './llmProvider';
+
+/**
+ * Azure OpenAI deployment, authenticated with AZURE_OPENAI_API_KEY or, when
+ * no key is set, Microsoft Entra ID. The client is created on first use so
+ * code paths that never call the model don't need an endpoint configured.
+ */
+export class AzureOpenAIProvider implements LLMProvider {
+  readonly name = 'Azure OpenAI';
+  private client: AzureOpenAI | undefined;
+  private deploymentName: string;
+
+  constructor(deploymentName: string = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-5') {
+    this.deploymentName = deploymentName;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMMessage> {
+    const response = await this.getClient().chat.completions.create({
+      model: this.deploymentName,
+      messages: request.messages,
+      ...(request.tools ? { tools: request.tools, tool_choice: 'auto' as const } : {}),
+      // max_completion_tokens for newer models (GPT-4o, GPT-4.5); temperature left at the default they require
+      ...(request.maxTokens ? { max_completion_tokens: request.maxTokens } : {}),
+    });
+
+    const message = response.choices[0]?.message;
+    return { role: 'assistant', content: message?.content ?? null, tool_calls: message?.tool_calls };
+  }
+
+  private getClient(): AzureOpenAI {
+    if (this.client) return this.client;
+
+    const endpoint = process.env.AZURE_OPENAI_ENDPOINT || '';
+    const apiKey = process.env.AZURE_OPENAI_API_KEY || '';
+    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2025-01-01-preview';
+
+    // Use Microsoft Entra ID if API key is not provided, otherwise use API key
+    if (!apiKey) {
+      const credential = new DefaultAzureCredential();
+      const azureADTokenProvider = getBearerTokenProvider(credential, 'https://cognitiveservices.azure.com/.default');
+      this.client = new AzureOpenAI({ endpoint, azureADTokenProvider, deployment: this.deploymentName, apiVersion });
+    } else {
+      this.client = new AzureOpenAI({ endpoint, apiKey, deployment: this.deploymentName, apiVersion });
+    }
+    return this.client;
+  }
+}
@@ -0,0 +1,52 @@
+import { AzureOpenAIProvider } from './azureOpenAIProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { RecordingLLMProvider, ScriptedLLMProvider } from './scriptedProvider';
+import type { LLMProvider } from './llmProvider';
+
+export type { LLMProvider, LLMCompletionRequest, LLMMessage } from './llmProvider';
+export type { ScriptedCompletion } from './scriptedProvider';
+export type { JsonSchema, LLMOutputErrorKind } from './structuredOutput';
+export { LLMOutputError, completeValidated, parseJsonReply, validateJson } from './structuredOutput';
+export { AzureOpenAIProvider, OpenAICompatibleProvider, RecordingLLMProvider, ScriptedLLMProvider };
+
+/**
+ * Create the provider configured by environment:
+ *   LLM_PROVIDER    : 'azure' (default), 'openai-compatible' or 'scripted'
+ *   LLM_BASE_URL    : OpenAI-compatible server (default http://localhost:11434/v1, Ollama)
+ *   LLM_MODEL       : model on that server (default llama3.1)
+ *   LLM_API_KEY     : key for that server, if it needs one
+ *   LLM_SCRIPT_FILE : recorded completions to replay with 'scripted'
+ *   LLM_RECORD_FILE : also write every completion here, for replay with 'scripted'
+ */
+export function createLLMProvider(): LLMProvider {
+  const backend = process.env.LLM_PROVIDER ?? 'azure';
+
+  let provider: LLMProvider;
+  switch (backend) {
+    case 'azure':
+      provider = new AzureOpenAIProvider();
+      break;
+    case 'openai-compatible':
+      provider = new OpenAICompatibleProvider();
+      break;
+    case 'scripted':
+      if (!process.env.LLM_SCRIPT_FILE) throw new Error('LLM_SCRIPT_FILE is required when LLM_PROVIDER=scripted');
+      provider = ScriptedLLMProvider.fromFile(process.env.LLM_SCRIPT_FILE);
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${backend}`);
+  }
+
+  return process.env.LLM_RECORD_FILE ? new RecordingLLMProvider(provider, process.env.LLM_RECORD_FILE) : provider;
+}
+
+let sharedProvider: LLMProvider | undefined;
+
+/**
+ * The provider shared by every service in the process, so a scripted
+ * conversation is consumed in one order and a recording lands in one file.
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!sharedProvider) sharedProvider = createLLMProvider();
+  return sharedProvider;
+}
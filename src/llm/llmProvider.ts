@@ -0,0 +1,26 @@
+import type {
+  ChatCompletionMessage,
+  ChatCompletionMessageParam,
+  ChatCompletionTool,
+} from 'openai/resources';
+
+export interface LLMCompletionRequest {
+  messages: ChatCompletionMessageParam[];
+  /** Functions the model may call; it decides whether to */
+  tools?: ChatCompletionTool[];
+  /** Upper bound on the reply length */
+  maxTokens?: number;
+}
+
+/** The assistant's reply: text, tool calls, or both. */
+export type LLMMessage = Pick<ChatCompletionMessage, 'role' | 'content' | 'tool_calls'>;
+
+/**
+ * A chat completion backend. Implementations share the OpenAI message and
+ * tool-call shapes so a conversation can move between providers unchanged.
+ */
+export interface LLMProvider {
+  /** Used in log messages, e.g. "Azure OpenAI" */
+  readonly name: string;
+  complete(request: LLMCompletionRequest): Promise<LLMMessage>;
+}
@@ -0,0 +1,36 @@
+import OpenAI from 'openai';
+import type { LLMCompletionRequest, LLMMessage, LLMProvider } from './llmProvider';
+
+/**
+ * Any server speaking the OpenAI chat completions API — Ollama, llama.cpp's
+ * llama-server, vLLM, LM Studio or OpenAI itself. Tool calls need a model
+ * that supports them (e.g. llama3.1 or qwen2.5 on Ollama).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(
+    baseURL: string = process.env.LLM_BASE_URL ?? 'http://localhost:11434/v1',
+    model: string = process.env.LLM_MODEL ?? 'llama3.1',
+    apiKey: string = process.env.LLM_API_KEY || 'not-needed',  // local servers ignore the key
+  ) {
+    this.name = `${model} at ${baseURL}`;
+    this.client = new OpenAI({ baseURL, apiKey });
+    this.model = model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMMessage> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      ...(request.tools ? { tools: request.tools, tool_choice: 'auto' as const } : {}),
+      // Local servers understand max_tokens rather than max_completion_tokens
+      ...(request.maxTokens ? { max_tokens: request.maxTokens } : {}),
+    });
+
+    const message = response.choices[0]?.message;
+    return { role: 'assistant', content: message?.content ?? null, tool_calls: message?.tool_calls };
+  }
+}
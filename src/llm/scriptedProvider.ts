@@ -0,0 +1,114 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { ChatCompletionMessageToolCall } from 'openai/resources';
+import type { LLMCompletionRequest, LLMMessage, LLMProvider } from './llmProvider';
+
+/**
+ * One recorded completion. `arguments` may be written as an object; tool call
+ * IDs are generated when left out.
+ */
+export interface ScriptedCompletion {
+  /** Only use this entry when the latest message contains this text (case-insensitive) */
+  match?: string;
+  /** Reuse the entry for every matching request instead of once */
+  repeat?: boolean;
+  content?: string | null;
+  toolCalls?: { id?: string; name: string; arguments?: string | Record<string, unknown> }[];
+  /** The latest message when the entry was recorded — for reference only */
+  prompt?: string;
+}
+
+/**
+ * Replays recorded completions and tool calls, so the chat loop and the
+ * services that call the model run offline and give the same answers every
+ * time. Each request takes the first unused entry, in file order, whose
+ * `match` is absent or found in the latest message. A request no entry
+ * answers fails like an unreachable model would.
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name: string;
+  private completions: ScriptedCompletion[];
+  private used = new Set<number>();
+  private nextCallId = 1;
+
+  constructor(completions: ScriptedCompletion[], name = 'Scripted LLM') {
+    this.completions = completions;
+    this.name = name;
+  }
+
+  /** Load a JSON array of ScriptedCompletion. */
+  static fromFile(file: string): ScriptedLLMProvider {
+    const parsed: unknown = JSON.parse(readFileSync(file, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error(`${file} must contain a JSON array of scripted completions`);
+    return new ScriptedLLMProvider(parsed as ScriptedCompletion[], `Scripted LLM (${path.basename(file)})`);
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMMessage> {
+    const latest = latestMessageText(request).toLowerCase();
+    const index = this.completions.findIndex((entry, i) =>
+      (entry.repeat || !this.used.has(i)) && (!entry.match || latest.includes(entry.match.toLowerCase())),
+    );
+    if (index === -1) {
+      throw new Error(`${this.name}: no scripted completion for "${excerpt(latestMessageText(request))}"`);
+    }
+    this.used.add(index);
+
+    const entry = this.completions[index];
+    const toolCalls: ChatCompletionMessageToolCall[] | undefined = entry.toolCalls?.map(call => ({
+      id: call.id ?? `call_${this.nextCallId++}`,
+      type: 'function',
+      function: {
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+      },
+    }));
+    return { role: 'assistant', content: entry.content ?? null, tool_calls: toolCalls?.length ? toolCalls : undefined };
+  }
+}
+
+/**
+ * Passes requests through to another provider and writes every completion to
+ * `file` in the ScriptedLLMProvider format, ready to replay.
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private file: string;
+  private recorded: ScriptedCompletion[] = [];
+
+  constructor(inner: LLMProvider, file: string) {
+    this.inner = inner;
+    this.file = file;
+    this.name = inner.name;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMMessage> {
+    const message = await this.inner.complete(request);
+
+    this.recorded.push({
+      prompt: excerpt(latestMessageText(request)),
+      content: message.content,
+      toolCalls: message.tool_calls?.map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      })),
+    });
+    const dir = path.dirname(this.file);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.file, JSON.stringify(this.recorded, null, 2));
+
+    return message;
+  }
+}
+
+/** Text of the last message in the request — the user prompt or tool result being answered. */
+function latestMessageText(request: LLMCompletionRequest): string {
+  const content = request.messages[request.messages.length - 1]?.content;
+  if (typeof content === 'string') return content;
+  return (content ?? []).map(part => ('text' in part ? part.text : '')).join('');
+}
+
+function excerpt(text: string): string {
+  return text.length > 200 ? `${text.substring(0, 200)}...` : text;
+}
@@ -0,0 +1,179 @@
+import type { LLMCompletionRequest, LLMProvider } from './llmProvider';
+
+/**
+ * The part of JSON Schema used for tool parameters and JSON replies: types,
+ * required properties, enums and nested objects and arrays.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  /** false = properties not listed are an error */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly (string | number)[];
+  minLength?: number;
+  minimum?: number;
+}
+
+/**
+ * What was wrong with a model reply:
+ *   parse  : not valid JSON
+ *   schema : JSON of the wrong shape, or tool arguments that don't fit the tool
+ *   amount : quotes amounts that aren't in the customer's account data
+ *   empty  : no text at all
+ */
+export type LLMOutputErrorKind = 'parse' | 'schema' | 'amount' | 'empty';
+
+const KIND_LABELS: Record<LLMOutputErrorKind, string> = {
+  parse:  'Reply is not valid JSON',
+  schema: 'Reply does not match the expected format',
+  amount: 'Reply quotes amounts not in the account data',
+  empty:  'Reply is empty',
+};
+
+/** A model reply or tool call that failed validation. */
+export class LLMOutputError extends Error {
+  readonly kind: LLMOutputErrorKind;
+  /** Each problem found, e.g. "$.subject must be a string" */
+  readonly issues: string[];
+  /** The reply as the model sent it */
+  readonly output: string;
+
+  constructor(kind: LLMOutputErrorKind, issues: string[], output: string) {
+    super(`${KIND_LABELS[kind]}: ${issues.join('; ')}`);
+    this.name = 'LLMOutputError';
+    this.kind = kind;
+    this.issues = issues;
+    this.output = output;
+  }
+}
+
+/** Problems with a value against a schema, one per offending path; none = valid. */
+export function validateJson(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const issues = (schema.required ?? [])
+        .filter(name => record[name] === undefined || record[name] === null)
+        .map(name => `${path}.${name} is required`);
+      for (const [name, property] of Object.entries(record)) {
+        if (properties[name]) {
+          // Optional properties may be sent as null to mean "not given"
+          if (property !== null || schema.required?.includes(name)) {
+            issues.push(...validateJson(property, properties[name], `${path}.${name}`));
+          }
+        } else if (schema.additionalProperties === false) {
+          issues.push(`${path}.${name} is not an allowed property`);
+        }
+      }
+      return issues;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      return schema.items ? value.flatMap((item, i) => validateJson(item, schema.items as JsonSchema, `${path}[${i}]`)) : [];
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.minLength !== undefined && value.trim().length < schema.minLength) return [`${path} must not be empty`];
+      return [];
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === 'integer' && !Number.isInteger(value)) return [`${path} must be a whole number`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be at least ${schema.minimum}`];
+      return [];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+    default:
+      return [];
+  }
+}
+
+/**
+ * The JSON object in a model reply, checked against a schema. The object may
+ * be wrapped in a Markdown code fence or surrounded by text; the first complete
+ * object is used. Throws LLMOutputError when there is none or it doesn't fit.
+ */
+export function parseJsonReply<T>(content: string, schema: JsonSchema): T {
+  const json = firstJsonObject(content);
+  if (json === undefined) throw new LLMOutputError('parse', ['no JSON object found'], content);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new LLMOutputError('parse', [error instanceof Error ? error.message : String(error)], content);
+  }
+
+  const issues = validateJson(value, schema);
+  if (issues.length > 0) throw new LLMOutputError('schema', issues, content);
+  return value as T;
+}
+
+/**
+ * Ask the model and check its reply with `parse`, which throws LLMOutputError
+ * for a reply that can't be used. Such a reply gets one repair round: the
+ * model is shown what was wrong and asked again, and the second reply must
+ * pass. Errors from the provider itself are not retried.
+ */
+export async function completeValidated<T>(
+  llm: LLMProvider,
+  request: LLMCompletionRequest,
+  parse: (content: string) => T,
+): Promise<T> {
+  const first = (await llm.complete(request)).content ?? '';
+  try {
+    return parse(first);
+  } catch (error) {
+    if (!(error instanceof LLMOutputError)) throw error;
+    console.warn(`${llm.name} reply rejected (${error.message}); asking for a corrected one`);
+
+    const retry = await llm.complete({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: 'assistant', content: first },
+        { role: 'user', content: repairPrompt(error) },
+      ],
+    });
+    return parse(retry.content ?? '');
+  }
+}
+
+/** What to tell the model after a rejected reply. */
+function repairPrompt(error: LLMOutputError): string {
+  return `Your previous reply could not be used. ${error.kind === 'amount'
+    ? 'Only quote amounts exactly as given in the request.'
+    : 'Follow the requested format exactly.'}\nProblems:\n${error.issues.map(issue => `- ${issue}`).join('\n')}\n` +
+    'Send the complete corrected reply and nothing else.';
+}
+
+/** Text of the first balanced {…} in `content`, skipping braces inside strings. */
+function firstJsonObject(content: string): string | undefined {
+  const start = content.indexOf('{');
+  if (start < 0) return undefined;
+
+  let depth = 0;
+  let inString = false;
+  for (let i = start; i < content.length; i++) {
+    const ch = content[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}' && --depth === 0) {
+      return content.slice(start, i + 1);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import path from 'path';
+import {
+  DynamicsBackend,
+  calculateARAgingFromDynamicsInvoices,
+  calculatePaymentHistoryFromRecords,
+} from '../dynamicsBackend';
+import { createODataClient } from '../odataRecorder';
+
+/**
+ * Recorded per-customer Web API responses for Fourth Coffee: three open USD
+ * invoices (1,200 current, 3,000 due 2026-05-01 and 4,500 due 2026-02-14),
+ * two payment tasks and two promise appointments.
+ */
+const FIXTURES = path.resolve(__dirname, '..', '__fixtures__');
+const API = 'https://contoso.crm.dynamics.com/api/data/v9.2';
+const CUSTOMER = '8f2c1a3e-4b5d-4e6f-9a0b-1c2d3e4f5a01';
+const TODAY = new Date('2026-06-30T00:00:00Z');
+
+const ENV = {
+  ERP_ODATA_MODE: 'replay',
+  ERP_ODATA_FIXTURES_DIR: FIXTURES,
+  ERP_API_ENDPOINT: API,
+  REPORTING_CURRENCY: 'USD',
+  ERP_BULK_FILTER_SIZE: '2',
+};
+const saved: Record<string, string | undefined> = {};
+
+beforeAll(() => {
+  for (const [key, value] of Object.entries(ENV)) {
+    saved[key] = process.env[key];
+    process.env[key] = value;
+  }
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+describe('Dynamics record calculations on replayed responses', () => {
+  const http = createODataClient('replay', FIXTURES, API);
+
+  it('ages the recorded invoices into buckets as of a fixed day', async () => {
+    const [account, invoices] = await Promise.all([
+      http.get(`${API}/accounts(${CUSTOMER})?$expand=owninguser($select=internalemailaddress,fullname),transactioncurrencyid($select=isocurrencycode)`),
+      http.get(
+        `${API}/invoices?$filter=_customerid_value eq ${CUSTOMER} and statecode eq 0` +
+        '&$select=invoiceid,name,totalamount,totallineitemamount,totalamountlessfreight,totaltax,datedelivered,duedate,statecode,statuscode,createdon' +
+        '&$expand=transactioncurrencyid($select=isocurrencycode)&$orderby=createdon desc&$top=500',
+      ),
+    ]);
+
+    const arData = calculateARAgingFromDynamicsInvoices(account.data, invoices.data.value, TODAY);
+
+    expect(arData).toMatchObject({
+      customerId: CUSTOMER,
+      customerName: 'Fourth Coffee',
+      totalOutstanding: 8700,
+      current: 1200,
+      days30: 0,
+      days60: 3000,
+      days90: 0,
+      days120Plus: 4500,
+      currency: 'USD',
+      collector: 'dana.collector@contoso.example',
+      creditLimit: 20000,
+      industry: 'Consulting',
+      customerSince: '2019-04-02T10:15:00Z',
+    });
+    expect(arData.invoices.map(inv => [inv.invoiceNumber, inv.daysOverdue])).toEqual([
+      ['INV-1001', 0],
+      ['INV-1002', 60],
+      ['INV-1003', 136],
+    ]);
+  });
+
+  it('derives payment metrics and promises from the recorded tasks and appointments', async () => {
+    const [tasks, appointments] = await Promise.all([
+      http.get(
+        `${API}/tasks?$filter=_regardingobjectid_value eq ${CUSTOMER}` +
+        '&$select=activityid,subject,actualend,description,statecode,statuscode&$orderby=actualend desc&$top=50',
+      ),
+      http.get(
+        `${API}/appointments?$filter=_regardingobjectid_value eq ${CUSTOMER}` +
+        '&$select=activityid,subject,createdon,scheduledend,description,statuscode,statecode&$top=50',
+      ),
+    ]);
+
+    const history = calculatePaymentHistoryFromRecords(CUSTOMER, tasks.data.value, appointments.data.value);
+
+    expect(history).toMatchObject({
+      totalTransactions: 2,
+      onTimePaymentRate: 0.5,
+      averagePaymentDays: 36,
+      lastPaymentDate: '2026-05-20T14:00:00Z',
+    });
+    expect(history.payments?.map(p => [p.paymentDate, p.amount])).toEqual([
+      ['2026-05-20T14:00:00Z', 1000],
+      ['2026-03-10T09:30:00Z', 500],
+    ]);
+    expect(history.promiseToPayHistory.map(p => [p.promisedAmount, p.promisedDate, p.status])).toEqual([
+      [1500, '2026-04-30T17:00:00Z', 'broken'],
+      [2000, '2026-07-15T17:00:00Z', undefined],
+    ]);
+  });
+});
+
+describe('DynamicsBackend in replay mode', () => {
+  it('totals line items and applies the recorded payments to the oldest invoice', async () => {
+    const arData = await new DynamicsBackend().getARAgingData(CUSTOMER);
+
+    expect(arData.invoices.map(inv => [inv.invoiceNumber, inv.amount, inv.amountPaid, inv.amountOutstanding])).toEqual([
+      ['INV-1001', 1200, 0, 1200],
+      ['INV-1002', 3000, 0, 3000],
+      ['INV-1003', 4500, 1500, 3000],
+    ]);
+    expect(arData.totalOutstanding).toBe(7200);
+  });
+
+  /**
+   * Bulk fixtures: Fourth Coffee (asked for in upper case) and Northwind
+   * (named in upper case on its invoices and tasks) in a first batch whose
+   * accounts and first line-item query each come in two pages, with the
+   * INV-1003 line-item query failing; a second batch whose invoice query fails.
+   */
+  it('loads customers in batches, following next links and matching GUIDs in any case', async () => {
+    const northwind = '3d7e9b20-1c4a-4f8e-b6d2-7a9c0e1f2b02';
+    const unavailable = 'c4a5b6d7-8e9f-4a0b-9c1d-2e3f4a5b6c03';
+
+    const result = await new DynamicsBackend().getCustomerAccounts([CUSTOMER.toUpperCase(), northwind, unavailable]);
+
+    expect(result.accounts.map(a => [a.customerId, a.arData.customerName])).toEqual([
+      [CUSTOMER.toUpperCase(), 'Fourth Coffee'],
+      [northwind, 'Northwind Traders'],
+    ]);
+    const [fourthCoffee, northwindTraders] = result.accounts;
+    // Line items from both pages; INV-1003 keeps its header amount less the 250 paid
+    expect(fourthCoffee.arData.invoices.map(inv => [inv.invoiceNumber, inv.amount, inv.amountOutstanding])).toEqual([
+      ['INV-1001', 1250, 1250],
+      ['INV-1003', 4500, 4250],
+    ]);
+    expect(fourthCoffee.paymentHistory).toMatchObject({ totalTransactions: 1, onTimePaymentRate: 1 });
+    expect(northwindTraders.arData.invoices.map(inv => [inv.invoiceNumber, inv.amount, inv.amountOutstanding])).toEqual([
+      ['INV-2001', 750, 450],
+    ]);
+    expect(northwindTraders.arData).toMatchObject({ totalOutstanding: 450, creditLimit: 5000, collector: 'lee.collector@contoso.example' });
+    expect(northwindTraders.paymentHistory).toMatchObject({ totalTransactions: 1, onTimePaymentRate: 0 });
+    expect(result.failed).toEqual([{ customerId: unavailable, error: 'Request failed with status code 503' }]);
+  });
+
+  it('fails on a request that was never recorded', async () => {
+    await expect(new DynamicsBackend().getARAgingData('00000000-0000-0000-0000-000000000000'))
+      .rejects.toThrow('No recorded OData response for GET /accounts(00000000-0000-0000-0000-000000000000)');
+  });
+});
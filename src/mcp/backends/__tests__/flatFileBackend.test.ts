@@ -0,0 +1,127 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { DemoBackend, FlatFileBackend, createErpBackend } from '..';
+
+const CUSTOMERS = `Customer ID,Customer Name,Collector,Credit Limit,Industry
+C001,Contoso Ltd,ana@example.com,"25,000",Retail
+C002,Fabrikam,,,
+`;
+
+const INVOICES = [
+  { invoiceId: 'I1', customerId: 'C001', invoiceNumber: 'INV-1', invoiceDate: '2025-01-01', dueDate: '2025-01-31', amount: 1000, amountPaid: 1000 },
+  { invoiceId: 'I2', customerId: 'C001', invoiceNumber: 'INV-2', invoiceDate: '2025-02-01', dueDate: '2025-03-03', amount: 2500, amountPaid: 500 },
+  { invoiceId: 'I3', customerId: 'C001', invoiceNumber: 'INV-3', invoiceDate: '2025-03-01', dueDate: '2025-03-31', amount: 400, currency: 'eur' },
+  { invoiceId: 'I4', customerId: 'C002', invoiceNumber: 'INV-4', invoiceDate: '2025-03-01', dueDate: '2025-03-31', amount: 300, amountPaid: 300 },
+];
+
+const PAYMENTS = `paymentId,customerId,paymentDate,amount,reference,invoices
+PAY-1,C001,2025-01-20,1000,On time,INV-1
+PAY-2,C001,2025-03-20,500,Late,INV-2
+`;
+
+const CONTACTS = `customerId,name,email,role,primary,preferredChannel,doNotEmail
+C001,Bo Billing,bo@contoso.example,Billing,yes,email,no
+C001,Cy Controller,cy@contoso.example,escalation,,phone,
+`;
+
+describe('FlatFileBackend', () => {
+  const env = { FX_RATES_FILE: process.env.FX_RATES_FILE, REPORTING_CURRENCY: process.env.REPORTING_CURRENCY };
+  let directory: string;
+  let backend: FlatFileBackend;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'flatfile-'));
+    await fs.writeFile(path.join(directory, 'fx.json'), JSON.stringify({ rates: { EUR: 1.1 } }));
+    process.env.FX_RATES_FILE = path.join(directory, 'fx.json');
+    process.env.REPORTING_CURRENCY = 'USD';
+    await fs.writeFile(path.join(directory, 'customers.csv'), CUSTOMERS);
+    await fs.writeFile(path.join(directory, 'invoices.json'), JSON.stringify(INVOICES));
+    await fs.writeFile(path.join(directory, 'payments.csv'), PAYMENTS);
+    await fs.writeFile(path.join(directory, 'contacts.csv'), CONTACTS);
+    backend = new FlatFileBackend(directory);
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('builds aging in the reporting currency from open invoices net of the ERP amount paid', async () => {
+    const arData = await backend.getARAgingData('C001');
+
+    expect(arData.invoices.map(inv => [inv.invoiceId, inv.amountOutstanding, inv.currency])).toEqual([
+      ['I2', 2000, undefined],
+      ['I3', 400, 'EUR'],
+    ]);
+    expect(arData).toMatchObject({
+      customerName: 'Contoso Ltd',
+      collector: 'ana@example.com',
+      creditLimit: 25000,
+      industry: 'Retail',
+      totalOutstanding: 2440,
+      days120Plus: 2440,
+    });
+  });
+
+  it('lists only customers with an open balance and fails for unknown ones', async () => {
+    expect(await backend.getCustomersWithOutstandingBalance()).toEqual(['C001']);
+    await expect(backend.getARAgingData('C999')).rejects.toThrow('Customer not found: C999');
+  });
+
+  it('measures payment behaviour against the invoices each payment names', async () => {
+    const history = await backend.getPaymentHistory('C001');
+
+    expect(history.payments?.map(p => p.paymentId)).toEqual(['PAY-2', 'PAY-1']);
+    expect(history.totalTransactions).toBe(2);
+    expect(history.onTimePaymentRate).toBe(0.5);
+    expect(history.averagePaymentDays).toBe((19 + 47) / 2);
+    expect(history.lastPaymentDate).toBe('2025-03-20T00:00:00.000Z');
+  });
+
+  it('finds a customer by invoice ID or number and reads contacts', async () => {
+    expect(await backend.findCustomerByInvoice('inv-4')).toBe('C002');
+    expect(await backend.findCustomerByInvoice('I2')).toBe('C001');
+    expect(await backend.findCustomerByInvoice('INV-404')).toBeUndefined();
+
+    const contacts = await backend.getCustomerContacts('C001');
+    expect(contacts.map(c => [c.name, c.role, c.primary, c.preferredChannel, c.doNotEmail])).toEqual([
+      ['Bo Billing', 'billing', true, 'email', false],
+      ['Cy Controller', 'escalation', undefined, 'phone', undefined],
+    ]);
+  });
+
+  it('fetches many customers and reports the ones that fail', async () => {
+    const { accounts, failed } = await backend.getCustomerAccounts(['C001', 'C999']);
+    expect(accounts.map(a => a.customerId)).toEqual(['C001']);
+    expect(failed).toEqual([{ customerId: 'C999', error: 'Customer not found: C999' }]);
+  });
+
+  it('appends notes to notes.jsonl', async () => {
+    await backend.updateCustomerNotes('C001', 'Called AP');
+    const lines = (await fs.readFile(path.join(directory, 'notes.jsonl'), 'utf8')).trim().split('\n');
+    expect(JSON.parse(lines[lines.length - 1])).toMatchObject({ customerId: 'C001', note: 'Called AP' });
+  });
+
+  it('names the file and row of a bad value', async () => {
+    const bad = await fs.mkdtemp(path.join(os.tmpdir(), 'flatfile-bad-'));
+    try {
+      await fs.writeFile(path.join(bad, 'invoices.csv'), 'invoiceId,customerId,invoiceDate,dueDate,amount\nI1,C1,2025-01-01,2025-01-31,lots\n');
+      await expect(new FlatFileBackend(bad).getARAgingData('C1')).rejects.toThrow('invoices row 1: invalid amount "lots"');
+    } finally {
+      await fs.rm(bad, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createErpBackend', () => {
+  it('creates the backend by name', () => {
+    expect(createErpBackend('demo')).toBeInstanceOf(DemoBackend);
+    expect(createErpBackend('flatfile')).toBeInstanceOf(FlatFileBackend);
+    expect(() => createErpBackend('sap')).toThrow('Unknown ERP_BACKEND "sap". Use one of: dynamics, demo, flatfile');
+  });
+});
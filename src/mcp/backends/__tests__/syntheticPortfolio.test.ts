@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { generateSyntheticPortfolio, syntheticCustomerId } from '../syntheticPortfolio';
+import { daysPastDue } from '../../../services/agingService';
+
+const ENV = { REPORTING_CURRENCY: 'USD', FX_RATES_FILE: undefined };
+const saved: Record<string, string | undefined> = {};
+
+beforeAll(() => {
+  for (const [key, value] of Object.entries(ENV)) {
+    saved[key] = process.env[key];
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+const AS_OF = new Date('2026-10-19T00:00:00Z');
+
+function cents(n: number): number {
+  return Math.round(n * 100);
+}
+
+describe('generateSyntheticPortfolio', () => {
+  it('generates the same portfolio for the same seed, and each customer regardless of portfolio size', () => {
+    const first = generateSyntheticPortfolio({ customers: 60, seed: 7, asOf: AS_OF });
+    const again = generateSyntheticPortfolio({ customers: 60, seed: 7, asOf: AS_OF });
+    const smaller = generateSyntheticPortfolio({ customers: 42, seed: 7, asOf: AS_OF });
+    const reseeded = generateSyntheticPortfolio({ customers: 60, seed: 8, asOf: AS_OF });
+
+    expect(again).toEqual(first);
+    expect(smaller[41]).toEqual(first[41]);
+    expect(first.map(c => c.arData.customerId).slice(0, 2)).toEqual(['SYN-00001', 'SYN-00002']);
+    expect(reseeded.map(c => c.arData.customerName)).not.toEqual(first.map(c => c.arData.customerName));
+  });
+
+  describe('each customer', () => {
+    const portfolio = generateSyntheticPortfolio({ customers: 200, seed: 3, asOf: AS_OF });
+
+    it('has open invoices whose paid and outstanding amounts add up, aged as of the given day', () => {
+      for (const { arData } of portfolio) {
+        for (const invoice of arData.invoices) {
+          expect(invoice.invoiceId.startsWith(`${arData.customerId}-INV-`)).toBe(true);
+          expect(cents(invoice.amountPaid) + cents(invoice.amountOutstanding)).toBe(cents(invoice.amount));
+          expect(invoice.amountOutstanding).toBeGreaterThan(0);
+          expect(invoice.invoiceDate <= AS_OF.toISOString()).toBe(true);
+          expect(invoice.dueDate > invoice.invoiceDate).toBe(true);
+          expect(invoice.daysOverdue).toBe(Math.max(0, daysPastDue(invoice.dueDate, AS_OF)));
+          if (invoice.disputedAmount !== undefined) {
+            expect(invoice.daysOverdue).toBeGreaterThan(0);
+            expect(invoice.disputedAmount).toBeLessThanOrEqual(invoice.amountOutstanding);
+            expect(invoice.disputeReason).toBeDefined();
+          }
+        }
+      }
+    });
+
+    it('has aging totals that match its open invoices', () => {
+      for (const { arData } of portfolio) {
+        const open = arData.invoices.reduce((sum, inv) => sum + cents(inv.amountOutstanding), 0);
+        const buckets = arData.current + arData.days30 + arData.days60 + arData.days90 + arData.days120Plus;
+
+        expect(cents(arData.totalOutstanding)).toBe(open);
+        expect(cents(buckets)).toBe(open);
+      }
+    });
+
+    it('has one payment, newest first, for each paid invoice and none for an open one', () => {
+      for (const { arData, paymentHistory } of portfolio) {
+        const payments = paymentHistory.payments ?? [];
+        const openIds = new Set(arData.invoices.map(inv => inv.invoiceId));
+        const paidIds = payments.flatMap(p => p.remittanceInvoiceIds ?? []);
+
+        expect(paidIds.filter(id => openIds.has(id))).toEqual([]);
+        expect(new Set([...paidIds, ...openIds]).size).toBe(paidIds.length + openIds.size);
+        expect(payments.map(p => p.paymentDate)).toEqual(payments.map(p => p.paymentDate).sort().reverse());
+        payments.forEach(p => {
+          expect(p).toMatchObject({ customerId: arData.customerId, paymentId: `${p.reference}-PMT`, source: 'erp' });
+          expect(p.amount).toBeGreaterThan(0);
+          expect(p.paymentDate <= AS_OF.toISOString()).toBe(true);
+        });
+        expect(paymentHistory.totalTransactions).toBe(payments.length);
+        if (payments.length > 0) expect(paymentHistory.lastPaymentDate).toBe(payments[0].paymentDate);
+        expect(paymentHistory.onTimePaymentRate).toBeGreaterThanOrEqual(0);
+        expect(paymentHistory.onTimePaymentRate).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('has promises that are settled only once due, with what was paid', () => {
+      for (const { paymentHistory } of portfolio) {
+        for (const promise of paymentHistory.promiseToPayHistory) {
+          if (promise.promisedDate > AS_OF.toISOString()) {
+            expect(promise.status).toBeUndefined();
+            continue;
+          }
+          if (promise.status === 'kept') {
+            expect(promise).toMatchObject({ fulfilled: true, amountPaid: promise.promisedAmount });
+          } else if (promise.status === 'partially-kept') {
+            expect(promise.amountPaid).toBeLessThan(promise.promisedAmount);
+          } else {
+            expect(promise).toMatchObject({ status: 'broken', fulfilled: false });
+          }
+        }
+      }
+    });
+
+    it('spans accounts with nothing overdue and accounts far past due', () => {
+      const oldest = portfolio.map(c => Math.max(0, ...c.arData.invoices.map(inv => inv.daysOverdue)));
+
+      expect(oldest.some(days => days === 0)).toBe(true);
+      expect(oldest.some(days => days >= 120)).toBe(true);
+    });
+  });
+});
+
+describe('syntheticCustomerId', () => {
+  it('pads the customer number to five digits', () => {
+    expect(syntheticCustomerId(42)).toBe('SYN-00042');
+    expect(syntheticCustomerId(123456)).toBe('SYN-123456');
+  });
+});
@@ -0,0 +1,297 @@
+import type { ARAgingData, CustomerAccountsResult, CustomerContact, PaymentHistory } from '../../types';
+import { getCustomerAccountsOneByOne } from './erpBackend';
+import type { ErpBackend } from './erpBackend';
+import { generateSyntheticPortfolio } from './syntheticPortfolio';
+import type { SyntheticCustomer } from './syntheticPortfolio';
+
+const DEMO_CUSTOMER_IDS = ['CUST-001', 'CUST-002', 'CUST-003', 'CUST-004', 'CUST-005'];
+
+/**
+ * Demo backend — five fixed mock customers with hand-tuned aging and payment
+ * behaviour spanning low, medium and high risk, plus an optional synthetic
+ * portfolio for exercising prioritization at scale. No ERP connection needed.
+ *
+ * Configuration:
+ *   DEMO_PORTFOLIO_SIZE : Synthetic customers SYN-00001… served alongside the five (default 0)
+ *   DEMO_PORTFOLIO_SEED : Seed for the synthetic portfolio (default 1)
+ */
+export class DemoBackend implements ErpBackend {
+  readonly name = 'demo' as const;
+
+  private portfolioSize = Number(process.env.DEMO_PORTFOLIO_SIZE ?? 0);
+  private portfolioSeed = Number(process.env.DEMO_PORTFOLIO_SEED ?? 1);
+
+  // Generated on first use, then served for the life of the process
+  private portfolio: Map<string, SyntheticCustomer> | null = null;
+
+  async getARAgingData(customerId: string): Promise<ARAgingData> {
+    const synthetic = this.getPortfolio().get(customerId);
+    if (synthetic) return synthetic.arData;
+    return getMockARAgingData(customerId);
+  }
+
+  async getPaymentHistory(customerId: string): Promise<PaymentHistory> {
+    const synthetic = this.getPortfolio().get(customerId);
+    if (synthetic) return synthetic.paymentHistory;
+    return getMockPaymentHistory(customerId);
+  }
+
+  async getCustomersWithOutstandingBalance(): Promise<string[]> {
+    const synthetic = Array.from(this.getPortfolio().values())
+      .filter(c => c.arData.totalOutstanding > 0)
+      .map(c => c.arData.customerId);
+    return [...DEMO_CUSTOMER_IDS, ...synthetic];
+  }
+
+  async getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult> {
+    return getCustomerAccountsOneByOne(this, customerIds);
+  }
+
+  async updateCustomerNotes(customerId: string): Promise<void> {
+    process.stderr.write(`✅ Updated notes for customer ${customerId} (demo mode)\n`);
+  }
+
+  async findCustomerByInvoice(invoiceRef: string): Promise<string | undefined> {
+    const mock = DEMO_CUSTOMER_IDS.find(id =>
+      getMockARAgingData(id).invoices.some(inv => inv.invoiceId === invoiceRef));
+    if (mock) return mock;
+
+    // Synthetic invoice IDs start with the customer ID, e.g. SYN-00042-INV-007
+    const synthetic = this.getPortfolio().get(invoiceRef.split('-INV-')[0]);
+    return synthetic?.arData.invoices.some(inv => inv.invoiceId === invoiceRef || inv.invoiceNumber === invoiceRef)
+      ? synthetic.arData.customerId
+      : undefined;
+  }
+
+  async getCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+    const synthetic = this.getPortfolio().get(customerId);
+    if (!synthetic) return getMockContacts(customerId);
+
+    // One accounts-payable mailbox per synthetic customer, named after the company
+    const domain = synthetic.arData.customerName.toLowerCase().replace(/[^a-z0-9]+/g, '');
+    return [{
+      contactId: `${customerId}-AP`,
+      customerId,
+      name: `${synthetic.arData.customerName} Accounts Payable`,
+      email: `ap@${domain}.example.com`,
+      role: 'billing',
+      primary: true,
+      preferredChannel: 'email',
+    }];
+  }
+
+  private getPortfolio(): Map<string, SyntheticCustomer> {
+    if (!this.portfolio) {
+      const customers = this.portfolioSize > 0
+        ? generateSyntheticPortfolio({ customers: this.portfolioSize, seed: this.portfolioSeed })
+        : [];
+      this.portfolio = new Map(customers.map(c => [c.arData.customerId, c]));
+      if (customers.length > 0) {
+        process.stderr.write(`🧪 Generated ${customers.length} synthetic customers (seed ${this.portfolioSeed})\n`);
+      }
+    }
+    return this.portfolio;
+  }
+}
+
+function getMockARAgingData(customerId: string): ARAgingData {
+  const data: Record<string, ARAgingData> = {
+    'CUST-001': {
+      customerId: 'CUST-001', customerName: 'Contoso Ltd',
+      collector: 'jordan.lee@contoso.com',
+      creditLimit: 150_000, industry: 'Manufacturing',
+      customerSince: new Date(Date.now() - 6 * 365 * 86_400_000).toISOString(),
+      totalOutstanding: 125000, current: 50000, days30: 30000,
+      days60: 25000, days90: 15000, days120Plus: 5000,
+      invoices: [{
+        invoiceId: 'INV-001',
+        invoiceDate: new Date(Date.now() - 45 * 86_400_000).toISOString(),
+        dueDate:     new Date(Date.now() - 15 * 86_400_000).toISOString(),
+        amount: 30000, amountPaid: 0, amountOutstanding: 30000, daysOverdue: 15,
+      }],
+    },
+    'CUST-002': {
+      customerId: 'CUST-002', customerName: 'Fabrikam Inc',
+      collector: 'sam.patel@contoso.com',
+      creditLimit: 120_000, industry: 'Retail',
+      customerSince: new Date(Date.now() - 9 * 365 * 86_400_000).toISOString(),
+      totalOutstanding: 85000, current: 60000, days30: 15000,
+      days60: 10000, days90: 0, days120Plus: 0, invoices: [],
+    },
+    'CUST-003': {
+      customerId: 'CUST-003', customerName: 'Adventure Works',
+      collector: 'jordan.lee@contoso.com',
+      creditLimit: 250_000, industry: 'Construction',
+      customerSince: new Date(Date.now() - 2 * 365 * 86_400_000).toISOString(),
+      totalOutstanding: 320000, current: 80000, days30: 60000,
+      days60: 50000, days90: 0, days120Plus: 130000,
+      invoices: [{
+        invoiceId: 'INV-031',
+        invoiceDate: new Date(Date.now() - 140 * 86_400_000).toISOString(),
+        dueDate:     new Date(Date.now() - 110 * 86_400_000).toISOString(),
+        amount: 130000, amountPaid: 0, amountOutstanding: 130000, daysOverdue: 110,
+      }],
+    },
+    'CUST-004': {
+      customerId: 'CUST-004', customerName: 'Woodgrove Bank',
+      collector: 'sam.patel@contoso.com',
+      creditLimit: 200_000, industry: 'Financial Services',
+      customerSince: new Date(Date.now() - 15 * 365 * 86_400_000).toISOString(),
+      totalOutstanding: 45000, current: 40000, days30: 5000,
+      days60: 0, days90: 0, days120Plus: 0,
+      invoices: [{
+        invoiceId: 'INV-041',
+        invoiceDate: new Date(Date.now() - 20 * 86_400_000).toISOString(),
+        dueDate:     new Date(Date.now() + 10 * 86_400_000).toISOString(),
+        amount: 5000, amountPaid: 0, amountOutstanding: 5000, daysOverdue: 0,
+      }],
+    },
+    'CUST-005': {
+      customerId: 'CUST-005', customerName: 'Tailspin Toys',
+      collector: 'jordan.lee@contoso.com',
+      creditLimit: 160_000, industry: 'Consumer Goods',
+      customerSince: new Date(Date.now() - 4 * 365 * 86_400_000).toISOString(),
+      totalOutstanding: 150000, current: 60000, days30: 40000,
+      days60: 30000, days90: 15000, days120Plus: 5000,
+      invoices: [{
+        invoiceId: 'INV-051',
+        invoiceDate: new Date(Date.now() - 80 * 86_400_000).toISOString(),
+        dueDate:     new Date(Date.now() - 50 * 86_400_000).toISOString(),
+        amount: 50000, amountPaid: 15000, amountOutstanding: 35000, daysOverdue: 50,
+      }],
+    },
+  };
+  const arData = data[customerId];
+  if (!arData) throw new Error(`Customer not found: ${customerId}`);
+  return arData;
+}
+
+function getMockPaymentHistory(customerId: string): PaymentHistory {
+  const histories: Record<string, PaymentHistory> = {
+    // CUST-001: Contoso Ltd — HIGH risk: chronic late payer, mostly broken promises
+    'CUST-001': {
+      customerId, averagePaymentDays: 52, onTimePaymentRate: 0.35,
+      totalTransactions: 18, lastPaymentDate: new Date(Date.now() - 75 * 86_400_000).toISOString(),
+      promiseToPayHistory: [
+        { date: new Date(Date.now() - 90 * 86_400_000).toISOString(), promisedAmount: 50000,
+          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 120 * 86_400_000).toISOString(), promisedAmount: 30000,
+          promisedDate: new Date(Date.now() - 90 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 150 * 86_400_000).toISOString(), promisedAmount: 25000,
+          promisedDate: new Date(Date.now() - 120 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 118 * 86_400_000).toISOString() },
+        { date: new Date(Date.now() - 180 * 86_400_000).toISOString(), promisedAmount: 40000,
+          promisedDate: new Date(Date.now() - 150 * 86_400_000).toISOString(), fulfilled: false },
+      ],
+    },
+    // CUST-002: Fabrikam Inc — MEDIUM risk: sometimes late, mixed promises
+    'CUST-002': {
+      customerId, averagePaymentDays: 28, onTimePaymentRate: 0.65,
+      totalTransactions: 14, lastPaymentDate: new Date(Date.now() - 20 * 86_400_000).toISOString(),
+      promiseToPayHistory: [
+        { date: new Date(Date.now() - 45 * 86_400_000).toISOString(), promisedAmount: 20000,
+          promisedDate: new Date(Date.now() - 15 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 14 * 86_400_000).toISOString() },
+        { date: new Date(Date.now() - 80 * 86_400_000).toISOString(), promisedAmount: 15000,
+          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 110 * 86_400_000).toISOString(), promisedAmount: 18000,
+          promisedDate: new Date(Date.now() - 90 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 88 * 86_400_000).toISOString() },
+      ],
+    },
+    // CUST-003: Adventure Works — HIGH risk: very late payer, almost all promises broken
+    'CUST-003': {
+      customerId, averagePaymentDays: 68, onTimePaymentRate: 0.25,
+      totalTransactions: 22, lastPaymentDate: new Date(Date.now() - 120 * 86_400_000).toISOString(),
+      promiseToPayHistory: [
+        { date: new Date(Date.now() - 30 * 86_400_000).toISOString(), promisedAmount: 80000,
+          promisedDate: new Date(Date.now() - 10 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 60 * 86_400_000).toISOString(), promisedAmount: 60000,
+          promisedDate: new Date(Date.now() - 30 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 90 * 86_400_000).toISOString(), promisedAmount: 50000,
+          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 180 * 86_400_000).toISOString(), promisedAmount: 45000,
+          promisedDate: new Date(Date.now() - 150 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 145 * 86_400_000).toISOString() },
+      ],
+    },
+    // CUST-004: Woodgrove Bank — LOW risk: reliable payer, keeps all promises
+    'CUST-004': {
+      customerId, averagePaymentDays: 8, onTimePaymentRate: 0.95,
+      totalTransactions: 20, lastPaymentDate: new Date(Date.now() - 5 * 86_400_000).toISOString(),
+      promiseToPayHistory: [
+        { date: new Date(Date.now() - 35 * 86_400_000).toISOString(), promisedAmount: 5000,
+          promisedDate: new Date(Date.now() - 5 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 5 * 86_400_000).toISOString() },
+        { date: new Date(Date.now() - 65 * 86_400_000).toISOString(), promisedAmount: 12000,
+          promisedDate: new Date(Date.now() - 35 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 34 * 86_400_000).toISOString() },
+      ],
+    },
+    // CUST-005: Tailspin Toys — MEDIUM risk: occasionally late, some broken promises
+    'CUST-005': {
+      customerId, averagePaymentDays: 38, onTimePaymentRate: 0.58,
+      totalTransactions: 16, lastPaymentDate: new Date(Date.now() - 40 * 86_400_000).toISOString(),
+      promiseToPayHistory: [
+        { date: new Date(Date.now() - 55 * 86_400_000).toISOString(), promisedAmount: 35000,
+          promisedDate: new Date(Date.now() - 25 * 86_400_000).toISOString(), fulfilled: false },
+        { date: new Date(Date.now() - 85 * 86_400_000).toISOString(), promisedAmount: 20000,
+          promisedDate: new Date(Date.now() - 55 * 86_400_000).toISOString(), fulfilled: true,
+          actualPaymentDate: new Date(Date.now() - 52 * 86_400_000).toISOString() },
+        { date: new Date(Date.now() - 115 * 86_400_000).toISOString(), promisedAmount: 25000,
+          promisedDate: new Date(Date.now() - 85 * 86_400_000).toISOString(), fulfilled: false },
+      ],
+    },
+  };
+  const history = histories[customerId];
+  if (!history) throw new Error(`Customer not found: ${customerId}`);
+
+  // Demo payments mirror the kept promises so promise reconciliation has data to match
+  history.payments = history.promiseToPayHistory
+    .filter(p => p.fulfilled && p.actualPaymentDate)
+    .map((p, i) => ({
+      paymentId:   `${customerId}-PMT-${i + 1}`,
+      customerId,
+      paymentDate: p.actualPaymentDate as string,
+      amount:      p.promisedAmount,
+    }));
+  return history;
+}
+
+function getMockContacts(customerId: string): CustomerContact[] {
+  const contacts: Record<string, Omit<CustomerContact, 'customerId'>[]> = {
+    'CUST-001': [
+      { contactId: 'CONT-001-1', name: 'Priya Raman', email: 'ap@contoso-ltd.example.com', phone: '+1 425 555 0101',
+        jobTitle: 'Accounts Payable Lead', role: 'billing', primary: true, preferredChannel: 'email', language: 'en' },
+      { contactId: 'CONT-001-2', name: 'Marcus Webb', email: 'marcus.webb@contoso-ltd.example.com',
+        jobTitle: 'Financial Controller', role: 'escalation', preferredChannel: 'phone', language: 'en' },
+    ],
+    'CUST-002': [
+      { contactId: 'CONT-002-1', name: 'Lena Fischer', email: 'kreditoren@fabrikam.example.com', phone: '+49 89 555 0102',
+        jobTitle: 'Kreditorenbuchhaltung', role: 'billing', primary: true, preferredChannel: 'email', language: 'de' },
+      { contactId: 'CONT-002-2', name: 'Jonas Weber', email: 'jonas.weber@fabrikam.example.com',
+        jobTitle: 'CFO', role: 'escalation', language: 'de' },
+    ],
+    'CUST-003': [
+      { contactId: 'CONT-003-1', name: 'Diego Alvarez', email: 'payables@adventure-works.example.com',
+        jobTitle: 'Accounts Payable Specialist', role: 'billing', preferredChannel: 'email', language: 'es' },
+      { contactId: 'CONT-003-2', name: 'Sofia Morales', email: 'sofia.morales@adventure-works.example.com',
+        jobTitle: 'Finance Director', role: 'escalation', primary: true, language: 'es' },
+      { contactId: 'CONT-003-3', name: 'Tom Baker', phone: '+1 206 555 0103',
+        jobTitle: 'Site Manager', role: 'other', preferredChannel: 'phone' },
+    ],
+    'CUST-004': [
+      { contactId: 'CONT-004-1', name: 'Claire Dubois', email: 'fournisseurs@woodgrove.example.com',
+        jobTitle: 'Comptabilité fournisseurs', role: 'billing', primary: true, preferredChannel: 'email', language: 'fr' },
+    ],
+    'CUST-005': [
+      { contactId: 'CONT-005-1', name: 'Sam Okafor', email: 'sam.okafor@tailspin.example.com', phone: '+1 312 555 0105',
+        jobTitle: 'Office Manager', role: 'other', primary: true, preferredChannel: 'email', language: 'en' },
+      { contactId: 'CONT-005-2', name: 'Rita Novak', email: 'rita.novak@tailspin.example.com',
+        jobTitle: 'Owner', role: 'escalation', doNotEmail: true, language: 'en' },
+    ],
+  };
+  const list = contacts[customerId];
+  if (!list) throw new Error(`Customer not found: ${customerId}`);
+  return list.map(contact => ({ ...contact, customerId }));
+}
@@ -0,0 +1,677 @@
+import path from 'path';
+import type { AxiosInstance } from 'axios';
+import { ClientSecretCredential } from '@azure/identity';
+import type {
+  ARAgingData,
+  ContactChannel,
+  ContactRole,
+  CustomerAccountsResult,
+  CustomerContact,
+  Invoice,
+  PaymentHistory,
+  PaymentRecord,
+  PromiseToPay,
+} from '../../types';
+import { buildARAgingData, daysPastDue } from '../../services/agingService';
+import { CashApplicationService } from '../../services/cashApplicationService';
+import { CurrencyService, formatCurrency } from '../../services/currencyService';
+import { mapWithConcurrency } from '../../utils/concurrency';
+import type { ErpBackend } from './erpBackend';
+import { createODataClient } from './odataRecorder';
+import type { ODataMode } from './odataRecorder';
+
+/** Refresh cached token this many ms before it expires. */
+const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
+
+/** Payment tasks and promise appointments read per customer. */
+const ACTIVITIES_PER_CUSTOMER = 50;
+
+// totalamount = sum of line items + tax (may be null on draft invoices)
+// totallineitemamount = sum of line items before tax (often populated when totalamount is not)
+// totalamountlessfreight = totallineitemamount - freight (another fallback)
+const INVOICE_SELECT =
+  'invoiceid,name,totalamount,totallineitemamount,totalamountlessfreight,' +
+  'totaltax,datedelivered,duedate,statecode,statuscode,createdon';
+const INVOICE_EXPAND = 'transactioncurrencyid($select=isocurrencycode)';
+const ACCOUNT_SELECT = 'accountid,name,creditlimit,createdon,industrycode';
+const ACCOUNT_EXPAND =
+  'owninguser($select=internalemailaddress,fullname),transactioncurrencyid($select=isocurrencycode)';
+/** Asks for option set labels, e.g. industrycode 7 → "Consulting". */
+const FORMATTED_VALUES = 'odata.include-annotations="OData.Community.Display.V1.FormattedValue"';
+const LINE_ITEM_SELECT = 'invoicedetailid,quantity,priceperunit,baseamount,extendedamount';
+const CONTACT_SELECT =
+  'contactid,fullname,emailaddress1,telephone1,jobtitle,accountrolecode,preferredcontactmethodcode,donotemail';
+
+/** Job titles of the people who pay invoices, e.g. "Accounts Payable Specialist". */
+const BILLING_TITLE = /\b(?:accounts payable|a\/?p|payables|billing|invoic\w*)\b/i;
+/** Job titles to escalate to, e.g. "Financial Controller" or "CFO". */
+const ESCALATION_TITLE = /\b(?:controller|comptroller|cfo|chief financial|finance director|director of finance|head of finance|treasurer)\b/i;
+/** contact.accountrolecode for a decision maker. */
+const DECISION_MAKER = 1;
+/** contact.preferredcontactmethodcode option values (1 = any, 4 = fax). */
+const CONTACT_METHODS: Record<number, ContactChannel> = { 2: 'email', 3: 'phone', 5: 'mail' };
+
+/** A record from a Dataverse entity set, as returned by the Web API. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type ODataRecord = Record<string, any>;
+
+/** A page of an entity set; @odata.nextLink is set while more pages remain. */
+interface ODataCollection {
+  value: ODataRecord[];
+  '@odata.nextLink'?: string;
+}
+
+/**
+ * Dynamics 365 backend — reads accounts, invoices, payment tasks and
+ * promise appointments through the Dataverse Web API (OData v4) using an
+ * app-only AAD token.
+ *
+ * Dynamics records payments as tasks on the account rather than against
+ * invoices, so aging applies them to the open invoices with the same cash
+ * application as ingested payments.
+ *
+ * Configuration:
+ *   ERP_API_ENDPOINT, ERP_RESOURCE, ERP_TENANT_ID, ERP_CLIENT_ID, ERP_CLIENT_SECRET
+ *   ERP_REQUEST_TIMEOUT_MS    : Axios timeout for every call (default 30000)
+ *   ERP_INVOICE_TOP           : Max invoices fetched per customer (default 500)
+ *   ERP_LINE_ITEM_CONCURRENCY : Parallel invoice line-item fetches (default 5)
+ *   ERP_PAGE_SIZE             : Records per OData page on paged queries (default 5000)
+ *   ERP_BULK_FILTER_SIZE      : Customers or invoices per OData filter in bulk queries (default 50)
+ *   ERP_ODATA_MODE            : live (default), record or replay — see odataRecorder.ts
+ *   ERP_ODATA_FIXTURES_DIR    : Where record writes and replay reads fixtures (default ./data/odata-fixtures)
+ *   ERP_CONTACT_LANGUAGE_FIELD : Contact column holding the preferred language, e.g. new_language (default none)
+ */
+export class DynamicsBackend implements ErpBackend {
+  readonly name = 'dynamics' as const;
+
+  private apiEndpoint = process.env.ERP_API_ENDPOINT ?? '';
+  private resource    = process.env.ERP_RESOURCE ?? '';
+
+  /** Axios timeout for all D365 API calls (ms). Prevents indefinite hangs. */
+  private requestTimeoutMs = Number(process.env.ERP_REQUEST_TIMEOUT_MS ?? 30_000);
+
+  /** Maximum invoices to retrieve per customer (prevents large payloads). */
+  private invoiceTop = Number(process.env.ERP_INVOICE_TOP ?? 500);
+
+  /** Number of invoice line-item requests to fire in parallel. */
+  private lineItemConcurrency = Number(process.env.ERP_LINE_ITEM_CONCURRENCY ?? 5);
+
+  /** Records per page requested on paged queries; later pages follow @odata.nextLink. */
+  private pageSize = Number(process.env.ERP_PAGE_SIZE ?? 5000);
+
+  /** IDs combined into one `or` filter by bulk queries — keeps URLs a safe length. */
+  private bulkFilterSize = Number(process.env.ERP_BULK_FILTER_SIZE ?? 50);
+
+  /** Custom contact column with a language tag — Dataverse has no standard one. */
+  private contactLanguageField = process.env.ERP_CONTACT_LANGUAGE_FIELD ?? '';
+
+  /** Live, recording or replaying — replay needs no credentials or network. */
+  private odataMode = (process.env.ERP_ODATA_MODE ?? 'live') as ODataMode;
+
+  private http: AxiosInstance = createODataClient(
+    this.odataMode,
+    process.env.ERP_ODATA_FIXTURES_DIR ?? path.resolve(process.cwd(), 'data', 'odata-fixtures'),
+    this.apiEndpoint,
+  );
+
+  /** Applies the payment tasks to open invoices (CASH_APPLICATION_METHODS). */
+  private cashApplication = new CashApplicationService();
+
+  private credential: ClientSecretCredential | null = null;
+
+  // Cached AAD token — reused across requests until near expiry.
+  private tokenCache: { token: string; expiresAt: number } | null = null;
+
+  async getARAgingData(customerId: string): Promise<ARAgingData> {
+    process.stderr.write(`📊 Querying Dynamics 365 for customer: ${customerId}\n`);
+    const token = await this.getAccessToken();
+
+    // Fetch account, invoices and payments in parallel — none depends on the others.
+    // Fetch all three D365 calculated amount fields so we have fallbacks.
+    process.stderr.write('📄 Querying account + invoices + payments in parallel...\n');
+    const [accountResponse, invoicesResponse, tasks] = await Promise.all([
+      this.http.get<ODataRecord>(
+        `${this.apiEndpoint}/accounts(${customerId})?$expand=${ACCOUNT_EXPAND}`,
+        { headers: { ...erpHeaders(token), Prefer: FORMATTED_VALUES }, timeout: this.requestTimeoutMs },
+      ),
+      this.http.get<ODataCollection>(
+        `${this.apiEndpoint}/invoices?$filter=_customerid_value eq ${customerId} and statecode eq 0` +
+        `&$select=${INVOICE_SELECT}&$expand=${INVOICE_EXPAND}` +
+        `&$orderby=createdon desc&$top=${this.invoiceTop}`,
+        { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+      ),
+      this.fetchPaymentTasks(customerId, token),
+    ]);
+
+    const account = accountResponse.data;
+    process.stderr.write(`✅ Found account: ${account.name ?? customerId}\n`);
+
+    const dynamics365Invoices = invoicesResponse.data.value;
+    process.stderr.write(`✅ Found ${dynamics365Invoices.length} invoices\n`);
+
+    // Fetch all line-item detail sets in parallel batches (replaces N sequential calls).
+    process.stderr.write(`📦 Fetching line items (${this.lineItemConcurrency} parallel)...\n`);
+    const invoiceIds = dynamics365Invoices.map(inv => inv.invoiceid as string);
+    const lineItemsMap = await this.fetchLineItemsBatched(invoiceIds, token);
+
+    applyLineItemAmounts(dynamics365Invoices, lineItemsMap);
+
+    const result = this.netOfPayments(
+      calculateARAgingFromDynamicsInvoices(account, dynamics365Invoices),
+      paymentsFromTasks(customerId, tasks),
+    );
+    const fmt = (n: number) => formatCurrency(n, result.currency);
+    process.stderr.write(`💰 Total Outstanding: ${fmt(result.totalOutstanding)}\n`);
+    process.stderr.write(`   Current:           ${fmt(result.current)}\n`);
+    process.stderr.write(`   30 days:           ${fmt(result.days30)}\n`);
+    process.stderr.write(`   60 days:           ${fmt(result.days60)}\n`);
+    process.stderr.write(`   90 days:           ${fmt(result.days90)}\n`);
+    process.stderr.write(`   120+ days:         ${fmt(result.days120Plus)}\n`);
+    return result;
+  }
+
+  async getPaymentHistory(customerId: string): Promise<PaymentHistory> {
+    process.stderr.write('📜 Fetching payment history from tasks and appointments...\n');
+    const token = await this.getAccessToken();
+
+    const [tasks, appointmentsRes] = await Promise.all([
+      this.fetchPaymentTasks(customerId, token),
+      this.http.get<ODataCollection>(
+        `${this.apiEndpoint}/appointments?$filter=_regardingobjectid_value eq ${customerId}` +
+        `&$select=activityid,subject,createdon,scheduledend,description,statuscode,statecode&$top=${ACTIVITIES_PER_CUSTOMER}`,
+        { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+      ),
+    ]);
+
+    const appointments = appointmentsRes.data.value;
+    process.stderr.write(`✅ Found ${tasks.length} payment records and ${appointments.length} promises\n`);
+
+    return calculatePaymentHistoryFromRecords(customerId, tasks, appointments);
+  }
+
+  async getCustomersWithOutstandingBalance(): Promise<string[]> {
+    const token = await this.getAccessToken();
+
+    try {
+      // Page through every open invoice so no customer is missed on large portfolios
+      const invoices = await this.fetchAllPages(
+        `${this.apiEndpoint}/invoices?$select=_customerid_value&$filter=statecode eq 0`,
+        token,
+      );
+      const ids = new Set<string>();
+      for (const inv of invoices) {
+        if (inv._customerid_value) ids.add(inv._customerid_value);
+      }
+      return Array.from(ids);
+    } catch {
+      const res = await this.http.get<ODataCollection>(
+        `${this.apiEndpoint}/accounts?$select=accountid&$top=50`,
+        { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+      );
+      return res.data.value.map(a => a.accountid as string);
+    }
+  }
+
+  /**
+   * Bulk aging and payment history. Customers are queried in batches of
+   * bulkFilterSize with one paged query per entity set, instead of four
+   * requests plus one line-item request per invoice for every customer.
+   */
+  async getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult> {
+    const ids = customerIds ?? await this.getCustomersWithOutstandingBalance();
+    process.stderr.write(`📊 Querying Dynamics 365 for ${ids.length} customers in bulk...\n`);
+    const token = await this.getAccessToken();
+    const result: CustomerAccountsResult = { accounts: [], failed: [] };
+
+    for (let i = 0; i < ids.length; i += this.bulkFilterSize) {
+      const batch = ids.slice(i, i + this.bulkFilterSize);
+      try {
+        const [accounts, invoices, tasks, appointments] = await Promise.all([
+          this.fetchAllPages(
+            `${this.apiEndpoint}/accounts?$filter=${anyOf('accountid', batch)}&$select=${ACCOUNT_SELECT}&$expand=${ACCOUNT_EXPAND}`,
+            token,
+            [FORMATTED_VALUES],
+          ),
+          this.fetchAllPages(
+            `${this.apiEndpoint}/invoices?$filter=statecode eq 0 and ${anyOf('_customerid_value', batch)}` +
+            `&$select=${INVOICE_SELECT},_customerid_value&$expand=${INVOICE_EXPAND}&$orderby=createdon desc`,
+            token,
+          ),
+          this.fetchAllPages(
+            `${this.apiEndpoint}/tasks?$filter=${anyOf('_regardingobjectid_value', batch)}` +
+            `&$select=activityid,subject,actualend,description,statecode,statuscode,_regardingobjectid_value` +
+            `&$orderby=actualend desc`,
+            token,
+          ),
+          this.fetchAllPages(
+            `${this.apiEndpoint}/appointments?$filter=${anyOf('_regardingobjectid_value', batch)}` +
+            `&$select=activityid,subject,createdon,scheduledend,description,statuscode,statecode,_regardingobjectid_value`,
+            token,
+          ),
+        ]);
+
+        const lineItemsMap = await this.fetchLineItemsBulk(invoices.map((inv) => inv.invoiceid as string), token);
+        applyLineItemAmounts(invoices, lineItemsMap);
+
+        const accountsById = groupBy(accounts, 'accountid');
+        const invoicesByCustomer = groupBy(invoices, '_customerid_value');
+        const tasksByCustomer = groupBy(tasks, '_regardingobjectid_value');
+        const appointmentsByCustomer = groupBy(appointments, '_regardingobjectid_value');
+
+        for (const customerId of batch) {
+          const key = customerId.toLowerCase();
+          const account = accountsById.get(key)?.[0];
+          if (!account) {
+            result.failed.push({ customerId, error: `Customer not found: ${customerId}` });
+            continue;
+          }
+          const customerTasks = (tasksByCustomer.get(key) ?? []).slice(0, ACTIVITIES_PER_CUSTOMER);
+          result.accounts.push({
+            customerId,
+            arData: this.netOfPayments(
+              calculateARAgingFromDynamicsInvoices(
+                account,
+                (invoicesByCustomer.get(key) ?? []).slice(0, this.invoiceTop),
+              ),
+              paymentsFromTasks(customerId, customerTasks),
+            ),
+            paymentHistory: calculatePaymentHistoryFromRecords(
+              customerId,
+              customerTasks,
+              (appointmentsByCustomer.get(key) ?? []).slice(0, ACTIVITIES_PER_CUSTOMER),
+            ),
+          });
+        }
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        for (const customerId of batch) result.failed.push({ customerId, error: message });
+      }
+    }
+
+    process.stderr.write(`✅ Loaded ${result.accounts.length} customers (${result.failed.length} failed)\n`);
+    return result;
+  }
+
+  async updateCustomerNotes(customerId: string, note: string): Promise<void> {
+    const token = await this.getAccessToken();
+    await this.http.patch(
+      `${this.apiEndpoint}/accounts(${customerId})`,
+      { description: `${note}\n[Updated: ${new Date().toISOString()}]` },
+      { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+    );
+    process.stderr.write(`✅ Updated notes for customer ${customerId} in Dynamics 365\n`);
+  }
+
+  async findCustomerByInvoice(invoiceRef: string): Promise<string | undefined> {
+    const token = await this.getAccessToken();
+    const escaped = invoiceRef.replace(/'/g, "''");
+    const res = await this.http.get<ODataCollection>(
+      `${this.apiEndpoint}/invoices?$filter=name eq '${escaped}'&$select=_customerid_value&$top=1`,
+      { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+    );
+    return res.data.value[0]?._customerid_value ?? undefined;
+  }
+
+  /**
+   * Active contacts whose parent customer is the account. The account's
+   * primary contact is flagged so it can stand in for a missing billing contact.
+   */
+  async getCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+    const token = await this.getAccessToken();
+    const select = this.contactLanguageField ? `${CONTACT_SELECT},${this.contactLanguageField}` : CONTACT_SELECT;
+    const [accountResponse, contacts] = await Promise.all([
+      this.http.get<ODataRecord>(
+        `${this.apiEndpoint}/accounts(${customerId})?$select=_primarycontactid_value`,
+        { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+      ),
+      this.fetchAllPages(
+        `${this.apiEndpoint}/contacts?$filter=_parentcustomerid_value eq ${customerId} and statecode eq 0` +
+        `&$select=${select}&$orderby=fullname`,
+        token,
+      ),
+    ]);
+    process.stderr.write(`👥 Found ${contacts.length} contacts for customer ${customerId}\n`);
+
+    const primaryContactId = accountResponse.data._primarycontactid_value as string | undefined;
+    return contacts.map(contact =>
+      mapDynamicsContact(customerId, contact, primaryContactId, this.contactLanguageField || undefined));
+  }
+
+  /** A customer's latest payment tasks, newest first. */
+  private async fetchPaymentTasks(customerId: string, token: string): Promise<ODataRecord[]> {
+    const res = await this.http.get<ODataCollection>(
+      `${this.apiEndpoint}/tasks?$filter=_regardingobjectid_value eq ${customerId}` +
+      `&$select=activityid,subject,actualend,description,statecode,statuscode&$orderby=actualend desc&$top=${ACTIVITIES_PER_CUSTOMER}`,
+      { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+    );
+    return res.data.value;
+  }
+
+  /**
+   * Aging with the payments recorded in Dynamics applied to the open
+   * invoices. A payment with nothing left to apply to settled an invoice that
+   * is already closed, so it is not counted as unapplied cash.
+   */
+  private netOfPayments(gross: ARAgingData, payments: PaymentRecord[]): ARAgingData {
+    if (payments.length === 0) return gross;
+    const { arData } = this.cashApplication.applyPayments(gross, payments);
+    return { ...arData, unappliedCash: gross.unappliedCash };
+  }
+
+  /**
+   * Fetch line items for multiple invoices in parallel, respecting lineItemConcurrency.
+   * Returns a map of invoiceId → line-item array. Failed individual fetches silently
+   * return an empty array so the caller can fall back to the invoice header amount.
+   */
+  private async fetchLineItemsBatched(
+    invoiceIds: string[],
+    token: string,
+  ): Promise<Map<string, ODataRecord[]>> {
+    const resultMap = new Map<string, ODataRecord[]>();
+    for (let i = 0; i < invoiceIds.length; i += this.lineItemConcurrency) {
+      const batch = invoiceIds.slice(i, i + this.lineItemConcurrency);
+      const settled = await Promise.allSettled(
+        batch.map(id =>
+          this.http.get<ODataCollection>(
+            `${this.apiEndpoint}/invoicedetails?$filter=_invoiceid_value eq ${id}` +
+            `&$select=${LINE_ITEM_SELECT}`,
+            { headers: erpHeaders(token), timeout: this.requestTimeoutMs },
+          ),
+        ),
+      );
+      batch.forEach((id, j) => {
+        const r = settled[j];
+        resultMap.set(id, r.status === 'fulfilled' ? r.value.data.value : []);
+      });
+    }
+    return resultMap;
+  }
+
+  /**
+   * Line items for many invoices, bulkFilterSize invoices per query and
+   * lineItemConcurrency queries at a time. Returns a map of invoiceId →
+   * line-item array; invoices whose query fails get none, so the caller falls
+   * back to the invoice header amount.
+   */
+  private async fetchLineItemsBulk(
+    invoiceIds: string[],
+    token: string,
+  ): Promise<Map<string, ODataRecord[]>> {
+    const batches: string[][] = [];
+    for (let i = 0; i < invoiceIds.length; i += this.bulkFilterSize) {
+      batches.push(invoiceIds.slice(i, i + this.bulkFilterSize));
+    }
+
+    const settled = await mapWithConcurrency(batches, this.lineItemConcurrency, batch =>
+      this.fetchAllPages(
+        `${this.apiEndpoint}/invoicedetails?$filter=${anyOf('_invoiceid_value', batch)}` +
+        `&$select=${LINE_ITEM_SELECT},_invoiceid_value`,
+        token,
+      ),
+    );
+
+    const resultMap = new Map<string, ODataRecord[]>();
+    for (const r of settled) {
+      if (r.status !== 'fulfilled') continue;
+      for (const li of r.value) {
+        const lines = resultMap.get(li._invoiceid_value) ?? [];
+        lines.push(li);
+        resultMap.set(li._invoiceid_value, lines);
+      }
+    }
+    return resultMap;
+  }
+
+  /**
+   * GET every record of an OData collection, following @odata.nextLink until
+   * the last page. Page size is requested with the odata.maxpagesize preference,
+   * alongside any other `preferences`.
+   */
+  private async fetchAllPages(url: string, token: string, preferences: string[] = []): Promise<ODataRecord[]> {
+    const records: ODataRecord[] = [];
+    let next: string | undefined = url;
+    while (next) {
+      const res: { data: ODataCollection } = await this.http.get(next, {
+        headers: { ...erpHeaders(token), Prefer: [`odata.maxpagesize=${this.pageSize}`, ...preferences].join(',') },
+        timeout: this.requestTimeoutMs,
+      });
+      for (const record of res.data.value) records.push(record);
+      next = res.data['@odata.nextLink'];
+    }
+    return records;
+  }
+
+  private getCredential(): ClientSecretCredential {
+    if (!this.credential) {
+      this.credential = new ClientSecretCredential(
+        process.env.ERP_TENANT_ID    ?? '',
+        process.env.ERP_CLIENT_ID    ?? '',
+        process.env.ERP_CLIENT_SECRET ?? '',
+      );
+    }
+    return this.credential;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.odataMode === 'replay') return 'replay';
+
+    const now = Date.now();
+    if (this.tokenCache && this.tokenCache.expiresAt > now + TOKEN_REFRESH_BUFFER_MS) {
+      return this.tokenCache.token;
+    }
+    const scope = this.resource.endsWith('/')
+      ? `${this.resource}.default`
+      : `${this.resource}/.default`;
+    const tokenResponse = await this.getCredential().getToken(scope);
+    this.tokenCache = { token: tokenResponse.token, expiresAt: tokenResponse.expiresOnTimestamp };
+    process.stderr.write('🔑 Acquired new AAD token\n');
+    return this.tokenCache.token;
+  }
+}
+
+/**
+ * Resolve each invoice's amount in place: the line-item total when it has a
+ * value, otherwise the best of D365's server-calculated header amounts.
+ */
+function applyLineItemAmounts(d365Invoices: ODataRecord[], lineItemsMap: Map<string, ODataRecord[]>): void {
+  for (const invoice of d365Invoices) {
+    // D365 header-level fallback chain (server-calculated fields)
+    const headerAmount: number =
+      (invoice.totalamount > 0        ? invoice.totalamount        : null) ??
+      (invoice.totallineitemamount > 0 ? invoice.totallineitemamount : null) ??
+      (invoice.totalamountlessfreight > 0 ? invoice.totalamountlessfreight : null) ??
+      0;
+
+    const lineItems = lineItemsMap.get(invoice.invoiceid) ?? [];
+    let lineItemTotal = 0;
+    for (const li of lineItems) {
+      // extendedamount is D365's calculated quantity*priceperunit; fall back to baseamount
+      // or manual calculation if both are null
+      const liAmount: number =
+        (li.extendedamount > 0 ? li.extendedamount : null) ??
+        (li.baseamount      > 0 ? li.baseamount      : null) ??
+        ((li.quantity != null && li.priceperunit != null) ? li.quantity * li.priceperunit : null) ??
+        0;
+      lineItemTotal += liAmount;
+    }
+
+    // Prefer line-item total if it has a value; fall back to the header amount
+    invoice.totalamount = lineItemTotal > 0 ? lineItemTotal : headerAmount;
+  }
+}
+
+/**
+ * AR aging from an account record and its open invoices as the Web API
+ * returns them (amounts already resolved by applyLineItemAmounts). `today`
+ * dates the aging, e.g. when checking recorded fixtures.
+ */
+export function calculateARAgingFromDynamicsInvoices(
+  account: ODataRecord,
+  d365Invoices: ODataRecord[],
+  today: Date = new Date(),
+): ARAgingData {
+  const invoices: Invoice[] = d365Invoices.map(inv => {
+    const dueDate     = inv.duedate        ? new Date(inv.duedate)        : today;
+    const invoiceDate = inv.datedelivered  ? new Date(inv.datedelivered)  : today;
+    const amount: number = inv.totalamount ?? 0;
+    return {
+      invoiceId:        inv.invoiceid,
+      invoiceNumber:    inv.name ?? undefined,
+      invoiceDate:      invoiceDate.toISOString(),
+      dueDate:          dueDate.toISOString(),
+      currency:         inv.transactioncurrencyid?.isocurrencycode ?? undefined,
+      amount,
+      amountPaid:       0,
+      amountOutstanding: amount,
+      daysOverdue:      Math.max(0, daysPastDue(dueDate.toISOString(), today)),
+    };
+  });
+
+  const currency = new CurrencyService();
+  const arData = buildARAgingData(account.accountid, account.name ?? 'Unknown Customer', invoices, currency);
+  const collector = account.owninguser?.internalemailaddress || account.owninguser?.fullname;
+  const industry = account['industrycode@OData.Community.Display.V1.FormattedValue'] ?? account.industrycode;
+  return {
+    ...arData,
+    ...(collector ? { collector } : {}),
+    ...(account.creditlimit ? {
+      creditLimit: currency.toReporting(account.creditlimit, account.transactioncurrencyid?.isocurrencycode),
+    } : {}),
+    ...(account.createdon ? { customerSince: account.createdon } : {}),
+    ...(industry !== undefined && industry !== null ? { industry: String(industry) } : {}),
+  };
+}
+
+/** Pull the first dollar amount out of free text, e.g. "Amount: $5,250" → 5250. */
+function parseAmount(text: string | null | undefined): number | null {
+  const match = (text ?? '').match(/\$\s?([\d,]+(?:\.\d+)?)/);
+  return match ? parseFloat(match[1].replace(/,/g, '')) : null;
+}
+
+/** Payments from payment tasks, which carry the amount in the description ("Amount: $X"). */
+function paymentsFromTasks(customerId: string, tasks: ODataRecord[]): PaymentRecord[] {
+  const payments: PaymentRecord[] = [];
+  for (const task of tasks) {
+    const amount = parseAmount(task.description);
+    if (amount !== null && task.actualend) {
+      payments.push({
+        paymentId:   task.activityid ?? `${customerId}-${task.actualend}`,
+        customerId,
+        paymentDate: task.actualend,
+        amount,
+        reference:   task.subject ?? '',
+      });
+    }
+  }
+  return payments;
+}
+
+/**
+ * Payment history from a customer's payment tasks (newest first) and
+ * promise-to-pay appointments as the Web API returns them.
+ */
+export function calculatePaymentHistoryFromRecords(
+  customerId: string,
+  tasks: ODataRecord[],
+  appointments: ODataRecord[],
+): PaymentHistory {
+  let onTimeCount = 0, totalDaysLate = 0;
+
+  for (const task of tasks) {
+    const subject = task.subject ?? '';
+    if (subject.includes('On Time')) onTimeCount++;
+    const match = subject.match(/(\d+) days late/);
+    if (match) totalDaysLate += parseInt(match[1]);
+  }
+  const payments = paymentsFromTasks(customerId, tasks);
+
+  // Promise appointments: "Promised $X by YYYY-MM-DD" in the description. The
+  // subject only carries a status once the promise has been resolved in D365.
+  const promiseToPayHistory: PromiseToPay[] = appointments.map(appt => {
+    const subject = appt.subject ?? '';
+    const status = subject.includes('Fulfilled') ? 'kept'
+      : subject.includes('Broken') ? 'broken'
+      : undefined;
+    return {
+      promiseId:      appt.activityid,
+      customerId,
+      date:           appt.createdon ?? appt.scheduledend ?? new Date().toISOString(),
+      promisedAmount: parseAmount(appt.description) ?? 0,
+      promisedDate:   appt.scheduledend ?? new Date().toISOString(),
+      fulfilled:      status === 'kept',
+      status,
+    };
+  });
+
+  const totalTransactions  = tasks.length;
+  const onTimePaymentRate  = totalTransactions > 0 ? onTimeCount / totalTransactions : 1;
+  const averagePaymentDays = totalTransactions > 0 ? 30 + totalDaysLate / totalTransactions : 30;
+
+  return {
+    customerId,
+    totalTransactions,
+    onTimePaymentRate,
+    averagePaymentDays,
+    promiseToPayHistory,
+    payments,
+    lastPaymentDate: tasks.length > 0 ? tasks[0].actualend : new Date().toISOString(),
+  };
+}
+
+/**
+ * A customer contact from a Dataverse contact record. Dataverse has no
+ * collections role, so it is read from the job title, with decision makers
+ * (accountrolecode) treated as the escalation contact.
+ */
+export function mapDynamicsContact(
+  customerId: string,
+  contact: ODataRecord,
+  primaryContactId?: string,
+  languageField?: string,
+): CustomerContact {
+  const jobTitle: string | undefined = contact.jobtitle || undefined;
+  const role: ContactRole = jobTitle && BILLING_TITLE.test(jobTitle) ? 'billing'
+    : (jobTitle && ESCALATION_TITLE.test(jobTitle)) || contact.accountrolecode === DECISION_MAKER ? 'escalation'
+    : 'other';
+  const language = languageField ? contact[languageField] : undefined;
+  return {
+    contactId:        contact.contactid,
+    customerId,
+    name:             contact.fullname ?? contact.emailaddress1 ?? 'Unknown Contact',
+    email:            contact.emailaddress1 || undefined,
+    phone:            contact.telephone1 || undefined,
+    jobTitle,
+    role,
+    primary:          primaryContactId !== undefined
+      && String(contact.contactid).toLowerCase() === primaryContactId.toLowerCase(),
+    preferredChannel: CONTACT_METHODS[contact.preferredcontactmethodcode],
+    language:         language ? String(language) : undefined,
+    doNotEmail:       contact.donotemail === true,
+  };
+}
+
+/** OData filter matching any of the given GUIDs, e.g. "(accountid eq a or accountid eq b)". */
+function anyOf(field: string, ids: string[]): string {
+  return `(${ids.map(id => `${field} eq ${id}`).join(' or ')})`;
+}
+
+/** Index records by a GUID field, compared case-insensitively. */
+function groupBy(records: ODataRecord[], field: string): Map<string, ODataRecord[]> {
+  const groups = new Map<string, ODataRecord[]>();
+  for (const record of records) {
+    const key = String(record[field] ?? '').toLowerCase();
+    const group = groups.get(key) ?? [];
+    group.push(record);
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+function erpHeaders(token: string) {
+  return {
+    Authorization:    `Bearer ${token}`,
+    'Content-Type':   'application/json',
+    'OData-MaxVersion': '4.0',
+    'OData-Version':    '4.0',
+  };
+}
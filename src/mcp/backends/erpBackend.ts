@@ -0,0 +1,66 @@
+import type { ARAgingData, CustomerAccountsResult, CustomerContact, PaymentHistory } from '../../types';
+
+export type ErpBackendName = 'dynamics' | 'demo' | 'flatfile';
+
+export const ERP_BACKENDS: ErpBackendName[] = ['dynamics', 'demo', 'flatfile'];
+
+/**
+ * Source of AR data behind the ERP MCP server.
+ *
+ * A backend returns the ERP's own view of a customer — invoice-level aging
+ * before any locally ingested payments are applied, and payment history as
+ * the ERP records it. The MCP server layers the payment ledger and cash
+ * application on top, so those work the same whichever backend is in use.
+ */
+export interface ErpBackend {
+  readonly name: ErpBackendName;
+
+  /** Open invoices and aging buckets for a customer. */
+  getARAgingData(customerId: string): Promise<ARAgingData>;
+
+  /** Payment behaviour, recorded payments and promise-to-pay records for a customer. */
+  getPaymentHistory(customerId: string): Promise<PaymentHistory>;
+
+  /** IDs of every customer with at least one open invoice. */
+  getCustomersWithOutstandingBalance(): Promise<string[]>;
+
+  /**
+   * Aging and payment history for many customers at once — the given IDs, or
+   * every customer with an outstanding balance when none are given.
+   */
+  getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult>;
+
+  /** Write a collections note back to the customer record. */
+  updateCustomerNotes(customerId: string, note: string): Promise<void>;
+
+  /** Customer that owns an invoice, looked up by invoice ID or invoice number. */
+  findCustomerByInvoice(invoiceRef: string): Promise<string | undefined>;
+
+  /** People at the customer, each with the role they play in collections. */
+  getCustomerContacts(customerId: string): Promise<CustomerContact[]>;
+}
+
+/**
+ * getCustomerAccounts for backends without a bulk query: fetch each
+ * customer's aging and payment history in turn.
+ */
+export async function getCustomerAccountsOneByOne(
+  backend: ErpBackend,
+  customerIds?: string[],
+): Promise<CustomerAccountsResult> {
+  const ids = customerIds ?? await backend.getCustomersWithOutstandingBalance();
+  const result: CustomerAccountsResult = { accounts: [], failed: [] };
+
+  for (const customerId of ids) {
+    try {
+      const [arData, paymentHistory] = await Promise.all([
+        backend.getARAgingData(customerId),
+        backend.getPaymentHistory(customerId),
+      ]);
+      result.accounts.push({ customerId, arData, paymentHistory });
+    } catch (error: unknown) {
+      result.failed.push({ customerId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+}
@@ -0,0 +1,374 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  ARAgingData,
+  ContactChannel,
+  ContactRole,
+  CustomerAccountsResult,
+  CustomerContact,
+  Invoice,
+  PaymentHistory,
+  PaymentRecord,
+  PromiseToPay,
+  PromiseStatus,
+} from '../../types';
+import { buildARAgingData, daysPastDue } from '../../services/agingService';
+import { parseCsv } from '../../utils/csv';
+import { getCustomerAccountsOneByOne } from './erpBackend';
+import type { ErpBackend } from './erpBackend';
+
+type FlatFileName = 'customers' | 'invoices' | 'payments' | 'promises' | 'contacts';
+
+type Row = Record<string, unknown>;
+
+interface FlatFileCustomer {
+  customerId: string;
+  customerName: string;
+  collector?: string;
+  creditLimit?: number;
+  customerSince?: string;
+  industry?: string;
+}
+interface FlatFileInvoice { customerId: string; invoice: Invoice; }
+
+const CONTACT_ROLES: ContactRole[] = ['billing', 'escalation', 'other'];
+const CONTACT_CHANNELS: ContactChannel[] = ['email', 'phone', 'mail'];
+
+/** Amounts below half a cent are treated as settled. */
+const EPSILON = 0.005;
+
+/**
+ * Flat-file backend — reads AR data exported from any ERP as CSV or JSON
+ * files in a single directory (ERP_FLATFILE_DIR, default ./data/erp):
+ *
+ *   customers.csv|json : customerId, customerName, optional collector (account owner),
+ *                        creditLimit (reporting currency), customerSince and industry
+ *   invoices.csv|json  : invoiceId, customerId, invoiceDate, dueDate, amount,
+ *                        optional invoiceNumber, currency and amountPaid
+ *   payments.csv|json  : paymentId, customerId, paymentDate, amount, optional
+ *                        currency, reference and invoices (IDs separated by ; or |)
+ *   promises.csv|json  : optional — customerId, date, promisedAmount, promisedDate, status
+ *   contacts.csv|json  : optional — customerId, name, email, role (billing, escalation or
+ *                        other), optional contactId, phone, jobTitle, primary,
+ *                        preferredChannel (email, phone or mail), language and doNotEmail
+ *
+ * JSON files hold an array of objects with the same field names as the CSV
+ * headers. Header matching ignores case, spaces and punctuation. Invoice
+ * amountPaid is taken as the ERP's own settlement state; the payments file is
+ * payment history only and is not applied to invoices again.
+ *
+ * Notes written through updateCustomerNotes are appended to notes.jsonl in the
+ * same directory. Files are re-read whenever they change on disk.
+ */
+export class FlatFileBackend implements ErpBackend {
+  readonly name = 'flatfile' as const;
+
+  private directory: string;
+  private cache = new Map<FlatFileName, { mtimeMs: number; rows: Row[] }>();
+
+  constructor(directory: string = process.env.ERP_FLATFILE_DIR ?? path.resolve(process.cwd(), 'data', 'erp')) {
+    this.directory = directory;
+  }
+
+  async getARAgingData(customerId: string): Promise<ARAgingData> {
+    const [customers, invoices] = await Promise.all([this.loadCustomers(), this.loadInvoices()]);
+    const customer = customers.find(c => c.customerId === customerId);
+    const customerInvoices = invoices.filter(inv => inv.customerId === customerId);
+
+    if (!customer && customerInvoices.length === 0) {
+      throw new Error(`Customer not found: ${customerId}`);
+    }
+
+    const open = customerInvoices
+      .map(inv => inv.invoice)
+      .filter(inv => inv.amountOutstanding >= EPSILON);
+
+    const arData = buildARAgingData(customerId, customer?.customerName ?? 'Unknown Customer', open);
+    if (!customer) return arData;
+
+    const { collector, creditLimit, customerSince, industry } = customer;
+    return {
+      ...arData,
+      ...(collector ? { collector } : {}),
+      ...(creditLimit !== undefined ? { creditLimit } : {}),
+      ...(customerSince ? { customerSince } : {}),
+      ...(industry ? { industry } : {}),
+    };
+  }
+
+  async getPaymentHistory(customerId: string): Promise<PaymentHistory> {
+    const [payments, invoices, promises] = await Promise.all([
+      this.loadPayments(), this.loadInvoices(), this.loadPromises(),
+    ]);
+
+    const customerPayments = payments
+      .filter(p => p.customerId === customerId)
+      .sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime());
+
+    // On-time rate and days-to-pay come from payments that name the invoices they settle
+    let matched = 0, onTime = 0, totalDays = 0;
+    for (const payment of customerPayments) {
+      for (const ref of payment.remittanceInvoiceIds ?? []) {
+        const invoice = findInvoice(invoices, ref)?.invoice;
+        if (!invoice) continue;
+        matched++;
+        if (daysPastDue(invoice.dueDate, new Date(payment.paymentDate)) <= 0) onTime++;
+        totalDays += Math.max(0, daysPastDue(invoice.invoiceDate, new Date(payment.paymentDate)));
+      }
+    }
+
+    return {
+      customerId,
+      totalTransactions:   customerPayments.length,
+      onTimePaymentRate:   matched > 0 ? onTime / matched : 1,
+      averagePaymentDays:  matched > 0 ? totalDays / matched : 30,
+      promiseToPayHistory: promises.filter(p => p.customerId === customerId),
+      payments:            customerPayments,
+      lastPaymentDate:     customerPayments[0]?.paymentDate ?? new Date().toISOString(),
+    };
+  }
+
+  async getCustomersWithOutstandingBalance(): Promise<string[]> {
+    const invoices = await this.loadInvoices();
+    const ids = new Set<string>();
+    for (const inv of invoices) {
+      if (inv.invoice.amountOutstanding >= EPSILON) ids.add(inv.customerId);
+    }
+    return Array.from(ids);
+  }
+
+  /** The files are cached in memory, so per-customer lookups are cheap. */
+  async getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult> {
+    return getCustomerAccountsOneByOne(this, customerIds);
+  }
+
+  async updateCustomerNotes(customerId: string, note: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const entry = { customerId, note, date: new Date().toISOString() };
+    await fs.appendFile(path.join(this.directory, 'notes.jsonl'), JSON.stringify(entry) + '\n', 'utf8');
+    process.stderr.write(`✅ Updated notes for customer ${customerId} in ${this.directory}\n`);
+  }
+
+  async findCustomerByInvoice(invoiceRef: string): Promise<string | undefined> {
+    return findInvoice(await this.loadInvoices(), invoiceRef)?.customerId;
+  }
+
+  async getCustomerContacts(customerId: string): Promise<CustomerContact[]> {
+    return (await this.loadContacts()).filter(c => c.customerId === customerId);
+  }
+
+  private async loadCustomers(): Promise<FlatFileCustomer[]> {
+    const rows = await this.load('customers');
+    return rows.map((row, index) => {
+      const where = `customers row ${index + 1}`;
+      return {
+        customerId:    text(row, 'customerid', 'id', 'accountid', 'account'),
+        customerName:  text(row, 'customername', 'name', 'accountname') || 'Unknown Customer',
+        collector:     text(row, 'collector', 'owner', 'collectoremail') || undefined,
+        creditLimit:   optionalNumber(row, where, 'creditlimit'),
+        customerSince: optionalDate(row, where, 'customersince', 'createdon', 'since'),
+        industry:      text(row, 'industry', 'sector') || undefined,
+      };
+    });
+  }
+
+  private async loadInvoices(): Promise<FlatFileInvoice[]> {
+    const rows = await this.load('invoices');
+    const today = new Date();
+    return rows.map((row, index) => {
+      const where = `invoices row ${index + 1}`;
+      const amount     = number(row, where, 'amount', 'totalamount', 'invoiceamount');
+      const amountPaid = optionalNumber(row, where, 'amountpaid', 'paid') ?? 0;
+      const dueDate    = date(row, where, 'duedate', 'due');
+      return {
+        customerId: text(row, 'customerid', 'customer', 'accountid', 'account'),
+        invoice: {
+          invoiceId:         text(row, 'invoiceid', 'id'),
+          invoiceNumber:     text(row, 'invoicenumber', 'number', 'name') || undefined,
+          invoiceDate:       date(row, where, 'invoicedate', 'date', 'issuedate'),
+          dueDate,
+          currency:          text(row, 'currency', 'ccy', 'currencycode').toUpperCase() || undefined,
+          amount,
+          amountPaid,
+          amountOutstanding: Math.round((amount - amountPaid) * 100) / 100,
+          daysOverdue:       Math.max(0, daysPastDue(dueDate, today)),
+        },
+      };
+    });
+  }
+
+  private async loadPayments(): Promise<PaymentRecord[]> {
+    const rows = await this.load('payments');
+    return rows.map((row, index) => {
+      const where = `payments row ${index + 1}`;
+      const customerId  = text(row, 'customerid', 'customer', 'accountid', 'account');
+      const paymentDate = date(row, where, 'paymentdate', 'date', 'valuedate');
+      return {
+        paymentId:            text(row, 'paymentid', 'id') || `${customerId}-${paymentDate}`,
+        customerId,
+        paymentDate,
+        amount:               number(row, where, 'amount'),
+        currency:             text(row, 'currency', 'ccy', 'currencycode').toUpperCase() || undefined,
+        reference:            text(row, 'reference', 'memo', 'description') || undefined,
+        remittanceInvoiceIds: list(row, 'invoices', 'invoiceids', 'invoiceid', 'invoice'),
+        source:               'erp',
+      };
+    });
+  }
+
+  private async loadPromises(): Promise<PromiseToPay[]> {
+    const rows = await this.load('promises');
+    return rows.map((row, index) => {
+      const where = `promises row ${index + 1}`;
+      const status = (text(row, 'status') || undefined) as PromiseStatus | undefined;
+      return {
+        promiseId:      text(row, 'promiseid', 'id') || undefined,
+        customerId:     text(row, 'customerid', 'customer', 'accountid', 'account'),
+        date:           date(row, where, 'date', 'createdon', 'promisemade'),
+        promisedAmount: number(row, where, 'promisedamount', 'amount'),
+        promisedDate:   date(row, where, 'promiseddate', 'duedate'),
+        fulfilled:      status === 'kept',
+        status,
+      };
+    });
+  }
+
+  private async loadContacts(): Promise<CustomerContact[]> {
+    const rows = await this.load('contacts');
+    return rows.map((row, index) => {
+      const where = `contacts row ${index + 1}`;
+      const customerId = text(row, 'customerid', 'customer', 'accountid', 'account');
+      const email      = text(row, 'email', 'emailaddress') || undefined;
+      return {
+        contactId:        text(row, 'contactid', 'id') || `${customerId}-${email ?? index + 1}`,
+        customerId,
+        name:             text(row, 'name', 'contactname', 'fullname') || email || 'Unknown Contact',
+        email,
+        phone:            text(row, 'phone', 'telephone') || undefined,
+        jobTitle:         text(row, 'jobtitle', 'title') || undefined,
+        role:             oneOf(row, where, CONTACT_ROLES, 'role') ?? 'other',
+        primary:          optionalBoolean(row, where, 'primary', 'isprimary'),
+        preferredChannel: oneOf(row, where, CONTACT_CHANNELS, 'preferredchannel', 'channel'),
+        language:         text(row, 'language', 'locale') || undefined,
+        doNotEmail:       optionalBoolean(row, where, 'donotemail'),
+      };
+    });
+  }
+
+  /**
+   * Rows from `<name>.json` or `<name>.csv`, whichever exists. Missing files
+   * yield no rows. Parsed rows are cached until the file's mtime changes.
+   */
+  private async load(name: FlatFileName): Promise<Row[]> {
+    for (const ext of ['json', 'csv']) {
+      const file = path.join(this.directory, `${name}.${ext}`);
+      let mtimeMs: number;
+      try {
+        mtimeMs = (await fs.stat(file)).mtimeMs;
+      } catch {
+        continue;
+      }
+
+      const cached = this.cache.get(name);
+      if (cached && cached.mtimeMs === mtimeMs) return cached.rows;
+
+      const content = await fs.readFile(file, 'utf8');
+      let parsed: Row[];
+      if (ext === 'json') {
+        const data: unknown = JSON.parse(content);
+        if (!Array.isArray(data)) throw new Error(`${file} must contain a JSON array`);
+        parsed = data as Row[];
+      } else {
+        parsed = parseCsv(content);
+      }
+
+      const rows = parsed.map(normalizeKeys);
+      this.cache.set(name, { mtimeMs, rows });
+      process.stderr.write(`📂 Loaded ${rows.length} ${name} from ${file}\n`);
+      return rows;
+    }
+    return [];
+  }
+}
+
+function findInvoice(invoices: FlatFileInvoice[], ref: string): FlatFileInvoice | undefined {
+  const wanted = ref.toLowerCase();
+  return invoices.find(({ invoice }) =>
+    invoice.invoiceId.toLowerCase() === wanted || invoice.invoiceNumber?.toLowerCase() === wanted);
+}
+
+/** Lower-case keys with non-alphanumerics stripped, so "Due Date" and dueDate match. */
+function normalizeKeys(row: Row): Row {
+  const result: Row = {};
+  for (const [key, value] of Object.entries(row)) {
+    result[key.toLowerCase().replace(/[^a-z0-9]/g, '')] = value;
+  }
+  return result;
+}
+
+function raw(row: Row, keys: string[]): unknown {
+  for (const key of keys) {
+    const value = row[key];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function text(row: Row, ...keys: string[]): string {
+  const value = raw(row, keys);
+  return value === undefined ? '' : String(value).trim();
+}
+
+function optionalNumber(row: Row, where: string, ...keys: string[]): number | undefined {
+  const value = raw(row, keys);
+  if (value === undefined) return undefined;
+  const n = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  if (isNaN(n)) throw new Error(`${where}: invalid ${keys[0]} "${String(value)}"`);
+  return n;
+}
+
+function number(row: Row, where: string, ...keys: string[]): number {
+  const n = optionalNumber(row, where, ...keys);
+  if (n === undefined) throw new Error(`${where}: missing ${keys[0]}`);
+  return n;
+}
+
+function optionalDate(row: Row, where: string, ...keys: string[]): string | undefined {
+  const value = raw(row, keys);
+  if (value === undefined) return undefined;
+  const parsed = new Date(String(value));
+  if (isNaN(parsed.getTime())) throw new Error(`${where}: invalid ${keys[0]} "${String(value)}"`);
+  return parsed.toISOString();
+}
+
+function date(row: Row, where: string, ...keys: string[]): string {
+  const d = optionalDate(row, where, ...keys);
+  if (d === undefined) throw new Error(`${where}: missing ${keys[0]}`);
+  return d;
+}
+
+function optionalBoolean(row: Row, where: string, ...keys: string[]): boolean | undefined {
+  const value = raw(row, keys);
+  if (value === undefined || typeof value === 'boolean') return value;
+  const word = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(word)) return true;
+  if (['false', 'no', 'n', '0'].includes(word)) return false;
+  throw new Error(`${where}: invalid ${keys[0]} "${String(value)}"`);
+}
+
+/** A value from a fixed set, matched case-insensitively. */
+function oneOf<T extends string>(row: Row, where: string, allowed: T[], ...keys: string[]): T | undefined {
+  const value = text(row, ...keys).toLowerCase();
+  if (!value) return undefined;
+  if (!(allowed as string[]).includes(value)) {
+    throw new Error(`${where}: invalid ${keys[0]} "${value}" — use ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function list(row: Row, ...keys: string[]): string[] {
+  const value = raw(row, keys);
+  if (value === undefined) return [];
+  if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(v => v.length > 0);
+  return String(value).split(/[;|\s]+/).filter(v => v.length > 0);
+}
@@ -0,0 +1,27 @@
+import { DemoBackend } from './demoBackend';
+import { DynamicsBackend } from './dynamicsBackend';
+import { FlatFileBackend } from './flatFileBackend';
+import { ERP_BACKENDS } from './erpBackend';
+import type { ErpBackend, ErpBackendName } from './erpBackend';
+
+export type { ErpBackend, ErpBackendName } from './erpBackend';
+export { ERP_BACKENDS, DemoBackend, DynamicsBackend, FlatFileBackend };
+
+/**
+ * Create the ERP backend selected by the environment.
+ *
+ * ERP_BACKEND : dynamics | demo | flatfile
+ * When ERP_BACKEND is unset, DEMO_MODE=true selects the demo backend and
+ * anything else selects Dynamics 365, matching earlier releases.
+ */
+export function createErpBackend(
+  name: string = process.env.ERP_BACKEND || (process.env.DEMO_MODE === 'true' ? 'demo' : 'dynamics'),
+): ErpBackend {
+  switch (name as ErpBackendName) {
+    case 'dynamics': return new DynamicsBackend();
+    case 'demo':     return new DemoBackend();
+    case 'flatfile': return new FlatFileBackend();
+    default:
+      throw new Error(`Unknown ERP_BACKEND "${name}". Use one of: ${ERP_BACKENDS.join(', ')}`);
+  }
+}
@@ -0,0 +1,125 @@
+import axios from 'axios';
+import type { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * How DynamicsBackend reaches the Dataverse Web API (ERP_ODATA_MODE):
+ *   live   : straight to the tenant (default)
+ *   record : to the tenant, saving every request and response as a fixture
+ *   replay : from saved fixtures only — no token, no network
+ */
+export type ODataMode = 'live' | 'record' | 'replay';
+
+export const ODATA_MODES: ODataMode[] = ['live', 'record', 'replay'];
+
+/** One recorded OData exchange, stored as a JSON file. */
+export interface ODataFixture {
+  method: string;
+  /** Request path and query, without the tenant's Web API root */
+  url: string;
+  /** Request body, for reference — not part of the match */
+  requestBody?: unknown;
+  status: number;
+  data: unknown;
+}
+
+/** Web API root of any tenant, e.g. https://org.crm.dynamics.com/api/data/v9.2 */
+const WEB_API_ROOT = /^https?:\/\/[^/]+\/api\/data\/v[\d.]+/i;
+
+/**
+ * Axios instance for Dataverse calls in the given mode. Fixtures are matched
+ * on method and URL, so replay serves exactly the requests a recording
+ * session made — including @odata.nextLink pages — from any tenant.
+ */
+export function createODataClient(mode: ODataMode, fixturesDir: string, apiEndpoint: string): AxiosInstance {
+  if (!ODATA_MODES.includes(mode)) {
+    throw new Error(`Unknown ERP_ODATA_MODE "${mode}". Use one of: ${ODATA_MODES.join(', ')}`);
+  }
+  if (mode === 'live') return axios.create();
+
+  if (mode === 'replay') {
+    return axios.create({
+      adapter: async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+        const method = (config.method ?? 'get').toUpperCase();
+        const url = fixtureUrl(config.url ?? '', apiEndpoint);
+        const file = path.join(fixturesDir, fixtureFileName(method, url));
+        if (!existsSync(file)) {
+          throw new Error(`No recorded OData response for ${method} ${url} (looked for ${file})`);
+        }
+
+        const fixture = JSON.parse(readFileSync(file, 'utf8')) as ODataFixture;
+        const response: AxiosResponse = {
+          data: fixture.data,
+          status: fixture.status,
+          statusText: 'Replayed',
+          headers: {},
+          config,
+        };
+        // Same status handling as a live call, so recorded errors surface as errors
+        const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+        if (!validateStatus(fixture.status)) {
+          throw new axios.AxiosError(
+            `Request failed with status code ${fixture.status}`,
+            axios.AxiosError.ERR_BAD_RESPONSE,
+            config,
+            undefined,
+            response,
+          );
+        }
+        return response;
+      },
+    });
+  }
+
+  const client = axios.create();
+  const save = (response: AxiosResponse) => {
+    const method = (response.config.method ?? 'get').toUpperCase();
+    const url = fixtureUrl(response.config.url ?? '', apiEndpoint);
+    const fixture: ODataFixture = {
+      method,
+      url,
+      ...(response.config.data ? { requestBody: parseBody(response.config.data) } : {}),
+      status: response.status,
+      data: response.data ?? null,
+    };
+    if (!existsSync(fixturesDir)) mkdirSync(fixturesDir, { recursive: true });
+    writeFileSync(path.join(fixturesDir, fixtureFileName(method, url)), JSON.stringify(fixture, null, 2));
+  };
+  client.interceptors.response.use(
+    response => {
+      save(response);
+      return response;
+    },
+    (error: unknown) => {
+      // Error responses (404, 403...) are recorded too so replay fails the same way
+      if (axios.isAxiosError(error) && error.response) save(error.response);
+      return Promise.reject(error);
+    },
+  );
+  return client;
+}
+
+/** The request URL with the tenant's Web API root removed, e.g. "/accounts(…)?$expand=…". */
+function fixtureUrl(url: string, apiEndpoint: string): string {
+  const root = apiEndpoint.replace(/\/+$/, '');
+  if (root && url.startsWith(root)) return url.substring(root.length);
+  return url.replace(WEB_API_ROOT, '');
+}
+
+/** Readable, collision-safe name, e.g. "GET-invoices-3f9a1c0b2d4e.json". */
+function fixtureFileName(method: string, url: string): string {
+  const entitySet = url.replace(/^\//, '').split(/[(?/]/)[0] || 'root';
+  const hash = createHash('sha256').update(`${method} ${url}`).digest('hex').substring(0, 12);
+  return `${method}-${entitySet}-${hash}.json`;
+}
+
+function parseBody(body: unknown): unknown {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
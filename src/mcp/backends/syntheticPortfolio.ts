@@ -0,0 +1,267 @@
+import type { ARAgingData, Invoice, PaymentHistory, PaymentRecord, PromiseToPay } from '../../types';
+import { buildARAgingData, daysPastDue } from '../../services/agingService';
+import { CurrencyService } from '../../services/currencyService';
+
+const DAY_MS = 86_400_000;
+
+export interface SyntheticPortfolioOptions {
+  /** Number of customers to generate */
+  customers: number;
+  /** Same seed, same portfolio (default 1) */
+  seed?: number;
+  /** Dates are generated relative to this day (default now) */
+  asOf?: Date;
+}
+
+export interface SyntheticCustomer {
+  arData: ARAgingData;
+  paymentHistory: PaymentHistory;
+}
+
+/** How a customer pays. Shares sum to 1. */
+interface PaymentBehaviour {
+  name: string;
+  share: number;
+  /** Chance an invoice is paid after its due date */
+  lateChance: number;
+  /** Days past due when late, [min, max] */
+  lateDays: [number, number];
+  /** Chance an invoice is never paid */
+  unpaidChance: number;
+  /** Chance a promise to pay is kept in full */
+  promiseKept: number;
+  /** Promises made in the last six months, [min, max] */
+  promises: [number, number];
+  /** Chance an open overdue invoice is disputed */
+  disputeChance: number;
+}
+
+const BEHAVIOURS: PaymentBehaviour[] = [
+  { name: 'prompt',     share: 0.45, lateChance: 0.08, lateDays: [1, 7],    unpaidChance: 0,    promiseKept: 0.95, promises: [0, 1], disputeChance: 0.02 },
+  { name: 'slow',       share: 0.30, lateChance: 0.50, lateDays: [5, 30],   unpaidChance: 0.01, promiseKept: 0.75, promises: [0, 3], disputeChance: 0.05 },
+  { name: 'chronic',    share: 0.17, lateChance: 0.85, lateDays: [20, 75],  unpaidChance: 0.05, promiseKept: 0.40, promises: [2, 5], disputeChance: 0.08 },
+  { name: 'distressed', share: 0.08, lateChance: 0.95, lateDays: [60, 150], unpaidChance: 0.30, promiseKept: 0.15, promises: [3, 6], disputeChance: 0.12 },
+];
+
+const NAME_PREFIXES = [
+  'Northwind', 'Blue Yonder', 'Coho', 'Litware', 'Proseware', 'Lucerne', 'Margie\'s', 'Trey', 'Wingtip',
+  'Alpine', 'Bellows', 'Cedar', 'Fourth Coffee', 'Graphic Design', 'Humongous', 'Lamna', 'Nod', 'Relecloud',
+  'Southridge', 'VanArsdel', 'Wide World', 'Woodgrove', 'Datum', 'Consolidated', 'Fineartschool',
+];
+const NAME_SUFFIXES = [
+  'Traders', 'Logistics', 'Supply', 'Holdings', 'Foods', 'Industries', 'Systems', 'Partners', 'Outfitters',
+  'Healthcare', 'Motors', 'Media', 'Airlines', 'Winery', 'Electronics', 'Builders',
+];
+const LEGAL_FORMS = ['Ltd', 'Inc', 'LLC', 'Corp', 'Group', 'GmbH', 'plc'];
+const INDUSTRIES = [
+  'Manufacturing', 'Retail', 'Construction', 'Financial Services', 'Consumer Goods', 'Healthcare',
+  'Transportation', 'Hospitality', 'Technology', 'Wholesale', 'Agriculture', 'Media',
+];
+const COLLECTORS = [
+  'jordan.lee@contoso.com', 'sam.patel@contoso.com', 'alex.kim@contoso.com',
+  'maria.garcia@contoso.com', 'chris.obrien@contoso.com', 'priya.nair@contoso.com',
+];
+const PAYMENT_TERMS = [30, 30, 30, 45, 60];
+const DISPUTE_REASONS = ['pricing', 'quantity', 'damaged-goods', 'not-received', 'duplicate-billing'];
+
+/** ID of the nth synthetic customer (1-based), e.g. SYN-00042. */
+export function syntheticCustomerId(n: number): string {
+  return `SYN-${String(n).padStart(5, '0')}`;
+}
+
+/**
+ * Generate a portfolio of synthetic customers with a year of invoices, the
+ * payments against them, promise-to-pay histories and disputed invoices.
+ *
+ * Each customer follows one payment behaviour — prompt, slow, chronic late
+ * payer or distressed — which drives how late invoices are paid, how many stay
+ * open, and how often promises are broken. Generation is seeded per customer,
+ * so SYN-00042 is identical in a portfolio of 100 or 10,000 with the same seed.
+ */
+export function generateSyntheticPortfolio(options: SyntheticPortfolioOptions): SyntheticCustomer[] {
+  const seed = options.seed ?? 1;
+  const asOf = options.asOf ?? new Date();
+  const currency = new CurrencyService();
+  const portfolio: SyntheticCustomer[] = [];
+  for (let n = 1; n <= options.customers; n++) {
+    portfolio.push(generateCustomer(syntheticCustomerId(n), createRandom(seed, n), asOf, currency));
+  }
+  return portfolio;
+}
+
+function generateCustomer(
+  customerId: string,
+  random: Random,
+  asOf: Date,
+  currency: CurrencyService,
+): SyntheticCustomer {
+  const behaviour = pickBehaviour(random.next());
+  const now = asOf.getTime();
+
+  // Typical invoice size from ~$500 to ~$100k, log-uniform so small accounts dominate
+  const typicalAmount = 10 ** random.between(2.7, 5);
+  const invoicesPerYear = Math.round(random.between(4, 30));
+  const customerSince = new Date(now - random.between(0.3, 20) * 365 * DAY_MS);
+  const historyStart = Math.max(customerSince.getTime(), now - 365 * DAY_MS);
+
+  const open: Invoice[] = [];
+  const payments: PaymentRecord[] = [];
+  let paidCount = 0, onTimeCount = 0, totalDaysToPay = 0;
+
+  for (let i = 1; i <= invoicesPerYear; i++) {
+    const invoiceTime = random.between(historyStart, now);
+    const dueTime = invoiceTime + random.pick(PAYMENT_TERMS) * DAY_MS;
+    const amount = Math.round(typicalAmount * random.between(0.3, 2.5) * 100) / 100;
+    const invoiceId = `${customerId}-INV-${String(i).padStart(3, '0')}`;
+
+    const paidTime = random.next() < behaviour.unpaidChance
+      ? Infinity
+      : random.next() < behaviour.lateChance
+        ? dueTime + random.between(...behaviour.lateDays) * DAY_MS
+        : dueTime - random.between(0, 10) * DAY_MS;
+
+    if (paidTime <= now) {
+      const paymentDate = new Date(Math.max(paidTime, invoiceTime)).toISOString();
+      payments.push({
+        paymentId: `${invoiceId}-PMT`,
+        customerId,
+        paymentDate,
+        amount,
+        reference: invoiceId,
+        remittanceInvoiceIds: [invoiceId],
+        source: 'erp',
+      });
+      paidCount++;
+      if (paidTime <= dueTime) onTimeCount++;
+      totalDaysToPay += (Math.max(paidTime, invoiceTime) - invoiceTime) / DAY_MS;
+      continue;
+    }
+
+    // Still open; some customers have paid part of it
+    const amountPaid = random.next() < 0.1 ? Math.round(amount * random.between(0.2, 0.7) * 100) / 100 : 0;
+    const dueDate = new Date(dueTime).toISOString();
+    const daysOverdue = Math.max(0, daysPastDue(dueDate, asOf));
+    const invoice: Invoice = {
+      invoiceId,
+      invoiceNumber: invoiceId,
+      invoiceDate: new Date(invoiceTime).toISOString(),
+      dueDate,
+      amount,
+      amountPaid,
+      amountOutstanding: Math.round((amount - amountPaid) * 100) / 100,
+      daysOverdue,
+    };
+    if (daysOverdue > 0 && random.next() < behaviour.disputeChance) {
+      invoice.disputedAmount = random.next() < 0.6
+        ? invoice.amountOutstanding
+        : Math.round(invoice.amountOutstanding * random.between(0.1, 0.5) * 100) / 100;
+      invoice.disputeReason = random.pick(DISPUTE_REASONS);
+    }
+    open.push(invoice);
+  }
+
+  payments.sort((a, b) => b.paymentDate.localeCompare(a.paymentDate));
+  const customerName = `${random.pick(NAME_PREFIXES)} ${random.pick(NAME_SUFFIXES)} ${random.pick(LEGAL_FORMS)}`;
+  const arData: ARAgingData = {
+    ...buildARAgingData(customerId, customerName, open, currency),
+    collector: random.pick(COLLECTORS),
+    creditLimit: Math.max(5_000, Math.round(typicalAmount * random.between(2, 8) / 5_000) * 5_000),
+    customerSince: customerSince.toISOString(),
+    industry: random.pick(INDUSTRIES),
+  };
+
+  return {
+    arData,
+    paymentHistory: {
+      customerId,
+      averagePaymentDays: paidCount > 0 ? totalDaysToPay / paidCount : 0,
+      onTimePaymentRate: paidCount > 0 ? onTimeCount / paidCount : 1,
+      totalTransactions: paidCount,
+      lastPaymentDate: payments[0]?.paymentDate ?? customerSince.toISOString(),
+      promiseToPayHistory: generatePromises(customerId, behaviour, typicalAmount, random, asOf),
+      payments,
+    },
+  };
+}
+
+/**
+ * Promises made over the last six months. Those not yet due are left open;
+ * the rest are kept, partially kept or broken in line with the behaviour.
+ */
+function generatePromises(
+  customerId: string,
+  behaviour: PaymentBehaviour,
+  typicalAmount: number,
+  random: Random,
+  asOf: Date,
+): PromiseToPay[] {
+  const now = asOf.getTime();
+  const count = Math.round(random.between(...behaviour.promises));
+  const promises: PromiseToPay[] = [];
+
+  for (let i = 1; i <= count; i++) {
+    const madeTime = now - random.between(1, 180) * DAY_MS;
+    const promisedTime = madeTime + random.between(5, 30) * DAY_MS;
+    const promisedAmount = Math.round(typicalAmount * random.between(0.5, 3) / 100) * 100 || 100;
+    const promise: PromiseToPay = {
+      promiseId: `${customerId}-PTP-${i}`,
+      customerId,
+      date: new Date(madeTime).toISOString(),
+      promisedAmount,
+      promisedDate: new Date(promisedTime).toISOString(),
+      fulfilled: false,
+      channel: random.pick(['phone', 'email', 'teams', 'portal'] as const),
+    };
+
+    if (promisedTime <= now) {
+      const roll = random.next();
+      if (roll < behaviour.promiseKept) {
+        promise.status = 'kept';
+        promise.fulfilled = true;
+        promise.amountPaid = promisedAmount;
+        promise.actualPaymentDate = new Date(Math.min(promisedTime + random.between(-3, 2) * DAY_MS, now)).toISOString();
+      } else if (roll < behaviour.promiseKept + (1 - behaviour.promiseKept) / 3) {
+        promise.status = 'partially-kept';
+        promise.amountPaid = Math.round(promisedAmount * random.between(0.2, 0.8));
+        promise.actualPaymentDate = new Date(Math.min(promisedTime + random.between(0, 10) * DAY_MS, now)).toISOString();
+      } else {
+        promise.status = 'broken';
+      }
+    }
+    promises.push(promise);
+  }
+  return promises.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function pickBehaviour(roll: number): PaymentBehaviour {
+  let cumulative = 0;
+  for (const behaviour of BEHAVIOURS) {
+    cumulative += behaviour.share;
+    if (roll < cumulative) return behaviour;
+  }
+  return BEHAVIOURS[BEHAVIOURS.length - 1];
+}
+
+interface Random {
+  /** Uniform in [0, 1) */
+  next(): number;
+  between(min: number, max: number): number;
+  pick<T>(items: readonly T[]): T;
+}
+
+/** Mulberry32 PRNG seeded from the portfolio seed and the customer number. */
+function createRandom(seed: number, n: number): Random {
+  let state = (Math.imul(seed, 0x9e3779b1) ^ Math.imul(n, 0x85ebca6b)) >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+  return {
+    next,
+    between: (min, max) => min + next() * (max - min),
+    pick: items => items[Math.floor(next() * items.length)],
+  };
+}
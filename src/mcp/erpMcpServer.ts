@@ -4,21 +4,49 @@
  *
  * External MCP (Model Context Protocol) server that exposes AR Collections
  * data operations as standardized tools. The Collections Agent connects to
- * this server via the MCP client to access Dynamics 365 ERP data.
+ * this server via the MCP client to access ERP data.
  *
  * Tools exposed:
  *   - get_ar_aging_data                      : Fetch AR aging buckets + invoices for a customer
  *   - get_payment_history                    : Fetch payment history and promise-to-pay records
  *   - get_customers_with_outstanding_balance : List all customers with outstanding balances
+ *   - get_customer_accounts                  : Aging + payment history for many customers in one call
+ *   - get_customer_contacts                  : Billing, escalation and other contacts at a customer
  *   - update_customer_notes                  : Write a collections note back to the ERP
+ *   - record_payments                        : Ingest received payments for cash application
+ *   - import_payment_file                    : Ingest payments from a CSV, BAI2 or camt.053 file
+ *
+ * ERP data comes from a pluggable backend selected by ERP_BACKEND:
+ *   - dynamics : Dynamics 365 via the Dataverse Web API (default)
+ *   - demo     : built-in mock customers (also selected by DEMO_MODE=true)
+ *   - flatfile : CSV/JSON exports of customers, invoices and payments
+ *
+ * Ingested payments are kept in a local payment ledger and applied to open
+ * invoices (remittance reference → exact amount → oldest first) whenever AR
+ * aging is requested, so aging buckets reflect true open balances. The ledger
+ * remembers which invoices each payment settled, and a payment stops counting
+ * once the ERP shows the same receipt.
  *
  * Transport: stdio (spawned as a child process by ERPConnector)
  */
 
 import * as dotenv from 'dotenv';
-import axios from 'axios';
-import { ClientSecretCredential } from '@azure/identity';
-import type { ARAgingData, PaymentHistory, Invoice } from '../types';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  ARAgingData,
+  CustomerAccountsResult,
+  PaymentHistory,
+  PaymentIngestionResult,
+  PaymentRecord,
+} from '../types';
+import { SqliteCollectionsStore } from '../store';
+import { createErpBackend } from './backends';
+import { CashApplicationService, describeInvalidPayments, invalidPayments } from '../services/cashApplicationService';
+import { applyAgingScheme, getAgingScheme } from '../services/agingService';
+import { CurrencyService, formatCurrency } from '../services/currencyService';
+import { PaymentImportService, PAYMENT_FILE_FORMATS } from '../services/paymentImportService';
+import type { PaymentFileFormat } from '../services/paymentImportService';
 
 dotenv.config();
 
@@ -53,452 +81,175 @@ const { StdioServerTransport } = require('@modelcontextprotocol/sdk/server/stdio
   { StdioServerTransport: new () => McpTransport };
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
-const { CallToolRequestSchema, ListToolsRequestSchema } =
-  require('@modelcontextprotocol/sdk/types.js') as
+const { CallToolRequestSchema, ListToolsRequestSchema } = require('@modelcontextprotocol/sdk/types.js') as
   { CallToolRequestSchema: unknown; ListToolsRequestSchema: unknown };
 
 // ---------------------------------------------------------------------------
-// ERP / Dynamics 365 configuration
+// ERP backend configuration
 // ---------------------------------------------------------------------------
 
-const ERP_API_ENDPOINT = process.env.ERP_API_ENDPOINT ?? '';
-const ERP_RESOURCE     = process.env.ERP_RESOURCE ?? '';
-const DEMO_MODE        = process.env.DEMO_MODE === 'true';
-
-/** Axios timeout for all D365 API calls (ms). Prevents indefinite hangs. */
-const REQUEST_TIMEOUT_MS = Number(process.env.ERP_REQUEST_TIMEOUT_MS ?? 30_000);
-
-/** Refresh cached token this many ms before it expires. */
-const TOKEN_REFRESH_BUFFER_MS = 5 * 60 * 1000; // 5 minutes
+/** Where AR data comes from — Dynamics 365, demo data or flat files (ERP_BACKEND). */
+const backend = createErpBackend();
+process.stderr.write(`🔌 ERP backend: ${backend.name}\n`);
 
-/** Maximum invoices to retrieve per customer (prevents large payloads). */
-const INVOICE_TOP = Number(process.env.ERP_INVOICE_TOP ?? 500);
-
-/** Number of invoice line-item requests to fire in parallel. */
-const LINE_ITEM_CONCURRENCY = Number(process.env.ERP_LINE_ITEM_CONCURRENCY ?? 5);
+/** Local ledger of ingested payments, applied to invoices on every aging request. */
+const paymentLedger = new SqliteCollectionsStore(
+  process.env.PAYMENT_LEDGER_FILE ?? path.resolve(process.cwd(), 'data', 'erp-payments.db'),
+);
+/** FX conversion of invoice amounts into the reporting currency (REPORTING_CURRENCY, FX_RATES_FILE). */
+const currency = new CurrencyService();
 
-let credential: ClientSecretCredential | null = null;
+const cashApplication = new CashApplicationService(undefined, currency);
+const paymentImport   = new PaymentImportService();
 
-// Cached AAD token — reused across requests until near expiry.
-let tokenCache: { token: string; expiresAt: number } | null = null;
-
-function getCredential(): ClientSecretCredential {
-  if (!credential) {
-    credential = new ClientSecretCredential(
-      process.env.ERP_TENANT_ID    ?? '',
-      process.env.ERP_CLIENT_ID    ?? '',
-      process.env.ERP_CLIENT_SECRET ?? '',
-    );
-  }
-  return credential;
-}
-
-async function getAccessToken(): Promise<string> {
-  const now = Date.now();
-  if (tokenCache && tokenCache.expiresAt > now + TOKEN_REFRESH_BUFFER_MS) {
-    return tokenCache.token;
-  }
-  const scope = ERP_RESOURCE.endsWith('/')
-    ? `${ERP_RESOURCE}.default`
-    : `${ERP_RESOURCE}/.default`;
-  const tokenResponse = await getCredential().getToken(scope);
-  tokenCache = { token: tokenResponse.token, expiresAt: tokenResponse.expiresOnTimestamp };
-  process.stderr.write('🔑 Acquired new AAD token\n');
-  return tokenCache.token;
-}
+/** Aging scheme used to bucket every customer's balance (AGING_SCHEME). */
+const agingScheme = getAgingScheme();
 
 // ---------------------------------------------------------------------------
 // ERP data functions
 // ---------------------------------------------------------------------------
 
 /**
- * Fetch line items for multiple invoices in parallel, respecting LINE_ITEM_CONCURRENCY.
- * Returns a map of invoiceId → line-item array. Failed individual fetches silently
- * return an empty array so the caller can fall back to the invoice header amount.
+ * AR aging net of ingested payments: invoice-level aging from the ERP with the
+ * payment ledger applied on top, bucketed by the configured aging scheme and
+ * rolled up into the reporting currency.
  */
-async function fetchLineItemsBatched(
-  invoiceIds: string[],
-  token: string,
-): Promise<Map<string, any[]>> {
-  const resultMap = new Map<string, any[]>();
-  for (let i = 0; i < invoiceIds.length; i += LINE_ITEM_CONCURRENCY) {
-    const batch = invoiceIds.slice(i, i + LINE_ITEM_CONCURRENCY);
-    const settled = await Promise.allSettled(
-      batch.map(id =>
-        axios.get(
-          `${ERP_API_ENDPOINT}/invoicedetails?$filter=_invoiceid_value eq ${id}` +
-          `&$select=invoicedetailid,quantity,priceperunit,baseamount,extendedamount`,
-          { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-        ),
-      ),
-    );
-    batch.forEach((id, j) => {
-      const r = settled[j];
-      resultMap.set(id, r.status === 'fulfilled' ? r.value.data.value : []);
-    });
-  }
-  return resultMap;
-}
-
 async function getARAgingData(customerId: string): Promise<ARAgingData> {
-  if (DEMO_MODE) return getMockARAgingData(customerId);
-
-  process.stderr.write(`📊 Querying Dynamics 365 for customer: ${customerId}\n`);
-  const token = await getAccessToken();
-
-  // Fetch account and invoices in parallel — neither depends on the other.
-  // Fetch all three D365 calculated amount fields so we have fallbacks.
-  // totalamount = sum of line items + tax (may be null on draft invoices)
-  // totallineitemamount = sum of line items before tax (often populated when totalamount is not)
-  // totalamountlessfreight = totallineitemamount - freight (another fallback)
-  process.stderr.write('📄 Querying account + invoices in parallel...\n');
-  const invoiceSelect =
-    'invoiceid,name,totalamount,totallineitemamount,totalamountlessfreight,' +
-    'totaltax,datedelivered,duedate,statecode,statuscode,createdon';
-  const [accountResponse, invoicesResponse] = await Promise.all([
-    axios.get(
-      `${ERP_API_ENDPOINT}/accounts(${customerId})`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    ),
-    axios.get(
-      `${ERP_API_ENDPOINT}/invoices?$filter=_customerid_value eq ${customerId} and statecode eq 0` +
-      `&$select=${invoiceSelect}` +
-      `&$orderby=createdon desc&$top=${INVOICE_TOP}`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    ),
+  const [gross, history] = await Promise.all([
+    backend.getARAgingData(customerId),
+    backend.getPaymentHistory(customerId),
   ]);
+  return netOfLedger(gross, history.payments ?? []);
+}
 
-  const account = accountResponse.data;
-  process.stderr.write(`✅ Found account: ${account.name ?? customerId}\n`);
-
-  const dynamics365Invoices: any[] = invoicesResponse.data.value;
-  process.stderr.write(`✅ Found ${dynamics365Invoices.length} invoices\n`);
-
-  // Fetch all line-item detail sets in parallel batches (replaces N sequential calls).
-  process.stderr.write(`📦 Fetching line items (${LINE_ITEM_CONCURRENCY} parallel)...\n`);
-  const invoiceIds = dynamics365Invoices.map((inv: any) => inv.invoiceid as string);
-  const lineItemsMap = await fetchLineItemsBatched(invoiceIds, token);
-
-  // Enrich each invoice: resolve the best available amount across all sources
-  for (const invoice of dynamics365Invoices) {
-    // D365 header-level fallback chain (server-calculated fields)
-    const headerAmount: number =
-      (invoice.totalamount > 0        ? invoice.totalamount        : null) ??
-      (invoice.totallineitemamount > 0 ? invoice.totallineitemamount : null) ??
-      (invoice.totalamountlessfreight > 0 ? invoice.totalamountlessfreight : null) ??
-      0;
-
-    const lineItems: any[] = lineItemsMap.get(invoice.invoiceid) ?? [];
-    let lineItemTotal = 0;
-    for (const li of lineItems) {
-      // extendedamount is D365's calculated quantity*priceperunit; fall back to baseamount
-      // or manual calculation if both are null
-      const liAmount: number =
-        (li.extendedamount > 0 ? li.extendedamount : null) ??
-        (li.baseamount      > 0 ? li.baseamount      : null) ??
-        ((li.quantity != null && li.priceperunit != null) ? li.quantity * li.priceperunit : null) ??
-        0;
-      lineItemTotal += liAmount;
-    }
+/**
+ * Apply ledger payments to the ERP's gross aging and summarize the result.
+ * Payments the ERP already shows in `erpPayments` are left out, and the
+ * invoices each payment settles are written back to the ledger, so a payment
+ * stops counting once the ERP posts it or closes the invoices it paid.
+ */
+async function netOfLedger(gross: ARAgingData, erpPayments: PaymentRecord[]): Promise<ARAgingData> {
+  const payments = await unpostedLedgerPayments(gross.customerId, erpPayments);
+  if (payments.length === 0) return summarizeAging(gross);
 
-    // Prefer line-item total if it has a value; fall back to the header amount
-    invoice.totalamount = lineItemTotal > 0 ? lineItemTotal : headerAmount;
+  const { arData, allocations, unapplied, settled } = cashApplication.applyPayments(gross, payments);
+  for (const payment of settled) {
+    await paymentLedger.put<PaymentRecord>('payments', payment.paymentId, payment.customerId, payment);
   }
-
-  const result = calculateARAgingFromDynamicsInvoices(account, dynamics365Invoices);
-  const fmt = (n: number) => `$${n.toLocaleString()}`;
-  process.stderr.write(`💰 Total Outstanding: ${fmt(result.totalOutstanding)}\n`);
-  process.stderr.write(`   Current:           ${fmt(result.current)}\n`);
-  process.stderr.write(`   30 days:           ${fmt(result.days30)}\n`);
-  process.stderr.write(`   60 days:           ${fmt(result.days60)}\n`);
-  process.stderr.write(`   90 days:           ${fmt(result.days90)}\n`);
-  process.stderr.write(`   120+ days:         ${fmt(result.days120Plus)}\n`);
-  return result;
+  const applied = allocations.reduce((sum, a) => {
+    const payment = payments.find(p => p.paymentId === a.paymentId);
+    return sum + currency.toReporting(a.amount, payment?.currency);
+  }, 0);
+  process.stderr.write(
+    `💵 Applied ${formatCurrency(applied, arData.currency ?? currency.reportingCurrency)} from ${payments.length} payments ` +
+    `(${unapplied.length} with unapplied cash)\n`,
+  );
+  return summarizeAging(arData);
 }
 
-function calculateARAgingFromDynamicsInvoices(account: any, d365Invoices: any[]): ARAgingData {
-  const today = new Date();
-  const invoices: Invoice[] = [];
-  let totalOutstanding = 0, current = 0, days30 = 0, days60 = 0, days90 = 0, days120Plus = 0;
-
-  for (const inv of d365Invoices) {
-    const dueDate     = inv.duedate        ? new Date(inv.duedate)        : new Date();
-    const invoiceDate = inv.datedelivered  ? new Date(inv.datedelivered)  : new Date();
-    const amount      = inv.totalamount ?? 0;
-    const daysOverdue = Math.floor((today.getTime() - dueDate.getTime()) / 86_400_000);
-
-    if      (daysOverdue < 30)  current     += amount;
-    else if (daysOverdue < 60)  days30      += amount;
-    else if (daysOverdue < 90)  days60      += amount;
-    else if (daysOverdue < 120) days90      += amount;
-    else                        days120Plus += amount;
-
-    totalOutstanding += amount;
-    invoices.push({
-      invoiceId:        inv.invoiceid,
-      invoiceDate:      invoiceDate.toISOString(),
-      dueDate:          dueDate.toISOString(),
-      amount,
-      amountPaid:       0,
-      amountOutstanding: amount,
-      daysOverdue:      Math.max(0, daysOverdue),
-    });
+/**
+ * A customer's ledger payments that the ERP doesn't record yet. Payments
+ * newly matched to an ERP payment are marked in the ledger as posted.
+ */
+async function unpostedLedgerPayments(customerId: string, erpPayments: PaymentRecord[]): Promise<PaymentRecord[]> {
+  const ledger = await paymentLedger.listByCustomer<PaymentRecord>('payments', customerId);
+  const { unposted, posted } = cashApplication.matchReceipts(ledger, erpPayments);
+  for (const payment of posted) {
+    await paymentLedger.put<PaymentRecord>('payments', payment.paymentId, payment.customerId, payment);
   }
+  return unposted;
+}
 
+/** Attach scheme buckets and per-currency balances to net aging. */
+function summarizeAging(arData: ARAgingData): ARAgingData {
+  const bucketed = applyAgingScheme(arData, agingScheme, currency);
   return {
-    customerId:       account.accountid,
-    customerName:     account.name ?? 'Unknown Customer',
-    totalOutstanding, current, days30, days60, days90, days120Plus, invoices,
+    ...bucketed,
+    currency:         bucketed.currency ?? currency.reportingCurrency,
+    currencyBalances: currency.currencyBalances(bucketed),
   };
 }
 
+/**
+ * Payment history from the ERP, with ingested ledger payments merged in so
+ * promise reconciliation sees every payment received.
+ */
 async function getPaymentHistory(customerId: string): Promise<PaymentHistory> {
-  if (DEMO_MODE) return getMockPaymentHistory(customerId);
-
-  process.stderr.write('📜 Fetching payment history from tasks and appointments...\n');
-  const token = await getAccessToken();
-
-  const [tasksRes, appointmentsRes] = await Promise.all([
-    axios.get(
-      `${ERP_API_ENDPOINT}/tasks?$filter=_regardingobjectid_value eq ${customerId}` +
-      `&$select=subject,actualend,description,statecode,statuscode&$top=50`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    ),
-    axios.get(
-      `${ERP_API_ENDPOINT}/appointments?$filter=_regardingobjectid_value eq ${customerId}` +
-      `&$select=subject,scheduledend,description,statuscode,statecode&$top=50`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    ),
-  ]);
+  return withLedgerPayments(await backend.getPaymentHistory(customerId));
+}
 
-  const tasks = tasksRes.data.value;
-  const appointments = appointmentsRes.data.value;
-  process.stderr.write(`✅ Found ${tasks.length} payment records and ${appointments.length} promises\n`);
+/** Merge ledger payments the ERP doesn't record yet into its payment history. */
+async function withLedgerPayments(history: PaymentHistory): Promise<PaymentHistory> {
+  const ledgerPayments = await unpostedLedgerPayments(history.customerId, history.payments ?? []);
+  if (ledgerPayments.length === 0) return history;
 
-  return calculatePaymentHistoryFromRecords(customerId, tasks, appointments);
+  const payments = [...(history.payments ?? []), ...ledgerPayments];
+  const latest = payments.reduce(
+    (max, p) => (new Date(p.paymentDate) > new Date(max) ? p.paymentDate : max),
+    history.lastPaymentDate,
+  );
+  return { ...history, payments, lastPaymentDate: latest };
 }
 
-function calculatePaymentHistoryFromRecords(
-  customerId: string,
-  tasks: any[],
-  appointments: any[],
-): PaymentHistory {
-  let onTimeCount = 0, totalDaysLate = 0;
-
-  for (const task of tasks) {
-    const subject = task.subject ?? '';
-    if (subject.includes('On Time')) onTimeCount++;
-    const match = subject.match(/(\d+) days late/);
-    if (match) totalDaysLate += parseInt(match[1]);
+/**
+ * Net aging and payment history for many customers — the given IDs, or the
+ * whole portfolio — fetched with the backend's bulk query.
+ */
+async function getCustomerAccounts(customerIds?: string[]): Promise<CustomerAccountsResult> {
+  const { accounts, failed } = await backend.getCustomerAccounts(customerIds);
+  const result: CustomerAccountsResult = { accounts: [], failed };
+
+  for (const account of accounts) {
+    result.accounts.push({
+      customerId:     account.customerId,
+      arData:         await netOfLedger(account.arData, account.paymentHistory.payments ?? []),
+      paymentHistory: await withLedgerPayments(account.paymentHistory),
+    });
   }
-
-  const promiseToPayHistory = appointments.map((appt: any) => ({
-    date:           appt.scheduledend ?? new Date().toISOString(),
-    promisedAmount: 5000,
-    promisedDate:   appt.scheduledend ?? new Date().toISOString(),
-    fulfilled:      (appt.subject ?? '').includes('Fulfilled'),
-  }));
-
-  const totalTransactions  = tasks.length;
-  const onTimePaymentRate  = totalTransactions > 0 ? onTimeCount / totalTransactions : 1;
-  const averagePaymentDays = totalTransactions > 0 ? 30 + totalDaysLate / totalTransactions : 30;
-
-  return {
-    customerId,
-    totalTransactions,
-    onTimePaymentRate,
-    averagePaymentDays,
-    promiseToPayHistory,
-    lastPaymentDate: tasks.length > 0 ? tasks[0].actualend : new Date().toISOString(),
-  };
+  return result;
 }
 
-async function getCustomersWithOutstandingBalance(): Promise<string[]> {
-  if (DEMO_MODE) return ['CUST-001', 'CUST-002', 'CUST-003', 'CUST-004', 'CUST-005'];
-
-  const token = await getAccessToken();
+/**
+ * Store received payments in the payment ledger. Payments without a customer
+ * are matched to one through their remittance invoice references; payments
+ * that still can't be identified are returned rather than stored. Nothing is
+ * stored when any record is invalid.
+ */
+async function recordPayments(payments: PaymentRecord[]): Promise<PaymentIngestionResult> {
+  const invalid = invalidPayments(payments);
+  if (invalid.length > 0) throw new Error(describeInvalidPayments(invalid));
+
+  let recorded = 0, duplicates = 0;
+  const unidentified: PaymentRecord[] = [];
+
+  for (const payment of payments) {
+    let customerId = payment.customerId;
+    for (const ref of payment.remittanceInvoiceIds ?? []) {
+      if (customerId) break;
+      customerId = (await backend.findCustomerByInvoice(ref)) ?? '';
+    }
+    if (!customerId) {
+      unidentified.push(payment);
+      continue;
+    }
 
-  try {
-    // Use $top=5000 so customers aren't missed when a few accounts have many invoices
-    const res = await axios.get(
-      `${ERP_API_ENDPOINT}/invoices?$select=_customerid_value&$top=5000`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    );
-    const ids = new Set<string>();
-    for (const inv of res.data.value) {
-      if (inv._customerid_value) ids.add(inv._customerid_value);
+    if (await paymentLedger.get<PaymentRecord>('payments', payment.paymentId)) {
+      duplicates++;
+      continue;
     }
-    return Array.from(ids);
-  } catch {
-    const res = await axios.get(
-      `${ERP_API_ENDPOINT}/accounts?$select=accountid&$top=50`,
-      { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
-    );
-    return res.data.value.map((a: any) => a.accountid);
-  }
-}
 
-async function updateCustomerNotes(customerId: string, note: string): Promise<void> {
-  if (DEMO_MODE) {
-    process.stderr.write(`✅ Updated notes for customer ${customerId} (demo mode)\n`);
-    return;
+    await paymentLedger.put<PaymentRecord>('payments', payment.paymentId, customerId, {
+      ...payment,
+      customerId,
+      source: payment.source ?? 'manual',
+    });
+    recorded++;
   }
 
-  const token = await getAccessToken();
-  await axios.patch(
-    `${ERP_API_ENDPOINT}/accounts(${customerId})`,
-    { description: `${note}\n[Updated: ${new Date().toISOString()}]` },
-    { headers: erpHeaders(token), timeout: REQUEST_TIMEOUT_MS },
+  process.stderr.write(
+    `✅ Recorded ${recorded} payments (${duplicates} duplicates, ${unidentified.length} unidentified)\n`,
   );
-  process.stderr.write(`✅ Updated notes for customer ${customerId} in Dynamics 365\n`);
-}
-
-function erpHeaders(token: string) {
-  return {
-    Authorization:    `Bearer ${token}`,
-    'Content-Type':   'application/json',
-    'OData-MaxVersion': '4.0',
-    'OData-Version':    '4.0',
-  };
-}
-
-// ---------------------------------------------------------------------------
-// Mock data (DEMO_MODE=true)
-// ---------------------------------------------------------------------------
-
-function getMockARAgingData(customerId: string): ARAgingData {
-  const data: Record<string, ARAgingData> = {
-    'CUST-001': {
-      customerId: 'CUST-001', customerName: 'Contoso Ltd',
-      totalOutstanding: 125000, current: 50000, days30: 30000,
-      days60: 25000, days90: 15000, days120Plus: 5000,
-      invoices: [{
-        invoiceId: 'INV-001',
-        invoiceDate: new Date(Date.now() - 45 * 86_400_000).toISOString(),
-        dueDate:     new Date(Date.now() - 15 * 86_400_000).toISOString(),
-        amount: 30000, amountPaid: 0, amountOutstanding: 30000, daysOverdue: 15,
-      }],
-    },
-    'CUST-002': {
-      customerId: 'CUST-002', customerName: 'Fabrikam Inc',
-      totalOutstanding: 85000, current: 60000, days30: 15000,
-      days60: 10000, days90: 0, days120Plus: 0, invoices: [],
-    },
-    'CUST-003': {
-      customerId: 'CUST-003', customerName: 'Adventure Works',
-      totalOutstanding: 320000, current: 80000, days30: 60000,
-      days60: 50000, days90: 0, days120Plus: 130000,
-      invoices: [{
-        invoiceId: 'INV-031',
-        invoiceDate: new Date(Date.now() - 140 * 86_400_000).toISOString(),
-        dueDate:     new Date(Date.now() - 110 * 86_400_000).toISOString(),
-        amount: 130000, amountPaid: 0, amountOutstanding: 130000, daysOverdue: 110,
-      }],
-    },
-    'CUST-004': {
-      customerId: 'CUST-004', customerName: 'Woodgrove Bank',
-      totalOutstanding: 45000, current: 40000, days30: 5000,
-      days60: 0, days90: 0, days120Plus: 0,
-      invoices: [{
-        invoiceId: 'INV-041',
-        invoiceDate: new Date(Date.now() - 20 * 86_400_000).toISOString(),
-        dueDate:     new Date(Date.now() + 10 * 86_400_000).toISOString(),
-        amount: 5000, amountPaid: 0, amountOutstanding: 5000, daysOverdue: 0,
-      }],
-    },
-    'CUST-005': {
-      customerId: 'CUST-005', customerName: 'Tailspin Toys',
-      totalOutstanding: 150000, current: 60000, days30: 40000,
-      days60: 30000, days90: 15000, days120Plus: 5000,
-      invoices: [{
-        invoiceId: 'INV-051',
-        invoiceDate: new Date(Date.now() - 80 * 86_400_000).toISOString(),
-        dueDate:     new Date(Date.now() - 50 * 86_400_000).toISOString(),
-        amount: 50000, amountPaid: 15000, amountOutstanding: 35000, daysOverdue: 50,
-      }],
-    },
-  };
-  return data[customerId] ?? data['CUST-001'];
-}
-
-function getMockPaymentHistory(customerId: string): PaymentHistory {
-  const histories: Record<string, PaymentHistory> = {
-    // CUST-001: Contoso Ltd — HIGH risk: chronic late payer, mostly broken promises
-    'CUST-001': {
-      customerId, averagePaymentDays: 52, onTimePaymentRate: 0.35,
-      totalTransactions: 18, lastPaymentDate: new Date(Date.now() - 75 * 86_400_000).toISOString(),
-      promiseToPayHistory: [
-        { date: new Date(Date.now() - 90 * 86_400_000).toISOString(), promisedAmount: 50000,
-          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 120 * 86_400_000).toISOString(), promisedAmount: 30000,
-          promisedDate: new Date(Date.now() - 90 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 150 * 86_400_000).toISOString(), promisedAmount: 25000,
-          promisedDate: new Date(Date.now() - 120 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 118 * 86_400_000).toISOString() },
-        { date: new Date(Date.now() - 180 * 86_400_000).toISOString(), promisedAmount: 40000,
-          promisedDate: new Date(Date.now() - 150 * 86_400_000).toISOString(), fulfilled: false },
-      ],
-    },
-    // CUST-002: Fabrikam Inc — MEDIUM risk: sometimes late, mixed promises
-    'CUST-002': {
-      customerId, averagePaymentDays: 28, onTimePaymentRate: 0.65,
-      totalTransactions: 14, lastPaymentDate: new Date(Date.now() - 20 * 86_400_000).toISOString(),
-      promiseToPayHistory: [
-        { date: new Date(Date.now() - 45 * 86_400_000).toISOString(), promisedAmount: 20000,
-          promisedDate: new Date(Date.now() - 15 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 14 * 86_400_000).toISOString() },
-        { date: new Date(Date.now() - 80 * 86_400_000).toISOString(), promisedAmount: 15000,
-          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 110 * 86_400_000).toISOString(), promisedAmount: 18000,
-          promisedDate: new Date(Date.now() - 90 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 88 * 86_400_000).toISOString() },
-      ],
-    },
-    // CUST-003: Adventure Works — HIGH risk: very late payer, almost all promises broken
-    'CUST-003': {
-      customerId, averagePaymentDays: 68, onTimePaymentRate: 0.25,
-      totalTransactions: 22, lastPaymentDate: new Date(Date.now() - 120 * 86_400_000).toISOString(),
-      promiseToPayHistory: [
-        { date: new Date(Date.now() - 30 * 86_400_000).toISOString(), promisedAmount: 80000,
-          promisedDate: new Date(Date.now() - 10 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 60 * 86_400_000).toISOString(), promisedAmount: 60000,
-          promisedDate: new Date(Date.now() - 30 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 90 * 86_400_000).toISOString(), promisedAmount: 50000,
-          promisedDate: new Date(Date.now() - 60 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 180 * 86_400_000).toISOString(), promisedAmount: 45000,
-          promisedDate: new Date(Date.now() - 150 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 145 * 86_400_000).toISOString() },
-      ],
-    },
-    // CUST-004: Woodgrove Bank — LOW risk: reliable payer, keeps all promises
-    'CUST-004': {
-      customerId, averagePaymentDays: 8, onTimePaymentRate: 0.95,
-      totalTransactions: 20, lastPaymentDate: new Date(Date.now() - 5 * 86_400_000).toISOString(),
-      promiseToPayHistory: [
-        { date: new Date(Date.now() - 35 * 86_400_000).toISOString(), promisedAmount: 5000,
-          promisedDate: new Date(Date.now() - 5 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 5 * 86_400_000).toISOString() },
-        { date: new Date(Date.now() - 65 * 86_400_000).toISOString(), promisedAmount: 12000,
-          promisedDate: new Date(Date.now() - 35 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 34 * 86_400_000).toISOString() },
-      ],
-    },
-    // CUST-005: Tailspin Toys — MEDIUM risk: occasionally late, some broken promises
-    'CUST-005': {
-      customerId, averagePaymentDays: 38, onTimePaymentRate: 0.58,
-      totalTransactions: 16, lastPaymentDate: new Date(Date.now() - 40 * 86_400_000).toISOString(),
-      promiseToPayHistory: [
-        { date: new Date(Date.now() - 55 * 86_400_000).toISOString(), promisedAmount: 35000,
-          promisedDate: new Date(Date.now() - 25 * 86_400_000).toISOString(), fulfilled: false },
-        { date: new Date(Date.now() - 85 * 86_400_000).toISOString(), promisedAmount: 20000,
-          promisedDate: new Date(Date.now() - 55 * 86_400_000).toISOString(), fulfilled: true,
-          actualPaymentDate: new Date(Date.now() - 52 * 86_400_000).toISOString() },
-        { date: new Date(Date.now() - 115 * 86_400_000).toISOString(), promisedAmount: 25000,
-          promisedDate: new Date(Date.now() - 85 * 86_400_000).toISOString(), fulfilled: false },
-      ],
-    },
-  };
-  return histories[customerId] ?? histories['CUST-001'];
+  return { received: payments.length, recorded, duplicates, unidentified };
 }
 
 // ---------------------------------------------------------------------------
@@ -515,8 +266,10 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
     {
       name: 'get_ar_aging_data',
       description:
-        'Fetch AR aging data for a customer from the ERP system (Dynamics 365). ' +
-        'Returns aging buckets (current, 30, 60, 90, 120+ days) and individual invoices.',
+        'Fetch AR aging data for a customer from the ERP system. ' +
+        'Returns aging buckets (current, 30, 60, 90, 120+ days), the balance per bucket of the ' +
+        'configured aging scheme, and individual invoices. Totals and buckets are in the reporting ' +
+        'currency; invoices keep their own currency and currencyBalances lists the open balance per currency.',
       inputSchema: {
         type: 'object',
         properties: { customerId: { type: 'string', description: 'Customer ID in the ERP system' } },
@@ -539,6 +292,36 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
       description: 'Return all customer IDs that have outstanding balances in the ERP system.',
       inputSchema: { type: 'object', properties: {}, required: [] },
     },
+    {
+      name: 'get_customer_accounts',
+      description:
+        'Fetch AR aging data and payment history for many customers in one call — the listed ' +
+        'customers, or every customer with an outstanding balance when customerIds is omitted. ' +
+        'Each entry has the same shape as get_ar_aging_data and get_payment_history; customers ' +
+        'that could not be loaded are listed under failed.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          customerIds: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Customer IDs in the ERP system; omit for the whole portfolio',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'get_customer_contacts',
+      description:
+        'Fetch the people at a customer from the ERP contacts, each with a role (billing, escalation ' +
+        'or other), email, phone, preferred channel and language, and whether they are the primary contact.',
+      inputSchema: {
+        type: 'object',
+        properties: { customerId: { type: 'string', description: 'Customer ID in the ERP system' } },
+        required: ['customerId'],
+      },
+    },
     {
       name: 'update_customer_notes',
       description: 'Append a collections note to the customer record in the ERP system.',
@@ -551,6 +334,52 @@ server.setRequestHandler(ListToolsRequestSchema, async () => ({
         required: ['customerId', 'note'],
       },
     },
+    {
+      name: 'record_payments',
+      description:
+        'Record received customer payments for cash application. Payments are applied to open ' +
+        'invoices by remittance reference, exact amount match, then oldest invoice first, and ' +
+        'reduce the AR aging returned by get_ar_aging_data. Re-sending a paymentId is ignored.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          payments: {
+            type: 'array',
+            description: 'Payments received',
+            minItems: 1,
+            items: {
+              type: 'object',
+              properties: {
+                paymentId:            { type: 'string', minLength: 1, description: 'Bank or remittance reference (unique)' },
+                customerId:           { type: 'string', description: 'Customer ID; omit to resolve from remittance invoices' },
+                amount:               { type: 'number', exclusiveMinimum: 0, description: 'Amount received (positive)' },
+                currency:             { type: 'string', pattern: '^[A-Za-z]{3}$', description: 'ISO 4217 currency code; omit for the reporting currency' },
+                paymentDate:          { type: 'string', minLength: 1, description: 'Date received (ISO 8601)' },
+                reference:            { type: 'string', description: 'Free-text payment reference' },
+                remittanceInvoiceIds: { type: 'array', items: { type: 'string' }, description: 'Invoice IDs or numbers the payment covers' },
+              },
+              required: ['paymentId', 'amount', 'paymentDate'],
+            },
+          },
+        },
+        required: ['payments'],
+      },
+    },
+    {
+      name: 'import_payment_file',
+      description:
+        'Import received payments from a bank or lockbox file (CSV, BAI2 or ISO 20022 camt.053) ' +
+        'and record them for cash application. Provide either the file content or a local file path.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          format:   { type: 'string', enum: PAYMENT_FILE_FORMATS, description: 'File format' },
+          content:  { type: 'string', description: 'File content' },
+          filePath: { type: 'string', description: 'Path to the file on the MCP server host' },
+        },
+        required: ['format'],
+      },
+    },
   ],
 }));
 
@@ -568,13 +397,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
       }
       case 'get_customers_with_outstanding_balance': {
-        const data = await getCustomersWithOutstandingBalance();
+        const data = await backend.getCustomersWithOutstandingBalance();
+        return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
+      }
+      case 'get_customer_accounts': {
+        const data = await getCustomerAccounts(args.customerIds as string[] | undefined);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
+      }
+      case 'get_customer_contacts': {
+        const data = await backend.getCustomerContacts(args.customerId as string);
         return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
       }
       case 'update_customer_notes': {
-        await updateCustomerNotes(args.customerId as string, args.note as string);
+        await backend.updateCustomerNotes(args.customerId as string, args.note as string);
         return { content: [{ type: 'text' as const, text: JSON.stringify({ success: true }) }] };
       }
+      case 'record_payments': {
+        if (!Array.isArray(args.payments) || args.payments.length === 0) {
+          throw new Error('payments must be a non-empty array');
+        }
+        const payments = (args.payments as PaymentRecord[]).map(p => ({ ...p, customerId: p?.customerId ?? '' }));
+        const data = await recordPayments(payments);
+        return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
+      }
+      case 'import_payment_file': {
+        const format = args.format as PaymentFileFormat;
+        if (args.content === undefined && args.filePath === undefined) {
+          throw new Error('Either content or filePath is required');
+        }
+        const content = args.content !== undefined
+          ? args.content as string
+          : await fs.readFile(args.filePath as string, 'utf8');
+        const data = await recordPayments(paymentImport.parse(content, format));
+        return { content: [{ type: 'text' as const, text: JSON.stringify(data) }] };
+      }
       default:
         throw new Error(`Unknown tool: ${name}`);
     }
@@ -0,0 +1,192 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import {
+  DEFAULT_AGING_SCHEMES, accountAmounts, applyAgingScheme, excludeDisputedAmounts, installmentAmounts, oldestDaysOverdue,
+  unknownAmounts, validateAgingScheme,
+} from '../agingService';
+import { CurrencyService, amountsInText } from '../currencyService';
+import { ARAgingData, AgingScheme, Invoice } from '../../types';
+
+const ENV = { REPORTING_CURRENCY: 'USD', FX_RATES_FILE: undefined, AGING_SCHEME: undefined };
+const saved: Record<string, string | undefined> = {};
+
+beforeAll(() => {
+  for (const [key, value] of Object.entries(ENV)) {
+    saved[key] = process.env[key];
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+/** Two EUR invoices reported in USD at 1.1, with no FX rate file configured. */
+function euroCustomer(): ARAgingData {
+  return {
+    customerId: 'C001',
+    customerName: 'Contoso GmbH',
+    totalOutstanding: 1650,
+    current: 550,
+    days30: 1100,
+    days60: 0,
+    days90: 0,
+    days120Plus: 0,
+    currency: 'USD',
+    invoices: [
+      { invoiceId: '1', invoiceDate: '2026-08-01', dueDate: '2026-09-01', currency: 'EUR', amount: 1000, amountPaid: 0, amountOutstanding: 1000, daysOverdue: 40 },
+      { invoiceId: '2', invoiceDate: '2026-10-01', dueDate: '2026-11-01', currency: 'EUR', amount: 500, amountPaid: 0, amountOutstanding: 500, daysOverdue: 0 },
+    ],
+  };
+}
+
+/** USD invoices of 1, 2, 4, … so each bucket's total shows which invoices landed in it. */
+function invoicesAt(days: number[]): ARAgingData {
+  const invoices: Invoice[] = days.map((daysOverdue, i) => ({
+    invoiceId: String(i + 1), invoiceDate: '2026-01-01', dueDate: '2026-02-01', currency: 'USD',
+    amount: 2 ** i, amountPaid: 0, amountOutstanding: 2 ** i, daysOverdue,
+  }));
+  return {
+    customerId: 'C001', customerName: 'Contoso', currency: 'USD',
+    totalOutstanding: invoices.reduce((sum, inv) => sum + inv.amountOutstanding, 0),
+    current: 0, days30: 0, days60: 0, days90: 0, days120Plus: 0, invoices,
+  };
+}
+
+function bucketAmounts(arData: ARAgingData): Record<string, number> {
+  return Object.fromEntries((arData.buckets ?? []).map(b => [b.key, b.amount]));
+}
+
+describe('aging schemes', () => {
+  const usd = new CurrencyService('USD', {});
+  // Not yet due, then either side of the 30- and 120-day boundaries
+  const boundaries = invoicesAt([-5, 29, 30, 31, 119, 120, 121]);
+
+  it('puts each invoice in the standard bucket covering its days past due', () => {
+    const aged = applyAgingScheme(boundaries, DEFAULT_AGING_SCHEMES.standard, usd);
+
+    expect(aged.agingScheme).toBe('standard');
+    expect(bucketAmounts(aged)).toEqual({ current: 1 + 2, days30: 4 + 8, days60: 0, days90: 16, days120Plus: 32 + 64 });
+  });
+
+  it('puts each invoice in the extended bucket covering its days past due', () => {
+    const aged = applyAgingScheme(boundaries, DEFAULT_AGING_SCHEMES.extended, usd);
+
+    expect(bucketAmounts(aged)).toEqual({
+      current: 1, days1: 0, days16: 2 + 4 + 8, days46: 0, days91: 16 + 32 + 64, days180Plus: 0,
+    });
+  });
+
+  it('maps summary-only aging by the first day of each fixed bucket', () => {
+    const summary: ARAgingData = {
+      ...invoicesAt([]), totalOutstanding: 31, current: 1, days30: 2, days60: 4, days90: 8, days120Plus: 16,
+    };
+
+    expect(bucketAmounts(applyAgingScheme(summary, DEFAULT_AGING_SCHEMES.standard, usd)))
+      .toEqual({ current: 1, days30: 2, days60: 4, days90: 8, days120Plus: 16 });
+    expect(bucketAmounts(applyAgingScheme(summary, DEFAULT_AGING_SCHEMES.extended, usd)))
+      .toEqual({ current: 1, days1: 0, days16: 2, days46: 4 + 8, days91: 16, days180Plus: 0 });
+  });
+
+  it('accepts the built-in schemes', () => {
+    expect(() => validateAgingScheme(DEFAULT_AGING_SCHEMES.standard)).not.toThrow();
+    expect(() => validateAgingScheme(DEFAULT_AGING_SCHEMES.extended)).not.toThrow();
+  });
+
+  it('rejects buckets that overlap, are out of order, leave a gap or do not end open-ended', () => {
+    const scheme = (buckets: Array<[string, number, number?]>): AgingScheme => ({
+      name: 'custom',
+      agedFromDays: 60,
+      buckets: buckets.map(([key, minDays, maxDays]) => ({ key, label: key, minDays, maxDays, weight: 0.5 })),
+    });
+
+    expect(() => validateAgingScheme(scheme([['a', 0, 30], ['b', 30, 59], ['c', 60]])))
+      .toThrow('Invalid aging scheme "custom": bucket "b" should start at 31 days');
+    expect(() => validateAgingScheme(scheme([['b', 30, 59], ['a', 0, 29], ['c', 60]])))
+      .toThrow('bucket "b" should start at 0 days');
+    expect(() => validateAgingScheme(scheme([['a', 0, 29], ['c', 60], ['b', 30, 59]])))
+      .toThrow('bucket "c" should start at 30 days');
+    expect(() => validateAgingScheme(scheme([['a', 0, 29], ['b', 31]])))
+      .toThrow('bucket "b" should start at 30 days');
+    expect(() => validateAgingScheme(scheme([['a', 0, 29], ['b', 30, 20], ['c', 21]])))
+      .toThrow('bucket "b" needs maxDays ≥ minDays');
+    expect(() => validateAgingScheme(scheme([['a', 0, 29], ['b', 30, 59]])))
+      .toThrow('last bucket "b" must be open-ended');
+    expect(() => validateAgingScheme(scheme([['a', 0, 29], ['a', 30]])))
+      .toThrow('duplicate bucket key "a"');
+  });
+});
+
+describe('amount checks with an injected currency service', () => {
+  const currency = new CurrencyService('USD', { EUR: 1.1 });
+
+  it('ages the invoices with the rates it is given', () => {
+    expect(() => accountAmounts(euroCustomer(), currency)).not.toThrow();
+    expect(accountAmounts(euroCustomer(), currency)).toEqual(expect.arrayContaining([1650, 1100, 550, 1500, 1000]));
+    expect(oldestDaysOverdue(euroCustomer(), currency)).toBe(40);
+  });
+
+  it('accepts figures from the account and flags ones that are not', () => {
+    const text = 'The balance of 1.500,00 € includes €1,000 overdue; please pay $1,650.00 or EUR 999.';
+
+    expect(unknownAmounts(text, euroCustomer(), currency, 'de-DE').map(a => a.text)).toEqual(['EUR 999']);
+  });
+
+  it('accepts equal installments of the balance only when they are passed as derived amounts', () => {
+    const installments = installmentAmounts(euroCustomer(), currency);
+    const text = 'Offer three payments of €500.00 or six of $275.';
+
+    expect(installments).toEqual(expect.arrayContaining([825, 550, 500, 275, 125]));
+    expect(unknownAmounts(text, euroCustomer(), currency).map(a => a.text)).toEqual(['$275']);
+    expect(unknownAmounts(text, euroCustomer(), currency, undefined, installments)).toEqual([]);
+    expect(unknownAmounts('Pay $310 a month.', euroCustomer(), currency, undefined, installments)).toHaveLength(1);
+  });
+});
+
+describe('excludeDisputedAmounts', () => {
+  const currency = new CurrencyService('USD', { EUR: 1.1 });
+
+  function disputed(disputedAmount: number): ARAgingData {
+    const customer = euroCustomer();
+    return {
+      ...customer,
+      invoices: [{ ...customer.invoices[0], disputedAmount }, customer.invoices[1]],
+      currencyBalances: [{ currency: 'EUR', amount: 1500, reportingAmount: 1650 }],
+    };
+  }
+
+  it('holds the disputed part of each invoice out of the totals, buckets and currency balances', () => {
+    const held = excludeDisputedAmounts(disputed(400), currency);
+
+    expect(held.invoices.map(inv => inv.amountOutstanding)).toEqual([600, 500]);
+    expect(held).toMatchObject({ totalOutstanding: 1210, days30: 660, current: 550, disputedAmount: 440 });
+    expect(held.currencyBalances).toEqual([{ currency: 'EUR', amount: 1100, reportingAmount: 1210 }]);
+  });
+
+  it('holds out no more than is outstanding on the invoice', () => {
+    const held = excludeDisputedAmounts(disputed(5000), currency);
+
+    expect(held.invoices[0].amountOutstanding).toBe(0);
+    expect(held).toMatchObject({ totalOutstanding: 550, days30: 0, disputedAmount: 1100 });
+  });
+
+  it('returns the aging as is when nothing is disputed or it was already held out', () => {
+    const undisputed = euroCustomer();
+    const held = excludeDisputedAmounts(disputed(400), currency);
+
+    expect(excludeDisputedAmounts(undisputed, currency)).toBe(undisputed);
+    expect(excludeDisputedAmounts(held, currency)).toBe(held);
+  });
+});
+
+describe('amountsInText', () => {
+  it('reads Swiss thousands separators', () => {
+    expect(amountsInText('Offen: CHF 12’345.50 und 1’000 CHF', ['CHF'], 'de-CH')).toEqual([
+      { text: 'CHF 12’345.50', amount: 12345.5 },
+      { text: '1’000 CHF', amount: 1000 },
+    ]);
+  });
+});
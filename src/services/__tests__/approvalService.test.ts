@@ -0,0 +1,84 @@
+import { describe, expect, it } from '@jest/globals';
+import { ApprovalService, DraftStateError } from '../approvalService';
+import { OutboundDraft } from '../../types';
+
+describe('ApprovalService', () => {
+  const service = new ApprovalService('required');
+
+  function pending(): OutboundDraft {
+    return service.createDraft('dunning-email', 'C001', {
+      to: 'ap@contoso.example',
+      subject: 'Overdue balance',
+      body: '<p>Please pay</p>',
+    });
+  }
+
+  it('creates pending drafts with a created entry in the history', () => {
+    const draft = pending();
+    expect(draft.status).toBe('pending');
+    expect(draft.history).toEqual([{ action: 'created', by: 'Collections Agent', date: draft.createdDate }]);
+  });
+
+  it('records edits with the fields that changed and ignores edits that change nothing', () => {
+    const draft = pending();
+    const edited = service.edit(draft, { subject: 'Balance due', to: draft.to }, 'ana');
+
+    expect(edited.subject).toBe('Balance due');
+    expect(edited.history[1]).toMatchObject({ action: 'edited', by: 'ana', comment: 'Changed subject' });
+    expect(service.edit(edited, { body: edited.body }, 'ana')).toBe(edited);
+  });
+
+  it('moves a draft from pending through approved to sent', () => {
+    const approved = service.approve(pending(), 'ana', 'Looks good');
+    expect(approved).toMatchObject({ status: 'approved', approvedBy: 'ana' });
+
+    const sent = service.markSent(approved);
+    expect(sent.status).toBe('sent');
+    expect(sent.sentDate).toBeDefined();
+    expect(sent.history.map(h => [h.action, h.by])).toEqual([
+      ['created', 'Collections Agent'],
+      ['approved', 'ana'],
+      ['sent', 'system'],
+    ]);
+  });
+
+  it('lets a failed or blocked draft be approved again', () => {
+    const failed = service.markFailed(service.approve(pending(), 'ana'), 'Graph timeout');
+    expect(failed).toMatchObject({ status: 'failed', error: 'Graph timeout' });
+    expect(service.approve(failed, 'ana')).toMatchObject({ status: 'approved', error: undefined });
+
+    const blocked = service.applyReview(pending(), {
+      allowed: false,
+      body: '<p>Please pay</p>',
+      findings: [{ rule: 'quiet-hours', action: 'block', reason: 'Quiet hours in America/New_York' }],
+    });
+    expect(blocked.status).toBe('blocked');
+    expect(blocked.history[1]).toMatchObject({ action: 'blocked', by: 'compliance policy', comment: 'Quiet hours in America/New_York' });
+    expect(service.approve(blocked, 'ana').status).toBe('approved');
+  });
+
+  it('records a compliance rewrite as an edit', () => {
+    const reviewed = service.applyReview(pending(), {
+      allowed: true,
+      body: '<p>Please pay soon</p>',
+      findings: [{ rule: 'prohibited-language', action: 'rewrite', reason: 'Removed threatening language' }],
+    });
+    expect(reviewed).toMatchObject({ status: 'pending', body: '<p>Please pay soon</p>' });
+    expect(reviewed.history[1]).toMatchObject({ action: 'edited', by: 'compliance policy' });
+  });
+
+  it('throws a DraftStateError when a decided draft is edited, approved or rejected', () => {
+    const sent = service.markSent(service.approve(pending(), 'ana'));
+    const rejected = service.reject(pending(), 'ana', 'Customer paid');
+    expect(rejected.status).toBe('rejected');
+
+    expect(() => service.approve(sent, 'bo')).toThrow(DraftStateError);
+    expect(() => service.approve(sent, 'bo')).toThrow(`Draft ${sent.draftId} is sent and can't be approved`);
+    expect(() => service.edit(rejected, { subject: 'x' }, 'bo')).toThrow(`is rejected and can't be edited`);
+    expect(() => service.reject(service.approve(pending(), 'ana'), 'bo')).toThrow(`is approved and can't be rejected`);
+  });
+
+  it('rejects an unknown approval mode', () => {
+    expect(() => new ApprovalService('manual' as 'auto')).toThrow('Unknown OUTBOUND_APPROVAL "manual"');
+  });
+});
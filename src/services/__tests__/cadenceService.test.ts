@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { CadenceService, DEFAULT_CADENCE_LADDERS } from '../cadenceService';
+import { MemoryCollectionsStore } from '../../store';
+import { ARAgingData, PaymentHistory } from '../../types';
+
+const START = new Date('2026-03-01T09:00:00Z');
+const DAY = 86_400_000;
+
+function arData(totalOutstanding = 5000): ARAgingData {
+  return {
+    customerId: 'C001',
+    customerName: 'Contoso',
+    totalOutstanding,
+    current: 0,
+    days30: totalOutstanding,
+    days60: 0,
+    days90: 0,
+    days120Plus: 0,
+    invoices: [],
+    currency: 'EUR',
+  };
+}
+
+function paymentHistory(overrides: Partial<PaymentHistory> = {}): PaymentHistory {
+  return {
+    customerId: 'C001',
+    averagePaymentDays: 40,
+    onTimePaymentRate: 0.5,
+    totalTransactions: 10,
+    lastPaymentDate: '2026-01-15',
+    promiseToPayHistory: [],
+    ...overrides,
+  };
+}
+
+describe('CadenceService', () => {
+  let service: CadenceService;
+
+  beforeEach(() => {
+    service = new CadenceService(new MemoryCollectionsStore());
+  });
+
+  it('gives each risk level its own timeline', () => {
+    const lastStep = (level: keyof typeof DEFAULT_CADENCE_LADDERS) =>
+      DEFAULT_CADENCE_LADDERS[level][DEFAULT_CADENCE_LADDERS[level].length - 1].offsetDays;
+    expect(lastStep('low')).toBeGreaterThan(lastStep('medium'));
+    expect(lastStep('medium')).toBeGreaterThan(lastStep('high'));
+  });
+
+  it('schedules the ladder from the start date and persists it', async () => {
+    const cadence = await service.enroll(arData(), 'medium', undefined, 'collector@example.com', START);
+
+    expect(cadence.actions.map(a => a.scheduledDate)).toEqual(
+      DEFAULT_CADENCE_LADDERS.medium.map(step => new Date(START.getTime() + step.offsetDays * DAY).toISOString()),
+    );
+    expect(await service.getCadence('C001')).toEqual(cadence);
+    expect(service.getDueActions(cadence, new Date(START.getTime() + 10 * DAY)).map(a => a.stepId))
+      .toEqual(['reminder-email', 'firm-email']);
+  });
+
+  it('gives each email step the next dunning stage unless the step names one', async () => {
+    const cadence = await service.enroll(arData(), 'low', undefined, undefined, START);
+    expect(cadence.actions.filter(a => a.actionType === 'email').map(a => [a.stepId, a.stage])).toEqual([
+      ['reminder-email', 'friendly-reminder'],
+      ['firm-email', 'second-notice'],
+      ['final-demand', 'final-demand'],
+      ['pre-legal', 'pre-legal'],
+    ]);
+    expect(cadence.actions.find(a => a.stepId === 'phone-call')?.stage).toBeUndefined();
+
+    const custom = new CadenceService(new MemoryCollectionsStore(), {
+      ...DEFAULT_CADENCE_LADDERS,
+      low: [
+        { stepId: 'notice', offsetDays: 5, actionType: 'email', tone: 'firm', stage: 'pre-legal', description: 'Pre-legal notice' },
+        { stepId: 'follow-up', offsetDays: 10, actionType: 'email', tone: 'firm', description: 'Follow-up' },
+      ],
+    });
+    expect((await custom.enroll(arData(), 'low', undefined, undefined, START)).actions.map(a => a.stage))
+      .toEqual(['pre-legal', 'second-notice']);
+  });
+
+  it('stops once a payment arrives and skips steps while a promise is open', async () => {
+    const cadence = await service.enroll(arData(), 'high', undefined, undefined, START);
+    const asOf = new Date('2026-03-05T00:00:00Z');
+
+    expect(service.evaluate(cadence, arData(4000), paymentHistory(), asOf).stopReason)
+      .toBe('Payment received since cadence started');
+
+    const promise = { date: '2026-03-02', promisedAmount: 1234.5, promisedDate: '2026-03-20', fulfilled: false };
+    const evaluation = service.evaluate(cadence, arData(), paymentHistory({ promiseToPayHistory: [promise] }), asOf);
+    expect(evaluation.stopReason).toBeUndefined();
+    expect(evaluation.skipReason).toContain('€1,234.50');
+    expect(evaluation.skipReason).toContain('2026-03-20');
+  });
+
+  it('holds the ladder while an email step waits for approval and completes it once sent', async () => {
+    const cadence = await service.enroll(arData(), 'high', undefined, undefined, START);
+    const later = new Date(START.getTime() + 30 * DAY);
+
+    service.markQueued(cadence, 'reminder-email', 'draft-1');
+    expect(service.getDueActions(cadence, later)).toEqual([]);
+    service.completeIfFinished(cadence);
+    expect(cadence.status).toBe('active');
+
+    expect(service.settleQueued(cadence, 'draft-other', 'sent')).toBe(false);
+    expect(service.settleQueued(cadence, 'draft-1', 'sent', 'Sent (approved by ana)', later)).toBe(true);
+
+    const step = cadence.actions.find(a => a.stepId === 'reminder-email');
+    expect(step).toMatchObject({ status: 'completed', draftId: 'draft-1', statusReason: 'Sent (approved by ana)' });
+    expect(service.getDueActions(cadence, later).map(a => a.stepId))
+      .toEqual(['firm-email', 'teams-escalation', 'final-demand', 'phone-call', 'pre-legal']);
+  });
+
+  it('schedules a step again when its draft is rejected', async () => {
+    const cadence = await service.enroll(arData(), 'low', undefined, undefined, START);
+    service.markQueued(cadence, 'reminder-email', 'draft-1');
+
+    expect(service.settleQueued(cadence, 'draft-1', 'rejected', 'Draft draft-1 rejected by ana')).toBe(true);
+
+    const step = cadence.actions.find(a => a.stepId === 'reminder-email');
+    expect(step).toMatchObject({ status: 'scheduled', statusReason: 'Draft draft-1 rejected by ana' });
+    expect(step?.draftId).toBeUndefined();
+    expect(service.getDueActions(cadence, new Date(START.getTime() + 5 * DAY)).map(a => a.stepId))
+      .toEqual(['reminder-email']);
+  });
+
+  it('skips queued and scheduled steps when stopped', async () => {
+    const cadence = await service.enroll(arData(), 'low', undefined, undefined, START);
+    service.markQueued(cadence, 'reminder-email', 'draft-1');
+
+    service.stop(cadence, 'Outstanding balance cleared');
+
+    expect(cadence.status).toBe('stopped');
+    expect(cadence.actions.every(a => a.status === 'skipped')).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, expect, it } from '@jest/globals';
+import { CashApplicationService, describeInvalidPayments, invalidPayments } from '../cashApplicationService';
+import { CurrencyService } from '../currencyService';
+import { ARAgingData, Invoice, PaymentRecord } from '../../types';
+
+const currency = new CurrencyService('USD', { EUR: 1.1 });
+
+function invoice(invoiceId: string, amount: number, daysOverdue: number, overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    invoiceId,
+    invoiceNumber: `INV-${invoiceId}`,
+    invoiceDate: '2026-01-01',
+    dueDate: new Date(Date.UTC(2026, 5, 30) - daysOverdue * 86_400_000).toISOString(),
+    amount,
+    amountPaid: 0,
+    amountOutstanding: amount,
+    daysOverdue,
+    ...overrides,
+  };
+}
+
+/** 1000 current, 2000 in 30–59 days and 3000 in 90–119 days. */
+function arData(invoices: Invoice[] = [invoice('A', 1000, 0), invoice('B', 2000, 45), invoice('C', 3000, 100)]): ARAgingData {
+  return {
+    customerId: 'C001',
+    customerName: 'Contoso',
+    totalOutstanding: 6000,
+    current: 1000,
+    days30: 2000,
+    days60: 0,
+    days90: 3000,
+    days120Plus: 0,
+    invoices,
+    currency: 'USD',
+  };
+}
+
+function payment(paymentId: string, amount: number, overrides: Partial<PaymentRecord> = {}): PaymentRecord {
+  return { paymentId, customerId: 'C001', paymentDate: '2026-06-01', amount, ...overrides };
+}
+
+describe('CashApplicationService', () => {
+  const service = new CashApplicationService(undefined, currency);
+
+  it('applies remittance references first and reduces the matching bucket', () => {
+    const { arData: net, allocations, unapplied } = service.applyPayments(
+      arData(),
+      [payment('P1', 1500, { remittanceInvoiceIds: ['inv-b'] })],
+    );
+
+    expect(allocations).toEqual([{ paymentId: 'P1', invoiceId: 'B', amount: 1500, method: 'remittance' }]);
+    expect(unapplied).toEqual([]);
+    expect(net.invoices.find(inv => inv.invoiceId === 'B')).toMatchObject({ amountPaid: 1500, amountOutstanding: 500 });
+    expect(net).toMatchObject({ totalOutstanding: 4500, days30: 500, current: 1000, days90: 3000 });
+  });
+
+  it('prefers an invoice for the exact amount, then the oldest due date', () => {
+    const exact = service.applyPayments(arData(), [payment('P1', 2000)]);
+    expect(exact.allocations).toEqual([{ paymentId: 'P1', invoiceId: 'B', amount: 2000, method: 'exact-match' }]);
+    expect(exact.arData.invoices.map(inv => inv.invoiceId)).toEqual(['A', 'C']);
+
+    const oldest = service.applyPayments(arData(), [payment('P2', 3500)]);
+    expect(oldest.allocations.map(a => [a.invoiceId, a.amount, a.method])).toEqual([
+      ['C', 3000, 'oldest-first'],
+      ['B', 500, 'oldest-first'],
+    ]);
+  });
+
+  it('reports cash that matches no open invoice as unapplied', () => {
+    const { arData: net, unapplied } = service.applyPayments(arData(), [payment('P1', 7000)]);
+    expect(net.totalOutstanding).toBe(0);
+    expect(net.invoices).toEqual([]);
+    expect(unapplied).toEqual([{ paymentId: 'P1', amount: 1000 }]);
+    expect(net.unappliedCash).toBe(1000);
+  });
+
+  it('only applies a payment to invoices in its currency, converting the bucket reduction', () => {
+    const eurInvoice = invoice('E', 1000, 45, { currency: 'EUR' });
+    const data = { ...arData([invoice('A', 1000, 0), eurInvoice]), totalOutstanding: 2100, days30: 1100 };
+
+    const { arData: net, allocations } = service.applyPayments(data, [payment('P1', 400, { currency: 'EUR' })]);
+
+    expect(allocations).toEqual([{ paymentId: 'P1', invoiceId: 'E', amount: 400, method: 'oldest-first' }]);
+    expect(net).toMatchObject({ totalOutstanding: 1660, days30: 660, current: 1000 });
+  });
+
+  it('never applies a payment to an invoice issued after it was received', () => {
+    const later = invoice('L', 500, 0, { invoiceDate: '2026-06-15T00:00:00Z' });
+    const sameDay = invoice('S', 500, 0, { invoiceDate: '2026-06-01T16:00:00Z' });
+    const { allocations, unapplied } = service.applyPayments(
+      arData([later, sameDay]),
+      [payment('P1', 800, { paymentDate: '2026-06-01T09:00:00Z' })],
+    );
+
+    expect(allocations.map(a => a.invoiceId)).toEqual(['S']);
+    expect(unapplied).toEqual([{ paymentId: 'P1', amount: 300 }]);
+  });
+
+  it('does not modify the aging it is given', () => {
+    const original = arData();
+    service.applyPayments(original, [payment('P1', 6000)]);
+    expect(original.totalOutstanding).toBe(6000);
+    expect(original.invoices[0].amountOutstanding).toBe(1000);
+  });
+
+  it('rejects unknown allocation methods', () => {
+    const previous = process.env.CASH_APPLICATION_METHODS;
+    process.env.CASH_APPLICATION_METHODS = 'remittance,largest-first';
+    try {
+      expect(() => new CashApplicationService()).toThrow('Unknown cash application method: largest-first');
+    } finally {
+      if (previous === undefined) delete process.env.CASH_APPLICATION_METHODS;
+      else process.env.CASH_APPLICATION_METHODS = previous;
+    }
+  });
+});
+
+describe('CashApplicationService with ledger payments', () => {
+  const service = new CashApplicationService(undefined, currency);
+
+  it('records the invoices a payment settles and keeps to them once the ERP closes one', () => {
+    const first = service.applyPayments(arData(), [payment('P1', 3500)]);
+    const [recorded] = first.settled;
+    expect(recorded.settlements).toEqual([
+      { invoiceId: 'C', amount: 3000, method: 'oldest-first' },
+      { invoiceId: 'B', amount: 500, method: 'oldest-first' },
+    ]);
+
+    // The ERP has closed C with this payment but not yet posted the part that paid B
+    const closed = { ...arData([invoice('A', 1000, 0), invoice('B', 2000, 45)]), totalOutstanding: 3000, days90: 0 };
+    const later = service.applyPayments(closed, [recorded]);
+
+    expect(later.allocations).toEqual([{ paymentId: 'P1', invoiceId: 'B', amount: 500, method: 'oldest-first' }]);
+    expect(later.unapplied).toEqual([]);
+    expect(later.settled).toEqual([]);
+    expect(later.arData).toMatchObject({ totalOutstanding: 2500, current: 1000, days30: 1500 });
+  });
+
+  it('applies only the unsettled rest of a payment through the allocation methods', () => {
+    const partly = payment('P1', 1200, { settlements: [{ invoiceId: 'Z', amount: 200, method: 'remittance' }] });
+    const { allocations, settled } = service.applyPayments(arData(), [partly]);
+
+    expect(allocations).toEqual([{ paymentId: 'P1', invoiceId: 'A', amount: 1000, method: 'exact-match' }]);
+    expect(settled[0].settlements).toEqual([
+      { invoiceId: 'Z', amount: 200, method: 'remittance' },
+      { invoiceId: 'A', amount: 1000, method: 'exact-match' },
+    ]);
+  });
+
+  it('leaves out ledger payments whose receipt the ERP already shows, matching each ERP payment once', () => {
+    const erpPayments = [
+      payment('task-1', 2000, { paymentDate: '2026-06-04T10:00:00Z', reference: 'Payment received' }),
+      payment('BANK-3', 700, { paymentDate: '2026-01-15' }),
+    ];
+    const ledger = [
+      payment('BANK-1', 2000),
+      payment('BANK-2', 2000),
+      payment('BANK-3', 700, { paymentDate: '2026-06-20' }),
+      payment('BANK-4', 2000, { currency: 'EUR' }),
+      payment('BANK-5', 900, { erpPaymentId: 'task-0' }),
+    ];
+
+    const { unposted, posted } = service.matchReceipts(ledger, erpPayments);
+
+    expect(posted.map(p => [p.paymentId, p.erpPaymentId])).toEqual([['BANK-1', 'task-1'], ['BANK-3', 'BANK-3']]);
+    expect(unposted.map(p => p.paymentId)).toEqual(['BANK-2', 'BANK-4']);
+  });
+
+  it('does not reduce another invoice when the ERP posts the receipt and closes the invoice', () => {
+    const ledger = [payment('BANK-1', 2000, { settlements: [{ invoiceId: 'B', amount: 2000, method: 'exact-match' }] })];
+    const erpNet = { ...arData([invoice('A', 1000, 0), invoice('C', 3000, 100)]), totalOutstanding: 4000, days30: 0 };
+    const erpPayments = [payment('task-1', 2000, { paymentDate: '2026-06-02' })];
+
+    const { unposted } = service.matchReceipts(ledger, erpPayments);
+    const net = service.applyPayments(erpNet, unposted);
+
+    expect(unposted).toEqual([]);
+    expect(net.arData).toMatchObject({ totalOutstanding: 4000, current: 1000, days90: 3000 });
+  });
+});
+
+describe('invalidPayments', () => {
+  it('accepts complete payments', () => {
+    expect(invalidPayments([payment('P1', 10), payment('P2', 0.01, { currency: 'eur', remittanceInvoiceIds: ['INV-1'] })])).toEqual([]);
+  });
+
+  it('lists each record that can\'t go into the ledger with what is wrong with it', () => {
+    const invalid = invalidPayments([
+      payment('P1', 10),
+      { customerId: 'C001', amount: 10, paymentDate: '2026-06-01' },
+      payment('P3', -5),
+      payment('P4', 0, { paymentDate: 'yesterday', currency: 'euro' }),
+      { paymentId: 'P5', amount: '12.50', paymentDate: '2026-06-01' },
+      payment('P6', Infinity),
+      null,
+    ]);
+
+    expect(invalid).toEqual([
+      { index: 1, paymentId: undefined, errors: ['paymentId must be a non-empty string'] },
+      { index: 2, paymentId: 'P3', errors: ['amount must be a positive number'] },
+      {
+        index: 3,
+        paymentId: 'P4',
+        errors: [
+          'amount must be a positive number',
+          'paymentDate must be a valid date, e.g. 2026-01-05',
+          'currency must be an ISO 4217 code, e.g. EUR',
+        ],
+      },
+      { index: 4, paymentId: 'P5', errors: ['amount must be a positive number'] },
+      { index: 5, paymentId: 'P6', errors: ['amount must be a positive number'] },
+      {
+        index: 6,
+        paymentId: undefined,
+        errors: ['paymentId must be a non-empty string', 'amount must be a positive number', 'paymentDate must be a valid date, e.g. 2026-01-05'],
+      },
+    ]);
+    expect(describeInvalidPayments(invalid.slice(0, 2))).toBe(
+      '2 invalid payment records — payments[1]: paymentId must be a non-empty string; ' +
+      'payments[2] (P3): amount must be a positive number',
+    );
+  });
+});
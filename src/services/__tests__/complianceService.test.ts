@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { ComplianceService } from '../complianceService';
+
+const ENV = ['COMPLIANCE_DISCLOSURE', 'COMPLIANCE_DISCLOSURE_DE', 'COMPLIANCE_DISCLOSURE_FR'];
+const saved: Record<string, string | undefined> = {};
+
+beforeEach(() => {
+  for (const key of ENV) {
+    saved[key] = process.env[key];
+    delete process.env[key];
+  }
+});
+
+afterEach(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+/** 14:00 UTC, outside quiet hours in UTC. */
+const AFTERNOON = new Date('2026-10-19T14:00:00Z');
+const UPDATED = '2026-10-01T00:00:00Z';
+
+function service(): ComplianceService {
+  return new ComplianceService({ maxContacts: 2, windowDays: 7, quietHours: '21:00-08:00', defaultTimeZone: 'UTC' });
+}
+
+describe('ComplianceService contact rules', () => {
+  it('blocks customers flagged do-not-contact or cease-communication', () => {
+    const review = service().evaluate(
+      { channel: 'email', body: '<p>Please pay</p>' },
+      {
+        preferences: { customerId: 'C001', updatedDate: UPDATED, doNotContact: true, ceaseCommunication: true, reason: 'attorney letter' },
+      },
+    );
+
+    expect(review.allowed).toBe(false);
+    expect(review.findings.filter(f => f.action === 'block').map(f => f.rule)).toEqual(['cease-communication', 'do-not-contact']);
+    expect(review.findings[0].reason).toContain('(attorney letter)');
+  });
+
+  it('caps the messages sent within the window', () => {
+    const lastWeek = ['2026-10-14T10:00:00Z', '2026-10-16T10:00:00Z'];
+    const capped = service().evaluate({ channel: 'email', body: 'Hi' }, { recentContacts: lastWeek, sendAt: AFTERNOON });
+    const older = service().evaluate(
+      { channel: 'email', body: 'Hi' },
+      { recentContacts: ['2026-10-01T10:00:00Z', ...lastWeek.slice(1)], sendAt: AFTERNOON },
+    );
+
+    expect(capped.findings).toContainEqual({
+      rule: 'frequency-cap',
+      action: 'block',
+      reason: '2 messages already sent in the last 7 days (limit 2)',
+    });
+    expect(older.allowed).toBe(true);
+  });
+
+  it('blocks sends within quiet hours in the customer\'s time zone', () => {
+    const newYork = service().evaluate(
+      { channel: 'email', body: 'Hi' },
+      {
+        preferences: { customerId: 'C001', updatedDate: UPDATED, timeZone: 'America/New_York' },
+        sendAt: new Date('2026-10-19T02:30:00Z'),
+      },
+    );
+
+    expect(newYork.findings).toContainEqual({
+      rule: 'quiet-hours',
+      action: 'block',
+      reason: 'It is 22:30 in America/New_York, within quiet hours (21:00-08:00)',
+    });
+    expect(service().evaluate({ channel: 'email', body: 'Hi' }, { sendAt: AFTERNOON }).allowed).toBe(true);
+  });
+});
+
+describe('ComplianceService wording', () => {
+  it('rewords English legal threats keeping capitalization and blocks threats of arrest', () => {
+    const review = service().evaluate({
+      channel: 'teams',
+      subject: 'Legal action pending',
+      body: 'Pay now or we will sue you. The police will be told.',
+    });
+
+    expect(review.allowed).toBe(false);
+    expect(review.subject).toBe('Further collection steps pending');
+    expect(review.body).toContain('or we will refer the account for further collection steps.');
+    expect(review.findings.map(f => [f.rule, f.action])).toEqual([
+      ['prohibited-language', 'block'],
+      ['prohibited-language', 'rewrite'],
+      ['prohibited-language', 'rewrite'],
+      ['disclosure', 'rewrite'],
+    ]);
+  });
+
+  it('adds the disclosure in the message\'s language and doesn\'t add it twice', () => {
+    const german = service().evaluate({ channel: 'email', body: '<html><body><p>Bitte zahlen</p></body></html>', locale: 'de-AT' });
+
+    expect(german.body).toMatch(/<p style="[^"]*">Diese Nachricht betrifft einen offenen Betrag[^<]*<\/p>\n<\/body>/);
+    expect(service().evaluate({ channel: 'email', body: german.body, locale: 'de-AT' }).findings).toEqual([]);
+  });
+
+  it('reads per-language disclosures from the environment before the shared one', () => {
+    process.env.COMPLIANCE_DISCLOSURE = 'Shared wording.';
+    process.env.COMPLIANCE_DISCLOSURE_DE = 'Deutscher Hinweis.';
+    process.env.COMPLIANCE_DISCLOSURE_FR = '';
+    const compliance = new ComplianceService({ defaultTimeZone: 'UTC' });
+
+    expect(compliance.policy.disclosures).toEqual({ en: 'Shared wording.', de: 'Deutscher Hinweis.', fr: '', es: 'Shared wording.' });
+    expect(compliance.evaluate({ channel: 'teams', body: 'Hallo', locale: 'de-DE' }).body).toBe('Hallo\n\nDeutscher Hinweis.');
+    expect(compliance.evaluate({ channel: 'teams', body: 'Bonjour', locale: 'fr-FR' }).findings).toEqual([]);
+  });
+
+  it('rewords and blocks German threats, including words with umlauts', () => {
+    const review = service().evaluate({
+      channel: 'teams',
+      body: 'Wir leiten rechtliche Schritte ein. Andernfalls droht die Pfändung.',
+      locale: 'de-DE',
+    });
+
+    expect(review.allowed).toBe(false);
+    expect(review.body).toContain('Wir leiten weitere Inkassoschritte ein.');
+    expect(review.findings.map(f => f.reason)).toEqual([
+      'Message threatens seizure of property or wages',
+      'Message threatens legal action; reworded to "weitere Inkassoschritte"',
+      'Required disclosure added',
+    ]);
+  });
+
+  it('keeps the French and Spanish rules to whole words', () => {
+    const french = service().evaluate({ channel: 'teams', body: 'Une action en justice suivra.', locale: 'fr-FR' });
+    const spanish = service().evaluate({ channel: 'teams', body: 'Los embargos no son parte de este proceso.', locale: 'es-ES' });
+    const harmless = service().evaluate({ channel: 'teams', body: 'Merci de votre saisissante réponse.', locale: 'fr-FR' });
+
+    expect(french.body).toMatch(/^Une autres mesures de recouvrement suivra\./);
+    expect(spanish.findings[0]).toMatchObject({ action: 'block', reason: 'Message threatens seizure of property or wages' });
+    expect(harmless.findings.map(f => f.rule)).toEqual(['disclosure']);
+  });
+
+  it('checks English threats in messages in other languages', () => {
+    const review = service().evaluate({ channel: 'teams', body: 'Veuillez payer, or we will sue you.', locale: 'fr-FR' });
+
+    expect(review.body).toContain('or we will refer the account for further collection steps.');
+    expect(review.body).toContain('Ce message concerne un solde impayé');
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { ContactService } from '../contactService';
+import { CustomerContact } from '../../types';
+
+function contact(contactId: string, overrides: Partial<CustomerContact> = {}): CustomerContact {
+  return {
+    contactId,
+    customerId: 'C001',
+    name: `Contact ${contactId}`,
+    email: `${contactId.toLowerCase()}@contoso.example`,
+    role: 'other',
+    ...overrides,
+  };
+}
+
+describe('ContactService', () => {
+  const service = new ContactService();
+
+  it('sends billing email to the billing contact and escalations to the escalation contact', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('OWNER', { role: 'other', primary: true }),
+      contact('CFO', { role: 'escalation' }),
+      contact('AP', { role: 'billing' }),
+    ]);
+
+    expect(directory.contacts).toHaveLength(3);
+    expect(directory.billing?.contactId).toBe('AP');
+    expect(directory.escalation?.contactId).toBe('CFO');
+    expect(service.recipient(directory, 'billing')?.contactId).toBe('AP');
+    expect(service.recipient(directory, 'escalation')?.contactId).toBe('CFO');
+  });
+
+  it('falls back to the primary contact for billing, and to billing for escalations', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('SALES'),
+      contact('OWNER', { primary: true }),
+    ]);
+
+    expect(directory.billing?.contactId).toBe('OWNER');
+    expect(directory.escalation).toBeUndefined();
+    expect(service.recipient(directory, 'escalation')?.contactId).toBe('OWNER');
+  });
+
+  it('never picks a contact who opted out of email or has no address', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('AP', { role: 'billing', doNotEmail: true }),
+      contact('AP2', { role: 'billing', email: undefined, phone: '+1 555 0100' }),
+      contact('OWNER', { primary: true }),
+      contact('CFO', { role: 'escalation', doNotEmail: true }),
+    ]);
+
+    expect(directory.billing?.contactId).toBe('OWNER');
+    expect(directory.escalation).toBeUndefined();
+    expect(service.recipient(directory, 'escalation')?.contactId).toBe('OWNER');
+  });
+
+  it('has no recipient when nobody can receive email', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('AP', { role: 'billing', doNotEmail: true }),
+      contact('OWNER', { primary: true, email: undefined }),
+    ]);
+
+    expect(directory).toEqual({ customerId: 'C001', contacts: directory.contacts });
+    expect(service.recipient(directory, 'billing')).toBeUndefined();
+    expect(service.recipient(directory, 'escalation')).toBeUndefined();
+  });
+
+  it('prefers a contact who prefers email or states no preference over one who prefers another channel', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('AP-PHONE', { role: 'billing', preferredChannel: 'phone' }),
+      contact('AP-ANY', { role: 'billing' }),
+      contact('CFO-MAIL', { role: 'escalation', preferredChannel: 'mail' }),
+      contact('CFO-EMAIL', { role: 'escalation', preferredChannel: 'email' }),
+    ]);
+
+    expect(directory.billing?.contactId).toBe('AP-ANY');
+    expect(directory.escalation?.contactId).toBe('CFO-EMAIL');
+  });
+
+  it('still picks a contact who prefers another channel when they are the only one', () => {
+    const directory = service.buildDirectory('C001', [
+      contact('AP-PHONE', { role: 'billing', preferredChannel: 'phone' }),
+      contact('AP-MAIL', { role: 'billing', preferredChannel: 'mail' }),
+    ]);
+
+    expect(directory.billing?.contactId).toBe('AP-PHONE');
+  });
+});
@@ -0,0 +1,102 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { CurrencyService, loadFxRates } from '../currencyService';
+import { ARAgingData, Invoice } from '../../types';
+
+function invoice(invoiceId: string, amountOutstanding: number, currency?: string): Invoice {
+  return {
+    invoiceId, invoiceDate: '2026-08-01', dueDate: '2026-09-01', currency,
+    amount: amountOutstanding, amountPaid: 0, amountOutstanding, daysOverdue: 10,
+  };
+}
+
+function arData(invoices: Invoice[], totalOutstanding: number): ARAgingData {
+  return {
+    customerId: 'C001', customerName: 'Contoso', currency: 'USD', totalOutstanding,
+    current: totalOutstanding, days30: 0, days60: 0, days90: 0, days120Plus: 0, invoices,
+  };
+}
+
+describe('CurrencyService', () => {
+  const currency = new CurrencyService('usd', { EUR: 1.1, GBP: 1.25 });
+
+  it('converts into the reporting currency, which needs no rate', () => {
+    expect(currency.reportingCurrency).toBe('USD');
+    expect(currency.toReporting(100, 'eur')).toBe(110);
+    expect(currency.toReporting(100.005)).toBe(100.01);
+    expect(currency.toReporting(100, 'USD')).toBe(100);
+    expect(new CurrencyService('EUR', {}).toReporting(250, 'EUR')).toBe(250);
+  });
+
+  it('converts between two other currencies through the reporting currency', () => {
+    expect(currency.convert(110, 'EUR', 'GBP')).toBe(96.8);
+    expect(currency.convert(125, 'GBP', undefined)).toBe(156.25);
+    expect(currency.convert(156.25, 'USD', 'GBP')).toBe(125);
+    expect(currency.convert(33.333, 'EUR', 'eur')).toBe(33.333);
+  });
+
+  it('names the currency that has no rate', () => {
+    expect(() => currency.toReporting(100, 'CHF')).toThrow('No FX rate for CHF → USD. Add it to FX_RATES_FILE.');
+    expect(() => currency.convert(100, 'EUR', 'JPY')).toThrow('No FX rate for JPY → USD');
+  });
+
+  it('totals the open balance per invoice currency, largest in the reporting currency first', () => {
+    const balances = currency.currencyBalances(arData(
+      [invoice('1', 100, 'EUR'), invoice('2', 200), invoice('3', 50.5, 'eur'), invoice('4', 100, 'GBP')],
+      490.55,
+    ));
+
+    expect(balances).toEqual([
+      { currency: 'USD', amount: 200, reportingAmount: 200 },
+      { currency: 'EUR', amount: 150.5, reportingAmount: 165.55 },
+      { currency: 'GBP', amount: 100, reportingAmount: 125 },
+    ]);
+  });
+
+  it('addresses a customer in their invoice currency only when it is the only one', () => {
+    expect(currency.customerCurrency(arData([invoice('1', 100, 'EUR'), invoice('2', 50, 'EUR')], 165)))
+      .toEqual({ currency: 'EUR', totalOutstanding: 150 });
+    expect(currency.customerCurrency(arData([invoice('1', 100, 'EUR'), invoice('2', 50)], 160)))
+      .toEqual({ currency: 'USD', totalOutstanding: 160 });
+    expect(currency.customerCurrency(arData([], 500)))
+      .toEqual({ currency: 'USD', totalOutstanding: 500 });
+  });
+});
+
+describe('loadFxRates', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fx-rates-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function write(name: string, content: unknown): Promise<string> {
+    const file = path.join(directory, name);
+    await fs.writeFile(file, JSON.stringify(content));
+    return file;
+  }
+
+  it('reads the rates with upper-case codes and has none without a file', async () => {
+    const file = await write('rates.json', { asOf: '2026-10-01', rates: { eur: 1.08, GBP: 1.27 } });
+
+    expect(loadFxRates(file)).toEqual({ EUR: 1.08, GBP: 1.27 });
+    expect(new CurrencyService('USD', loadFxRates(file)).toReporting(1000, 'EUR')).toBe(1080);
+    expect(loadFxRates(undefined)).toEqual({});
+  });
+
+  it('rejects a file without a rates object or with a rate that is not positive', async () => {
+    const noRates = await write('no-rates.json', { EUR: 1.08 });
+    const zero = await write('zero.json', { rates: { EUR: 0 } });
+    const text = await write('text.json', { rates: { EUR: '1.08' } });
+
+    expect(() => loadFxRates(noRates)).toThrow(`${noRates} must contain a "rates" object`);
+    expect(() => loadFxRates(zero)).toThrow(`${zero}: rate for EUR must be a positive number`);
+    expect(() => loadFxRates(text)).toThrow('rate for EUR must be a positive number');
+  });
+});
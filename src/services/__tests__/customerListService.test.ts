@@ -0,0 +1,88 @@
+import { describe, expect, it } from '@jest/globals';
+import { CustomerListService, decodeCustomerCursor } from '../customerListService';
+import { PrioritizedCustomer, RiskScore } from '../../types';
+
+function customer(
+  customerId: string,
+  priority: number,
+  overrides: Partial<PrioritizedCustomer> = {},
+  riskLevel: RiskScore['riskLevel'] = 'medium',
+): PrioritizedCustomer {
+  return {
+    customerId,
+    customerName: `Customer ${customerId}`,
+    riskScore: { customerId, score: 0.5, riskLevel, factors: [], recommendation: '' },
+    totalOutstanding: 1000,
+    priority,
+    daysOverdue: 30,
+    ...overrides,
+  };
+}
+
+/** Seven customers; C3 and C4 tie on priority. */
+const CUSTOMERS = [
+  customer('C1', 90),
+  customer('C2', 80, { totalOutstanding: 50_000, collector: 'ana@example.com' }, 'high'),
+  customer('C4', 70),
+  customer('C3', 70, { daysOverdue: 120 }),
+  customer('C5', 60, { customerName: 'Northwind Traders' }),
+  customer('C6', 50, { totalOutstanding: 75_000 }, 'high'),
+  customer('C7', 40),
+];
+
+describe('CustomerListService', () => {
+  const service = new CustomerListService();
+
+  it('pages through every customer once, in order, with ties broken by ID', () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    let pages = 0;
+    do {
+      const page = service.page(CUSTOMERS, { limit: 3, cursor });
+      expect(page.totalMatched).toBe(7);
+      seen.push(...page.customers.map(c => c.customerId));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen).toEqual(['C1', 'C2', 'C3', 'C4', 'C5', 'C6', 'C7']);
+  });
+
+  it('continues after the last customer returned even if the ranking shifts', () => {
+    const first = service.page(CUSTOMERS, { limit: 2 });
+    expect(first.customers.map(c => c.customerId)).toEqual(['C1', 'C2']);
+
+    // C1 is paid and drops out before the next page is read
+    const next = service.page(CUSTOMERS.filter(c => c.customerId !== 'C1'), { limit: 2, cursor: first.nextCursor });
+    expect(next.customers.map(c => c.customerId)).toEqual(['C3', 'C4']);
+  });
+
+  it('omits nextCursor on the last page', () => {
+    expect(service.page(CUSTOMERS, { limit: 7 }).nextCursor).toBeUndefined();
+    expect(service.page(CUSTOMERS, { limit: 6 }).nextCursor).toBeDefined();
+  });
+
+  it('filters before paging', () => {
+    const page = service.page(CUSTOMERS, { riskLevels: ['high'], minBalance: 60_000 });
+    expect(page.customers.map(c => c.customerId)).toEqual(['C6']);
+    expect(page.totalMatched).toBe(1);
+
+    expect(service.page(CUSTOMERS, { collector: 'ANA@example.com' }).customers.map(c => c.customerId)).toEqual(['C2']);
+    expect(service.page(CUSTOMERS, { search: 'northwind' }).customers.map(c => c.customerId)).toEqual(['C5']);
+    expect(service.page(CUSTOMERS, { minDaysOverdue: 100 }).customers.map(c => c.customerId)).toEqual(['C3']);
+  });
+
+  it('sorts by balance or oldest invoice', () => {
+    expect(service.page(CUSTOMERS, { sort: 'balance', limit: 2 }).customers.map(c => c.customerId)).toEqual(['C6', 'C2']);
+    expect(service.page(CUSTOMERS, { sort: 'oldest-invoice', limit: 1 }).customers.map(c => c.customerId)).toEqual(['C3']);
+  });
+
+  it('rejects a cursor issued for another sort', () => {
+    const { nextCursor } = service.page(CUSTOMERS, { limit: 2 });
+    expect(decodeCustomerCursor(nextCursor as string, 'priority')).toMatchObject({ customerId: 'C2', value: 80 });
+    expect(decodeCustomerCursor(nextCursor as string, 'balance')).toBeUndefined();
+    expect(decodeCustomerCursor('not-a-cursor', 'priority')).toBeUndefined();
+    expect(() => service.page(CUSTOMERS, { sort: 'balance', cursor: nextCursor })).toThrow('Invalid cursor for sort "balance"');
+  });
+});
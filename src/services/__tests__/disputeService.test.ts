@@ -0,0 +1,146 @@
+import { describe, expect, it } from '@jest/globals';
+import { DisputeService } from '../disputeService';
+import { ARAgingData, Dispute, Invoice } from '../../types';
+
+function invoice(invoiceId: string, amountOutstanding: number, overrides: Partial<Invoice> = {}): Invoice {
+  return {
+    invoiceId,
+    invoiceNumber: `INV-${invoiceId}`,
+    invoiceDate: '2026-07-01',
+    dueDate: '2026-08-01',
+    amount: 1000,
+    amountPaid: 1000 - amountOutstanding,
+    amountOutstanding,
+    daysOverdue: 45,
+    ...overrides,
+  };
+}
+
+function arData(invoices: Invoice[]): ARAgingData {
+  return {
+    customerId: 'C001',
+    customerName: 'Contoso',
+    totalOutstanding: invoices.reduce((sum, inv) => sum + inv.amountOutstanding, 0),
+    current: 0,
+    days30: invoices.reduce((sum, inv) => sum + inv.amountOutstanding, 0),
+    days60: 0,
+    days90: 0,
+    days120Plus: 0,
+    invoices,
+    currency: 'USD',
+  };
+}
+
+describe('DisputeService', () => {
+  const service = new DisputeService();
+
+  describe('createDispute', () => {
+    it('disputes the whole open amount unless an amount is given', () => {
+      const whole = service.createDispute('C001', invoice('A', 800), 'pricing', { description: 'Wrong unit price', author: 'ana' });
+      const part = service.createDispute('C001', invoice('A', 800), 'quantity', { amount: 250.004 });
+
+      expect(whole).toMatchObject({ customerId: 'C001', invoiceId: 'A', invoiceNumber: 'INV-A', amount: 800, status: 'open' });
+      expect(whole.notes).toEqual([{ date: whole.openedDate, author: 'ana', text: 'Wrong unit price' }]);
+      expect(part.amount).toBe(250);
+      expect(part.notes).toEqual([]);
+    });
+
+    it('rejects unknown reasons and amounts that are not positive or above the open amount', () => {
+      expect(() => service.createDispute('C001', invoice('A', 800), 'late' as never)).toThrow('Unknown dispute reason "late"');
+      expect(() => service.createDispute('C001', invoice('A', 800), 'pricing', { amount: 0 })).toThrow('must be above zero');
+      expect(() => service.createDispute('C001', invoice('A', 800), 'pricing', { amount: 900 }))
+        .toThrow('Disputed amount 900 is more than the 800 outstanding');
+    });
+  });
+
+  describe('update and resolve', () => {
+    const open = (): Dispute => service.createDispute('C001', invoice('A', 800), 'pricing', { amount: 500 });
+
+    it('changes an unresolved dispute and appends notes', () => {
+      const updated = service.update(open(), { status: 'under-review', owner: 'ana', amount: 300, note: 'Checking', author: 'ana' }, 800);
+
+      expect(updated).toMatchObject({ status: 'under-review', owner: 'ana', amount: 300, reason: 'pricing' });
+      expect(updated.notes.map(n => n.text)).toEqual(['Checking']);
+      expect(() => service.update(open(), { status: 'closed' as never })).toThrow('Unknown dispute status "closed"');
+      expect(() => service.update(open(), { amount: 900 }, 800)).toThrow('more than the 800 outstanding');
+    });
+
+    it('credits the disputed amount by default and requires a credit for a partial one', () => {
+      expect(service.resolve(open(), 'credited').creditAmount).toBe(500);
+      expect(service.resolve(open(), 'partially-credited', undefined, 200).creditAmount).toBe(200);
+      expect(() => service.resolve(open(), 'partially-credited')).toThrow('creditAmount is required');
+      expect(() => service.resolve(open(), 'partially-credited', undefined, 600)).toThrow('no more than the disputed 500');
+      expect(() => service.resolve(open(), 'rejected', undefined, 100)).toThrow('A rejected dispute carries no credit');
+    });
+
+    it('keeps the invoice amounts only for a credit, and resolves a dispute once', () => {
+      const credited = service.resolve(open(), 'partially-credited', 'Agreed', 200, invoice('A', 800));
+      const rejected = service.resolve(open(), 'rejected', 'Price was right', undefined, invoice('A', 800));
+
+      expect(credited).toMatchObject({
+        status: 'resolved',
+        resolution: 'partially-credited',
+        resolutionNotes: 'Agreed',
+        invoiceAtResolution: { amountOutstanding: 800, amountPaid: 200 },
+      });
+      expect(rejected.invoiceAtResolution).toBeUndefined();
+      expect(() => service.resolve(credited, 'withdrawn')).toThrow('is already resolved');
+      expect(() => service.update(credited, { note: 'late note' })).toThrow('is already resolved');
+    });
+  });
+
+  describe('applyDisputes', () => {
+    it('marks invoices under an open dispute, keeping the larger of an ERP flag and the local amount', () => {
+      const dispute = service.createDispute('C001', invoice('A', 800), 'pricing', { amount: 300 });
+      const erpFlagged = invoice('B', 600, { disputedAmount: 400, disputeReason: 'not-received' });
+      const second = service.createDispute('C001', erpFlagged, 'damaged-goods', { amount: 100 });
+
+      const marked = service.applyDisputes(arData([invoice('A', 800), erpFlagged, invoice('C', 200)]), [dispute, second]);
+
+      expect(marked.invoices.map(inv => [inv.invoiceId, inv.disputedAmount, inv.disputeReason])).toEqual([
+        ['A', 300, 'pricing'],
+        ['B', 400, 'not-received'],
+        ['C', undefined, undefined],
+      ]);
+      expect(marked.invoices[0].disputeId).toBe(dispute.disputeId);
+    });
+
+    it('caps the held amount at what is still outstanding', () => {
+      const dispute = service.createDispute('C001', invoice('A', 800), 'pricing');
+      const marked = service.applyDisputes(arData([invoice('A', 500)]), [dispute]);
+
+      expect(marked.invoices[0].disputedAmount).toBe(500);
+    });
+
+    it('releases a rejected dispute and returns the aging as is', () => {
+      const rejected = service.resolve(service.createDispute('C001', invoice('A', 800), 'pricing'), 'rejected', undefined, undefined, invoice('A', 800));
+      const aging = arData([invoice('A', 800)]);
+
+      expect(service.applyDisputes(aging, [rejected])).toBe(aging);
+    });
+
+    it('holds out a partial credit until the ERP posts it, with the rest collectible again', () => {
+      const dispute = service.createDispute('C001', invoice('A', 800), 'pricing', { amount: 500 });
+      const resolved = service.resolve(dispute, 'partially-credited', undefined, 200, invoice('A', 800));
+
+      const notPosted = service.applyDisputes(arData([invoice('A', 800)]), [resolved]);
+      const halfPosted = service.applyDisputes(arData([invoice('A', 700, { amountPaid: 200 })]), [resolved]);
+      const posted = service.applyDisputes(arData([invoice('A', 600, { amountPaid: 200 })]), [resolved]);
+
+      expect(notPosted.invoices[0]).toMatchObject({ disputedAmount: 200, disputeId: dispute.disputeId });
+      expect(halfPosted.invoices[0].disputedAmount).toBe(100);
+      expect(posted.invoices[0].disputedAmount).toBeUndefined();
+    });
+
+    it('does not take a payment received after the resolution for the credit', () => {
+      const resolved = service.resolve(
+        service.createDispute('C001', invoice('A', 800), 'pricing'), 'credited', undefined, 300, invoice('A', 800));
+      // The customer paid the undisputed 500; the credit note is not posted yet
+      const paid = service.applyDisputes(arData([invoice('A', 300, { amountPaid: 700 })]), [resolved]);
+
+      expect(resolved.creditAmount).toBe(300);
+      expect(paid.invoices[0].disputedAmount).toBe(300);
+      expect(service.applyDisputes(arData([]), [resolved]).invoices).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import {
+  DunningTemplateService,
+  renderHtmlTemplate,
+  renderTemplate,
+  stageForEscalation,
+  stageForTone,
+} from '../dunningTemplateService';
+import { DunningService } from '../dunningService';
+import { MemoryCollectionsStore } from '../../store';
+import { ScriptedLLMProvider } from '../../llm';
+import { ARAgingData, RiskScore } from '../../types';
+
+const saved: Record<string, string | undefined> = {};
+
+beforeAll(() => {
+  for (const key of ['REPORTING_CURRENCY', 'PAYMENT_LINK_URL', 'DUNNING_TEMPLATE_MODE']) saved[key] = process.env[key];
+  process.env.REPORTING_CURRENCY = 'USD';
+  process.env.PAYMENT_LINK_URL = 'https://pay.example.com/?customer={{customerId}}&source=email';
+  process.env.DUNNING_TEMPLATE_MODE = 'deterministic';
+});
+
+afterAll(() => {
+  for (const [key, value] of Object.entries(saved)) {
+    if (value === undefined) delete process.env[key];
+    else process.env[key] = value;
+  }
+});
+
+describe('dunning stages', () => {
+  it('maps each further cadence email to the next stage and stays at pre-legal', () => {
+    expect([0, 1, 2, 3, 4].map(stageForEscalation))
+      .toEqual(['friendly-reminder', 'second-notice', 'final-demand', 'pre-legal', 'pre-legal']);
+  });
+
+  it('maps an API tone to a reminder or second notice', () => {
+    expect(stageForTone('reminder')).toBe('friendly-reminder');
+    expect(stageForTone()).toBe('second-notice');
+  });
+});
+
+describe('template rendering', () => {
+  it('fills in variables and keeps sections only when their variable is set', () => {
+    const text = 'Dear {{customerName}},{{#payLink}} pay at {{payLink}}{{/payLink}}.';
+
+    expect(renderTemplate(text, { customerName: 'Contoso', payLink: 'https://pay' })).toBe('Dear Contoso, pay at https://pay.');
+    expect(renderTemplate(text, { customerName: 'Contoso', payLink: '' })).toBe('Dear Contoso,.');
+  });
+
+  it('escapes plain values in an HTML body but not the HTML variables', () => {
+    const body = renderHtmlTemplate('<p>{{customerName}}</p>{{disputeNote}}<a href="{{payLink}}">Pay</a>', {
+      customerName: 'Smith & <Jones> "Ltd"',
+      disputeNote: '<p>INV-1 is on hold</p>',
+      payLink: 'https://pay.example.com/?a=1&b=2',
+    });
+
+    expect(body).toBe(
+      '<p>Smith &amp; &lt;Jones&gt; &quot;Ltd&quot;</p><p>INV-1 is on hold</p><a href="https://pay.example.com/?a=1&amp;b=2">Pay</a>',
+    );
+  });
+});
+
+describe('DunningService with the built-in templates', () => {
+  const templates = new DunningTemplateService(new MemoryCollectionsStore());
+  const riskScore: RiskScore = { customerId: 'C&1', score: 0.8, riskLevel: 'high', factors: [], recommendation: '' };
+  let dunning: DunningService;
+
+  // After the outer beforeAll, which sets the pay link and template mode it reads
+  beforeAll(() => {
+    dunning = new DunningService(new ScriptedLLMProvider([]));
+  });
+
+  function arData(): ARAgingData {
+    return {
+      customerId: 'C&1',
+      customerName: 'Smith & <Jones>',
+      totalOutstanding: 1500,
+      current: 0,
+      days30: 0,
+      days60: 1000,
+      days90: 0,
+      days120Plus: 500,
+      currency: 'USD',
+      invoices: [
+        { invoiceId: '1', invoiceNumber: 'INV<1>', invoiceDate: '2026-01-01', dueDate: '2026-02-01', amount: 500, amountPaid: 0, amountOutstanding: 500, daysOverdue: 130 },
+        {
+          invoiceId: '2', invoiceNumber: 'INV&2', invoiceDate: '2026-04-01', dueDate: '2026-05-01', amount: 1000, amountPaid: 0, amountOutstanding: 1000,
+          daysOverdue: 45, disputedAmount: 200, disputeReason: 'pricing',
+        },
+      ],
+    };
+  }
+
+  it('escapes the customer name, invoice numbers and pay link in the body', async () => {
+    const customer = arData();
+    const email = await dunning.generateDunningEmail(
+      customer.customerName, customer, riskScore, await templates.getTemplate('final-demand', 'en'));
+
+    expect(email.template).toEqual({ templateId: 'final-demand.en', version: 1, mode: 'deterministic' });
+    expect(email.body).toContain('Smith &amp; &lt;Jones&gt;');
+    expect(email.body).not.toContain('<Jones>');
+    expect(email.body).toContain('INV&lt;1&gt;');
+    expect(email.body).toContain('INV&amp;2');
+    expect(email.body).toContain('href="https://pay.example.com/?customer=C%261&amp;source=email"');
+  });
+
+  it('lists the overdue invoices only from the final demand on', async () => {
+    const customer = arData();
+    const second = await dunning.generateDunningEmail(
+      customer.customerName, customer, riskScore, await templates.getTemplate('second-notice', 'en'));
+    const preLegal = await dunning.generateDunningEmail(
+      customer.customerName, customer, riskScore, await templates.getTemplate('pre-legal', 'en'));
+
+    expect(second.body).not.toContain('INV&lt;1&gt;</td>');
+    expect(preLegal.body).toContain('INV&lt;1&gt;</td>');
+  });
+});
@@ -0,0 +1,75 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { LocaleService, dunningMessages, formatDate, localeLanguage, supportedLocale } from '../localeService';
+
+let savedDefault: string | undefined;
+
+beforeAll(() => {
+  savedDefault = process.env.DUNNING_DEFAULT_LOCALE;
+  delete process.env.DUNNING_DEFAULT_LOCALE;
+});
+
+afterAll(() => {
+  if (savedDefault === undefined) delete process.env.DUNNING_DEFAULT_LOCALE;
+  else process.env.DUNNING_DEFAULT_LOCALE = savedDefault;
+});
+
+describe('supportedLocale', () => {
+  it('canonicalizes region tags in a supported language', () => {
+    expect(supportedLocale('de-AT')).toBe('de-AT');
+    expect(supportedLocale('de-at')).toBe('de-AT');
+    expect(supportedLocale(' fr_CA ')).toBe('fr-CA');
+    expect(supportedLocale('ES')).toBe('es');
+  });
+
+  it('has nothing for unsupported languages and tags that are not locales', () => {
+    expect(supportedLocale('ja-JP')).toBeUndefined();
+    expect(supportedLocale('not a locale')).toBeUndefined();
+    expect(supportedLocale('')).toBeUndefined();
+    expect(supportedLocale(undefined)).toBeUndefined();
+  });
+});
+
+describe('LocaleService', () => {
+  it('takes the first supported candidate, so a customer setting overrides the contact language', () => {
+    const service = new LocaleService();
+
+    expect(service.resolve('es-MX', 'de-DE')).toBe('es-MX');
+    expect(service.resolve('ja-JP', 'de-at')).toBe('de-AT');
+    expect(service.resolve(undefined, 'fr')).toBe('fr');
+  });
+
+  it('falls back to the default locale, or none, when no candidate is supported', () => {
+    expect(new LocaleService().resolve('ja-JP', undefined)).toBeUndefined();
+    expect(new LocaleService('fr-ch').resolve('ja-JP', undefined)).toBe('fr-CH');
+    expect(new LocaleService('fr-CH').resolve()).toBe('fr-CH');
+  });
+
+  it('reads the default from DUNNING_DEFAULT_LOCALE and rejects an unsupported one', () => {
+    process.env.DUNNING_DEFAULT_LOCALE = 'de-AT';
+    try {
+      expect(new LocaleService().defaultLocale).toBe('de-AT');
+    } finally {
+      delete process.env.DUNNING_DEFAULT_LOCALE;
+    }
+    expect(() => new LocaleService('ja-JP'))
+      .toThrow('Unsupported DUNNING_DEFAULT_LOCALE "ja-JP". Use a locale in en, de, fr, es');
+  });
+});
+
+describe('messages and formats for a locale', () => {
+  it('uses the language of a region tag and English for anything else', () => {
+    expect(localeLanguage('de-AT')).toBe('de');
+    expect(localeLanguage('ja-JP')).toBe('en');
+    expect(localeLanguage()).toBe('en');
+    expect(dunningMessages('de-AT').greeting('Contoso')).toBe('Sehr geehrtes Team von Contoso,');
+    expect(dunningMessages('es-MX').greeting('Contoso')).toBe('Estimado equipo de Contoso:');
+    expect(dunningMessages('ja-JP').greeting('Contoso')).toBe('Dear Contoso,');
+    expect(dunningMessages(undefined)).toBe(dunningMessages('en'));
+  });
+
+  it('formats dates for the region without shifting the day, and as ISO without a locale', () => {
+    expect(formatDate('2026-11-19', 'de-AT')).toBe('19.11.2026');
+    expect(formatDate('2026-11-19T00:00:00Z', 'en-US')).toBe('Nov 19, 2026');
+    expect(formatDate('2026-11-19T15:30:00Z')).toBe('2026-11-19');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it } from '@jest/globals';
+import { PaymentImportService } from '../paymentImportService';
+
+const BAI2 = [
+  '01,BANKID,ACMECORP,260105,0800,1,,,2/',
+  '02,ACMECORP,BANKID,1,260105,0800,USD,2/',
+  '03,123456789,EUR,010,500000,,/',
+  '16,195,1500000,Z,BANKREF-01,CUST-001,Payment for INV-1001 and/',
+  '88,INV-1002/',
+  '16,175,250050,S,100,200,300,BANKREF-02,CUST-002,ACH credit/',
+  '16,475,99900,Z,BANKREF-03,CUST-001,Outgoing check/',
+  '49,1750050,4/',
+  '03,987654321,,010,0,,/',
+  '16,301,10000,V,260104,1200,BANKREF-04,CUST-003,Wire INV-2001/',
+  '49,10000,2/',
+  '98,1760050,2,8/',
+  '99,1760050,1,10/',
+].join('\n');
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Ntry>
+        <NtryRef>ENTRY-1</NtryRef>
+        <Amt Ccy="EUR">1234.50</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2026-01-07</Dt></BookgDt>
+        <AcctSvcrRef>SVC-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Id><OrgId><Othr><Id>CUST-001</Id></Othr></OrgId></Id></Dbtr></RltdPties>
+          <RmtInf>
+            <Ustrd>Invoice INV-1001 &amp; credit</Ustrd>
+            <Strd><RfrdDocInf><Nb>INV-1003</Nb></RfrdDocInf></Strd>
+          </RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <NtryRef>ENTRY-2</NtryRef>
+        <Amt Ccy="EUR">99.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2026-01-07</Dt></BookgDt>
+      </Ntry>
+      <Ntry>
+        <NtryRef>ENTRY-3</NtryRef>
+        <Amt Ccy="GBP">500</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <ValDt><Dt>2026-01-08</Dt></ValDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('PaymentImportService', () => {
+  const service = new PaymentImportService();
+
+  describe('BAI2', () => {
+    const payments = service.parse(BAI2, 'bai2');
+
+    it('reads credit transactions and skips debits', () => {
+      expect(payments.map(p => p.paymentId)).toEqual(['BANKREF-01', 'BANKREF-02', 'BANKREF-04']);
+    });
+
+    it('reads amounts in cents, the group date and the account currency', () => {
+      expect(payments[0]).toMatchObject({
+        customerId: 'CUST-001',
+        amount: 15000,
+        currency: 'EUR',
+        paymentDate: '2026-01-05T00:00:00.000Z',
+        source: 'bai2',
+      });
+      // Without an account currency the group header's applies
+      expect(payments[2]).toMatchObject({ customerId: 'CUST-003', amount: 100, currency: 'USD' });
+    });
+
+    it('skips the availability fields of each funds type', () => {
+      expect(payments[1]).toMatchObject({ customerId: 'CUST-002', amount: 2500.5, reference: 'ACH credit' });
+      expect(payments[2].reference).toBe('Wire INV-2001');
+    });
+
+    it('joins continuation records and takes invoice references from the text', () => {
+      expect(payments[0].reference).toBe('Payment for INV-1001 and,INV-1002');
+      expect(payments[0].remittanceInvoiceIds).toEqual(['INV-1001', 'INV-1002']);
+      expect(payments[2].remittanceInvoiceIds).toEqual(['INV-2001']);
+    });
+  });
+
+  describe('camt.053', () => {
+    const payments = service.parse(CAMT053, 'camt053');
+
+    it('reads credit entries with currency, booking or value date and debtor', () => {
+      expect(payments).toHaveLength(2);
+      expect(payments[0]).toMatchObject({
+        paymentId: 'SVC-1',
+        customerId: 'CUST-001',
+        amount: 1234.5,
+        currency: 'EUR',
+        paymentDate: '2026-01-07T00:00:00.000Z',
+        reference: 'Invoice INV-1001 & credit',
+        source: 'camt053',
+      });
+      expect(payments[1]).toMatchObject({ paymentId: 'ENTRY-3', customerId: '', currency: 'GBP', paymentDate: '2026-01-08T00:00:00.000Z' });
+    });
+
+    it('takes invoice references from structured and unstructured remittance', () => {
+      expect(payments[0].remittanceInvoiceIds).toEqual(['INV-1003', 'INV-1001']);
+    });
+
+    it('skips reversed debits and drops credits returned in the same statement', () => {
+      const entry = (ref: string, amount: string, indicator: string, reversal: boolean, debtor = 'CUST-001') => `
+        <Ntry>
+          <NtryRef>${ref}</NtryRef>
+          <Amt Ccy="EUR">${amount}</Amt>
+          <CdtDbtInd>${indicator}</CdtDbtInd>
+          ${reversal ? '<RvslInd>true</RvslInd>' : ''}
+          <BookgDt><Dt>2026-01-07</Dt></BookgDt>
+          <NtryDtls><TxDtls><RltdPties><Dbtr><Id><OrgId><Othr><Id>${debtor}</Id></Othr></OrgId></Id></Dbtr></RltdPties></TxDtls></NtryDtls>
+        </Ntry>`;
+      const statement = `<Document><BkToCstmrStmt><Stmt>
+        ${entry('PAID-1', '500.00', 'CRDT', false)}
+        ${entry('PAID-2', '500.00', 'CRDT', false, 'CUST-002')}
+        ${entry('RETURN-1', '500.00', 'DBIT', true, 'CUST-002')}
+        ${entry('FEE-REFUND', '25.00', 'CRDT', true)}
+        ${entry('RETURN-OLD', '80.00', 'DBIT', true)}
+      </Stmt></BkToCstmrStmt></Document>`;
+
+      expect(service.parse(statement, 'camt053').map(p => p.paymentId)).toEqual(['PAID-1']);
+    });
+  });
+
+  describe('CSV', () => {
+    it('maps header aliases and gives rows without an ID a stable one', () => {
+      const csv = 'Customer,Amount,Value Date,Memo,Invoices\nCUST-001,"1,250.00",2026-01-09,Paid INV-7,INV-8;INV-9\n';
+      const [first] = service.parse(csv, 'csv');
+      const [again] = service.parse(csv, 'csv');
+
+      expect(first).toMatchObject({
+        customerId: 'CUST-001',
+        amount: 1250,
+        reference: 'Paid INV-7',
+        remittanceInvoiceIds: ['INV-8', 'INV-9', 'INV-7'],
+      });
+      expect(first.paymentId).toMatch(/^[0-9a-f]{16}$/);
+      expect(again.paymentId).toBe(first.paymentId);
+    });
+
+    it('rejects files without an amount column and rows with a bad amount or date', () => {
+      expect(() => service.parse('customer,date\nC1,2026-01-01', 'csv')).toThrow('missing a "amount" column');
+      expect(() => service.parse('customer,amount,date\nC1,abc,2026-01-01', 'csv')).toThrow('row 2: invalid amount');
+      expect(() => service.parse('customer,amount,date\nC1,10,someday', 'csv')).toThrow('Invalid payment date');
+      expect(() => service.parse('customer,amount,date\nC1,"1,23,4",2026-01-01', 'csv')).toThrow('row 2: invalid amount');
+    });
+
+    it('reads the decimal separator from the file\'s amounts', () => {
+      const german = 'customer,amount,date\nC1,"1.234,56",2026-01-01\nC2,"1.000",2026-01-01\nC3,"12,5 €",2026-01-01\n';
+      const english = 'customer,amount,date\nC1,"1,234.56",2026-01-01\nC2,"1,000",2026-01-01\nC3,$12.5,2026-01-01\n';
+
+      expect(service.parse(german, 'csv').map(p => p.amount)).toEqual([1234.56, 1000, 12.5]);
+      expect(service.parse(english, 'csv').map(p => p.amount)).toEqual([1234.56, 1000, 12.5]);
+    });
+
+    it('rejects amounts that read either way and files that mix separators', () => {
+      expect(() => service.parse('customer,amount,date\nC1,"1,234",2026-01-01\nC2,75,2026-01-01', 'csv'))
+        .toThrow('row 2: amount "1,234" could use either decimal separator');
+      expect(() => service.parse('customer,amount,date\nC1,"1.234,56",2026-01-01\nC2,"1,234.56",2026-01-01', 'csv'))
+        .toThrow('mixes decimal separators ("1.234,56" and "1,234.56")');
+    });
+
+    it('uses a configured decimal separator', () => {
+      const comma = new PaymentImportService(undefined, ',');
+      const [amount] = comma.parse('customer,amount,date\nC1,"1,234",2026-01-01', 'csv').map(p => p.amount);
+
+      expect(amount).toBe(1.234);
+      expect(() => comma.parse('customer,amount,date\nC1,"1,234.56",2026-01-01', 'csv')).toThrow('row 2: invalid amount');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { PromiseService, brokenPromiseRate, getPromiseStatus } from '../promiseService';
+import { PaymentRecord, PromiseToPay } from '../../types';
+
+function promise(overrides: Partial<PromiseToPay> = {}): PromiseToPay {
+  return {
+    promiseId: 'P1',
+    customerId: 'C001',
+    date: '2026-03-01T10:00:00Z',
+    promisedAmount: 1000,
+    promisedDate: '2026-03-10',
+    fulfilled: false,
+    status: 'open',
+    amountPaid: 0,
+    ...overrides,
+  };
+}
+
+function payment(paymentId: string, paymentDate: string, amount: number, currency?: string): PaymentRecord {
+  return { paymentId, customerId: 'C001', paymentDate, amount, currency };
+}
+
+describe('PromiseService', () => {
+  const service = new PromiseService(3, 0.01);
+  let reportingCurrency: string | undefined;
+
+  beforeEach(() => {
+    reportingCurrency = process.env.REPORTING_CURRENCY;
+    process.env.REPORTING_CURRENCY = 'USD';
+  });
+
+  afterEach(() => {
+    if (reportingCurrency === undefined) delete process.env.REPORTING_CURRENCY;
+    else process.env.REPORTING_CURRENCY = reportingCurrency;
+  });
+
+  describe('createPromise', () => {
+    it('creates an open promise in the given currency', () => {
+      const created = service.createPromise('C001', 250, '2026-04-01', 'phone', 'ana', undefined, 'eur');
+      expect(created).toMatchObject({ status: 'open', promisedAmount: 250, currency: 'EUR', channel: 'phone', amountPaid: 0 });
+      expect(created.promiseId).toBeDefined();
+    });
+
+    it('rejects amounts that are not positive and dates that do not parse', () => {
+      expect(() => service.createPromise('C001', 0, '2026-04-01')).toThrow('positive number');
+      expect(() => service.createPromise('C001', -5, '2026-04-01')).toThrow('positive number');
+      expect(() => service.createPromise('C001', Number.NaN, '2026-04-01')).toThrow('positive number');
+      expect(() => service.createPromise('C001', 100, 'next friday')).toThrow('not a valid date');
+    });
+  });
+
+  describe('reconcile', () => {
+    it('marks a promise paid in full within its window as kept', () => {
+      const [kept] = service.reconcile([promise()], [payment('PAY1', '2026-03-09', 1000)], new Date('2026-03-05'));
+      expect(kept).toMatchObject({ status: 'kept', fulfilled: true, amountPaid: 1000, actualPaymentDate: '2026-03-09' });
+    });
+
+    it('counts a payment within the grace period and a shortfall within tolerance', () => {
+      const [kept] = service.reconcile([promise()], [payment('PAY1', '2026-03-13', 995)], new Date('2026-03-20'));
+      expect(kept.status).toBe('kept');
+    });
+
+    it('keeps a promise open until its window closes, then partially kept or broken', () => {
+      const partial = [payment('PAY1', '2026-03-05', 400)];
+      expect(service.reconcile([promise()], partial, new Date('2026-03-12'))[0].status).toBe('open');
+      expect(service.reconcile([promise()], partial, new Date('2026-03-14'))[0])
+        .toMatchObject({ status: 'partially-kept', amountPaid: 400 });
+      expect(service.reconcile([promise()], [], new Date('2026-03-14'))[0].status).toBe('broken');
+    });
+
+    it('ignores payments before the promise was made or after the grace period', () => {
+      const payments = [payment('PAY1', '2026-02-27', 1000), payment('PAY2', '2026-03-15', 1000)];
+      expect(service.reconcile([promise()], payments, new Date('2026-03-20'))[0].status).toBe('broken');
+    });
+
+    it('allocates each payment only once across promises', () => {
+      const promises = [
+        promise({ promiseId: 'P2', promisedDate: '2026-03-20' }),
+        promise({ promiseId: 'P1', promisedDate: '2026-03-10' }),
+      ];
+      const reconciled = service.reconcile(promises, [payment('PAY1', '2026-03-08', 1500)], new Date('2026-04-01'));
+
+      expect(reconciled.map(p => [p.promiseId, p.status, p.amountPaid])).toEqual([
+        ['P1', 'kept', 1000],
+        ['P2', 'partially-kept', 500],
+      ]);
+    });
+
+    it('only counts payments in the promise currency', () => {
+      const payments = [payment('PAY1', '2026-03-05', 1000, 'USD'), payment('PAY2', '2026-03-06', 600, 'eur')];
+      const [eur] = service.reconcile([promise({ currency: 'EUR' })], payments, new Date('2026-04-01'));
+      expect(eur).toMatchObject({ status: 'partially-kept', amountPaid: 600 });
+
+      // A promise without a currency is in the reporting currency, as is a payment without one
+      const [usd] = service.reconcile([promise()], [payment('PAY3', '2026-03-05', 1000)], new Date('2026-04-01'));
+      expect(usd.status).toBe('kept');
+    });
+
+    it('does not modify the promises given', () => {
+      const original = promise();
+      service.reconcile([original], [payment('PAY1', '2026-03-05', 1000)], new Date('2026-03-05'));
+      expect(original.status).toBe('open');
+    });
+  });
+
+  describe('getPromiseStatus and brokenPromiseRate', () => {
+    const asOf = new Date('2026-04-01');
+
+    it('derives a status for promises that only carry fulfilled', () => {
+      expect(getPromiseStatus({ date: '2026-01-01', promisedAmount: 1, promisedDate: '2026-02-01', fulfilled: true }, asOf)).toBe('kept');
+      expect(getPromiseStatus({ date: '2026-01-01', promisedAmount: 1, promisedDate: '2026-02-01', fulfilled: false }, asOf)).toBe('broken');
+      expect(getPromiseStatus({ date: '2026-01-01', promisedAmount: 1, promisedDate: '2026-05-01', fulfilled: false }, asOf)).toBe('open');
+    });
+
+    it('weights partially kept promises by the unpaid share and leaves open ones out', () => {
+      const rate = brokenPromiseRate([
+        promise({ status: 'kept' }),
+        promise({ status: 'broken' }),
+        promise({ status: 'partially-kept', amountPaid: 250 }),
+        promise({ status: 'open' }),
+      ], asOf);
+      expect(rate).toBeCloseTo((0 + 1 + 0.75) / 3);
+    });
+  });
+});
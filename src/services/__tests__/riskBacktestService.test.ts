@@ -0,0 +1,118 @@
+import { describe, expect, it } from '@jest/globals';
+import { RiskBacktestService } from '../riskBacktestService';
+import { RiskScoringService } from '../riskScoringService';
+import { ARAgingData, PaymentHistory, RiskBacktestSnapshot, RiskScore } from '../../types';
+
+const THRESHOLDS = { high: 0.7, medium: 0.4 };
+
+/** Scores each snapshot with the score given for its customer. */
+function scoring(scores: Record<string, number>): RiskScoringService {
+  const scoreRisk = (arData: ARAgingData): RiskScore => {
+    const score = scores[arData.customerId];
+    const riskLevel = score >= THRESHOLDS.high ? 'high' : score >= THRESHOLDS.medium ? 'medium' : 'low';
+    return { customerId: arData.customerId, score, riskLevel, factors: [], recommendation: '' };
+  };
+  return { scoreRisk, getRiskThresholds: () => THRESHOLDS } as unknown as RiskScoringService;
+}
+
+function snapshot(customerId: string, daysToPay: number | null, totalOutstanding = 1000): RiskBacktestSnapshot {
+  return {
+    asOfDate: '2026-06-30',
+    arData: {
+      customerId, customerName: customerId, totalOutstanding,
+      current: totalOutstanding, days30: 0, days60: 0, days90: 0, days120Plus: 0, invoices: [],
+    },
+    paymentHistory: {
+      customerId, averagePaymentDays: 30, onTimePaymentRate: 1, totalTransactions: 0, lastPaymentDate: '2026-06-01', promiseToPayHistory: [],
+    } as PaymentHistory,
+    daysToPay,
+  };
+}
+
+/**
+ * Unpaid within 30 days: U1–U4 scoring 0.9, 0.8, 0.7 and 0.3.
+ * Paid: P1–P4 scoring 0.7 (tied with U3), 0.5, 0.2 and 0.1.
+ */
+const SCORES = { U1: 0.9, U2: 0.8, U3: 0.7, U4: 0.3, P1: 0.7, P2: 0.5, P3: 0.2, P4: 0.1, EMPTY: 0.99 };
+const SNAPSHOTS = [
+  snapshot('U1', null), snapshot('U2', 45), snapshot('U3', null), snapshot('U4', 31),
+  snapshot('P1', 30), snapshot('P2', 5), snapshot('P3', 0), snapshot('P4', 12),
+  snapshot('EMPTY', null, 0),
+];
+
+describe('RiskBacktestService', () => {
+  const report = new RiskBacktestService(scoring(SCORES)).run(SNAPSHOTS, 30);
+
+  it('counts snapshots paid after the horizon or never as unpaid and skips those without a balance', () => {
+    expect(report).toMatchObject({ model: 'heuristic', horizonDays: 30, snapshots: 8, skipped: 1, unpaidRate: 0.5 });
+  });
+
+  it('computes AUC from ranks, counting a tie between an unpaid and a paid snapshot as half', () => {
+    // Pairs won by the unpaid snapshot: U1 4, U2 4, U3 3.5 (tie with P1), U4 2 → 13.5 of 16
+    expect(report.auc).toBe(0.8438);
+  });
+
+  it('bins scores by tenths with the observed unpaid rate and computes the Brier score', () => {
+    expect(report.calibration).toEqual([
+      { fromScore: 0.1, toScore: 0.2, count: 1, meanScore: 0.1, observedRate: 0 },
+      { fromScore: 0.2, toScore: 0.3, count: 1, meanScore: 0.2, observedRate: 0 },
+      { fromScore: 0.3, toScore: 0.4, count: 1, meanScore: 0.3, observedRate: 1 },
+      { fromScore: 0.5, toScore: 0.6, count: 1, meanScore: 0.5, observedRate: 0 },
+      { fromScore: 0.7, toScore: 0.8, count: 2, meanScore: 0.7, observedRate: 0.5 },
+      { fromScore: 0.8, toScore: 0.9, count: 1, meanScore: 0.8, observedRate: 1 },
+      { fromScore: 0.9, toScore: 1, count: 1, meanScore: 0.9, observedRate: 1 },
+    ]);
+    // (0.01 + 0.04 + 0.09 + 0.49 + 0.49 + 0.25 + 0.04 + 0.01) / 8
+    expect(report.brierScore).toBe(0.1775);
+  });
+
+  it('flags scores at or above each threshold in the confusion matrices', () => {
+    expect(report.thresholds).toHaveLength(19);
+    expect(report.thresholds.find(t => t.threshold === 0.25)).toEqual({
+      threshold: 0.25,
+      truePositives: 4, falsePositives: 2, trueNegatives: 2, falseNegatives: 0,
+      precision: 0.6667, recall: 1, falsePositiveRate: 0.5, f1: 0.8,
+    });
+    expect(report.current.high).toEqual({
+      threshold: 0.7,
+      truePositives: 3, falsePositives: 1, trueNegatives: 3, falseNegatives: 1,
+      precision: 0.75, recall: 0.75, falsePositiveRate: 0.25, f1: 0.75,
+    });
+    expect(report.thresholds[18]).toMatchObject({ threshold: 0.95, truePositives: 0, falsePositives: 0, precision: 0, f1: 0 });
+  });
+
+  it('reports the unpaid rate per risk level at the current thresholds', () => {
+    expect(report.riskLevels).toEqual([
+      { riskLevel: 'high', count: 4, unpaidRate: 0.75 },
+      { riskLevel: 'medium', count: 1, unpaidRate: 0 },
+      { riskLevel: 'low', count: 3, unpaidRate: 0.3333 },
+    ]);
+  });
+
+  it('recommends the first threshold with the best recall minus false positive rate, and medium below it', () => {
+    // recall − FP rate is 0.5 at 0.25, 0.55–0.7 and 0.75–0.8; the lowest of them wins
+    expect(report.recommended).toMatchObject({ high: 0.25, medium: 0.2 });
+    expect(report.recommended.rationale).toContain('flags 100.0% of unpaid and 50.0% of paid accounts');
+  });
+
+  it('has no AUC and keeps the current thresholds when every snapshot had the same outcome', () => {
+    const allPaid = new RiskBacktestService(scoring({ A: 1, B: 0.95, C: 0.05 }))
+      .run([snapshot('A', 3), snapshot('B', 10), snapshot('C', 30)], 30);
+
+    expect(allPaid.auc).toBeNull();
+    expect(allPaid.unpaidRate).toBe(0);
+    expect(allPaid.recommended).toEqual({
+      ...THRESHOLDS,
+      rationale: 'Snapshots must include both paid and unpaid outcomes; keeping the current thresholds',
+    });
+    expect(allPaid.calibration).toEqual([
+      { fromScore: 0, toScore: 0.1, count: 1, meanScore: 0.05, observedRate: 0 },
+      { fromScore: 0.9, toScore: 1, count: 2, meanScore: 0.975, observedRate: 0 },
+    ]);
+  });
+
+  it('refuses to backtest without a snapshot that has a balance', () => {
+    expect(() => new RiskBacktestService(scoring(SCORES)).run([snapshot('EMPTY', null, 0)]))
+      .toThrow('No snapshots with an outstanding balance to backtest');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from '@jest/globals';
+import { getRiskFactorPlugins, registerRiskFactor, resolveRiskFactors } from '../riskFactors';
+import { ARAgingData, Invoice, PaymentHistory } from '../../types';
+
+function invoice(invoiceId: string, disputedAmount?: number): Invoice {
+  return {
+    invoiceId,
+    invoiceDate: '2026-01-01',
+    dueDate: '2026-01-31',
+    amount: 1000,
+    amountPaid: 0,
+    amountOutstanding: 1000,
+    daysOverdue: 30,
+    disputedAmount,
+  };
+}
+
+function arData(invoices: Invoice[]): ARAgingData {
+  return {
+    customerId: 'C001',
+    customerName: 'Contoso',
+    totalOutstanding: invoices.length * 1000,
+    current: 0,
+    days30: invoices.length * 1000,
+    days60: 0,
+    days90: 0,
+    days120Plus: 0,
+    invoices,
+  };
+}
+
+const paymentHistory: PaymentHistory = {
+  customerId: 'C001',
+  averagePaymentDays: 30,
+  onTimePaymentRate: 1,
+  totalTransactions: 0,
+  lastPaymentDate: '2026-01-01',
+  promiseToPayHistory: [],
+};
+
+const asOf = new Date('2026-03-01');
+
+describe('risk factors', () => {
+  const plugin = (name: string) => {
+    const found = getRiskFactorPlugins().find(p => p.name === name);
+    if (!found) throw new Error(`${name} is not registered`);
+    return found;
+  };
+
+  describe('disputeCount', () => {
+    const disputes = plugin('disputeCount');
+
+    it('scores open invoices under dispute against fullRiskAt', () => {
+      const data = arData([invoice('A', 200), invoice('B'), invoice('C', 1000), invoice('D', 0.001)]);
+      expect(disputes.evaluate({ arData: data, paymentHistory, asOf }, {}))
+        .toEqual({ score: 2 / 3, description: '2 of 4 open invoices under dispute' });
+      expect(disputes.evaluate({ arData: data, paymentHistory, asOf }, { fullRiskAt: 1 })?.score).toBe(1);
+    });
+
+    it('scores zero without disputes and drops out without open invoices', () => {
+      expect(disputes.evaluate({ arData: arData([invoice('A')]), paymentHistory, asOf }, {}))
+        .toEqual({ score: 0, description: 'No open invoices under dispute' });
+      expect(disputes.evaluate({ arData: arData([]), paymentHistory, asOf }, {})).toBeUndefined();
+    });
+  });
+
+  describe('resolveRiskFactors', () => {
+    it('scales weights to sum to 1 and leaves out factors without weight', () => {
+      const factors = resolveRiskFactors([
+        { name: 'aging', weight: 2 },
+        { name: 'disputeCount', weight: 2, label: 'Open Disputes' },
+        { name: 'industry', weight: 0 },
+      ]);
+      expect(factors.map(f => [f.plugin.name, f.label, f.weight])).toEqual([
+        ['aging', 'Aged Receivables', 0.5],
+        ['disputeCount', 'Open Disputes', 0.5],
+      ]);
+    });
+
+    it('rejects unknown, duplicate and negative factors', () => {
+      expect(() => resolveRiskFactors([{ name: 'orderVolume', weight: 1 }])).toThrow('Unknown risk factor "orderVolume"');
+      expect(() => resolveRiskFactors([{ name: 'aging', weight: 1 }, { name: 'aging', weight: 1 }]))
+        .toThrow('configured twice');
+      expect(() => resolveRiskFactors([{ name: 'aging', weight: -1 }])).toThrow('weight must be zero or more');
+      expect(() => resolveRiskFactors([{ name: 'aging', weight: 0 }])).toThrow('At least one risk factor');
+    });
+
+    it('accepts registered plugins', () => {
+      registerRiskFactor({ name: 'orderVolume', label: 'Order Volume Decline', evaluate: () => ({ score: 0.4, description: 'Orders down 40%' }) });
+      expect(resolveRiskFactors([{ name: 'orderVolume', weight: 1 }])[0].plugin.label).toBe('Order Volume Decline');
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, expect, it } from '@jest/globals';
+import { RiskHistoryService, riskScoreRecordId } from '../riskHistoryService';
+import { ARAgingData, PaymentHistory, RiskFactor, RiskScore, RiskScoreRecord } from '../../types';
+
+function factors(aging: number, paymentHistory: number): RiskFactor[] {
+  return [
+    { name: 'aging', factor: 'Aging', impact: aging, weight: 0.5, description: `aging ${aging}` },
+    { name: 'paymentHistory', factor: 'Payment history', impact: paymentHistory, weight: 0.3, description: `history ${paymentHistory}` },
+  ];
+}
+
+function score(value: number, riskLevel: RiskScore['riskLevel'] = 'medium', scoreFactors = factors(0.5, 0.5)): RiskScore {
+  return { customerId: 'C001', score: value, riskLevel, factors: scoreFactors, recommendation: '' };
+}
+
+function record(scoredAt: string, value: number, scoreFactors?: RiskFactor[]): RiskScoreRecord {
+  return {
+    customerId: 'C001',
+    scoredAt,
+    riskScore: score(value, 'medium', scoreFactors),
+    inputs: { totalOutstanding: 1000, overdue: 500, openInvoices: 2, onTimePaymentRate: 0.8, averagePaymentDays: 35 },
+  };
+}
+
+describe('RiskHistoryService.buildTrend', () => {
+  const service = new RiskHistoryService(90, 400);
+
+  it('has no trend without records or with a single score', () => {
+    expect(service.buildTrend('C001', [])).toEqual({
+      customerId: 'C001', trend: 'insufficient-data', change: null, changeVsLastWeek: null, drivers: [], history: [],
+    });
+
+    const single = service.buildTrend('C001', [record('2026-10-19T10:00:00Z', 0.4)]);
+    expect(single).toMatchObject({ trend: 'insufficient-data', change: null, changeVsLastWeek: null });
+    expect(single.current?.score).toBe(0.4);
+  });
+
+  it('compares with the latest score at least a week older, in any record order', () => {
+    const trend = service.buildTrend('C001', [
+      record('2026-10-19T10:00:00Z', 0.62),
+      record('2026-10-01T10:00:00Z', 0.3),
+      record('2026-10-12T09:00:00Z', 0.45),
+      record('2026-10-15T10:00:00Z', 0.5),
+    ]);
+
+    expect(trend.baseline?.scoredAt).toBe('2026-10-12T09:00:00Z');
+    expect(trend).toMatchObject({ trend: 'worsening', change: 0.17, changeVsLastWeek: 0.17 });
+  });
+
+  it('falls back to the oldest score before a week of history and calls small changes stable', () => {
+    const improving = service.buildTrend('C001', [record('2026-10-15T10:00:00Z', 0.6), record('2026-10-19T10:00:00Z', 0.5)]);
+    const stable = service.buildTrend('C001', [record('2026-10-15T10:00:00Z', 0.5), record('2026-10-19T10:00:00Z', 0.515)]);
+
+    expect(improving).toMatchObject({ trend: 'improving', change: -0.1, changeVsLastWeek: null });
+    expect(improving.baseline?.scoredAt).toBe('2026-10-15T10:00:00Z');
+    expect(stable).toMatchObject({ trend: 'stable', change: 0.015 });
+  });
+
+  it('lists the factors whose weighted contribution changed, biggest first', () => {
+    const trend = service.buildTrend('C001', [
+      record('2026-10-01T10:00:00Z', 0.4, factors(0.4, 0.5)),
+      record('2026-10-19T10:00:00Z', 0.55, [
+        ...factors(0.5, 0.1),
+        { name: 'disputes', factor: 'Disputes', impact: 1, description: 'new factor' },
+      ]),
+    ]);
+
+    expect(trend.drivers).toEqual([
+      {
+        factor: 'Payment history',
+        previousImpact: 0.5,
+        currentImpact: 0.1,
+        contributionChange: -0.12,
+        description: 'Lowered risk — was: history 0.5; now: history 0.1',
+      },
+      {
+        factor: 'Aging',
+        previousImpact: 0.4,
+        currentImpact: 0.5,
+        contributionChange: 0.05,
+        description: 'Raised risk — was: aging 0.4; now: aging 0.5',
+      },
+    ]);
+  });
+
+  it('returns the last score of each day within the window', () => {
+    const trend = service.buildTrend('C001', [
+      record('2026-07-01T10:00:00Z', 0.2),
+      record('2026-10-18T08:00:00Z', 0.3),
+      record('2026-10-18T20:00:00Z', 0.35),
+      record('2026-10-19T10:00:00Z', 0.4),
+    ], 30);
+
+    expect(trend.history.map(p => [p.scoredAt, p.score])).toEqual([
+      ['2026-10-18T20:00:00Z', 0.35],
+      ['2026-10-19T10:00:00Z', 0.4],
+    ]);
+    expect(trend.baseline?.scoredAt).toBe('2026-07-01T10:00:00Z');
+  });
+});
+
+describe('RiskHistoryService records', () => {
+  const service = new RiskHistoryService(90, 30);
+
+  it('keeps a summary of the aging and payment history, under one ID per customer and day', () => {
+    const arData = {
+      customerId: 'C001', customerName: 'Contoso', totalOutstanding: 1800,
+      current: 800, days30: 500, days60: 0, days90: 300, days120Plus: 200,
+      invoices: [{}, {}, {}],
+    } as ARAgingData;
+    const paymentHistory = { onTimePaymentRate: 0.75, averagePaymentDays: 41 } as PaymentHistory;
+    const saved = service.toRecord(score(0.5), arData, paymentHistory, new Date('2026-10-19T22:30:00Z'));
+
+    expect(saved).toEqual({
+      customerId: 'C001',
+      scoredAt: '2026-10-19T22:30:00.000Z',
+      riskScore: score(0.5),
+      inputs: { totalOutstanding: 1800, overdue: 1000, openInvoices: 3, onTimePaymentRate: 0.75, averagePaymentDays: 41 },
+    });
+    expect(riskScoreRecordId(saved.customerId, saved.scoredAt)).toBe('C001:2026-10-19');
+  });
+
+  it('rewrites the day\'s record only when the score or risk level changes', () => {
+    const recorded = record('2026-10-19T10:00:00Z', 0.5);
+
+    expect(service.hasChanged(undefined, score(0.5))).toBe(true);
+    expect(service.hasChanged(recorded, score(0.50001))).toBe(false);
+    expect(service.hasChanged(recorded, score(0.51))).toBe(true);
+    expect(service.hasChanged(recorded, score(0.5, 'high'))).toBe(true);
+  });
+
+  it('expires records older than the retention period', () => {
+    const records = [record('2026-09-18T10:00:00Z', 0.1), record('2026-09-20T10:00:00Z', 0.2), record('2026-10-19T10:00:00Z', 0.3)];
+
+    expect(service.expired(records, new Date('2026-10-19T12:00:00Z')).map(r => r.scoredAt)).toEqual(['2026-09-18T10:00:00Z']);
+  });
+});
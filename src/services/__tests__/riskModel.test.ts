@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { LogisticRiskModel, RISK_FEATURES, loadRiskModel, loadTrainingExamples } from '../riskModel';
+import { RiskTrainingExample } from '../../types';
+
+/** Feature values with every feature at a neutral value, overridden by `values`. */
+function features(values: Record<string, number> = {}): Record<string, number> {
+  const base: Record<string, number> = {};
+  for (const { name } of RISK_FEATURES) base[name] = 0;
+  return { ...base, ...values };
+}
+
+/**
+ * 40 examples that are paid within 30 days exactly when less than half the
+ * balance is overdue; the other features vary but say nothing about payment.
+ */
+function separable(): RiskTrainingExample[] {
+  return Array.from({ length: 40 }, (_, i) => {
+    const overdueShare = (i + 0.5) / 40;
+    return {
+      features: features({ overdueShare, averagePaymentDays: 20 + (i * 7) % 30, logBalance: 3 + (i % 3) }),
+      daysToPay: overdueShare < 0.5 ? 10 + (i % 15) : null,
+    };
+  });
+}
+
+function logit(p: number): number {
+  return Math.log(p / (1 - p));
+}
+
+describe('LogisticRiskModel', () => {
+  const model = LogisticRiskModel.train(separable());
+
+  it('separates separable data, leaning on the feature that decides it', () => {
+    const overdue = model.parameters.features.find(f => f.name === 'overdueShare');
+    const others = model.parameters.features.filter(f => f.name !== 'overdueShare');
+
+    expect(model.parameters.metrics).toMatchObject({ accuracy: 1, positiveRate: 0.5 });
+    expect(model.parameters.metrics.logLoss).toBeLessThan(0.2);
+    expect(overdue?.coefficient).toBeLessThan(0);
+    others.forEach(f => expect(Math.abs(f.coefficient)).toBeLessThan(Math.abs(overdue?.coefficient ?? 0)));
+    expect(model.parameters).toMatchObject({ type: 'logistic-regression', horizonDays: 30, trainingExamples: 40 });
+  });
+
+  it('predicts a probability within [0, 1], even for extreme features', () => {
+    const inputs = [
+      features({ overdueShare: 0.1 }),
+      features({ overdueShare: 0.9 }),
+      features({ overdueShare: 1e6, logBalance: -1e6 }),
+      features({ overdueShare: -1e6, averagePaymentDays: 1e9 }),
+      {},
+    ];
+
+    for (const input of inputs) {
+      const p = model.predict(input);
+      expect(p).toBeGreaterThanOrEqual(0);
+      expect(p).toBeLessThanOrEqual(1);
+    }
+    expect(model.predict(features({ overdueShare: 0.1 }))).toBeGreaterThan(0.9);
+    expect(model.predict(features({ overdueShare: 0.9 }))).toBeLessThan(0.1);
+  });
+
+  it('explains a prediction with contributions that add up to its log-odds', () => {
+    const input = features({ overdueShare: 0.3, averagePaymentDays: 45, logBalance: 4 });
+    const contributions = model.explain(input);
+    const total = contributions.reduce((sum, c) => sum + c.contribution, 0);
+
+    expect(model.parameters.intercept + total).toBeCloseTo(logit(model.predict(input)), 6);
+    expect(contributions.map(c => c.name).sort()).toEqual(RISK_FEATURES.map(f => f.name).sort());
+    expect(contributions[0]).toMatchObject({ name: 'overdueShare', label: 'Overdue Balance', description: '30% of the balance is past due' });
+    const sizes = contributions.map(c => Math.abs(c.contribution));
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+  });
+
+  it('gives a missing feature the training mean, which contributes nothing', () => {
+    const contributions = model.explain({ overdueShare: 0.3 });
+
+    contributions.filter(c => c.name !== 'overdueShare').forEach(c => expect(c.contribution).toBeCloseTo(0, 12));
+  });
+
+  it('needs 20 examples with both outcomes', () => {
+    expect(() => LogisticRiskModel.train(separable().slice(0, 19))).toThrow('At least 20 training examples are needed (got 19)');
+    expect(() => LogisticRiskModel.train(separable().map(e => ({ ...e, daysToPay: 5 }))))
+      .toThrow('both paid and not paid within 30 days');
+    expect(() => LogisticRiskModel.train(separable(), { horizonDays: 5 }))
+      .toThrow('both paid and not paid within 5 days');
+  });
+});
+
+describe('loading training examples and models', () => {
+  let directory: string;
+  const header = ['customerId', ...RISK_FEATURES.map(f => f.name), 'daysToPay'];
+
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'risk-model-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function write(name: string, content: string): Promise<string> {
+    const file = path.join(directory, name);
+    await fs.writeFile(file, content);
+    return file;
+  }
+
+  it('reads CSV rows with a blank daysToPay as never paid', async () => {
+    const values = RISK_FEATURES.map((_, i) => String(i / 10));
+    const file = await write('examples.csv', [
+      header.join(','),
+      ['C001', ...values, '12'].join(','),
+      ['C002', ...values, ''].join(','),
+    ].join('\n'));
+
+    const examples = loadTrainingExamples(file);
+
+    expect(examples.map(e => [e.customerId, e.daysToPay])).toEqual([['C001', 12], ['C002', null]]);
+    expect(examples[0].features[RISK_FEATURES[1].name]).toBe(0.1);
+  });
+
+  it('reads JSON rows with the features nested or inline', async () => {
+    const file = await write('examples.json', JSON.stringify([
+      { invoiceId: 'I1', asOfDate: '2026-01-31', features: features({ lateRate: 0.25 }), daysToPay: 40 },
+      { ...features({ lateRate: '0.5' as unknown as number }), daysToPay: null },
+    ]));
+
+    const [nested, inline] = loadTrainingExamples(file);
+
+    expect(nested).toMatchObject({ invoiceId: 'I1', asOfDate: '2026-01-31', daysToPay: 40 });
+    expect(nested.features.lateRate).toBe(0.25);
+    expect(inline).toMatchObject({ customerId: undefined, daysToPay: null });
+    expect(inline.features.lateRate).toBe(0.5);
+  });
+
+  it('rejects malformed training files, naming the row', async () => {
+    const missing = { ...features(), daysToPay: 3 } as Record<string, unknown>;
+    delete missing.brokenPromiseRate;
+
+    const notArray = await write('object.json', JSON.stringify({ examples: [] }));
+    const missingFeature = await write('missing.json', JSON.stringify([{ ...features(), daysToPay: 3 }, missing]));
+    const badFeature = await write('bad-feature.json', JSON.stringify([{ ...features(), lateRate: 'high', daysToPay: 3 }]));
+    const badDays = await write('bad-days.json', JSON.stringify([{ ...features(), daysToPay: 'soon' }]));
+    const notJson = await write('broken.json', '[{ "daysToPay": ');
+
+    expect(() => loadTrainingExamples(notArray)).toThrow('must contain a JSON array of training examples');
+    expect(() => loadTrainingExamples(missingFeature)).toThrow(`${missingFeature} row 2: missing or invalid brokenPromiseRate`);
+    expect(() => loadTrainingExamples(badFeature)).toThrow('row 1: missing or invalid lateRate');
+    expect(() => loadTrainingExamples(badDays)).toThrow('row 1: invalid daysToPay "soon"');
+    expect(() => loadTrainingExamples(notJson)).toThrow(SyntaxError);
+  });
+
+  it('loads a saved model and rejects one with unknown features', async () => {
+    const model = LogisticRiskModel.train(separable());
+    const saved = await write('model.json', JSON.stringify(model.parameters));
+    const unknown = await write('unknown.json', JSON.stringify({
+      ...model.parameters,
+      features: [...model.parameters.features, { name: 'creditScore', mean: 0, std: 1, coefficient: 1 }],
+    }));
+
+    expect(loadRiskModel(saved)?.parameters).toEqual(model.parameters);
+    expect(loadRiskModel(path.join(directory, 'absent.json'))).toBeUndefined();
+    expect(() => loadRiskModel(unknown)).toThrow('unknown feature "creditScore"');
+  });
+});
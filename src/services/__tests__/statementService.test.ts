@@ -0,0 +1,153 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { StatementService } from '../statementService';
+import { ARAgingData, Invoice } from '../../types';
+
+const AS_OF = new Date('2026-10-19T12:00:00Z');
+let saved: string | undefined;
+
+beforeAll(() => {
+  saved = process.env.REPORTING_CURRENCY;
+  process.env.REPORTING_CURRENCY = 'USD';
+});
+
+afterAll(() => {
+  if (saved === undefined) delete process.env.REPORTING_CURRENCY;
+  else process.env.REPORTING_CURRENCY = saved;
+});
+
+function invoice(invoiceNumber: string, dueDate: string, amountOutstanding: number, extra: Partial<Invoice> = {}): Invoice {
+  return {
+    invoiceId: `id-${invoiceNumber}`,
+    invoiceNumber,
+    invoiceDate: '2026-06-01',
+    dueDate,
+    amount: amountOutstanding,
+    amountPaid: 0,
+    amountOutstanding,
+    daysOverdue: 30,
+    ...extra,
+  };
+}
+
+function arData(invoices: Invoice[]): ARAgingData {
+  return {
+    customerId: 'C/001',
+    customerName: 'Müller GmbH',
+    totalOutstanding: 0,
+    current: 0,
+    days30: 0,
+    days60: 0,
+    days90: 0,
+    days120Plus: 0,
+    invoices,
+    currency: 'usd',
+  };
+}
+
+/** The PDF as Latin-1 text, one character per byte. */
+function pdfText(pdf: Buffer): string {
+  return pdf.toString('latin1');
+}
+
+describe('StatementService.buildStatement', () => {
+  const service = new StatementService(true);
+
+  it('lists open invoices oldest due date first and totals them per currency', () => {
+    const statement = service.buildStatement(arData([
+      invoice('INV-3', '2026-09-01', 300.1),
+      invoice('INV-1', '2026-07-01', 100.2, { currency: 'eur' }),
+      invoice('INV-2', '2026-08-01', 0.001),
+      invoice('INV-4', '2026-08-15', 2000, { amount: 2500, amountPaid: 500 }),
+      invoice('INV-5', '2026-10-01', 50.1, { currency: 'EUR' }),
+    ]), 'de-DE', AS_OF);
+
+    expect(statement).toMatchObject({ customerId: 'C/001', customerName: 'Müller GmbH', statementDate: '2026-10-19', locale: 'de-DE' });
+    expect(statement.lines.map(l => [l.invoiceNumber, l.currency, l.amount, l.amountOutstanding])).toEqual([
+      ['INV-1', 'EUR', 100.2, 100.2],
+      ['INV-4', 'USD', 2500, 2000],
+      ['INV-3', 'USD', 300.1, 300.1],
+      ['INV-5', 'EUR', 50.1, 50.1],
+    ]);
+    expect(statement.totals).toEqual([
+      { currency: 'USD', totalOutstanding: 2300.1, disputedAmount: 0, amountDue: 2300.1 },
+      { currency: 'EUR', totalOutstanding: 150.3, disputedAmount: 0, amountDue: 150.3 },
+    ]);
+  });
+
+  it('keeps disputed amounts on the lines and out of the amount due, capped at what is outstanding', () => {
+    const statement = service.buildStatement(arData([
+      invoice('INV-1', '2026-07-01', 1000, { disputedAmount: 400 }),
+      invoice('INV-2', '2026-08-01', 300, { disputedAmount: 900 }),
+      invoice('INV-3', '2026-09-01', 200, { disputedAmount: 0 }),
+    ]), undefined, AS_OF);
+
+    expect(statement.lines.map(l => l.disputedAmount)).toEqual([400, 300, undefined]);
+    expect(statement.totals).toEqual([{ currency: 'USD', totalOutstanding: 1500, disputedAmount: 700, amountDue: 800 }]);
+  });
+});
+
+describe('StatementService.renderPdf', () => {
+  const service = new StatementService(true);
+
+  it('renders the statement in the customer\'s language with a note on disputed invoices', () => {
+    const statement = service.buildStatement(arData([
+      invoice('INV-1', '2026-07-01', 1234.5, { currency: 'EUR', disputedAmount: 234.5 }),
+    ]), 'de-DE', AS_OF);
+    const text = pdfText(service.renderPdf(statement));
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text).toContain('/Count 1');
+    expect(text).toContain('(Kontoauszug)');
+    expect(text).toContain('(M\xfcller GmbH)');
+    expect(text).toContain('(19.10.2026)');
+    expect(text).toContain('(INV-1 *)');
+    expect(text).toContain('(F\xe4lliger Betrag)');
+    expect(text).toContain('(1.000,00\xa0\x80)');
+    expect(text).toContain('(* Ganz oder teilweise strittig.');
+  });
+
+  it('continues a long invoice table on further pages with the header repeated', () => {
+    const invoices = Array.from({ length: 120 }, (_, i) =>
+      invoice(`INV-${String(i + 1).padStart(3, '0')}`, `2026-0${1 + (i % 9)}-15`, 100));
+    const text = pdfText(service.renderPdf(service.buildStatement(arData(invoices), 'en-US', AS_OF)));
+    const pages = Number(text.match(/\/Count (\d+)/)?.[1]);
+
+    expect(pages).toBeGreaterThan(2);
+    expect(text.match(/\(Due date\)/g)).toHaveLength(pages);
+    expect(text).toContain('(INV-120)');
+    expect(text).toContain('($12,000.00)');
+    expect(text).not.toContain('strittig');
+  });
+
+  it('shortens an invoice number too wide for its column', () => {
+    const statement = service.buildStatement(
+      arData([invoice('INVOICE-2026-000000000123456789', '2026-07-01', 10)]), undefined, AS_OF);
+
+    expect(pdfText(service.renderPdf(statement))).toMatch(/\(INVOICE-2026-0+\x85\)/);
+  });
+});
+
+describe('StatementService.toAttachment', () => {
+  it('names the PDF in the customer\'s language with a file-safe customer ID', () => {
+    const service = new StatementService(true);
+    const statement = service.buildStatement(arData([invoice('INV-1', '2026-07-01', 10)]), 'de-AT', AS_OF);
+    const attachment = service.toAttachment(statement);
+
+    expect(attachment.name).toBe('Kontoauszug-C001-2026-10-19.pdf');
+    expect(attachment.contentType).toBe('application/pdf');
+    expect(attachment.content.equals(service.renderPdf(statement))).toBe(true);
+  });
+
+  it('is on unless ATTACH_STATEMENT is false', () => {
+    const previous = process.env.ATTACH_STATEMENT;
+    try {
+      process.env.ATTACH_STATEMENT = 'false';
+      expect(new StatementService().attach).toBe(false);
+      delete process.env.ATTACH_STATEMENT;
+      expect(new StatementService().attach).toBe(true);
+    } finally {
+      if (previous === undefined) delete process.env.ATTACH_STATEMENT;
+      else process.env.ATTACH_STATEMENT = previous;
+    }
+  });
+});
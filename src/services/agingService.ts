@@ -0,0 +1,385 @@
+import { readFileSync } from 'fs';
+import { AgingBucketAmount, AgingScheme, ARAgingData, Invoice } from '../types';
+import { CurrencyService, amountsInText } from './currencyService';
+import type { MentionedAmount } from './currencyService';
+
+export type AgingBucket = 'current' | 'days30' | 'days60' | 'days90' | 'days120Plus';
+
+/** First day past due covered by each of the fixed ARAgingData buckets. */
+const LEGACY_BUCKET_START_DAYS: Record<AgingBucket, number> = {
+  current: 0, days30: 30, days60: 60, days90: 90, days120Plus: 120,
+};
+
+/** Amounts below half a cent are treated as zero. */
+const EPSILON = 0.005;
+
+/** Most payments a suggested installment plan is split into. */
+const MAX_INSTALLMENTS = 12;
+
+/**
+ * Built-in aging schemes.
+ *
+ * - standard : 0–29 / 30–59 / 60–89 / 90–119 / 120+ — the same ranges as the
+ *              days30..days120Plus fields, so scores match earlier releases
+ * - extended : current / 1–15 / 16–45 / 46–90 / 91–180 / 180+
+ */
+export const DEFAULT_AGING_SCHEMES: Record<string, AgingScheme> = {
+  standard: {
+    name: 'standard',
+    description: '30-day buckets up to 120+ days',
+    agedFromDays: 90,
+    buckets: [
+      { key: 'current',     label: 'Current',     minDays: 0,   maxDays: 29,  weight: 0 },
+      { key: 'days30',      label: '30–59 days',  minDays: 30,  maxDays: 59,  weight: 0.25 },
+      { key: 'days60',      label: '60–89 days',  minDays: 60,  maxDays: 89,  weight: 0.5 },
+      { key: 'days90',      label: '90–119 days', minDays: 90,  maxDays: 119, weight: 0.75 },
+      { key: 'days120Plus', label: '120+ days',   minDays: 120,               weight: 1.0 },
+    ],
+  },
+  extended: {
+    name: 'extended',
+    description: 'Short early buckets up to 180+ days',
+    agedFromDays: 91,
+    buckets: [
+      { key: 'current',     label: 'Current',     minDays: 0,   maxDays: 0,   weight: 0 },
+      { key: 'days1',       label: '1–15 days',   minDays: 1,   maxDays: 15,  weight: 0.1 },
+      { key: 'days16',      label: '16–45 days',  minDays: 16,  maxDays: 45,  weight: 0.3 },
+      { key: 'days46',      label: '46–90 days',  minDays: 46,  maxDays: 90,  weight: 0.55 },
+      { key: 'days91',      label: '91–180 days', minDays: 91,  maxDays: 180, weight: 0.8 },
+      { key: 'days180Plus', label: '180+ days',   minDays: 181,               weight: 1.0 },
+    ],
+  },
+};
+
+let loadedSchemes: { file: string | undefined; schemes: Record<string, AgingScheme> } | null = null;
+
+/**
+ * Every available aging scheme: the built-ins plus any defined in the JSON
+ * file at AGING_SCHEMES_FILE (an array of AgingScheme objects). A scheme in
+ * the file replaces a built-in of the same name.
+ */
+export function getAgingSchemes(file: string | undefined = process.env.AGING_SCHEMES_FILE): Record<string, AgingScheme> {
+  if (loadedSchemes && loadedSchemes.file === file) return loadedSchemes.schemes;
+
+  const schemes = { ...DEFAULT_AGING_SCHEMES };
+  if (file) {
+    const parsed: unknown = JSON.parse(readFileSync(file, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error(`${file} must contain a JSON array of aging schemes`);
+    for (const entry of parsed as AgingScheme[]) {
+      const scheme = { ...entry, agedFromDays: entry.agedFromDays ?? 90 };
+      validateAgingScheme(scheme);
+      schemes[scheme.name] = scheme;
+    }
+  }
+
+  loadedSchemes = { file, schemes };
+  return schemes;
+}
+
+/** Look up an aging scheme by name (default AGING_SCHEME, else "standard"). */
+export function getAgingScheme(name: string = process.env.AGING_SCHEME || 'standard'): AgingScheme {
+  const scheme = getAgingSchemes()[name];
+  if (!scheme) {
+    throw new Error(`Unknown aging scheme "${name}". Available: ${Object.keys(getAgingSchemes()).join(', ')}`);
+  }
+  return scheme;
+}
+
+/**
+ * Check that a scheme's buckets start at 0 days, follow on from each other
+ * without gaps or overlaps, and end with an open-ended bucket.
+ */
+export function validateAgingScheme(scheme: AgingScheme): void {
+  const fail = (reason: string) => { throw new Error(`Invalid aging scheme "${scheme.name}": ${reason}`); };
+
+  if (!scheme.name) fail('name is required');
+  if (!Array.isArray(scheme.buckets) || scheme.buckets.length === 0) fail('at least one bucket is required');
+
+  let nextStart = 0;
+  const keys = new Set<string>();
+  scheme.buckets.forEach((bucket, i) => {
+    const last = i === scheme.buckets.length - 1;
+    if (!bucket.key || !bucket.label) fail(`bucket ${i + 1} needs a key and a label`);
+    if (keys.has(bucket.key)) fail(`duplicate bucket key "${bucket.key}"`);
+    keys.add(bucket.key);
+    if (bucket.minDays !== nextStart) fail(`bucket "${bucket.key}" should start at ${nextStart} days`);
+    if (!(bucket.weight >= 0 && bucket.weight <= 1)) fail(`bucket "${bucket.key}" weight must be between 0 and 1`);
+    if (last) {
+      if (bucket.maxDays !== undefined) fail(`last bucket "${bucket.key}" must be open-ended`);
+    } else {
+      if (bucket.maxDays === undefined || bucket.maxDays < bucket.minDays) fail(`bucket "${bucket.key}" needs maxDays ≥ minDays`);
+      nextStart = (bucket.maxDays as number) + 1;
+    }
+  });
+}
+
+/** Bucket an invoice falls into for a given number of days past due. */
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue < 30)  return 'current';
+  if (daysOverdue < 60)  return 'days30';
+  if (daysOverdue < 90)  return 'days60';
+  if (daysOverdue < 120) return 'days90';
+  return 'days120Plus';
+}
+
+/** Whole days an invoice is past its due date (negative when not yet due). */
+export function daysPastDue(dueDate: string, asOf: Date = new Date()): number {
+  return Math.floor((asOf.getTime() - new Date(dueDate).getTime()) / 86_400_000);
+}
+
+/**
+ * Build AR aging for a customer from its open invoices. Each invoice's
+ * outstanding amount, converted to the reporting currency, is added to the
+ * bucket for its days past due.
+ */
+export function buildARAgingData(
+  customerId: string,
+  customerName: string,
+  invoices: Invoice[],
+  currency: CurrencyService = new CurrencyService(),
+): ARAgingData {
+  const arData: ARAgingData = {
+    customerId,
+    customerName,
+    currency:         currency.reportingCurrency,
+    totalOutstanding: 0,
+    current:          0,
+    days30:           0,
+    days60:           0,
+    days90:           0,
+    days120Plus:      0,
+    invoices,
+  };
+
+  for (const invoice of invoices) {
+    const amount = currency.toReporting(invoice.amountOutstanding, invoice.currency);
+    arData[agingBucket(invoice.daysOverdue)] += amount;
+    arData.totalOutstanding += amount;
+  }
+
+  return arData;
+}
+
+/**
+ * Attach the balance per bucket of an aging scheme. The fixed
+ * days30..days120Plus fields are left as they are.
+ *
+ * Buckets are filled from the invoices when they account for the whole
+ * balance. Summary-only data (no or partial invoice detail) is mapped from
+ * the fixed fields instead, placing each by the first day it covers.
+ */
+export function applyAgingScheme(
+  arData: ARAgingData,
+  scheme: AgingScheme = getAgingScheme(),
+  currency: CurrencyService = new CurrencyService(),
+): ARAgingData {
+  const buckets: AgingBucketAmount[] = scheme.buckets.map(b => ({
+    key: b.key, label: b.label, minDays: b.minDays, maxDays: b.maxDays, amount: 0,
+  }));
+
+  const reportingAmounts = arData.invoices.map(inv => currency.toReporting(inv.amountOutstanding, inv.currency));
+  const invoiceTotal = reportingAmounts.reduce((sum, amount) => sum + amount, 0);
+  const itemized = arData.invoices.length > 0 && Math.abs(invoiceTotal - arData.totalOutstanding) < EPSILON;
+
+  if (itemized) {
+    arData.invoices.forEach((invoice, i) => {
+      findBucket(buckets, invoice.daysOverdue).amount += reportingAmounts[i];
+    });
+  } else {
+    for (const [field, startDays] of Object.entries(LEGACY_BUCKET_START_DAYS) as [AgingBucket, number][]) {
+      findBucket(buckets, startDays).amount += arData[field];
+    }
+  }
+
+  for (const bucket of buckets) bucket.amount = Math.round(bucket.amount * 100) / 100;
+  return { ...arData, agingScheme: scheme.name, buckets };
+}
+
+/**
+ * The scheme and bucket balances to use for an ARAgingData — the buckets it
+ * already carries when their scheme is known here, otherwise freshly computed
+ * with the configured scheme, converting invoice amounts with `currency`.
+ */
+export function resolveAgingBuckets(
+  arData: ARAgingData,
+  currency: CurrencyService = new CurrencyService(),
+): { scheme: AgingScheme; buckets: AgingBucketAmount[] } {
+  const known = arData.agingScheme ? getAgingSchemes()[arData.agingScheme] : undefined;
+  if (known && arData.buckets) return { scheme: known, buckets: arData.buckets };
+
+  const scheme = getAgingScheme();
+  return { scheme, buckets: applyAgingScheme(arData, scheme, currency).buckets as AgingBucketAmount[] };
+}
+
+/** Total balance in buckets that start after the due date. */
+export function overdueAmount(buckets: AgingBucketAmount[]): number {
+  return buckets.filter(b => b.minDays > 0).reduce((sum, b) => sum + b.amount, 0);
+}
+
+/**
+ * Days past due of the oldest open balance. Taken from the invoices, and from
+ * the scheme buckets too when the invoices don't cover the whole balance —
+ * a summary-only bucket counts from the first day it covers.
+ */
+export function oldestDaysOverdue(arData: ARAgingData, currency: CurrencyService = new CurrencyService()): number {
+  const openInvoices = arData.invoices.filter(inv => inv.amountOutstanding >= EPSILON);
+  const fromInvoices = Math.max(0, ...openInvoices.map(inv => inv.daysOverdue));
+
+  const { buckets } = resolveAgingBuckets(arData, currency);
+  const fromBuckets = Math.max(0, ...buckets.filter(b => b.amount >= EPSILON).map(b => b.minDays));
+
+  return Math.max(fromInvoices, fromBuckets);
+}
+
+/**
+ * The aging data with amounts under dispute held out, for dunning and aging
+ * risk. Each disputed invoice keeps only its undisputed part outstanding, and
+ * the totals, fixed and scheme buckets and currency balances drop by the same
+ * amounts. `disputedAmount` records what was taken out, in the reporting
+ * currency. Returned as is when nothing is disputed or it was already done.
+ */
+export function excludeDisputedAmounts(
+  arData: ARAgingData,
+  currency: CurrencyService = new CurrencyService(),
+): ARAgingData {
+  if (arData.disputedAmount !== undefined) return arData;
+  const held = arData.invoices.map(inv => Math.max(0, Math.min(inv.disputedAmount ?? 0, inv.amountOutstanding)));
+  if (!held.some(amount => amount >= EPSILON)) return arData;
+
+  const result: ARAgingData = {
+    ...arData,
+    invoices: arData.invoices.map((inv, i) =>
+      held[i] >= EPSILON ? { ...inv, amountOutstanding: roundAmount(inv.amountOutstanding - held[i]) } : inv),
+    buckets: arData.buckets?.map(b => ({ ...b })),
+    currencyBalances: arData.currencyBalances?.map(b => ({ ...b })),
+  };
+
+  let disputed = 0;
+  arData.invoices.forEach((invoice, i) => {
+    if (held[i] < EPSILON) return;
+    const reporting = currency.toReporting(held[i], invoice.currency);
+    disputed += reporting;
+
+    const fields = Object.keys(LEGACY_BUCKET_START_DAYS) as AgingBucket[];
+    const fixed = fields.map(field => result[field]);
+    deductFromBucket(fixed, fields.indexOf(agingBucket(invoice.daysOverdue)), reporting);
+    fields.forEach((field, f) => { result[field] = fixed[f]; });
+    if (result.buckets) {
+      const amounts = result.buckets.map(b => b.amount);
+      deductFromBucket(amounts, result.buckets.indexOf(findBucket(result.buckets, invoice.daysOverdue)), reporting);
+      result.buckets.forEach((bucket, b) => { bucket.amount = amounts[b]; });
+    }
+    const balance = result.currencyBalances?.find(b => b.currency === currency.code(invoice.currency));
+    if (balance) {
+      balance.amount = Math.max(0, roundAmount(balance.amount - held[i]));
+      balance.reportingAmount = Math.max(0, roundAmount(balance.reportingAmount - reporting));
+    }
+  });
+
+  result.totalOutstanding = Math.max(0, roundAmount(arData.totalOutstanding - disputed));
+  result.disputedAmount = roundAmount(disputed);
+  return result;
+}
+
+/**
+ * Every figure text about the account may quote: totals, overdue amount,
+ * bucket balances and invoice amounts, before and after disputed amounts are
+ * held out, with reporting-currency figures also converted into each invoice
+ * currency.
+ */
+export function accountAmounts(arData: ARAgingData, currency: CurrencyService = new CurrencyService()): number[] {
+  const disputed = arData.disputedAmount ?? 0;
+  const { buckets } = resolveAgingBuckets(arData, currency);
+  const reporting = [
+    arData.totalOutstanding,
+    arData.totalOutstanding + disputed,
+    disputed,
+    overdueAmount(buckets),
+    ...buckets.map(b => b.amount),
+    ...(Object.keys(LEGACY_BUCKET_START_DAYS) as AgingBucket[]).map(field => arData[field]),
+  ];
+  const codes = new Set(arData.invoices.map(inv => currency.code(inv.currency)));
+  codes.add(currency.customerCurrency(arData).currency);
+
+  const amounts = [0, ...reporting, currency.customerCurrency(arData).totalOutstanding];
+  for (const code of codes) {
+    amounts.push(...reporting.map(amount => currency.convert(amount, arData.currency, code)));
+  }
+  for (const balance of arData.currencyBalances ?? []) {
+    amounts.push(balance.amount, balance.reportingAmount);
+  }
+  for (const inv of arData.invoices) {
+    const held = inv.disputedAmount ?? 0;
+    amounts.push(inv.amount, inv.amountPaid, inv.amountOutstanding, held, inv.amountOutstanding + held);
+  }
+  return amounts.map(roundAmount);
+}
+
+/**
+ * Equal installments of the account's balance, overdue amount and balance in
+ * the customer's currency, in 2 to MAX_INSTALLMENTS payments — figures a
+ * suggested payment plan may quote without them being in the data.
+ */
+export function installmentAmounts(arData: ARAgingData, currency: CurrencyService = new CurrencyService()): number[] {
+  const totals = [
+    arData.totalOutstanding,
+    overdueAmount(resolveAgingBuckets(arData, currency).buckets),
+    currency.customerCurrency(arData).totalOutstanding,
+  ];
+  const amounts: number[] = [];
+  for (let payments = 2; payments <= MAX_INSTALLMENTS; payments++) {
+    amounts.push(...totals.map(total => roundAmount(total / payments)));
+  }
+  return amounts;
+}
+
+/**
+ * Money amounts in generated text that match none of the account's figures
+ * (see accountAmounts) or the `derived` ones, e.g. installmentAmounts, so the
+ * model can't quote a balance it made up. An amount written without cents may
+ * round the figure to the nearest unit.
+ */
+export function unknownAmounts(
+  text: string,
+  arData: ARAgingData,
+  currency: CurrencyService = new CurrencyService(),
+  locale?: string,
+  derived: number[] = [],
+): MentionedAmount[] {
+  const known = [...accountAmounts(arData, currency), ...derived];
+  const currencies = new Set([currency.reportingCurrency, currency.code(arData.currency)]);
+  arData.invoices.forEach(inv => currencies.add(currency.code(inv.currency)));
+
+  return amountsInText(text, Array.from(currencies), locale).filter(mentioned => !known.some(amount =>
+    Math.abs(mentioned.amount - amount) < (Number.isInteger(mentioned.amount) ? 1 : 0.01)));
+}
+
+/**
+ * Take an amount out of the bucket at `index`. Summary-level buckets don't
+ * always agree with invoice ages, so whatever that bucket doesn't hold comes
+ * out of the older buckets, then the newer ones.
+ */
+function deductFromBucket(amounts: number[], index: number, amount: number): void {
+  const order = [
+    index,
+    ...amounts.map((_, i) => i).filter(i => i > index),
+    ...amounts.map((_, i) => i).filter(i => i < index).reverse(),
+  ];
+  let remaining = amount;
+  for (const i of order) {
+    if (remaining < EPSILON) break;
+    const taken = Math.min(Math.max(0, amounts[i]), remaining);
+    amounts[i] = roundAmount(amounts[i] - taken);
+    remaining -= taken;
+  }
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function findBucket<T extends { minDays: number; maxDays?: number }>(buckets: T[], days: number): T {
+  const pastDue = Math.max(0, days);
+  return buckets.find(b => pastDue >= b.minDays && (b.maxDays === undefined || pastDue <= b.maxDays))
+    ?? buckets[buckets.length - 1];
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import {
+  ComplianceReview,
+  DraftDecision,
+  DraftEdit,
+  DraftKind,
+  DraftStatus,
+  DunningTemplateRef,
+  OutboundDraft,
+  PaymentPlan,
+  RiskScore,
+  StatementOfAccount,
+} from '../types';
+
+export const DRAFT_STATUSES: DraftStatus[] = ['pending', 'approved', 'rejected', 'sent', 'failed', 'blocked'];
+
+/** Statuses a reviewer can still act on. */
+const OPEN_STATUSES: DraftStatus[] = ['pending', 'failed', 'blocked'];
+
+/** An edit, approval or rejection of a draft whose status doesn't allow it. */
+export class DraftStateError extends Error {
+  readonly draftId: string;
+  readonly status: DraftStatus;
+
+  constructor(draftId: string, status: DraftStatus, action: string) {
+    super(`Draft ${draftId} is ${status} and can't be ${action}`);
+    this.name = 'DraftStateError';
+    this.draftId = draftId;
+    this.status = status;
+  }
+}
+
+/**
+ * Whether outbound customer communications wait for a reviewer
+ * (OUTBOUND_APPROVAL):
+ *   required : drafts are queued until approved (default)
+ *   auto     : drafts are approved by "system" and sent straight away
+ */
+export type OutboundApprovalMode = 'required' | 'auto';
+
+/**
+ * Approval Service
+ *
+ * Draft lifecycle for customer emails: every generated dunning email and
+ * payment plan becomes a draft that a reviewer can edit, approve or reject
+ * before it is sent. Each action is appended to the draft's history with who
+ * took it. Persistence and sending are left to the caller.
+ */
+export class ApprovalService {
+  readonly mode: OutboundApprovalMode;
+
+  constructor(mode: OutboundApprovalMode = (process.env.OUTBOUND_APPROVAL as OutboundApprovalMode) || 'required') {
+    if (mode !== 'required' && mode !== 'auto') {
+      throw new Error(`Unknown OUTBOUND_APPROVAL "${mode}". Use required or auto`);
+    }
+    this.mode = mode;
+  }
+
+  createDraft(
+    kind: DraftKind,
+    customerId: string,
+    content: {
+      to: string;
+      from?: string;
+      subject: string;
+      body: string;
+      locale?: string;
+      template?: DunningTemplateRef;
+      statement?: StatementOfAccount;
+      customerName?: string;
+      riskScore?: RiskScore;
+      paymentPlan?: PaymentPlan;
+    },
+    createdBy: string = 'Collections Agent',
+  ): OutboundDraft {
+    const now = new Date().toISOString();
+    return {
+      draftId: randomUUID(),
+      customerId,
+      kind,
+      status: 'pending',
+      ...content,
+      createdDate: now,
+      updatedDate: now,
+      history: [{ action: 'created', by: createdBy, date: now }],
+    };
+  }
+
+  /** Change the recipient, subject or body of a draft that hasn't been sent. */
+  edit(draft: OutboundDraft, changes: DraftEdit, editor: string): OutboundDraft {
+    this.requireStatus(draft, OPEN_STATUSES, 'edited');
+    const changed = (Object.keys(changes) as (keyof DraftEdit)[])
+      .filter(field => changes[field] !== undefined && changes[field] !== draft[field]);
+    if (changed.length === 0) return draft;
+
+    return this.record(
+      {
+        ...draft,
+        to: changes.to ?? draft.to,
+        subject: changes.subject ?? draft.subject,
+        body: changes.body ?? draft.body,
+      },
+      { action: 'edited', by: editor, comment: `Changed ${changed.join(', ')}` },
+    );
+  }
+
+  /** Approve a pending draft, or a failed or blocked one for another send attempt. */
+  approve(draft: OutboundDraft, approver: string, comment?: string): OutboundDraft {
+    this.requireStatus(draft, OPEN_STATUSES, 'approved');
+    const approved = this.record({ ...draft, status: 'approved', error: undefined }, { action: 'approved', by: approver, comment });
+    return { ...approved, approvedBy: approver, approvedDate: approved.updatedDate };
+  }
+
+  reject(draft: OutboundDraft, approver: string, reason?: string): OutboundDraft {
+    this.requireStatus(draft, OPEN_STATUSES, 'rejected');
+    return this.record({ ...draft, status: 'rejected' }, { action: 'rejected', by: approver, comment: reason });
+  }
+
+  markSent(draft: OutboundDraft): OutboundDraft {
+    const sent = this.record({ ...draft, status: 'sent' }, { action: 'sent', by: 'system' });
+    return { ...sent, sentDate: sent.updatedDate };
+  }
+
+  markFailed(draft: OutboundDraft, error: string): OutboundDraft {
+    return this.record({ ...draft, status: 'failed', error }, { action: 'failed', by: 'system', comment: error });
+  }
+
+  /**
+   * Record a compliance review on a draft: reworded content replaces the
+   * draft's, and a draft the policy blocks is marked blocked with the reasons.
+   */
+  applyReview(draft: OutboundDraft, review: ComplianceReview): OutboundDraft {
+    let checked: OutboundDraft = { ...draft, compliance: review.findings };
+    const rewrites = review.findings.filter(f => f.action === 'rewrite');
+    if (rewrites.length > 0) {
+      checked = this.record(
+        { ...checked, subject: review.subject ?? checked.subject, body: review.body },
+        { action: 'edited', by: 'compliance policy', comment: rewrites.map(f => f.reason).join('; ') },
+      );
+    }
+    if (!review.allowed) {
+      const blocks = review.findings.filter(f => f.action === 'block');
+      checked = this.record(
+        { ...checked, status: 'blocked' },
+        { action: 'blocked', by: 'compliance policy', comment: blocks.map(f => f.reason).join('; ') },
+      );
+    }
+    return checked;
+  }
+
+  private record(draft: OutboundDraft, decision: Omit<DraftDecision, 'date'>): OutboundDraft {
+    const now = new Date().toISOString();
+    return { ...draft, updatedDate: now, history: [...draft.history, { ...decision, date: now }] };
+  }
+
+  private requireStatus(draft: OutboundDraft, allowed: DraftStatus[], action: string): void {
+    if (!allowed.includes(draft.status)) {
+      throw new DraftStateError(draft.draftId, draft.status, action);
+    }
+  }
+}
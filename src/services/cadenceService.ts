@@ -0,0 +1,247 @@
+import type { CollectionsStore } from '../store';
+import { getPromiseStatus } from './promiseService';
+import { formatCurrency } from './currencyService';
+import { stageForEscalation } from './dunningTemplateService';
+import {
+  ARAgingData,
+  CadenceStep,
+  DunningCadence,
+  PaymentHistory,
+  RiskScore,
+  ScheduledDunningAction,
+} from '../types';
+
+type RiskLevel = RiskScore['riskLevel'];
+
+/**
+ * Standard escalation ladder: reminder email → firm email → Teams escalation →
+ * final demand → phone-call task → pre-legal notice. Each email uses the next
+ * dunning stage. The higher the risk, the sooner each step comes: 45 days from
+ * start to phone call for low-risk accounts, 30 for medium and 21 for high.
+ */
+export const DEFAULT_CADENCE_LADDERS: Record<RiskLevel, CadenceStep[]> = {
+  low: [
+    { stepId: 'reminder-email', offsetDays: 3,  actionType: 'email',      tone: 'reminder', description: 'Friendly reminder email' },
+    { stepId: 'firm-email',     offsetDays: 15, actionType: 'email',      tone: 'firm',     description: 'Firm follow-up email' },
+    { stepId: 'teams-escalation', offsetDays: 30, actionType: 'teams-chat', description: 'Teams escalation to collections team' },
+    { stepId: 'final-demand',   offsetDays: 38, actionType: 'email',      tone: 'firm',     description: 'Final demand email' },
+    { stepId: 'phone-call',     offsetDays: 45, actionType: 'phone-call', description: 'Phone call task for collector' },
+    { stepId: 'pre-legal',      offsetDays: 60, actionType: 'email',      tone: 'firm',     description: 'Pre-legal notice email' },
+  ],
+  medium: [
+    { stepId: 'reminder-email', offsetDays: 2,  actionType: 'email',      tone: 'reminder', description: 'Friendly reminder email' },
+    { stepId: 'firm-email',     offsetDays: 10, actionType: 'email',      tone: 'firm',     description: 'Firm follow-up email' },
+    { stepId: 'teams-escalation', offsetDays: 20, actionType: 'teams-chat', description: 'Teams escalation to collections team' },
+    { stepId: 'final-demand',   offsetDays: 25, actionType: 'email',      tone: 'firm',     description: 'Final demand email' },
+    { stepId: 'phone-call',     offsetDays: 30, actionType: 'phone-call', description: 'Phone call task for collector' },
+    { stepId: 'pre-legal',      offsetDays: 40, actionType: 'email',      tone: 'firm',     description: 'Pre-legal notice email' },
+  ],
+  high: [
+    { stepId: 'reminder-email', offsetDays: 1,  actionType: 'email',      tone: 'reminder', description: 'Reminder email' },
+    { stepId: 'firm-email',     offsetDays: 7,  actionType: 'email',      tone: 'firm',     description: 'Firm follow-up email' },
+    { stepId: 'teams-escalation', offsetDays: 14, actionType: 'teams-chat', description: 'Teams escalation to collections team' },
+    { stepId: 'final-demand',   offsetDays: 17, actionType: 'email',      tone: 'firm',     description: 'Final demand email' },
+    { stepId: 'phone-call',     offsetDays: 21, actionType: 'phone-call', description: 'Phone call task for collector' },
+    { stepId: 'pre-legal',      offsetDays: 28, actionType: 'email',      tone: 'firm',     description: 'Pre-legal notice email' },
+  ],
+};
+
+/** Outcome of checking a cadence against the latest ERP data. */
+export interface CadenceEvaluation {
+  /** Set when the cadence should end — no further steps will run. */
+  stopReason?: string;
+  /** Set when steps that are due now should be skipped rather than executed. */
+  skipReason?: string;
+}
+
+/**
+ * Dunning cadence engine — schedules an escalation ladder per customer and
+ * persists the state of every step so cadences survive restarts.
+ *
+ * This service owns scheduling and state only; executing a step (sending the
+ * email, posting to Teams) is orchestrated by the CollectionsAgent.
+ */
+export class CadenceService {
+  private store: CollectionsStore;
+  private ladders: Record<RiskLevel, CadenceStep[]>;
+
+  constructor(
+    store: CollectionsStore,
+    ladders: Record<RiskLevel, CadenceStep[]> = DEFAULT_CADENCE_LADDERS,
+  ) {
+    this.store = store;
+    this.ladders = ladders;
+  }
+
+  /**
+   * Start (or restart) a cadence for a customer. Any existing cadence is replaced.
+   */
+  async enroll(
+    arData: ARAgingData,
+    riskLevel: RiskLevel,
+    contactEmail?: string,
+    collectorEmail?: string,
+    startDate: Date = new Date(),
+  ): Promise<DunningCadence> {
+    const steps = this.ladders[riskLevel];
+    const actions: ScheduledDunningAction[] = steps.map((step, index) => {
+      const scheduled = new Date(startDate.getTime() + step.offsetDays * 86_400_000);
+      const emailsBefore = steps.slice(0, index).filter(s => s.actionType === 'email').length;
+      return {
+        customerId:    arData.customerId,
+        stepId:        step.stepId,
+        actionType:    step.actionType,
+        tone:          step.tone,
+        stage:         step.actionType === 'email' ? step.stage ?? stageForEscalation(emailsBefore) : undefined,
+        priority:      index + 1,
+        message:       step.description,
+        scheduledDate: scheduled.toISOString(),
+        status:        'scheduled',
+      };
+    });
+
+    const cadence: DunningCadence = {
+      customerId:     arData.customerId,
+      riskLevel,
+      contactEmail,
+      collectorEmail,
+      startDate:      startDate.toISOString(),
+      balanceAtStart: arData.totalOutstanding,
+      status:         'active',
+      actions,
+    };
+
+    await this.save(cadence);
+    return cadence;
+  }
+
+  /** Get the cadence for a customer, if one has been started. */
+  async getCadence(customerId: string): Promise<DunningCadence | undefined> {
+    return this.store.get<DunningCadence>('cadences', customerId);
+  }
+
+  /** List every cadence that still has steps to run. */
+  async listActiveCadences(): Promise<DunningCadence[]> {
+    const cadences = await this.store.listAll<DunningCadence>('cadences');
+    return cadences.filter(c => c.status === 'active');
+  }
+
+  /**
+   * Steps that are scheduled on or before `asOf` and have not run yet. None
+   * while an email step waits for approval: the ladder holds until it is sent.
+   */
+  getDueActions(cadence: DunningCadence, asOf: Date = new Date()): ScheduledDunningAction[] {
+    if (cadence.actions.some(a => a.status === 'queued')) return [];
+    return cadence.actions.filter(
+      a => a.status === 'scheduled' && new Date(a.scheduledDate) <= asOf,
+    );
+  }
+
+  /**
+   * Decide whether a cadence should stop or skip its due steps.
+   *
+   * - Balance cleared or a payment received since the cadence started → stop.
+   * - An open promise-to-pay (not yet kept or broken) → skip due steps.
+   */
+  evaluate(
+    cadence: DunningCadence,
+    arData: ARAgingData,
+    paymentHistory: PaymentHistory,
+    asOf: Date = new Date(),
+  ): CadenceEvaluation {
+    if (arData.totalOutstanding <= 0) {
+      return { stopReason: 'Outstanding balance cleared' };
+    }
+
+    const startedAt = new Date(cadence.startDate);
+    const paidSinceStart =
+      new Date(paymentHistory.lastPaymentDate) > startedAt ||
+      arData.totalOutstanding < cadence.balanceAtStart;
+    if (paidSinceStart) {
+      return { stopReason: 'Payment received since cadence started' };
+    }
+
+    const openPromise = paymentHistory.promiseToPayHistory.find(
+      p => getPromiseStatus(p, asOf) === 'open',
+    );
+    if (openPromise) {
+      return {
+        skipReason: `Open promise to pay ${formatCurrency(openPromise.promisedAmount, openPromise.currency ?? arData.currency)} by ${openPromise.promisedDate.split('T')[0]}`,
+      };
+    }
+
+    return {};
+  }
+
+  /** Record the outcome of a single step. */
+  markAction(
+    cadence: DunningCadence,
+    stepId: string,
+    status: ScheduledDunningAction['status'],
+    reason?: string,
+    when: Date = new Date(),
+  ): void {
+    const action = cadence.actions.find(a => a.stepId === stepId);
+    if (!action) return;
+    action.status        = status;
+    action.completedDate = when.toISOString();
+    action.statusReason  = reason;
+  }
+
+  /** Hold an email step until its draft is approved and sent. */
+  markQueued(cadence: DunningCadence, stepId: string, draftId: string): void {
+    const action = cadence.actions.find(a => a.stepId === stepId);
+    if (!action) return;
+    action.status       = 'queued';
+    action.draftId      = draftId;
+    action.statusReason = `Waiting for approval of draft ${draftId}`;
+  }
+
+  /**
+   * Settle the email step waiting on a draft: completed once the draft is
+   * sent, or scheduled again when it is rejected so the next run drafts a new
+   * email before the ladder moves on. Returns false when no step waits on it.
+   */
+  settleQueued(
+    cadence: DunningCadence,
+    draftId: string,
+    outcome: 'sent' | 'rejected',
+    reason?: string,
+    when: Date = new Date(),
+  ): boolean {
+    const action = cadence.actions.find(a => a.status === 'queued' && a.draftId === draftId);
+    if (!action) return false;
+    if (outcome === 'sent') {
+      this.markAction(cadence, action.stepId, 'completed', reason, when);
+    } else {
+      action.status       = 'scheduled';
+      action.draftId      = undefined;
+      action.statusReason = reason;
+    }
+    return true;
+  }
+
+  /** End a cadence early (payment received, balance cleared, manual stop). */
+  stop(cadence: DunningCadence, reason: string): void {
+    cadence.status     = 'stopped';
+    cadence.stopReason = reason;
+    for (const action of cadence.actions) {
+      if (action.status === 'scheduled' || action.status === 'queued') {
+        action.status       = 'skipped';
+        action.statusReason = reason;
+      }
+    }
+  }
+
+  /** Mark the cadence complete once every step has run or been skipped. */
+  completeIfFinished(cadence: DunningCadence): void {
+    if (cadence.status === 'active' && cadence.actions.every(a => a.status !== 'scheduled' && a.status !== 'queued')) {
+      cadence.status = 'completed';
+    }
+  }
+
+  /** Persist a cadence, replacing any previous state for the same customer. */
+  async save(cadence: DunningCadence): Promise<void> {
+    await this.store.put('cadences', cadence.customerId, cadence.customerId, cadence);
+  }
+}
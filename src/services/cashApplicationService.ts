@@ -0,0 +1,265 @@
+import { AllocationMethod, ARAgingData, Invoice, InvoiceSettlement, PaymentAllocation, PaymentRecord } from '../types';
+import { agingBucket } from './agingService';
+import { CurrencyService } from './currencyService';
+
+/** Remittance references first, then an invoice for the exact amount, then oldest invoice first. */
+export const DEFAULT_ALLOCATION_METHODS: AllocationMethod[] = ['remittance', 'exact-match', 'oldest-first'];
+
+export interface CashApplicationResult {
+  arData: ARAgingData;
+  allocations: PaymentAllocation[];
+  unapplied: { paymentId: string; amount: number }[];
+  /** Payments that were applied to further invoices, with those settlements added. */
+  settled: PaymentRecord[];
+}
+
+/** Ledger payments split by whether the ERP already shows the receipt. */
+export interface LedgerReceipts {
+  /** Payments the ERP doesn't show yet, to be applied to its aging. */
+  unposted: PaymentRecord[];
+  /** Payments newly matched to an ERP payment, with erpPaymentId set. */
+  posted: PaymentRecord[];
+}
+
+/** A payment record that can't be recorded, by its position in the request. */
+export interface InvalidPayment {
+  index: number;
+  paymentId?: string;
+  errors: string[];
+}
+
+/** Amounts below half a cent are treated as fully applied. */
+const EPSILON = 0.005;
+
+/** Days between a ledger payment and an ERP payment for the same amount that count as the same receipt. */
+const RECEIPT_MATCH_DAYS = 7;
+const DAY_MS = 86_400_000;
+
+/**
+ * Cash application — allocates received payments to open invoices and
+ * reduces the AR aging buckets by the amounts applied, so aging reflects true
+ * open balances rather than invoice face value.
+ *
+ * A payment is only applied to invoices in its own currency that were issued
+ * on or before the day it was received. Aging buckets are in the reporting
+ * currency, so they are reduced by the converted amount.
+ */
+export class CashApplicationService {
+  private methods: AllocationMethod[];
+  private currency: CurrencyService;
+
+  /**
+   * @param methods  Allocation methods tried in order for each payment until it is fully applied.
+   *                 Defaults to CASH_APPLICATION_METHODS (comma-separated) or DEFAULT_ALLOCATION_METHODS.
+   * @param currency FX conversion into the reporting currency
+   */
+  constructor(
+    methods: AllocationMethod[] = parseMethods(process.env.CASH_APPLICATION_METHODS),
+    currency: CurrencyService = new CurrencyService(),
+  ) {
+    this.methods = methods;
+    this.currency = currency;
+  }
+
+  /**
+   * Apply payments to the invoices in `arData`. Payments are applied in date
+   * order; whatever cannot be matched to an open invoice is reported as
+   * unapplied cash. Fully settled invoices are dropped from the result.
+   *
+   * A payment's recorded settlements are applied first, to the same invoices
+   * and only while they are still open; the rest of the payment goes through
+   * the allocation methods.
+   */
+  applyPayments(arData: ARAgingData, payments: PaymentRecord[]): CashApplicationResult {
+    const result: ARAgingData = {
+      ...arData,
+      invoices: arData.invoices.map(inv => ({ ...inv })),
+    };
+    const allocations: PaymentAllocation[] = [];
+    const unapplied: { paymentId: string; amount: number }[] = [];
+    const settled: PaymentRecord[] = [];
+
+    const sortedPayments = [...payments].sort(
+      (a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime(),
+    );
+
+    for (const payment of sortedPayments) {
+      let remaining = payment.amount;
+
+      for (const settlement of payment.settlements ?? []) {
+        remaining = round(remaining - settlement.amount);
+        const invoice = result.invoices.find(inv => inv.invoiceId === settlement.invoiceId);
+        const applied = round(Math.min(settlement.amount, invoice?.amountOutstanding ?? 0));
+        if (!invoice || applied < EPSILON) continue;
+
+        this.allocate(result, invoice, applied);
+        allocations.push({ paymentId: payment.paymentId, ...settlement, amount: applied });
+      }
+
+      const added: InvoiceSettlement[] = [];
+      for (const method of this.methods) {
+        if (remaining < EPSILON) break;
+        for (const invoice of this.candidates(method, result.invoices, payment, remaining)) {
+          const applied = round(Math.min(remaining, invoice.amountOutstanding));
+          if (applied < EPSILON) continue;
+
+          this.allocate(result, invoice, applied);
+          allocations.push({ paymentId: payment.paymentId, invoiceId: invoice.invoiceId, amount: applied, method });
+          added.push({ invoiceId: invoice.invoiceId, amount: applied, method });
+          remaining = round(remaining - applied);
+          if (remaining < EPSILON) break;
+        }
+      }
+
+      if (added.length > 0) {
+        settled.push({ ...payment, settlements: [...(payment.settlements ?? []), ...added] });
+      }
+      if (remaining >= EPSILON) {
+        unapplied.push({ paymentId: payment.paymentId, amount: remaining });
+      }
+    }
+
+    result.invoices = result.invoices.filter(inv => inv.amountOutstanding >= EPSILON);
+    const unappliedTotal = unapplied.reduce((sum, u) => {
+      const payment = payments.find(p => p.paymentId === u.paymentId);
+      return sum + this.currency.toReporting(u.amount, payment?.currency);
+    }, 0);
+    result.unappliedCash = round((arData.unappliedCash ?? 0) + unappliedTotal);
+
+    return { arData: result, allocations, unapplied, settled };
+  }
+
+  /**
+   * Split ledger payments by whether the ERP already records the same
+   * receipt: an ERP payment with the same ID, or for the same amount and
+   * currency within RECEIPT_MATCH_DAYS. Each ERP payment stands for one
+   * ledger payment at most.
+   */
+  matchReceipts(ledger: PaymentRecord[], erpPayments: PaymentRecord[]): LedgerReceipts {
+    const claimed = new Set(ledger.map(p => p.erpPaymentId).filter((id): id is string => id !== undefined));
+    const unposted: PaymentRecord[] = [];
+    const posted: PaymentRecord[] = [];
+
+    for (const payment of ledger) {
+      if (payment.erpPaymentId) continue;
+      const receipt = erpPayments.find(erp => !claimed.has(erp.paymentId) && this.sameReceipt(payment, erp));
+      if (!receipt) {
+        unposted.push(payment);
+        continue;
+      }
+      claimed.add(receipt.paymentId);
+      posted.push({ ...payment, erpPaymentId: receipt.paymentId });
+    }
+    return { unposted, posted };
+  }
+
+  private sameReceipt(payment: PaymentRecord, erp: PaymentRecord): boolean {
+    if (erp.paymentId === payment.paymentId) return true;
+    return this.currency.code(erp.currency) === this.currency.code(payment.currency) &&
+      Math.abs(erp.amount - payment.amount) < EPSILON &&
+      Math.abs(day(erp.paymentDate) - day(payment.paymentDate)) <= RECEIPT_MATCH_DAYS * DAY_MS;
+  }
+
+  /** Open invoices a method would apply the payment to, in application order. */
+  private candidates(
+    method: AllocationMethod,
+    invoices: Invoice[],
+    payment: PaymentRecord,
+    remaining: number,
+  ): Invoice[] {
+    const paymentCurrency = this.currency.code(payment.currency);
+    const paidOn = day(payment.paymentDate);
+    const open = invoices.filter(inv =>
+      inv.amountOutstanding >= EPSILON &&
+      this.currency.code(inv.currency) === paymentCurrency &&
+      !(day(inv.invoiceDate) > paidOn));
+
+    switch (method) {
+      case 'remittance': {
+        const refs = (payment.remittanceInvoiceIds ?? []).map(r => r.toLowerCase());
+        return refs
+          .map(ref => open.find(inv =>
+            inv.invoiceId.toLowerCase() === ref || inv.invoiceNumber?.toLowerCase() === ref))
+          .filter((inv): inv is Invoice => inv !== undefined);
+      }
+
+      case 'exact-match': {
+        const match = byOldestDueDate(open).find(inv => Math.abs(inv.amountOutstanding - remaining) < EPSILON);
+        return match ? [match] : [];
+      }
+
+      case 'oldest-first':
+        return byOldestDueDate(open);
+    }
+  }
+
+  private allocate(arData: ARAgingData, invoice: Invoice, amount: number): void {
+    const reportingBefore = this.currency.toReporting(invoice.amountOutstanding, invoice.currency);
+    invoice.amountPaid        = round(invoice.amountPaid + amount);
+    invoice.amountOutstanding = round(invoice.amountOutstanding - amount);
+    const reportingApplied = round(reportingBefore - this.currency.toReporting(invoice.amountOutstanding, invoice.currency));
+
+    const bucket = agingBucket(invoice.daysOverdue);
+    arData[bucket]          = round(Math.max(0, arData[bucket] - reportingApplied));
+    arData.totalOutstanding = round(Math.max(0, arData.totalOutstanding - reportingApplied));
+  }
+}
+
+/**
+ * Records among `payments` that can't go into the payment ledger. Ledger
+ * entries are permanent, so each needs a paymentId, a positive amount, a
+ * date that parses and, when given, a three-letter ISO 4217 currency code.
+ */
+export function invalidPayments(payments: unknown[]): InvalidPayment[] {
+  const invalid: InvalidPayment[] = [];
+  payments.forEach((value, index) => {
+    const p = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+    const errors: string[] = [];
+    if (typeof p.paymentId !== 'string' || p.paymentId.trim().length === 0) errors.push('paymentId must be a non-empty string');
+    if (typeof p.amount !== 'number' || !Number.isFinite(p.amount) || p.amount <= 0) errors.push('amount must be a positive number');
+    if (typeof p.paymentDate !== 'string' || isNaN(Date.parse(p.paymentDate))) errors.push('paymentDate must be a valid date, e.g. 2026-01-05');
+    if (p.currency !== undefined && (typeof p.currency !== 'string' || !/^[A-Za-z]{3}$/.test(p.currency))) {
+      errors.push('currency must be an ISO 4217 code, e.g. EUR');
+    }
+    if (p.customerId !== undefined && typeof p.customerId !== 'string') errors.push('customerId must be a string');
+    if (p.remittanceInvoiceIds !== undefined &&
+        !(Array.isArray(p.remittanceInvoiceIds) && p.remittanceInvoiceIds.every(r => typeof r === 'string'))) {
+      errors.push('remittanceInvoiceIds must be an array of strings');
+    }
+    if (errors.length > 0) {
+      invalid.push({ index, paymentId: typeof p.paymentId === 'string' ? p.paymentId : undefined, errors });
+    }
+  });
+  return invalid;
+}
+
+/** One line naming each invalid record and what is wrong with it. */
+export function describeInvalidPayments(invalid: InvalidPayment[]): string {
+  const records = invalid.map(p => `payments[${p.index}]${p.paymentId ? ` (${p.paymentId})` : ''}: ${p.errors.join(', ')}`);
+  return `${invalid.length} invalid payment record${invalid.length === 1 ? '' : 's'} — ${records.join('; ')}`;
+}
+
+function byOldestDueDate(invoices: Invoice[]): Invoice[] {
+  return [...invoices].sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+}
+
+/** Midnight UTC of a date's day; NaN when it doesn't parse. */
+function day(date: string): number {
+  return Date.parse(date.split('T')[0]);
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function parseMethods(value: string | undefined): AllocationMethod[] {
+  if (!value) return DEFAULT_ALLOCATION_METHODS;
+  const valid: AllocationMethod[] = ['remittance', 'exact-match', 'oldest-first'];
+  const methods = value.split(',').map(m => m.trim()).filter(m => m.length > 0);
+  for (const method of methods) {
+    if (!valid.includes(method as AllocationMethod)) {
+      throw new Error(`Unknown cash application method: ${method}`);
+    }
+  }
+  return methods as AllocationMethod[];
+}
@@ -0,0 +1,405 @@
+import {
+  ComplianceFinding,
+  ComplianceReview,
+  ContactPreferences,
+  ContactPreferencesUpdate,
+  OutboundChannel,
+} from '../types';
+import { DUNNING_LANGUAGES, localeLanguage, supportedLocale } from './localeService';
+import type { DunningLanguage } from './localeService';
+
+const DAY_MS = 86_400_000;
+
+/** Added to every outbound message in its language unless COMPLIANCE_DISCLOSURE says otherwise. */
+const DEFAULT_DISCLOSURES: Record<DunningLanguage, string> = {
+  en: 'This message concerns an outstanding balance on your account. If you believe the balance is incorrect ' +
+    'or you have already paid, please let us know and we will look into it.',
+  de: 'Diese Nachricht betrifft einen offenen Betrag auf Ihrem Konto. Sollte der Betrag Ihrer Meinung nach ' +
+    'nicht stimmen oder haben Sie bereits bezahlt, teilen Sie uns dies bitte mit, damit wir es prüfen können.',
+  fr: 'Ce message concerne un solde impayé sur votre compte. Si vous pensez que ce solde est incorrect ' +
+    'ou que vous l\'avez déjà réglé, merci de nous le signaler afin que nous puissions vérifier.',
+  es: 'Este mensaje se refiere a un saldo pendiente en su cuenta. Si considera que el saldo no es correcto ' +
+    'o ya lo ha pagado, indíquenoslo y lo revisaremos.',
+};
+
+interface LanguageRule {
+  pattern: RegExp;
+  /** What the wording does, e.g. "threatens legal action" */
+  reason: string;
+  /** Compliant wording to use instead; without one the message is blocked */
+  replacement?: string;
+}
+
+/**
+ * Whole words or phrases, case-insensitive. JavaScript's \b only knows ASCII
+ * letters, so it can't mark the edge of words such as "arrêté".
+ */
+function words(alternatives: string): RegExp {
+  return new RegExp(`(?<!\\p{L})(?:${alternatives})(?!\\p{L})`, 'giu');
+}
+
+/**
+ * Threatening wording a collections message may not contain, per language.
+ * Threats with a compliant alternative are reworded; the rest block the
+ * message.
+ */
+const PROHIBITED_LANGUAGE: Record<DunningLanguage, LanguageRule[]> = {
+  en: [
+    {
+      pattern: /\b(?:arrest(?:ed)?|jail|prison|imprison(?:ed|ment)?|criminal (?:charges|prosecution|proceedings)|prosecut(?:e|ed|ion)|police|law enforcement)\b/gi,
+      reason: 'threatens arrest or criminal action',
+    },
+    {
+      pattern: /\b(?:hurt|harm|kill|destroy) you\b|\bviolence\b/gi,
+      reason: 'threatens violence',
+    },
+    {
+      pattern: /\b(?:tell|inform|notify|contact|call) your (?:employer|boss|family|relatives|neighbou?rs|friends|colleagues|customers|suppliers)\b/gi,
+      reason: 'threatens to tell third parties about the debt',
+    },
+    {
+      pattern: /\b(?:seiz(?:e|ure)|garnish(?:ment)?|repossess(?:ion)?)\b/gi,
+      reason: 'threatens seizure of property or wages',
+    },
+    {
+      pattern: /\b(?:sue you|take you to court|file a lawsuit(?: against you)?)\b/gi,
+      reason: 'threatens a lawsuit',
+      replacement: 'refer the account for further collection steps',
+    },
+    {
+      pattern: /\b(?:immediate )?legal (?:action|proceedings)\b/gi,
+      reason: 'threatens legal action',
+      replacement: 'further collection steps',
+    },
+    {
+      pattern: /\b(?:ruin|destroy|damage) your (?:credit(?: rating| score)?|reputation|business)\b/gi,
+      reason: 'threatens the customer\'s credit or reputation',
+      replacement: 'affect your account standing',
+    },
+  ],
+  de: [
+    {
+      pattern: words('verhaft\\p{L}*|festnahme|gefängnis|haftstrafe|strafanzeige|strafverfolgung|strafrechtlich\\p{L}*|polizei|staatsanwalt\\p{L}*'),
+      reason: 'threatens arrest or criminal action',
+    },
+    {
+      pattern: words('gewaltanwendung|gewalttätig\\p{L}*|ihnen (?:wehtun|etwas antun)'),
+      reason: 'threatens violence',
+    },
+    {
+      pattern: words('ihren? (?:arbeitgeber|chef|familie|angehörigen|nachbarn|freunde|kollegen|kunden|lieferanten) (?:informieren|benachrichtigen|kontaktieren|anrufen)'),
+      reason: 'threatens to tell third parties about the debt',
+    },
+    {
+      pattern: words('pfändung(?:en)?|pfänden|beschlagnahm\\p{L}*|zwangsvollstreckung'),
+      reason: 'threatens seizure of property or wages',
+    },
+    {
+      pattern: words('sie verklagen|klage gegen sie einreichen|sie vor gericht bringen'),
+      reason: 'threatens a lawsuit',
+      replacement: 'das Konto an weitere Inkassoschritte übergeben',
+    },
+    {
+      pattern: words('(?:rechtliche|gerichtliche) schritte|(?:ein )?gerichtliches verfahren'),
+      reason: 'threatens legal action',
+      replacement: 'weitere Inkassoschritte',
+    },
+    {
+      pattern: words('(?:ihre (?:kreditwürdigkeit|bonität)|ihren ruf|ihr geschäft) (?:ruinieren|zerstören|schädigen)'),
+      reason: 'threatens the customer\'s credit or reputation',
+      replacement: 'Ihr Kundenkonto beeinträchtigen',
+    },
+  ],
+  fr: [
+    {
+      pattern: words('arrestation|vous faire arrêter|prison|emprisonnement|poursuites pénales|plainte pénale|police|forces de l\'ordre'),
+      reason: 'threatens arrest or criminal action',
+    },
+    {
+      pattern: words('violence|vous faire du mal'),
+      reason: 'threatens violence',
+    },
+    {
+      pattern: words('(?:informer|prévenir|contacter|appeler) (?:votre|vos) (?:employeur|patron|famille|proches|voisins|amis|collègues|clients|fournisseurs)'),
+      reason: 'threatens to tell third parties about the debt',
+    },
+    {
+      pattern: words('saisies?|saisir vos (?:biens|comptes|salaires?)|saisie sur salaire'),
+      reason: 'threatens seizure of property or wages',
+    },
+    {
+      pattern: words('vous poursuivre en justice|vous traîner devant les tribunaux|intenter une action en justice contre vous'),
+      reason: 'threatens a lawsuit',
+      replacement: 'transmettre le dossier pour la suite du recouvrement',
+    },
+    {
+      pattern: words('poursuites judiciaires|action en justice|procédure judiciaire'),
+      reason: 'threatens legal action',
+      replacement: 'autres mesures de recouvrement',
+    },
+    {
+      pattern: words('(?:ruiner|détruire|nuire à) votre (?:réputation|cote de crédit|solvabilité|entreprise)'),
+      reason: 'threatens the customer\'s credit or reputation',
+      replacement: 'affecter la situation de votre compte',
+    },
+  ],
+  es: [
+    {
+      pattern: words('arresto|arrestarle|detención|cárcel|prisión|cargos penales|denuncia penal|policía'),
+      reason: 'threatens arrest or criminal action',
+    },
+    {
+      pattern: words('violencia|hacerle daño'),
+      reason: 'threatens violence',
+    },
+    {
+      pattern: words('(?:informar|avisar|contactar|llamar) a su (?:empleador|jefe|familia|familiares|vecinos|amigos|colegas|clientes|proveedores)'),
+      reason: 'threatens to tell third parties about the debt',
+    },
+    {
+      pattern: words('embargos?|embargar\\p{L}*|incautación|incautar'),
+      reason: 'threatens seizure of property or wages',
+    },
+    {
+      pattern: words('demandarle|llevarle (?:a juicio|a los tribunales)|presentar una demanda contra usted'),
+      reason: 'threatens a lawsuit',
+      replacement: 'remitir la cuenta para continuar con el cobro',
+    },
+    {
+      pattern: words('acci(?:ón|ones) legal(?:es)?|medidas legales|procedimiento judicial'),
+      reason: 'threatens legal action',
+      replacement: 'otras medidas de cobro',
+    },
+    {
+      pattern: words('(?:arruinar|destruir|dañar) su (?:historial crediticio|reputación|negocio)'),
+      reason: 'threatens the customer\'s credit or reputation',
+      replacement: 'afectar la situación de su cuenta',
+    },
+  ],
+};
+
+export interface CompliancePolicy {
+  /** Most outbound messages to one customer within `windowDays`; 0 = no cap */
+  maxContacts: number;
+  windowDays: number;
+  /** Local time span in which nothing is sent, e.g. "21:00-08:00"; empty = none */
+  quietHours: string;
+  /** Time zone for customers without one in their contact preferences */
+  defaultTimeZone: string;
+  /** Text every message in each language must include; empty = none */
+  disclosures: Record<DunningLanguage, string>;
+}
+
+/** What is known about the customer and the send when a message is checked. */
+export interface ComplianceContext {
+  preferences?: ContactPreferences;
+  /** When the customer's recent outbound messages went out; omit to skip the frequency cap */
+  recentContacts?: string[];
+  /** When the message would go out; omit to skip quiet hours (e.g. a draft queued for approval) */
+  sendAt?: Date;
+}
+
+/**
+ * Compliance Service
+ *
+ * Policy every outbound email and Teams message passes before it is sent:
+ * do-not-contact and cease-communication flags, a per-customer contact
+ * frequency cap, quiet hours in the customer's time zone, a required
+ * disclosure and a lint for threatening language, both in the message's
+ * language. Configured from CONTACT_FREQUENCY_CAP,
+ * CONTACT_FREQUENCY_WINDOW_DAYS, QUIET_HOURS, COMPLIANCE_DEFAULT_TIMEZONE,
+ * COMPLIANCE_DISCLOSURE and COMPLIANCE_DISCLOSURE_<LANGUAGE> (e.g.
+ * COMPLIANCE_DISCLOSURE_DE), which wins for its language.
+ */
+export class ComplianceService {
+  readonly policy: CompliancePolicy;
+  private quietHours?: { start: number; end: number };
+
+  constructor(
+    policy: Partial<Omit<CompliancePolicy, 'disclosures'>> & { disclosures?: Partial<Record<DunningLanguage, string>> } = {},
+  ) {
+    this.policy = {
+      maxContacts: policy.maxContacts ?? Number(process.env.CONTACT_FREQUENCY_CAP ?? 3),
+      windowDays: policy.windowDays ?? Number(process.env.CONTACT_FREQUENCY_WINDOW_DAYS ?? 7),
+      quietHours: policy.quietHours ?? process.env.QUIET_HOURS ?? '21:00-08:00',
+      defaultTimeZone: policy.defaultTimeZone
+        ?? (process.env.COMPLIANCE_DEFAULT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone),
+      disclosures: Object.fromEntries(DUNNING_LANGUAGES.map(language => [
+        language,
+        policy.disclosures?.[language]
+          ?? process.env[`COMPLIANCE_DISCLOSURE_${language.toUpperCase()}`]
+          ?? process.env.COMPLIANCE_DISCLOSURE
+          ?? DEFAULT_DISCLOSURES[language],
+      ])) as Record<DunningLanguage, string>,
+    };
+    if (!isValidTimeZone(this.policy.defaultTimeZone)) {
+      throw new Error(`Unknown COMPLIANCE_DEFAULT_TIMEZONE "${this.policy.defaultTimeZone}"`);
+    }
+    this.quietHours = parseQuietHours(this.policy.quietHours);
+  }
+
+  /**
+   * Check a message against the policy. Threats with a compliant alternative
+   * are reworded and a missing disclosure is added, so the review's subject
+   * and body are what should be sent; `allowed` is false if anything blocks it.
+   * The message's locale picks the disclosure and the threatening-language
+   * rules; English wording is checked in every language.
+   */
+  evaluate(
+    message: { channel: OutboundChannel; subject?: string; body: string; locale?: string },
+    context: ComplianceContext = {},
+  ): ComplianceReview {
+    const findings = this.checkContact(context);
+    const language = localeLanguage(message.locale);
+    let { subject, body } = message;
+
+    const rules = language === 'en' ? PROHIBITED_LANGUAGE.en : [...PROHIBITED_LANGUAGE[language], ...PROHIBITED_LANGUAGE.en];
+    for (const rule of rules) {
+      if (![subject ?? '', body].some(text => text.search(rule.pattern) >= 0)) continue;
+      if (rule.replacement === undefined) {
+        findings.push({ rule: 'prohibited-language', action: 'block', reason: `Message ${rule.reason}` });
+        continue;
+      }
+      const replacement = rule.replacement;
+      const reword = (text: string) => text.replace(rule.pattern, match =>
+        /^\p{Lu}/u.test(match) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement);
+      subject = subject === undefined ? undefined : reword(subject);
+      body = reword(body);
+      findings.push({
+        rule: 'prohibited-language',
+        action: 'rewrite',
+        reason: `Message ${rule.reason}; reworded to "${replacement}"`,
+      });
+    }
+
+    const disclosure = this.policy.disclosures[language];
+    if (disclosure && !plainText(body).includes(plainText(disclosure))) {
+      body = message.channel === 'email'
+        ? appendHtmlParagraph(body, disclosure)
+        : `${body.trimEnd()}\n\n${disclosure}`;
+      findings.push({ rule: 'disclosure', action: 'rewrite', reason: 'Required disclosure added' });
+    }
+
+    return { allowed: !findings.some(f => f.action === 'block'), subject, body, findings };
+  }
+
+  /** Apply changes to a customer's contact preferences; the locale is stored in canonical form. */
+  updatePreferences(
+    existing: ContactPreferences | undefined,
+    customerId: string,
+    changes: ContactPreferencesUpdate,
+    updatedBy?: string,
+  ): ContactPreferences {
+    if (changes.timeZone !== undefined && !isValidTimeZone(changes.timeZone)) {
+      throw new Error(`Unknown time zone "${changes.timeZone}". Use an IANA name such as America/New_York`);
+    }
+    const locale = changes.locale === undefined ? undefined : supportedLocale(changes.locale);
+    if (changes.locale !== undefined && !locale) {
+      throw new Error(`Unsupported locale "${changes.locale}". Use a locale in ${DUNNING_LANGUAGES.join(', ')}, e.g. de-DE`);
+    }
+    return {
+      ...existing,
+      customerId,
+      timeZone: changes.timeZone ?? existing?.timeZone,
+      locale: locale ?? existing?.locale,
+      doNotContact: changes.doNotContact ?? existing?.doNotContact,
+      ceaseCommunication: changes.ceaseCommunication ?? existing?.ceaseCommunication,
+      reason: changes.reason ?? existing?.reason,
+      updatedBy,
+      updatedDate: new Date().toISOString(),
+    };
+  }
+
+  /** Flags, frequency cap and quiet hours — everything that blocks a message whatever it says. */
+  private checkContact(context: ComplianceContext): ComplianceFinding[] {
+    const findings: ComplianceFinding[] = [];
+    const preferences = context.preferences;
+    const because = preferences?.reason ? ` (${preferences.reason})` : '';
+
+    if (preferences?.ceaseCommunication) {
+      findings.push({
+        rule: 'cease-communication',
+        action: 'block',
+        reason: `Customer has asked that collection communications stop${because}`,
+      });
+    }
+    if (preferences?.doNotContact) {
+      findings.push({ rule: 'do-not-contact', action: 'block', reason: `Customer is flagged do-not-contact${because}` });
+    }
+
+    const { maxContacts, windowDays } = this.policy;
+    if (context.recentContacts && maxContacts > 0) {
+      const since = (context.sendAt ?? new Date()).getTime() - windowDays * DAY_MS;
+      const sent = context.recentContacts.filter(date => new Date(date).getTime() > since).length;
+      if (sent >= maxContacts) {
+        findings.push({
+          rule: 'frequency-cap',
+          action: 'block',
+          reason: `${sent} message${sent === 1 ? '' : 's'} already sent in the last ${windowDays} days (limit ${maxContacts})`,
+        });
+      }
+    }
+
+    if (context.sendAt && this.quietHours) {
+      const timeZone = preferences?.timeZone ?? this.policy.defaultTimeZone;
+      const minutes = minutesInTimeZone(context.sendAt, timeZone);
+      const { start, end } = this.quietHours;
+      const quiet = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+      if (quiet) {
+        findings.push({
+          rule: 'quiet-hours',
+          action: 'block',
+          reason: `It is ${formatMinutes(minutes)} in ${timeZone}, within quiet hours (${this.policy.quietHours})`,
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** "21:00-08:00" → minutes after midnight; empty = no quiet hours. */
+function parseQuietHours(value: string): { start: number; end: number } | undefined {
+  if (!value.trim()) return undefined;
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  const [startHours, startMinutes, endHours, endMinutes] = (match ?? []).slice(1).map(Number);
+  if (!match || startHours > 23 || endHours > 23 || startMinutes > 59 || endMinutes > 59) {
+    throw new Error(`Invalid QUIET_HOURS "${value}". Use HH:MM-HH:MM, e.g. 21:00-08:00`);
+  }
+  return { start: startHours * 60 + startMinutes, end: endHours * 60 + endMinutes };
+}
+
+/** Minutes after midnight at `date` in the given time zone. */
+function minutesInTimeZone(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value ?? 0);
+  return part('hour') * 60 + part('minute');
+}
+
+function formatMinutes(minutes: number): string {
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/** Text without HTML tags, whitespace collapsed and lower-cased, for "does it say this" checks. */
+function plainText(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/** Add a paragraph at the end of an HTML email, inside <body> when there is one. */
+function appendHtmlParagraph(html: string, text: string): string {
+  const paragraph = `<p style="font-size: 12px; color: #666666;">${text}</p>`;
+  const bodyEnd = html.toLowerCase().lastIndexOf('</body>');
+  return bodyEnd >= 0
+    ? `${html.slice(0, bodyEnd)}${paragraph}\n${html.slice(bodyEnd)}`
+    : `${html.trimEnd()}\n${paragraph}`;
+}
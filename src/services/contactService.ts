@@ -0,0 +1,39 @@
+import { CustomerContact, CustomerContactDirectory } from '../types';
+
+/** Who a customer email is meant for: day-to-day billing, or a firm follow-up. */
+export type RecipientPurpose = 'billing' | 'escalation';
+
+/**
+ * Contact Service
+ *
+ * Picks the default recipients of outbound email from a customer's contacts.
+ * Dunning and payment plans go to the billing contact — or the primary
+ * contact when nobody is marked billing — and firm follow-ups to the
+ * escalation contact when there is one. Contacts without an email address or
+ * who opted out of email are never picked; among the rest, those who prefer
+ * email come first.
+ */
+export class ContactService {
+  buildDirectory(customerId: string, contacts: CustomerContact[]): CustomerContactDirectory {
+    const emailable = contacts.filter(c => c.email && !c.doNotEmail);
+    const billing = preferred(emailable.filter(c => c.role === 'billing'))
+      ?? preferred(emailable.filter(c => c.primary));
+    const escalation = preferred(emailable.filter(c => c.role === 'escalation'));
+    return {
+      customerId,
+      contacts,
+      ...(billing ? { billing } : {}),
+      ...(escalation ? { escalation } : {}),
+    };
+  }
+
+  /** Default recipient for a purpose; escalations fall back to the billing contact. */
+  recipient(directory: CustomerContactDirectory, purpose: RecipientPurpose): CustomerContact | undefined {
+    return purpose === 'escalation' ? directory.escalation ?? directory.billing : directory.billing;
+  }
+}
+
+/** The first contact who prefers email or states no preference, else the first one. */
+function preferred(contacts: CustomerContact[]): CustomerContact | undefined {
+  return contacts.find(c => !c.preferredChannel || c.preferredChannel === 'email') ?? contacts[0];
+}
@@ -0,0 +1,186 @@
+import { readFileSync } from 'fs';
+import { ARAgingData, CurrencyBalance } from '../types';
+
+/** Locale used to format amounts in each currency when no customer locale is given. */
+export const DEFAULT_CURRENCY_LOCALES: Record<string, string> = {
+  USD: 'en-US',
+  EUR: 'en-IE',
+  GBP: 'en-GB',
+  CAD: 'en-CA',
+};
+
+/** Currency all aging totals roll up into (REPORTING_CURRENCY, default USD). */
+export function getReportingCurrency(): string {
+  return (process.env.REPORTING_CURRENCY || 'USD').toUpperCase();
+}
+
+/**
+ * Format an amount for customer-facing text, e.g. 1234.5 EUR → "€1,234.50".
+ * Uses the locale given, else the usual locale for the currency.
+ */
+export function formatCurrency(amount: number, currency: string = getReportingCurrency(), locale?: string): string {
+  const code = currency.toUpperCase();
+  return new Intl.NumberFormat(locale ?? DEFAULT_CURRENCY_LOCALES[code] ?? 'en-US', {
+    style: 'currency',
+    currency: code,
+  }).format(amount);
+}
+
+/** One money amount found in text, e.g. { text: "€1.234,50", amount: 1234.5 }. */
+export interface MentionedAmount {
+  text: string;
+  amount: number;
+}
+
+// Thousands grouped with ".", ",", "'", "’" (de-CH) or a space, e.g. "1’234.50"
+const NUMBER = String.raw`\d{1,3}(?:[.,'\u2019\s\u00a0\u202f]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?`;
+
+/**
+ * Money amounts written in text: numbers next to the symbol or code of one of
+ * `currencies`, in the formats of `locale` and English alike ("$1,234.50",
+ * "1.234,50 €", "EUR 1234"). Numbers without a currency — days, dates,
+ * invoice numbers — are not amounts.
+ */
+export function amountsInText(text: string, currencies: string[], locale?: string): MentionedAmount[] {
+  const markers = new Set<string>();
+  for (const currency of currencies.map(c => c.toUpperCase())) {
+    markers.add(currency);
+    for (const formatLocale of [locale, DEFAULT_CURRENCY_LOCALES[currency], 'en-US']) {
+      for (const currencyDisplay of ['symbol', 'narrowSymbol'] as const) {
+        const symbol = new Intl.NumberFormat(formatLocale, { style: 'currency', currency, currencyDisplay })
+          .formatToParts(1).find(part => part.type === 'currency')?.value;
+        if (symbol) markers.add(symbol);
+      }
+    }
+  }
+  const marker = Array.from(markers)
+    .sort((a, b) => b.length - a.length)
+    .map(m => (/^[A-Za-z]+$/.test(m) ? `(?<![A-Za-z])${m}(?![A-Za-z])` : m.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('|');
+  const pattern = new RegExp(`(?:${marker})[\\s\\u00a0\\u202f]?(${NUMBER})|(${NUMBER})[\\s\\u00a0\\u202f]?(?:${marker})`, 'g');
+
+  return Array.from(text.matchAll(pattern), match => ({
+    text: match[0].trim(),
+    amount: parseAmount(match[1] ?? match[2]),
+  }));
+}
+
+/** A written number as a positive value: a final "." or "," followed by one or two digits is the decimal point. */
+function parseAmount(written: string): number {
+  const digits = written.replace(/[\s\u00a0\u202f'\u2019]/g, '');
+  const decimal = digits.match(/[.,](\d{1,2})$/);
+  const whole = (decimal ? digits.slice(0, -decimal[0].length) : digits).replace(/[.,]/g, '');
+  return Number(decimal ? `${whole}.${decimal[1]}` : whole);
+}
+
+let loadedRates: { file: string | undefined; rates: Record<string, number> } | null = null;
+
+/**
+ * Read the FX rate table at FX_RATES_FILE: a JSON object with a `rates` map
+ * of currency code → units of reporting currency per one unit of that
+ * currency, e.g. { "asOf": "2026-10-01", "rates": { "EUR": 1.08, "GBP": 1.27 } }.
+ */
+export function loadFxRates(file: string | undefined = process.env.FX_RATES_FILE): Record<string, number> {
+  if (loadedRates && loadedRates.file === file) return loadedRates.rates;
+
+  const rates: Record<string, number> = {};
+  if (file) {
+    const parsed = JSON.parse(readFileSync(file, 'utf8')) as { rates?: Record<string, unknown> };
+    if (!parsed.rates || typeof parsed.rates !== 'object') {
+      throw new Error(`${file} must contain a "rates" object`);
+    }
+    for (const [code, rate] of Object.entries(parsed.rates)) {
+      if (typeof rate !== 'number' || !(rate > 0)) {
+        throw new Error(`${file}: rate for ${code} must be a positive number`);
+      }
+      rates[code.toUpperCase()] = rate;
+    }
+  }
+
+  loadedRates = { file, rates };
+  return rates;
+}
+
+/**
+ * Currency conversion against a local FX rate table. Every amount on an
+ * invoice or payment stays in its own currency; totals and aging buckets are
+ * converted into the reporting currency so balances can be compared and
+ * scored across customers.
+ */
+export class CurrencyService {
+  readonly reportingCurrency: string;
+  private rates: Record<string, number>;
+
+  /**
+   * @param reportingCurrency Currency totals roll up into
+   * @param rates             Units of reporting currency per unit of each other currency
+   */
+  constructor(
+    reportingCurrency: string = getReportingCurrency(),
+    rates: Record<string, number> = loadFxRates(),
+  ) {
+    this.reportingCurrency = reportingCurrency.toUpperCase();
+    this.rates = rates;
+  }
+
+  /** Convert an amount in `currency` (default: reporting currency) into the reporting currency. */
+  toReporting(amount: number, currency?: string): number {
+    return round(amount * this.rate(currency));
+  }
+
+  /** Convert an amount between any two currencies in the rate table. */
+  convert(amount: number, from: string | undefined, to: string | undefined): number {
+    if (this.code(from) === this.code(to)) return amount;
+    return round(amount * this.rate(from) / this.rate(to));
+  }
+
+  /** The currency code an optional invoice/payment currency stands for. */
+  code(currency: string | undefined): string {
+    return (currency ?? this.reportingCurrency).toUpperCase();
+  }
+
+  /** Open balance per invoice currency, largest reporting amount first. */
+  currencyBalances(arData: ARAgingData): CurrencyBalance[] {
+    const balances = new Map<string, number>();
+    for (const invoice of arData.invoices) {
+      const code = this.code(invoice.currency);
+      balances.set(code, (balances.get(code) ?? 0) + invoice.amountOutstanding);
+    }
+
+    return Array.from(balances, ([currency, amount]) => ({
+      currency,
+      amount:          round(amount),
+      reportingAmount: this.toReporting(amount, currency),
+    })).sort((a, b) => b.reportingAmount - a.reportingAmount);
+  }
+
+  /**
+   * The currency to address a customer in and their balance in it. When
+   * every open invoice shares one currency that currency is used; otherwise
+   * (mixed currencies, or no invoice detail) the reporting currency is.
+   */
+  customerCurrency(arData: ARAgingData): { currency: string; totalOutstanding: number } {
+    const balances = arData.currencyBalances ?? this.currencyBalances(arData);
+    const reporting = arData.currency ?? this.reportingCurrency;
+    const itemized = Math.abs(balances.reduce((sum, b) => sum + b.reportingAmount, 0) - arData.totalOutstanding) < 0.01;
+
+    if (balances.length === 1 && itemized) {
+      return { currency: balances[0].currency, totalOutstanding: balances[0].amount };
+    }
+    return { currency: reporting, totalOutstanding: arData.totalOutstanding };
+  }
+
+  private rate(currency: string | undefined): number {
+    const code = this.code(currency);
+    if (code === this.reportingCurrency) return 1;
+    const rate = this.rates[code];
+    if (rate === undefined) {
+      throw new Error(`No FX rate for ${code} → ${this.reportingCurrency}. Add it to FX_RATES_FILE.`);
+    }
+    return rate;
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
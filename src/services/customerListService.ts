@@ -0,0 +1,100 @@
+import { CustomerListQuery, CustomerPage, CustomerSortField, PrioritizedCustomer } from '../types';
+
+export const CUSTOMER_SORT_FIELDS: CustomerSortField[] = ['priority', 'balance', 'oldest-invoice'];
+
+/** Most customers a single page may hold; larger limits are rejected rather than cut down. */
+export const MAX_CUSTOMER_PAGE_SIZE = 50;
+
+/** Position after the last customer of a page: its sort value, with the ID to break ties. */
+interface CustomerCursor {
+  sort: CustomerSortField;
+  value: number;
+  customerId: string;
+}
+
+/**
+ * Decode a nextCursor. Returns undefined when the cursor is malformed or was
+ * issued for a different sort order.
+ */
+export function decodeCustomerCursor(cursor: string, sort: CustomerSortField): CustomerCursor | undefined {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as Partial<CustomerCursor>;
+    if (parsed.sort !== sort || typeof parsed.value !== 'number' || typeof parsed.customerId !== 'string') {
+      return undefined;
+    }
+    return parsed as CustomerCursor;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Filters, sorts and pages a prioritized customer list.
+ *
+ * Pages use keyset cursors — the sort value and customer ID of the last
+ * customer returned — so a page picks up after the same customer even if the
+ * ranking shifts between requests.
+ */
+export class CustomerListService {
+  /**
+   * Return one page of the customers matching `query`
+   */
+  page(customers: PrioritizedCustomer[], query: CustomerListQuery = {}): CustomerPage {
+    const sort = query.sort ?? 'priority';
+    const limit = Math.max(1, query.limit ?? 5);
+
+    const matched = customers
+      .filter(customer => this.matches(customer, query))
+      .sort((a, b) => this.compare(a, b, sort));
+
+    let start = 0;
+    if (query.cursor) {
+      const cursor = decodeCustomerCursor(query.cursor, sort);
+      if (!cursor) throw new Error(`Invalid cursor for sort "${sort}"`);
+      start = matched.findIndex(customer => this.isAfter(customer, cursor));
+      if (start === -1) start = matched.length;
+    }
+
+    const page = matched.slice(start, start + limit);
+    const last = page[page.length - 1];
+    const hasMore = start + limit < matched.length;
+
+    return {
+      customers: page,
+      totalMatched: matched.length,
+      nextCursor: hasMore && last ? this.encodeCursor(last, sort) : undefined,
+    };
+  }
+
+  private matches(customer: PrioritizedCustomer, query: CustomerListQuery): boolean {
+    if (query.riskLevels?.length && !query.riskLevels.includes(customer.riskScore.riskLevel)) return false;
+    if (query.minBalance !== undefined && customer.totalOutstanding < query.minBalance) return false;
+    if (query.minDaysOverdue !== undefined && customer.daysOverdue < query.minDaysOverdue) return false;
+    if (query.collector && customer.collector?.toLowerCase() !== query.collector.toLowerCase()) return false;
+    if (query.search && !customer.customerName.toLowerCase().includes(query.search.toLowerCase())) return false;
+    return true;
+  }
+
+  /** Highest sort value first; customer ID ascending breaks ties. */
+  private compare(a: PrioritizedCustomer, b: PrioritizedCustomer, sort: CustomerSortField): number {
+    return sortValue(b, sort) - sortValue(a, sort) || a.customerId.localeCompare(b.customerId);
+  }
+
+  private isAfter(customer: PrioritizedCustomer, cursor: CustomerCursor): boolean {
+    const value = sortValue(customer, cursor.sort);
+    return value < cursor.value || (value === cursor.value && customer.customerId.localeCompare(cursor.customerId) > 0);
+  }
+
+  private encodeCursor(customer: PrioritizedCustomer, sort: CustomerSortField): string {
+    const cursor: CustomerCursor = { sort, value: sortValue(customer, sort), customerId: customer.customerId };
+    return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+  }
+}
+
+function sortValue(customer: PrioritizedCustomer, sort: CustomerSortField): number {
+  switch (sort) {
+    case 'priority':       return customer.priority;
+    case 'balance':        return customer.totalOutstanding;
+    case 'oldest-invoice': return customer.daysOverdue;
+  }
+}
@@ -0,0 +1,185 @@
+import { randomUUID } from 'crypto';
+import {
+  ARAgingData,
+  Dispute,
+  DisputeReason,
+  DisputeResolution,
+  DisputeStatus,
+  DisputeUpdate,
+  Invoice,
+} from '../types';
+
+export const DISPUTE_REASONS: DisputeReason[] = [
+  'pricing', 'quantity', 'damaged-goods', 'not-received', 'duplicate-billing', 'service-issue', 'other',
+];
+
+export const DISPUTE_STATUSES: DisputeStatus[] = ['open', 'under-review', 'resolved'];
+
+export const DISPUTE_RESOLUTIONS: DisputeResolution[] = ['credited', 'partially-credited', 'rejected', 'withdrawn'];
+
+/** Amounts below half a cent are treated as zero. */
+const EPSILON = 0.005;
+
+/**
+ * Dispute Service
+ *
+ * Opens, updates and resolves invoice disputes, and lays unresolved ones over
+ * the ERP's aging data so the disputed amounts are held out of dunning and
+ * aging risk until they are settled. A credit granted on resolution stays
+ * held out until the ERP posts it. Persistence is left to the caller.
+ */
+export class DisputeService {
+  /**
+   * Open a dispute on an invoice. `amount` defaults to everything still
+   * outstanding on it and may not exceed that.
+   */
+  createDispute(
+    customerId: string,
+    invoice: Invoice,
+    reason: DisputeReason,
+    options: { amount?: number; owner?: string; description?: string; author?: string } = {},
+  ): Dispute {
+    if (!DISPUTE_REASONS.includes(reason)) {
+      throw new Error(`Unknown dispute reason "${reason}". Use one of: ${DISPUTE_REASONS.join(', ')}`);
+    }
+    const amount = round(options.amount ?? invoice.amountOutstanding);
+    this.checkAmount(amount, invoice.amountOutstanding);
+
+    const now = new Date().toISOString();
+    return {
+      disputeId: randomUUID(),
+      customerId,
+      invoiceId: invoice.invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      reason,
+      amount,
+      currency: invoice.currency,
+      status: 'open',
+      owner: options.owner,
+      description: options.description,
+      openedDate: now,
+      updatedDate: now,
+      notes: options.description ? [{ date: now, author: options.author, text: options.description }] : [],
+    };
+  }
+
+  /**
+   * Apply changes to an unresolved dispute. `outstanding` is the invoice's
+   * current open amount, used to check a new disputed amount.
+   */
+  update(dispute: Dispute, changes: DisputeUpdate, outstanding?: number): Dispute {
+    if (dispute.status === 'resolved') throw new Error(`Dispute ${dispute.disputeId} is already resolved`);
+    if (changes.status !== undefined && !DISPUTE_STATUSES.includes(changes.status)) {
+      throw new Error(`Unknown dispute status "${changes.status}". Use resolveDispute to close a dispute`);
+    }
+    if (changes.reason !== undefined && !DISPUTE_REASONS.includes(changes.reason)) {
+      throw new Error(`Unknown dispute reason "${changes.reason}". Use one of: ${DISPUTE_REASONS.join(', ')}`);
+    }
+    if (changes.amount !== undefined) this.checkAmount(changes.amount, outstanding);
+
+    const now = new Date().toISOString();
+    return {
+      ...dispute,
+      status: changes.status ?? dispute.status,
+      owner: changes.owner ?? dispute.owner,
+      reason: changes.reason ?? dispute.reason,
+      amount: changes.amount !== undefined ? round(changes.amount) : dispute.amount,
+      updatedDate: now,
+      notes: changes.note ? [...dispute.notes, { date: now, author: changes.author, text: changes.note }] : dispute.notes,
+    };
+  }
+
+  /**
+   * Close a dispute. A credit (in the invoice currency) is required for
+   * "partially-credited" and defaults to the disputed amount for "credited".
+   * `invoice` is the invoice as the ERP has it now; with a credit, its amounts
+   * are kept to tell when the ERP has posted the credit.
+   */
+  resolve(dispute: Dispute, resolution: DisputeResolution, notes?: string, creditAmount?: number, invoice?: Invoice): Dispute {
+    if (dispute.status === 'resolved') throw new Error(`Dispute ${dispute.disputeId} is already resolved`);
+    if (!DISPUTE_RESOLUTIONS.includes(resolution)) {
+      throw new Error(`Unknown dispute resolution "${resolution}". Use one of: ${DISPUTE_RESOLUTIONS.join(', ')}`);
+    }
+
+    let credit: number | undefined;
+    if (resolution === 'credited') {
+      credit = round(creditAmount ?? dispute.amount);
+    } else if (resolution === 'partially-credited') {
+      if (creditAmount === undefined) throw new Error('creditAmount is required for a partially-credited dispute');
+      credit = round(creditAmount);
+    } else if (creditAmount !== undefined) {
+      throw new Error(`A ${resolution} dispute carries no credit`);
+    }
+    if (credit !== undefined && !(credit > 0 && credit <= dispute.amount + EPSILON)) {
+      throw new Error(`creditAmount must be above zero and no more than the disputed ${dispute.amount}`);
+    }
+
+    const now = new Date().toISOString();
+    return {
+      ...dispute,
+      status: 'resolved',
+      resolution,
+      creditAmount: credit,
+      invoiceAtResolution: credit !== undefined && invoice
+        ? { amountOutstanding: invoice.amountOutstanding, amountPaid: invoice.amountPaid }
+        : undefined,
+      resolutionNotes: notes,
+      resolvedDate: now,
+      updatedDate: now,
+    };
+  }
+
+  /**
+   * Part of a resolved dispute's credit the ERP hasn't posted yet: the credit
+   * less how far the invoice's open amount has dropped since the dispute was
+   * resolved, not counting payments. Zero without a credit, or for disputes
+   * resolved before the invoice amounts were kept.
+   */
+  pendingCredit(dispute: Dispute, invoice: Invoice): number {
+    const before = dispute.invoiceAtResolution;
+    if (dispute.status !== 'resolved' || !dispute.creditAmount || !before) return 0;
+    const credited = (before.amountOutstanding - invoice.amountOutstanding) - (invoice.amountPaid - before.amountPaid);
+    return round(Math.min(Math.max(dispute.creditAmount - credited, 0), dispute.creditAmount));
+  }
+
+  /**
+   * Mark the invoices under an unresolved local dispute, or with a credit the
+   * ERP hasn't posted yet, as disputed. Where the ERP already flags an invoice
+   * the larger of the two amounts is kept, so a dispute recorded in both
+   * places is not counted twice.
+   */
+  applyDisputes(arData: ARAgingData, disputes: Dispute[]): ARAgingData {
+    if (!disputes.some(d => d.status !== 'resolved' || d.creditAmount)) return arData;
+
+    return {
+      ...arData,
+      invoices: arData.invoices.map(invoice => {
+        const onInvoice = disputes.filter(d => d.invoiceId === invoice.invoiceId);
+        const held = onInvoice
+          .map(d => ({ dispute: d, amount: d.status === 'resolved' ? this.pendingCredit(d, invoice) : d.amount }))
+          .filter(h => h.amount >= EPSILON);
+        if (held.length === 0) return invoice;
+
+        const local = held.reduce((sum, h) => sum + h.amount, 0);
+        const unresolved = held.find(h => h.dispute.status !== 'resolved') ?? held[0];
+        return {
+          ...invoice,
+          disputedAmount: round(Math.min(Math.max(invoice.disputedAmount ?? 0, local), invoice.amountOutstanding)),
+          disputeReason: invoice.disputeReason ?? unresolved.dispute.reason,
+          disputeId: unresolved.dispute.disputeId,
+        };
+      }),
+    };
+  }
+
+  private checkAmount(amount: number, outstanding: number | undefined): void {
+    if (!(amount > 0)) throw new Error('Disputed amount must be above zero');
+    if (outstanding !== undefined && amount > outstanding + EPSILON) {
+      throw new Error(`Disputed amount ${amount} is more than the ${outstanding} outstanding on the invoice`);
+    }
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
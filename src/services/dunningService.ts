@@ -1,73 +1,127 @@
-import { AzureOpenAI } from 'openai';
-import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
-import { ARAgingData, RiskScore } from '../types';
+import { ARAgingData, DunningTemplate, DunningTemplateRef, Invoice, RiskScore, TemplateMode } from '../types';
+import { excludeDisputedAmounts, oldestDaysOverdue, overdueAmount, resolveAgingBuckets, unknownAmounts } from './agingService';
+import { CurrencyService, formatCurrency } from './currencyService';
+import { dunningMessages, formatDate } from './localeService';
+import { TEMPLATE_MODES, escapeHtml, renderHtmlTemplate, renderTemplate } from './dunningTemplateService';
+import type { TemplateVariable } from './dunningTemplateService';
+import { LLMOutputError, LLMProvider, completeValidated, getLLMProvider, parseJsonReply } from '../llm';
+import type { JsonSchema } from '../llm';
 
+/** Shape of the model's dunning email reply. */
+const DUNNING_EMAIL_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', minLength: 1 },
+    body:    { type: 'string', minLength: 1, description: 'HTML email body' },
+  },
+  required: ['subject', 'body'],
+};
+
+/**
+ * Dunning Service
+ *
+ * Writes dunning emails from the stage templates and Teams follow-ups.
+ * Configured from DUNNING_TEMPLATE_MODE — how templates without a mode of
+ * their own are used — and PAYMENT_LINK_URL, the customer's pay link with
+ * {{customerId}} in place of the customer ID.
+ */
 export class DunningService {
-  private client: AzureOpenAI;
-  private deploymentName: string;
-
-  constructor() {
-    const endpoint = process.env.AZURE_OPENAI_ENDPOINT || '';
-    const apiKey = process.env.AZURE_OPENAI_API_KEY || '';
-    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2025-01-01-preview';
-    this.deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-5';
-    
-    // Use Microsoft Entra ID if API key is not provided, otherwise use API key
-    if (!apiKey) {
-      const credential = new DefaultAzureCredential();
-      const scope = 'https://cognitiveservices.azure.com/.default';
-      const azureADTokenProvider = getBearerTokenProvider(credential, scope);
-      this.client = new AzureOpenAI({
-        endpoint,
-        azureADTokenProvider,
-        deployment: this.deploymentName,
-        apiVersion,
-      });
-    } else {
-      this.client = new AzureOpenAI({
-        endpoint,
-        apiKey,
-        deployment: this.deploymentName,
-        apiVersion,
-      });
+  private llm: LLMProvider;
+  private currency: CurrencyService;
+  private templateMode: TemplateMode;
+  private paymentLinkUrl?: string;
+
+  constructor(llm: LLMProvider = getLLMProvider()) {
+    this.llm = llm;
+    this.currency = new CurrencyService();
+    this.templateMode = (process.env.DUNNING_TEMPLATE_MODE || 'llm-guided') as TemplateMode;
+    if (!TEMPLATE_MODES.includes(this.templateMode)) {
+      throw new Error(`Unknown DUNNING_TEMPLATE_MODE "${this.templateMode}". Use ${TEMPLATE_MODES.join(', ')}`);
     }
+    this.paymentLinkUrl = process.env.PAYMENT_LINK_URL || undefined;
   }
 
   /**
-   * Generate personalized dunning email content using GenAI
+   * Generate a dunning email from a template. In deterministic mode the
+   * template is rendered as written; in llm-guided mode the rendered email and
+   * the template's style are given to the LLM to write from, falling back to
+   * the rendered email when it fails or its reply — after one repair round —
+   * is not a JSON subject and body or quotes amounts that aren't in the AR
+   * data. Amounts under dispute are left out of
+   * the balance asked for. The email is written in the language of `locale`
+   * (e.g. "de-DE") with amounts formatted for it; without one it is in English.
+   * `statementAttached` says a statement of account goes with the email.
    */
   async generateDunningEmail(
     customerName: string,
     arData: ARAgingData,
-    riskScore: RiskScore
-  ): Promise<{ subject: string; body: string }> {
-    const prompt = `Generate a professional but firm dunning email for the following customer:
+    riskScore: RiskScore,
+    template: DunningTemplate,
+    locale?: string,
+    statementAttached: boolean = false
+  ): Promise<{ subject: string; body: string; template: DunningTemplateRef }> {
+    arData = excludeDisputedAmounts(arData, this.currency);
+    const variables = this.templateVariables(customerName, arData, riskScore, template, locale, statementAttached);
+    const rendered = {
+      subject: renderTemplate(template.subject, variables).trim(),
+      body: renderHtmlTemplate(template.body, variables),
+    };
+    const reference = (mode: TemplateMode): DunningTemplateRef =>
+      ({ templateId: template.templateId, version: template.version, mode });
+
+    if ((template.mode ?? this.templateMode) === 'deterministic') {
+      return { ...rendered, template: reference('deterministic') };
+    }
+
+    const money = this.customerMoney(arData, locale);
+    const balances = arData.currencyBalances ?? [];
+    // Customers invoiced in several currencies also get their balance per currency
+    const currencySection = balances.some(b => b.currency !== money.currency)
+      ? `\nOpen balance by invoice currency:\n${balances.map(b => `- ${formatCurrency(b.amount, b.currency, locale)}`).join('\n')}\n`
+      : '';
+    const disputed = disputedInvoices(arData);
+    const disputeSection = disputed.length > 0
+      ? `\nOn hold pending dispute resolution — already left out of the amounts above; do not request payment for these:\n${disputed
+        .map(inv => `- Invoice ${inv.invoiceNumber ?? inv.invoiceId}: ${formatCurrency(inv.disputedAmount as number, inv.currency, locale)}${inv.disputeReason ? ` (${inv.disputeReason})` : ''}`)
+        .join('\n')}\n`
+      : '';
+    const languageSection = locale
+      ? `\nWrite the subject and body in ${dunningMessages(locale).languageName} (${locale}), formatting any dates and amounts for that locale.\n`
+      : '';
+    const prompt = `Generate a dunning email for the following customer:
 
 Customer Name: ${customerName}
-Total Outstanding: $${arData.totalOutstanding.toFixed(2)}
+Total Outstanding: ${money.total}
 Risk Level: ${riskScore.riskLevel}
 
 Aging Breakdown:
-- Current: $${arData.current.toFixed(2)}
-- 30 days overdue: $${arData.days30.toFixed(2)}
-- 60 days overdue: $${arData.days60.toFixed(2)}
-- 90 days overdue: $${arData.days90.toFixed(2)}
-- 120+ days overdue: $${arData.days120Plus.toFixed(2)}
+${resolveAgingBuckets(arData, this.currency).buckets
+  .map(b => `- ${b.label}${b.minDays > 0 ? ' overdue' : ''}: ${money.format(b.amount)}`)
+  .join('\n')}
+${currencySection}${disputeSection}
+Number of overdue invoices: ${arData.invoices.filter(inv => inv.daysOverdue > 0 && inv.amountOutstanding > 0).length}${statementAttached
+  ? '\nA PDF statement of account listing each open invoice is attached to the email.'
+  : ''}
+
+Style: ${template.style}
 
-Number of overdue invoices: ${arData.invoices.filter(inv => inv.daysOverdue > 0).length}
+Base the email on this template draft. Keep its facts, deadlines, tables and links; you may reword the text to suit the customer:
+Subject: ${rendered.subject}
+${rendered.body}
 
 The email should:
 1. Be professional and respectful
 2. Clearly state the outstanding balance and overdue amounts
-3. Request immediate payment or contact to discuss payment arrangements
+3. Follow the style above
 4. Include a sense of urgency appropriate to the risk level
 5. Offer assistance if they have questions
-
+6. Quote amounts exactly as given above, including the currency
+7. Not ask for payment of any amount under dispute
+${languageSection}
 Format the response as JSON with "subject" and "body" fields. The body should be in HTML format.`;
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
+      const email = await completeValidated(this.llm, {
         messages: [
           {
             role: 'system',
@@ -78,52 +132,55 @@ Format the response as JSON with "subject" and "body" fields. The body should be
             content: prompt,
           },
         ],
-        max_completion_tokens: 800,
-        // temperature removed - this model only supports default value
+        maxTokens: 1200,
+      }, content => {
+        const reply = parseJsonReply<{ subject: string; body: string }>(content, DUNNING_EMAIL_SCHEMA);
+        this.checkAmounts(`${reply.subject}\n${htmlText(reply.body)}`, arData, locale, content);
+        return reply;
       });
 
-      const content = response.choices[0]?.message?.content || '';
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      
-      if (jsonMatch) {
-        const parsed = JSON.parse(jsonMatch[0]);
-        return {
-          subject: parsed.subject,
-          body: parsed.body,
-        };
-      }
-
-      return this.getFallbackEmail(customerName, arData, riskScore.riskLevel);
+      return { subject: email.subject, body: email.body, template: reference('llm-guided') };
     } catch (error) {
-      console.error('Error generating dunning email:', error);
-      return this.getFallbackEmail(customerName, arData, riskScore.riskLevel);
+      if (error instanceof LLMOutputError) {
+        console.warn(`Generated dunning email rejected (${error.message}); sending the rendered template`);
+      } else {
+        console.error('Error generating dunning email:', error);
+      }
+      return { ...rendered, template: reference('deterministic') };
     }
   }
 
   /**
-   * Generate Teams message for collections follow-up
+   * Generate Teams message for collections follow-up, leaving out amounts
+   * under dispute, in the language of `locale` like generateDunningEmail.
+   * Replies are checked the same way; the standard message is used instead
+   * of an empty one or one that quotes amounts not in the AR data.
    */
   async generateTeamsMessage(
     customerName: string,
     arData: ARAgingData,
-    riskScore: RiskScore
+    riskScore: RiskScore,
+    locale?: string
   ): Promise<string> {
+    arData = excludeDisputedAmounts(arData, this.currency);
     const prompt = `Generate a professional Teams chat message to follow up on overdue payments:
 
 Customer: ${customerName}
-Total Outstanding: $${arData.totalOutstanding.toFixed(2)}
+Total Outstanding: ${this.customerMoney(arData, locale).total}
 Risk Level: ${riskScore.riskLevel}
-Most overdue invoice: ${arData.invoices.sort((a, b) => b.daysOverdue - a.daysOverdue)[0]?.daysOverdue || 0} days
+Most overdue invoice: ${arData.invoices.filter(inv => inv.amountOutstanding > 0).sort((a, b) => b.daysOverdue - a.daysOverdue)[0]?.daysOverdue || 0} days${arData.disputedAmount
+  ? `\nUnder dispute (do not chase): ${formatCurrency(arData.disputedAmount, arData.currency, locale)}`
+  : ''}
 
 The message should be:
 1. Brief and conversational (suitable for Teams chat)
 2. Professional but friendly
 3. Request payment or discussion
-4. No more than 3-4 sentences`;
+4. No more than 3-4 sentences${locale ? `
+5. Written in ${dunningMessages(locale).languageName} (${locale})` : ''}`;
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
+      return await completeValidated(this.llm, {
         messages: [
           {
             role: 'system',
@@ -134,52 +191,133 @@ The message should be:
             content: prompt,
           },
         ],
-        max_completion_tokens: 200,
-        // temperature removed - this model only supports default value
+        maxTokens: 200,
+      }, content => {
+        if (!content.trim()) throw new LLMOutputError('empty', ['no message text'], content);
+        this.checkAmounts(content, arData, locale, content);
+        return content.trim();
       });
-
-      return response.choices[0]?.message?.content || this.getFallbackTeamsMessage(customerName, arData);
     } catch (error) {
-      console.error('Error generating Teams message:', error);
-      return this.getFallbackTeamsMessage(customerName, arData);
+      if (error instanceof LLMOutputError) {
+        console.warn(`Generated Teams message rejected (${error.message}); sending the standard one`);
+      } else {
+        console.error('Error generating Teams message:', error);
+      }
+      return this.getFallbackTeamsMessage(customerName, arData, locale);
     }
   }
 
-  private getFallbackEmail(
+  /**
+   * Values of the template variables for a customer: amounts and dates
+   * formatted for the locale, HTML tables for the aging summary and overdue
+   * invoices, and the customer's pay link when PAYMENT_LINK_URL is set.
+   */
+  private templateVariables(
     customerName: string,
     arData: ARAgingData,
-    riskLevel: string
-  ): { subject: string; body: string } {
-    const urgency = riskLevel === 'high' ? 'URGENT: ' : '';
-    
+    riskScore: RiskScore,
+    template: DunningTemplate,
+    locale: string | undefined,
+    statementAttached: boolean
+  ): Record<TemplateVariable, string> {
+    const text = dunningMessages(locale);
+    const money = this.customerMoney(arData, locale);
+    const { buckets } = resolveAgingBuckets(arData, this.currency);
+    const overdue = money.format(overdueAmount(buckets));
+
+    // Overdue balance by aging bucket, e.g. "1–15 days past due"
+    const overdueRows = buckets
+      .filter(b => b.minDays > 0 && b.amount > 0)
+      .map(b => `<tr><td style="padding: 5px 5px 5px 20px;">${text.overdueBucket(b)}</td><td style="padding: 5px;">${money.format(b.amount)}</td></tr>`)
+      .join('\n    ');
+    const agingSummary = `<table style="border-collapse: collapse; margin: 20px 0;">
+    <tr><td style="padding: 5px;"><strong>${text.totalOutstanding}</strong></td><td style="padding: 5px;">${money.total}</td></tr>
+    <tr><td style="padding: 5px;"><strong>${text.amountOverdue}</strong></td><td style="padding: 5px;">${overdue}</td></tr>
+    ${overdueRows}
+  </table>`;
+
+    const cell = 'border: 1px solid #ddd; padding: 8px;';
+    const headings = text.invoiceTable;
+    const invoiceRows = arData.invoices
+      .filter(inv => inv.daysOverdue > 0 && inv.amountOutstanding > 0)
+      .sort((a, b) => b.daysOverdue - a.daysOverdue)
+      .map(inv => `<tr><td style="${cell}">${escapeHtml(inv.invoiceNumber ?? inv.invoiceId)}</td><td style="${cell}">${formatDate(inv.dueDate, locale)}</td>` +
+        `<td style="${cell} text-align: right;">${inv.daysOverdue}</td>` +
+        `<td style="${cell} text-align: right;">${formatCurrency(inv.amountOutstanding, inv.currency ?? arData.currency, locale)}</td></tr>`)
+      .join('\n    ');
+    const invoiceTable = invoiceRows && `<table style="border-collapse: collapse; margin: 20px 0;">
+    <tr style="background-color: #f0f0f0;"><th style="${cell} text-align: left;">${headings.invoice}</th><th style="${cell} text-align: left;">${headings.dueDate}</th>` +
+      `<th style="${cell} text-align: right;">${headings.daysOverdue}</th><th style="${cell} text-align: right;">${headings.amount}</th></tr>
+    ${invoiceRows}
+  </table>`;
+
+    const disputed = disputedInvoices(arData);
     return {
-      subject: `${urgency}Outstanding Balance - Action Required`,
-      body: `
-        <html>
-        <body style="font-family: Arial, sans-serif;">
-          <p>Dear ${customerName},</p>
-          
-          <p>We are writing to inform you of an outstanding balance on your account:</p>
-          
-          <table style="border-collapse: collapse; margin: 20px 0;">
-            <tr><td style="padding: 5px;"><strong>Total Outstanding:</strong></td><td style="padding: 5px;">$${arData.totalOutstanding.toFixed(2)}</td></tr>
-            <tr><td style="padding: 5px;"><strong>Amount Overdue:</strong></td><td style="padding: 5px;">$${(arData.days30 + arData.days60 + arData.days90 + arData.days120Plus).toFixed(2)}</td></tr>
-          </table>
-          
-          <p>Please remit payment immediately or contact us to discuss payment arrangements.</p>
-          
-          <p>If you have already made this payment, please disregard this notice.</p>
-          
-          <p>Thank you for your prompt attention to this matter.</p>
-          
-          <p>Best regards,<br/>Accounts Receivable Team</p>
-        </body>
-        </html>
-      `,
+      customerName,
+      customerId: arData.customerId,
+      language: locale ?? template.language,
+      totalOutstanding: money.total,
+      amountOverdue: overdue,
+      oldestDaysOverdue: String(oldestDaysOverdue(arData, this.currency)),
+      agingSummary,
+      invoiceTable,
+      disputeNote: disputed.length > 0
+        ? `<p>${text.disputeNote(disputed.map(inv => escapeHtml(inv.invoiceNumber ?? inv.invoiceId)))}</p>`
+        : '',
+      payLink: this.paymentLinkUrl
+        ? renderTemplate(this.paymentLinkUrl, { customerId: encodeURIComponent(arData.customerId) })
+        : '',
+      highRisk: riskScore.riskLevel === 'high' ? 'yes' : '',
+      statementAttached: statementAttached ? 'yes' : '',
     };
   }
 
-  private getFallbackTeamsMessage(customerName: string, arData: ARAgingData): string {
-    return `Hi, I wanted to follow up regarding the outstanding balance of $${arData.totalOutstanding.toFixed(2)} on ${customerName}'s account. Could we schedule a quick call to discuss payment or arrange a payment plan? Thanks!`;
+  /** Throw when generated text quotes an amount that isn't one of the account's figures. */
+  private checkAmounts(text: string, arData: ARAgingData, locale: string | undefined, output: string): void {
+    const unknown = unknownAmounts(text, arData, this.currency, locale);
+    if (unknown.length > 0) {
+      throw new LLMOutputError('amount', unknown.map(a => `${a.text} is not an amount in the account data`), output);
+    }
+  }
+
+  private getFallbackTeamsMessage(customerName: string, arData: ARAgingData, locale?: string): string {
+    return dunningMessages(locale).teamsFollowUp(this.customerMoney(arData, locale).total, customerName);
+  }
+
+  /**
+   * Customer-facing money formatting. Aging amounts are in the reporting
+   * currency; they are shown in the customer's invoice currency when all
+   * their open invoices share one, otherwise in the reporting currency, and
+   * formatted for the customer's locale when there is one.
+   */
+  private customerMoney(arData: ARAgingData, locale?: string): {
+    currency: string;
+    total: string;
+    format: (reportingAmount: number) => string;
+  } {
+    const { currency, totalOutstanding } = this.currency.customerCurrency(arData);
+    return {
+      currency,
+      total:  formatCurrency(totalOutstanding, currency, locale),
+      format: (reportingAmount: number) =>
+        formatCurrency(this.currency.convert(reportingAmount, arData.currency, currency), currency, locale),
+    };
   }
 }
+
+/** Invoices with an amount on hold for a dispute. */
+function disputedInvoices(arData: ARAgingData): Invoice[] {
+  return arData.invoices.filter(inv => (inv.disputedAmount ?? 0) > 0);
+}
+
+/** Visible text of an HTML email, with the entities a model might use for currency symbols decoded. */
+function htmlText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&euro;/gi, '€')
+    .replace(/&pound;/gi, '£')
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/gi, '&');
+}
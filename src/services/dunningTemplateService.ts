@@ -0,0 +1,258 @@
+import type { CollectionsStore } from '../store';
+import { DUNNING_LANGUAGES, dunningMessages } from './localeService';
+import type { DunningLanguage } from './localeService';
+import {
+  DunningStage,
+  DunningTemplate,
+  DunningTemplateEdit,
+  DunningTone,
+  TemplateMode,
+} from '../types';
+
+export const DUNNING_STAGES: DunningStage[] = ['friendly-reminder', 'second-notice', 'final-demand', 'pre-legal'];
+
+export const TEMPLATE_MODES: TemplateMode[] = ['deterministic', 'llm-guided'];
+
+/** Variables a template can use, filled in per customer when an email is generated. */
+export const TEMPLATE_VARIABLES = [
+  'customerName',
+  'customerId',
+  // Locale or language of the email, for <html lang>
+  'language',
+  'totalOutstanding',
+  'amountOverdue',
+  'oldestDaysOverdue',
+  // Table of the balance and its overdue aging buckets
+  'agingSummary',
+  // Table of the overdue invoices, oldest first
+  'invoiceTable',
+  // Paragraph naming the invoices on hold for a dispute; empty when none are
+  'disputeNote',
+  // PAYMENT_LINK_URL for the customer; empty when not configured
+  'payLink',
+  // "yes" for high-risk customers, else empty
+  'highRisk',
+  // "yes" when a PDF statement of account is attached, else empty
+  'statementAttached',
+] as const;
+
+export type TemplateVariable = typeof TEMPLATE_VARIABLES[number];
+
+/** Variables whose values are HTML already; the rest are escaped in an email body. */
+const HTML_VARIABLES: TemplateVariable[] = ['agingSummary', 'invoiceTable', 'disputeNote'];
+
+/** Tone and wording the LLM follows for each stage's built-in template. */
+const BUILT_IN_STYLES: Record<DunningStage, string> = {
+  'friendly-reminder':
+    'Friendly but clear payment reminder. Assume the customer has overlooked the invoices; keep it short and warm and offer help with any questions.',
+  'second-notice':
+    'Professional but firm dunning email. State that the balance is overdue and ask for payment or contact to discuss payment arrangements.',
+  'final-demand':
+    'Final notice. Formal and firm: give the 7-day deadline and say a payment plan is available if the customer gets in touch now.',
+  'pre-legal':
+    'Last notice before the account is referred for further collection steps. Formal and factual: give the 10-day deadline. ' +
+    'Do not threaten legal action, court, or damage to the customer\'s credit or reputation.',
+};
+
+/** Stages that list every overdue invoice rather than just the aging summary. */
+const INVOICE_TABLE_STAGES: DunningStage[] = ['final-demand', 'pre-legal'];
+
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+const VARIABLE = /\{\{(\w+)\}\}/g;
+
+/**
+ * Fill in a template: {{name}} is replaced by the variable's value and
+ * {{#name}}…{{/name}} is kept only when the variable is not empty.
+ */
+export function renderTemplate(text: string, variables: Partial<Record<TemplateVariable, string>>): string {
+  const value = (name: string) => variables[name as TemplateVariable] ?? '';
+  return text
+    .replace(SECTION, (_, name: string, inner: string) => (value(name) ? inner : ''))
+    .replace(VARIABLE, (_, name: string) => value(name));
+}
+
+/**
+ * Fill in an HTML email body: like renderTemplate, but every value except the
+ * aging summary, invoice table and dispute note is HTML-escaped, so a customer
+ * name such as "Smith & <Jones>" can't break or inject markup.
+ */
+export function renderHtmlTemplate(text: string, variables: Partial<Record<TemplateVariable, string>>): string {
+  const escaped = Object.fromEntries(Object.entries(variables).map(([name, value]) =>
+    [name, HTML_VARIABLES.includes(name as TemplateVariable) ? value : escapeHtml(value ?? '')]));
+  return renderTemplate(text, escaped);
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Throw when a template uses an unknown variable or leaves a section open. */
+export function validateTemplateText(text: string): void {
+  const withoutSections = text.replace(SECTION, (_, name: string, inner: string) => `{{${name}}}${inner}`);
+  const unclosed = withoutSections.match(/\{\{[#/](\w+)\}\}/);
+  if (unclosed) {
+    throw new Error(`Template section "${unclosed[0]}" is not opened and closed with {{#${unclosed[1]}}}…{{/${unclosed[1]}}}`);
+  }
+  for (const [, name] of withoutSections.matchAll(VARIABLE)) {
+    if (!(TEMPLATE_VARIABLES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown template variable "{{${name}}}". Use ${TEMPLATE_VARIABLES.join(', ')}`);
+    }
+  }
+}
+
+/** Stage an API tone maps to; no tone is the firm second notice. */
+export function stageForTone(tone: DunningTone = 'firm'): DunningStage {
+  return tone === 'reminder' ? 'friendly-reminder' : 'second-notice';
+}
+
+/**
+ * Stage of a cadence email from its escalation level — how many email steps
+ * come before it in the cadence — so each email is firmer than the last:
+ * friendly reminder, second notice, final demand, then pre-legal for the
+ * fourth and any later email.
+ */
+export function stageForEscalation(level: number): DunningStage {
+  return DUNNING_STAGES[Math.min(Math.max(level, 0), DUNNING_STAGES.length - 1)];
+}
+
+/**
+ * Dunning Template Service
+ *
+ * Versioned dunning email templates, one per stage — friendly reminder,
+ * second notice, final demand, pre-legal — and language. Each change adds a
+ * version and the newest one is used; earlier versions are kept so every
+ * email can be traced to the template that produced it. Version 1 is the
+ * built-in template, stored the first time it is used.
+ *
+ * Rendering is deterministic; whether the LLM rewrites the result is decided
+ * by DunningService from the template's mode.
+ */
+export class DunningTemplateService {
+  private store: CollectionsStore;
+
+  constructor(store: CollectionsStore) {
+    this.store = store;
+  }
+
+  /** Newest version of the template for a stage and language. */
+  async getTemplate(stage: DunningStage, language: DunningLanguage): Promise<DunningTemplate> {
+    const versions = await this.listVersions(stage, language);
+    return versions[versions.length - 1];
+  }
+
+  /** Every version of the template for a stage and language, oldest first. */
+  async listVersions(stage: DunningStage, language: DunningLanguage): Promise<DunningTemplate[]> {
+    const templateId = templateIdOf(stage, language);
+    const versions = await this.store.listByCustomer<DunningTemplate>('dunning_templates', templateId);
+    if (versions.length > 0) return versions.sort((a, b) => a.version - b.version);
+
+    const builtIn = builtInTemplate(stage, language);
+    await this.save(builtIn);
+    return [builtIn];
+  }
+
+  /** Newest version of every stage's template in every language. */
+  async listTemplates(): Promise<DunningTemplate[]> {
+    const templates: DunningTemplate[] = [];
+    for (const stage of DUNNING_STAGES) {
+      for (const language of DUNNING_LANGUAGES) {
+        templates.push(await this.getTemplate(stage, language));
+      }
+    }
+    return templates;
+  }
+
+  /** Add a version of a template: the newest one with the changes applied. */
+  async createVersion(
+    stage: DunningStage,
+    language: DunningLanguage,
+    changes: DunningTemplateEdit,
+    createdBy?: string,
+  ): Promise<DunningTemplate> {
+    if (!DUNNING_STAGES.includes(stage)) {
+      throw new Error(`Unknown dunning stage "${stage}". Use ${DUNNING_STAGES.join(', ')}`);
+    }
+    if (!DUNNING_LANGUAGES.includes(language)) {
+      throw new Error(`Unsupported template language "${language}". Use ${DUNNING_LANGUAGES.join(', ')}`);
+    }
+    if (changes.mode !== undefined && !TEMPLATE_MODES.includes(changes.mode)) {
+      throw new Error(`Unknown template mode "${changes.mode}". Use ${TEMPLATE_MODES.join(', ')}`);
+    }
+    validateTemplateText(changes.subject ?? '');
+    validateTemplateText(changes.body ?? '');
+
+    const latest = await this.getTemplate(stage, language);
+    const template: DunningTemplate = {
+      templateId:  latest.templateId,
+      stage,
+      language,
+      version:     latest.version + 1,
+      subject:     changes.subject ?? latest.subject,
+      body:        changes.body ?? latest.body,
+      style:       changes.style ?? latest.style,
+      mode:        changes.mode ?? latest.mode,
+      createdDate: new Date().toISOString(),
+      createdBy,
+      comment:     changes.comment,
+    };
+    await this.save(template);
+    return template;
+  }
+
+  private async save(template: DunningTemplate): Promise<void> {
+    await this.store.put<DunningTemplate>(
+      'dunning_templates',
+      `${template.templateId}@${template.version}`,
+      template.templateId,
+      template,
+    );
+  }
+}
+
+function templateIdOf(stage: DunningStage, language: DunningLanguage): string {
+  return `${stage}.${language}`;
+}
+
+/** Version 1 of a stage's template, from the fixed text for the language. */
+function builtInTemplate(stage: DunningStage, language: DunningLanguage): DunningTemplate {
+  const text = dunningMessages(language);
+  const wording = text.stages[stage];
+  const urgent = stage === 'friendly-reminder' ? '' : `{{#highRisk}}${text.urgentPrefix}{{/highRisk}}`;
+  return {
+    templateId: templateIdOf(stage, language),
+    stage,
+    language,
+    version: 1,
+    subject: `${urgent}${wording.subject}`,
+    body: `
+<html lang="{{language}}">
+<body style="font-family: Arial, sans-serif;">
+  <p>${text.greeting('{{customerName}}')}</p>
+
+  <p>${wording.intro}</p>
+
+  {{agingSummary}}
+  ${INVOICE_TABLE_STAGES.includes(stage) ? '{{invoiceTable}}\n  ' : ''}{{disputeNote}}
+  <p>${wording.request}</p>
+  {{#payLink}}<p><a href="{{payLink}}">${text.payOnline}</a></p>{{/payLink}}
+  {{#statementAttached}}<p>${text.statement.attached}</p>{{/statementAttached}}
+
+  <p>${text.alreadyPaid}</p>
+
+  <p>${text.thanks}</p>
+
+  <p>${text.signOff}</p>
+</body>
+</html>
+`,
+    style: BUILT_IN_STYLES[stage],
+    createdDate: new Date().toISOString(),
+    createdBy: 'system',
+    comment: 'Built-in template',
+  };
+}
@@ -0,0 +1,453 @@
+import type { DunningStage } from '../types';
+
+/** Languages customer emails, payment plans and Teams follow-ups can be written in. */
+export type DunningLanguage = 'en' | 'de' | 'fr' | 'es';
+
+export const DUNNING_LANGUAGES: DunningLanguage[] = ['en', 'de', 'fr', 'es'];
+
+/** Wording of the built-in dunning template for one stage. */
+export interface StageMessages {
+  subject: string;
+  /** Leads into the balance summary */
+  intro: string;
+  /** What the customer is asked to do */
+  request: string;
+}
+
+/** Fixed text of the built-in templates and payment plan emails in one language. */
+export interface DunningMessages {
+  /** English name of the language, for the LLM prompt */
+  languageName: string;
+  stages: Record<DunningStage, StageMessages>;
+  /** Subject prefix for high-risk customers past the friendly reminder */
+  urgentPrefix: string;
+  greeting: (customerName: string) => string;
+  totalOutstanding: string;
+  amountOverdue: string;
+  /** Row label for an aging bucket's overdue balance */
+  overdueBucket: (bucket: { label: string; minDays: number; maxDays?: number }) => string;
+  /** Note that the listed invoice numbers are on hold for a dispute */
+  disputeNote: (invoices: string[]) => string;
+  /** Column headings of the overdue invoice table */
+  invoiceTable: { invoice: string; dueDate: string; daysOverdue: string; amount: string };
+  /** Text of the pay link */
+  payOnline: string;
+  /** Labels of the PDF statement of account */
+  statement: {
+    title: string;
+    /** Sentence in the email saying the statement is attached */
+    attached: string;
+    /** Attachment file name without the customer ID, date and extension */
+    fileName: string;
+    customer: string;
+    customerId: string;
+    statementDate: string;
+    invoice: string;
+    invoiceDate: string;
+    dueDate: string;
+    amount: string;
+    outstanding: string;
+    daysOverdue: string;
+    totalOutstanding: string;
+    disputed: string;
+    amountDue: string;
+    /** Footnote for invoices marked * */
+    disputedNote: string;
+  };
+  alreadyPaid: string;
+  thanks: string;
+  signOff: string;
+  teamsFollowUp: (amount: string, customerName: string) => string;
+  paymentPlan: {
+    subject: (customerId: string) => string;
+    thanks: (amount: string) => string;
+    disputesExcluded: string;
+    proposal: string;
+    review: string;
+    heading: string;
+    totalAmount: string;
+    numberOfPayments: string;
+    annualInterestRate: string;
+    paymentNumber: string;
+    dueDate: string;
+    amount: string;
+  };
+}
+
+/** "30–59" or "120+" — the days an aging bucket covers. */
+function dayRange(bucket: { minDays: number; maxDays?: number }): string {
+  return bucket.maxDays === undefined ? `${bucket.minDays}+` : `${bucket.minDays}–${bucket.maxDays}`;
+}
+
+const MESSAGES: Record<DunningLanguage, DunningMessages> = {
+  en: {
+    languageName: 'English',
+    stages: {
+      'friendly-reminder': {
+        subject: 'Friendly Reminder - Outstanding Balance',
+        intro: 'This is a friendly reminder that the following balance on your account is past due:',
+        request: 'We would appreciate your payment at your earliest convenience. If you have any questions about these invoices, please let us know.',
+      },
+      'second-notice': {
+        subject: 'Outstanding Balance - Action Required',
+        intro: 'We are writing to inform you of an outstanding balance on your account:',
+        request: 'Please remit payment immediately or contact us to discuss payment arrangements.',
+      },
+      'final-demand': {
+        subject: 'Final Notice - Outstanding Balance',
+        intro: 'Despite our previous reminders, the following balance on your account remains unpaid:',
+        request: 'Please pay the overdue amount within 7 days of this notice. If you are unable to pay in full, contact us now so that we can agree a payment plan.',
+      },
+      'pre-legal': {
+        subject: 'Notice Before Referral - Outstanding Balance',
+        intro: 'Your account remains overdue despite our reminders and final notice:',
+        request: 'Unless the overdue amount is paid, or a payment arrangement is agreed, within 10 days of this notice, we will refer the account for further collection steps. If you believe this balance is incorrect, please contact us straight away.',
+      },
+    },
+    urgentPrefix: 'URGENT: ',
+    greeting: name => `Dear ${name},`,
+    totalOutstanding: 'Total Outstanding:',
+    amountOverdue: 'Amount Overdue:',
+    overdueBucket: bucket => `${bucket.label} past due`,
+    disputeNote: invoices => invoices.length > 1
+      ? `Invoices ${invoices.join(', ')} are under dispute and on hold while we review them; the amounts above do not include them.`
+      : `Invoice ${invoices[0]} is under dispute and on hold while we review it; the amounts above do not include it.`,
+    invoiceTable: { invoice: 'Invoice', dueDate: 'Due Date', daysOverdue: 'Days Overdue', amount: 'Amount' },
+    payOnline: 'Pay your balance online',
+    statement: {
+      title: 'Statement of Account',
+      attached: 'A statement of account listing each open invoice is attached.',
+      fileName: 'Statement',
+      customer: 'Customer',
+      customerId: 'Account',
+      statementDate: 'Statement date',
+      invoice: 'Invoice',
+      invoiceDate: 'Invoice date',
+      dueDate: 'Due date',
+      amount: 'Amount',
+      outstanding: 'Outstanding',
+      daysOverdue: 'Days overdue',
+      totalOutstanding: 'Total outstanding',
+      disputed: 'Under dispute',
+      amountDue: 'Amount due',
+      disputedNote: '* Partly or fully under dispute. Amounts under dispute are on hold and not included in the amount due.',
+    },
+    alreadyPaid: 'If you have already made this payment, please disregard this notice.',
+    thanks: 'Thank you for your prompt attention to this matter.',
+    signOff: 'Best regards,<br/>Accounts Receivable Team',
+    teamsFollowUp: (amount, name) =>
+      `Hi, I wanted to follow up regarding the outstanding balance of ${amount} on ${name}'s account. ` +
+      'Could we schedule a quick call to discuss payment or arrange a payment plan? Thanks!',
+    paymentPlan: {
+      subject: customerId => `Payment Plan Proposal - Account ${customerId}`,
+      thanks: amount => `Thank you for your willingness to resolve your outstanding balance of ${amount}.`,
+      disputesExcluded: 'Invoices under dispute are on hold and not included.',
+      proposal: 'We would like to propose the following payment plan to help you manage this balance:',
+      review: 'Please review this proposal and let us know if you would like to proceed or if you need any adjustments.',
+      heading: 'Proposed Payment Plan',
+      totalAmount: 'Total Amount:',
+      numberOfPayments: 'Number of Payments:',
+      annualInterestRate: 'Annual Interest Rate:',
+      paymentNumber: 'Payment #',
+      dueDate: 'Due Date',
+      amount: 'Amount',
+    },
+  },
+  de: {
+    languageName: 'German',
+    stages: {
+      'friendly-reminder': {
+        subject: 'Freundliche Erinnerung – offener Saldo',
+        intro: 'wir möchten Sie freundlich daran erinnern, dass der folgende Saldo auf Ihrem Kundenkonto überfällig ist:',
+        request: 'Wir bitten Sie, den Betrag bei nächster Gelegenheit zu begleichen. Bei Fragen zu diesen Rechnungen stehen wir Ihnen gern zur Verfügung.',
+      },
+      'second-notice': {
+        subject: 'Offener Saldo – Handlungsbedarf',
+        intro: 'wir möchten Sie auf einen offenen Saldo auf Ihrem Kundenkonto hinweisen:',
+        request: 'Bitte begleichen Sie den Betrag umgehend oder setzen Sie sich mit uns in Verbindung, um eine Zahlungsvereinbarung zu treffen.',
+      },
+      'final-demand': {
+        subject: 'Letzte Mahnung – offener Saldo',
+        intro: 'trotz unserer bisherigen Erinnerungen ist der folgende Saldo auf Ihrem Kundenkonto weiterhin offen:',
+        request: 'Bitte begleichen Sie den überfälligen Betrag innerhalb von 7 Tagen nach Erhalt dieses Schreibens. Ist Ihnen eine vollständige Zahlung nicht möglich, setzen Sie sich bitte umgehend mit uns in Verbindung, damit wir eine Ratenzahlung vereinbaren können.',
+      },
+      'pre-legal': {
+        subject: 'Ankündigung der Abgabe – offener Saldo',
+        intro: 'trotz unserer Erinnerungen und der letzten Mahnung ist Ihr Kundenkonto weiterhin überfällig:',
+        request: 'Wird der überfällige Betrag nicht innerhalb von 10 Tagen nach Erhalt dieses Schreibens beglichen oder eine Zahlungsvereinbarung getroffen, werden wir weitere Inkassoschritte einleiten. Sollten Sie den Saldo für unzutreffend halten, wenden Sie sich bitte umgehend an uns.',
+      },
+    },
+    urgentPrefix: 'DRINGEND: ',
+    greeting: name => `Sehr geehrtes Team von ${name},`,
+    totalOutstanding: 'Offener Gesamtbetrag:',
+    amountOverdue: 'Davon überfällig:',
+    overdueBucket: bucket => `${dayRange(bucket)} Tage überfällig`,
+    disputeNote: invoices => invoices.length > 1
+      ? `Die Rechnungen ${invoices.join(', ')} sind strittig und bis zur Klärung zurückgestellt; sie sind in den obigen Beträgen nicht enthalten.`
+      : `Die Rechnung ${invoices[0]} ist strittig und bis zur Klärung zurückgestellt; sie ist in den obigen Beträgen nicht enthalten.`,
+    invoiceTable: { invoice: 'Rechnung', dueDate: 'Fällig am', daysOverdue: 'Tage überfällig', amount: 'Betrag' },
+    payOnline: 'Jetzt online bezahlen',
+    statement: {
+      title: 'Kontoauszug',
+      attached: 'Im Anhang finden Sie einen Kontoauszug mit allen offenen Rechnungen.',
+      fileName: 'Kontoauszug',
+      customer: 'Kunde',
+      customerId: 'Kundennummer',
+      statementDate: 'Stand',
+      invoice: 'Rechnung',
+      invoiceDate: 'Rechnungsdatum',
+      dueDate: 'Fällig am',
+      amount: 'Betrag',
+      outstanding: 'Offen',
+      daysOverdue: 'Tage überfällig',
+      totalOutstanding: 'Offener Gesamtbetrag',
+      disputed: 'Strittig',
+      amountDue: 'Fälliger Betrag',
+      disputedNote: '* Ganz oder teilweise strittig. Strittige Beträge sind zurückgestellt und im fälligen Betrag nicht enthalten.',
+    },
+    alreadyPaid: 'Sollten Sie die Zahlung bereits veranlasst haben, betrachten Sie dieses Schreiben bitte als gegenstandslos.',
+    thanks: 'Vielen Dank für Ihre rasche Bearbeitung.',
+    signOff: 'Mit freundlichen Grüßen<br/>Ihr Debitorenmanagement',
+    teamsFollowUp: (amount, name) =>
+      `Hallo, ich melde mich wegen des offenen Saldos von ${amount} auf dem Konto von ${name}. ` +
+      'Können wir kurz telefonieren, um die Zahlung oder eine Ratenvereinbarung zu besprechen? Danke!',
+    paymentPlan: {
+      subject: customerId => `Vorschlag für einen Zahlungsplan – Kundenkonto ${customerId}`,
+      thanks: amount => `vielen Dank für Ihre Bereitschaft, Ihren offenen Saldo von ${amount} auszugleichen.`,
+      disputesExcluded: 'Strittige Rechnungen sind zurückgestellt und nicht enthalten.',
+      proposal: 'Wir schlagen Ihnen folgenden Zahlungsplan vor, um diesen Betrag in Raten zu begleichen:',
+      review: 'Bitte prüfen Sie diesen Vorschlag und teilen Sie uns mit, ob Sie einverstanden sind oder Anpassungen wünschen.',
+      heading: 'Vorgeschlagener Zahlungsplan',
+      totalAmount: 'Gesamtbetrag:',
+      numberOfPayments: 'Anzahl der Raten:',
+      annualInterestRate: 'Jahreszins:',
+      paymentNumber: 'Rate',
+      dueDate: 'Fällig am',
+      amount: 'Betrag',
+    },
+  },
+  fr: {
+    languageName: 'French',
+    stages: {
+      'friendly-reminder': {
+        subject: 'Rappel amical – solde impayé',
+        intro: 'Nous nous permettons de vous rappeler que le solde suivant est échu sur votre compte :',
+        request: 'Nous vous remercions de bien vouloir procéder au règlement dès que possible. N\'hésitez pas à nous contacter pour toute question concernant ces factures.',
+      },
+      'second-notice': {
+        subject: 'Solde impayé – action requise',
+        intro: 'Nous vous informons qu\'un solde reste impayé sur votre compte :',
+        request: 'Nous vous prions de régler ce montant dans les meilleurs délais ou de nous contacter pour convenir de modalités de paiement.',
+      },
+      'final-demand': {
+        subject: 'Dernier avis – solde impayé',
+        intro: 'Malgré nos précédents rappels, le solde suivant reste impayé sur votre compte :',
+        request: 'Nous vous prions de régler le montant échu dans un délai de 7 jours à compter de ce courrier. Si vous ne pouvez pas payer la totalité, contactez-nous dès maintenant afin de convenir d\'un échéancier.',
+      },
+      'pre-legal': {
+        subject: 'Avis avant transmission – solde impayé',
+        intro: 'Votre compte reste en retard de paiement malgré nos rappels et notre dernier avis :',
+        request: 'À défaut de paiement du montant échu, ou d\'un accord de paiement, dans un délai de 10 jours à compter de ce courrier, nous engagerons d\'autres démarches de recouvrement. Si vous estimez que ce solde est inexact, contactez-nous sans attendre.',
+      },
+    },
+    urgentPrefix: 'URGENT : ',
+    greeting: name => `Bonjour ${name},`,
+    totalOutstanding: 'Total dû :',
+    amountOverdue: 'Montant échu :',
+    overdueBucket: bucket => bucket.maxDays === undefined
+      ? `${bucket.minDays} jours de retard et plus`
+      : `${bucket.minDays} à ${bucket.maxDays} jours de retard`,
+    disputeNote: invoices => invoices.length > 1
+      ? `Les factures ${invoices.join(', ')} font l'objet d'une contestation et sont suspendues pendant notre examen ; elles ne sont pas incluses dans les montants ci-dessus.`
+      : `La facture ${invoices[0]} fait l'objet d'une contestation et est suspendue pendant notre examen ; elle n'est pas incluse dans les montants ci-dessus.`,
+    invoiceTable: { invoice: 'Facture', dueDate: 'Date d\'échéance', daysOverdue: 'Jours de retard', amount: 'Montant' },
+    payOnline: 'Payer en ligne',
+    statement: {
+      title: 'Relevé de compte',
+      attached: 'Vous trouverez en pièce jointe un relevé de compte détaillant chaque facture impayée.',
+      fileName: 'Releve',
+      customer: 'Client',
+      customerId: 'Compte',
+      statementDate: 'Date du relevé',
+      invoice: 'Facture',
+      invoiceDate: 'Date de facture',
+      dueDate: 'Échéance',
+      amount: 'Montant',
+      outstanding: 'Restant dû',
+      daysOverdue: 'Jours de retard',
+      totalOutstanding: 'Total dû',
+      disputed: 'Contesté',
+      amountDue: 'Montant exigible',
+      disputedNote: '* Contestée en tout ou partie. Les montants contestés sont suspendus et ne sont pas inclus dans le montant exigible.',
+    },
+    alreadyPaid: 'Si vous avez déjà effectué ce paiement, veuillez ne pas tenir compte de ce message.',
+    thanks: 'Nous vous remercions de l\'attention que vous porterez à ce message.',
+    signOff: 'Cordialement,<br/>Service Comptabilité Clients',
+    teamsFollowUp: (amount, name) =>
+      `Bonjour, je reviens vers vous au sujet du solde impayé de ${amount} sur le compte de ${name}. ` +
+      'Pourrions-nous prévoir un court appel pour discuter du paiement ou d\'un échéancier ? Merci !',
+    paymentPlan: {
+      subject: customerId => `Proposition d'échéancier – compte ${customerId}`,
+      thanks: amount => `Merci de votre volonté de régler votre solde impayé de ${amount}.`,
+      disputesExcluded: 'Les factures contestées sont suspendues et ne sont pas incluses.',
+      proposal: 'Nous vous proposons l\'échéancier suivant pour vous aider à régler ce solde :',
+      review: 'Merci d\'examiner cette proposition et de nous indiquer si vous souhaitez y donner suite ou si des ajustements sont nécessaires.',
+      heading: 'Échéancier proposé',
+      totalAmount: 'Montant total :',
+      numberOfPayments: 'Nombre d\'échéances :',
+      annualInterestRate: 'Taux d\'intérêt annuel :',
+      paymentNumber: 'Échéance n°',
+      dueDate: 'Date d\'échéance',
+      amount: 'Montant',
+    },
+  },
+  es: {
+    languageName: 'Spanish',
+    stages: {
+      'friendly-reminder': {
+        subject: 'Recordatorio amable – saldo pendiente',
+        intro: 'Le recordamos amablemente que el siguiente saldo de su cuenta está vencido:',
+        request: 'Le agradeceríamos que realizara el pago a la mayor brevedad. Si tiene alguna pregunta sobre estas facturas, no dude en consultarnos.',
+      },
+      'second-notice': {
+        subject: 'Saldo pendiente – se requiere acción',
+        intro: 'Le escribimos para informarle de un saldo pendiente en su cuenta:',
+        request: 'Le rogamos que realice el pago de inmediato o que se ponga en contacto con nosotros para acordar las condiciones de pago.',
+      },
+      'final-demand': {
+        subject: 'Último aviso – saldo pendiente',
+        intro: 'A pesar de nuestros recordatorios anteriores, el siguiente saldo de su cuenta sigue pendiente:',
+        request: 'Le rogamos que abone el importe vencido en un plazo de 7 días a partir de este aviso. Si no puede pagarlo en su totalidad, póngase en contacto con nosotros cuanto antes para acordar un plan de pagos.',
+      },
+      'pre-legal': {
+        subject: 'Aviso previo a la derivación – saldo pendiente',
+        intro: 'Su cuenta sigue vencida a pesar de nuestros recordatorios y del último aviso:',
+        request: 'Si el importe vencido no se abona, o no se acuerda un plan de pagos, en un plazo de 10 días a partir de este aviso, derivaremos la cuenta para otras gestiones de cobro. Si considera que este saldo no es correcto, póngase en contacto con nosotros de inmediato.',
+      },
+    },
+    urgentPrefix: 'URGENTE: ',
+    greeting: name => `Estimado equipo de ${name}:`,
+    totalOutstanding: 'Total pendiente:',
+    amountOverdue: 'Importe vencido:',
+    overdueBucket: bucket => `${dayRange(bucket)} días de retraso`,
+    disputeNote: invoices => invoices.length > 1
+      ? `Las facturas ${invoices.join(', ')} están en disputa y en suspenso mientras las revisamos; los importes anteriores no las incluyen.`
+      : `La factura ${invoices[0]} está en disputa y en suspenso mientras la revisamos; los importes anteriores no la incluyen.`,
+    invoiceTable: { invoice: 'Factura', dueDate: 'Vencimiento', daysOverdue: 'Días de retraso', amount: 'Importe' },
+    payOnline: 'Pagar en línea',
+    statement: {
+      title: 'Estado de cuenta',
+      attached: 'Adjuntamos un estado de cuenta con el detalle de cada factura pendiente.',
+      fileName: 'Estado-de-cuenta',
+      customer: 'Cliente',
+      customerId: 'Cuenta',
+      statementDate: 'Fecha del estado',
+      invoice: 'Factura',
+      invoiceDate: 'Fecha de factura',
+      dueDate: 'Vencimiento',
+      amount: 'Importe',
+      outstanding: 'Pendiente',
+      daysOverdue: 'Días de retraso',
+      totalOutstanding: 'Total pendiente',
+      disputed: 'En disputa',
+      amountDue: 'Importe exigible',
+      disputedNote: '* En disputa total o parcialmente. Los importes en disputa están en suspenso y no se incluyen en el importe exigible.',
+    },
+    alreadyPaid: 'Si ya ha realizado este pago, le rogamos que ignore este aviso.',
+    thanks: 'Gracias por su pronta atención a este asunto.',
+    signOff: 'Atentamente,<br/>Departamento de Cuentas por Cobrar',
+    teamsFollowUp: (amount, name) =>
+      `Hola, quería hacer un seguimiento del saldo pendiente de ${amount} en la cuenta de ${name}. ` +
+      '¿Podemos programar una llamada breve para hablar del pago o de un plan de pagos? ¡Gracias!',
+    paymentPlan: {
+      subject: customerId => `Propuesta de plan de pagos – cuenta ${customerId}`,
+      thanks: amount => `Gracias por su disposición a liquidar su saldo pendiente de ${amount}.`,
+      disputesExcluded: 'Las facturas en disputa están en suspenso y no se incluyen.',
+      proposal: 'Le proponemos el siguiente plan de pagos para ayudarle a gestionar este saldo:',
+      review: 'Revise esta propuesta y díganos si desea continuar o si necesita algún ajuste.',
+      heading: 'Plan de pagos propuesto',
+      totalAmount: 'Importe total:',
+      numberOfPayments: 'Número de pagos:',
+      annualInterestRate: 'Tipo de interés anual:',
+      paymentNumber: 'Pago n.º',
+      dueDate: 'Fecha de vencimiento',
+      amount: 'Importe',
+    },
+  },
+};
+
+/**
+ * Canonical form of a locale in one of the supported languages, e.g.
+ * "de-at" → "de-AT"; undefined when it isn't one.
+ */
+export function supportedLocale(locale: string | undefined): string | undefined {
+  if (!locale) return undefined;
+  let canonical: string;
+  try {
+    [canonical] = Intl.getCanonicalLocales(locale.trim().replace(/_/g, '-'));
+  } catch {
+    return undefined;
+  }
+  return DUNNING_LANGUAGES.includes(languageOf(canonical)) ? canonical : undefined;
+}
+
+function languageOf(locale: string): DunningLanguage {
+  return locale.split('-')[0].toLowerCase() as DunningLanguage;
+}
+
+/** Language of a supported locale, e.g. "de-AT" → "de"; English when none is given. */
+export function localeLanguage(locale?: string): DunningLanguage {
+  return locale && MESSAGES[languageOf(locale)] ? languageOf(locale) : 'en';
+}
+
+/** Fixed email and message text for a locale; English when none is given. */
+export function dunningMessages(locale?: string): DunningMessages {
+  return (locale && MESSAGES[languageOf(locale)]) || MESSAGES.en;
+}
+
+/**
+ * Format a date for customer-facing text, e.g. "2026-11-19" → "19.11.2026"
+ * in de-DE. Without a locale the ISO date is shown.
+ */
+export function formatDate(date: string, locale?: string): string {
+  if (!locale) return date.split('T')[0];
+  // Date-only values are midnight UTC; format in UTC so the day doesn't shift
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeZone: 'UTC' }).format(new Date(date));
+}
+
+/** Format a rate such as 0.05 as a percentage, e.g. "5.00%" or "5,00 %". */
+export function formatPercent(rate: number, locale?: string): string {
+  return locale
+    ? new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: 2 }).format(rate)
+    : `${(rate * 100).toFixed(2)}%`;
+}
+
+/**
+ * Locale Service
+ *
+ * Picks the locale a customer's emails and messages are written in: the first
+ * supported candidate — the customer's own setting, then the language of its
+ * billing contact — else DUNNING_DEFAULT_LOCALE. With no default configured,
+ * customers without a locale get English with amounts formatted for their
+ * currency and ISO dates.
+ */
+export class LocaleService {
+  readonly defaultLocale?: string;
+
+  constructor(defaultLocale: string | undefined = process.env.DUNNING_DEFAULT_LOCALE || undefined) {
+    if (defaultLocale !== undefined) {
+      this.defaultLocale = supportedLocale(defaultLocale);
+      if (!this.defaultLocale) {
+        throw new Error(`Unsupported DUNNING_DEFAULT_LOCALE "${defaultLocale}". Use a locale in ${DUNNING_LANGUAGES.join(', ')}`);
+      }
+    }
+  }
+
+  resolve(...candidates: (string | undefined)[]): string | undefined {
+    for (const candidate of candidates) {
+      const locale = supportedLocale(candidate);
+      if (locale) return locale;
+    }
+    return this.defaultLocale;
+  }
+}
@@ -0,0 +1,343 @@
+import { createHash } from 'crypto';
+import { PaymentRecord, PaymentSource } from '../types';
+import { splitCsvLine } from '../utils/csv';
+
+export type PaymentFileFormat = 'csv' | 'bai2' | 'camt053';
+
+export const PAYMENT_FILE_FORMATS: PaymentFileFormat[] = ['csv', 'bai2', 'camt053'];
+
+export type DecimalSeparator = '.' | ',';
+
+/** CSV header aliases (lower-cased, non-alphanumerics stripped) → PaymentRecord field. */
+const CSV_COLUMNS: Record<string, keyof PaymentRecord> = {
+  paymentid: 'paymentId', id: 'paymentId',
+  customerid: 'customerId', customer: 'customerId', accountid: 'customerId', account: 'customerId',
+  amount: 'amount',
+  currency: 'currency', ccy: 'currency', currencycode: 'currency',
+  paymentdate: 'paymentDate', date: 'paymentDate', valuedate: 'paymentDate',
+  reference: 'reference', memo: 'reference', description: 'reference',
+  invoices: 'remittanceInvoiceIds', invoiceids: 'remittanceInvoiceIds', invoice: 'remittanceInvoiceIds',
+  remittance: 'remittanceInvoiceIds',
+};
+
+/**
+ * Payment file import — parses bank and lockbox files into PaymentRecords.
+ *
+ * Supported formats:
+ *   - csv     : header row with customerId, amount, paymentDate and optional paymentId, currency, reference, invoices
+ *   - bai2    : BAI Version 2 cash management file (credit transactions, type codes 100–399)
+ *   - camt053 : ISO 20022 bank-to-customer statement (credit entries; reversals, RvslInd, are
+ *               skipped, and a returned payment cancels the credit it reverses in the same statement)
+ *
+ * Invoice references are taken from explicit remittance fields and from any
+ * free text matching REMITTANCE_INVOICE_PATTERN. Records without a bank
+ * reference get a deterministic ID so re-importing the same file is idempotent.
+ *
+ * CSV amounts use the configured decimal separator or, without one, the one
+ * the file's own amounts show ("1.234,56", "12,5"). A file whose amounts
+ * can't tell — only values like "1,234" — is rejected rather than guessed.
+ */
+export class PaymentImportService {
+  private invoicePattern: RegExp;
+  private decimalSeparator: DecimalSeparator | undefined;
+
+  /**
+   * @param invoicePattern   Regex for invoice numbers in remittance text (REMITTANCE_INVOICE_PATTERN)
+   * @param decimalSeparator Decimal separator of CSV amounts (PAYMENT_CSV_DECIMAL_SEPARATOR); omitted = read from the file
+   */
+  constructor(
+    invoicePattern: string = process.env.REMITTANCE_INVOICE_PATTERN ?? 'INV-[A-Za-z0-9-]+',
+    decimalSeparator: DecimalSeparator | undefined = parseDecimalSeparator(process.env.PAYMENT_CSV_DECIMAL_SEPARATOR),
+  ) {
+    this.invoicePattern = new RegExp(invoicePattern, 'g');
+    this.decimalSeparator = decimalSeparator;
+  }
+
+  parse(content: string, format: PaymentFileFormat): PaymentRecord[] {
+    switch (format) {
+      case 'csv':     return this.parseCsv(content);
+      case 'bai2':    return this.parseBai2(content);
+      case 'camt053': return this.parseCamt053(content);
+      default:
+        throw new Error(`Unsupported payment file format: ${format as string}`);
+    }
+  }
+
+  private parseCsv(content: string): PaymentRecord[] {
+    const rows = content.split(/\r?\n/).filter(line => line.trim().length > 0).map(splitCsvLine);
+    if (rows.length === 0) return [];
+
+    const columns = rows[0].map(h => CSV_COLUMNS[h.toLowerCase().replace(/[^a-z0-9]/g, '')]);
+    for (const required of ['amount', 'paymentDate'] as const) {
+      if (!columns.includes(required)) {
+        throw new Error(`CSV payment file is missing a "${required}" column`);
+      }
+    }
+
+    const amountColumn = columns.indexOf('amount');
+    const decimal = this.decimalSeparator ?? fileDecimalSeparator(rows.slice(1).map(cells => cells[amountColumn] ?? ''));
+
+    return rows.slice(1).map((cells, index) => {
+      const field = (name: keyof PaymentRecord) => {
+        const i = columns.indexOf(name);
+        return i >= 0 ? (cells[i] ?? '').trim() : '';
+      };
+
+      if (!decimal && decimalEvidence(field('amount')) === 'ambiguous') {
+        throw new Error(
+          `CSV payment file row ${index + 2}: amount "${field('amount')}" could use either decimal separator; ` +
+          'set PAYMENT_CSV_DECIMAL_SEPARATOR to "." or ","',
+        );
+      }
+      const amount = parseAmount(field('amount'), decimal ?? '.');
+      if (isNaN(amount)) {
+        throw new Error(`CSV payment file row ${index + 2}: invalid amount "${field('amount')}"`);
+      }
+
+      const reference = field('reference') || undefined;
+      const listed = field('remittanceInvoiceIds').split(/[;|\s]+/).filter(r => r.length > 0);
+
+      return this.buildRecord('csv', {
+        paymentId:   field('paymentId') || undefined,
+        customerId:  field('customerId'),
+        paymentDate: toIsoDate(field('paymentDate')),
+        amount,
+        currency:    field('currency').toUpperCase() || undefined,
+        reference,
+        remittance:  [...listed, ...this.extractInvoiceRefs(reference)],
+      });
+    });
+  }
+
+  private parseBai2(content: string): PaymentRecord[] {
+    // Join "88" continuation records onto the record they continue
+    const records: string[] = [];
+    for (const raw of content.split(/\r?\n/)) {
+      const line = raw.trim();
+      if (!line) continue;
+      if (line.startsWith('88,') && records.length > 0) {
+        records[records.length - 1] = records[records.length - 1].replace(/\/$/, '') + ',' + line.slice(3);
+      } else {
+        records.push(line);
+      }
+    }
+
+    const payments: PaymentRecord[] = [];
+    let asOfDate = new Date().toISOString();
+    let groupCurrency: string | undefined;
+    let accountCurrency: string | undefined;
+
+    for (const record of records) {
+      const fields = record.replace(/\/$/, '').split(',');
+
+      // 02 group header: as-of date and default currency; 03 account header may override the currency
+      if (fields[0] === '02') {
+        if (fields[4]) asOfDate = parseYYMMDD(fields[4]);
+        groupCurrency = fields[6] || undefined;
+        continue;
+      }
+      if (fields[0] === '03') {
+        accountCurrency = fields[2] || undefined;
+        continue;
+      }
+      if (fields[0] !== '16') continue;
+
+      const typeCode = parseInt(fields[1], 10);
+      if (!(typeCode >= 100 && typeCode <= 399)) continue; // credits only
+
+      // Funds type decides how many availability fields follow before the references
+      let i = 4;
+      const fundsType = (fields[3] ?? '').toUpperCase();
+      if (fundsType === 'S') i += 3;
+      else if (fundsType === 'V') i += 2;
+      else if (fundsType === 'D') i += 1 + 2 * parseInt(fields[4] ?? '0', 10);
+
+      const bankRef     = fields[i] ?? '';
+      const customerRef = fields[i + 1] ?? '';
+      const text        = fields.slice(i + 2).join(',').trim();
+
+      payments.push(this.buildRecord('bai2', {
+        paymentId:   bankRef || undefined,
+        customerId:  customerRef,
+        paymentDate: asOfDate,
+        amount:      parseInt(fields[2], 10) / 100, // BAI2 amounts are in cents
+        currency:    accountCurrency ?? groupCurrency,
+        reference:   text || undefined,
+        remittance:  this.extractInvoiceRefs(`${customerRef} ${text}`),
+      }));
+    }
+
+    return payments;
+  }
+
+  /**
+   * Credit entries of a camt.053 statement. An entry with RvslInd true
+   * reverses an earlier one: a reversed debit is not a receipt and is
+   * skipped, and a reversed credit — a returned payment — cancels the credit
+   * for the same amount, currency and debtor in the same statement.
+   */
+  private parseCamt053(content: string): PaymentRecord[] {
+    const payments: PaymentRecord[] = [];
+    const returned: PaymentRecord[] = [];
+    const entries = content.match(/<Ntry>[\s\S]*?<\/Ntry>/g) ?? [];
+
+    for (const entry of entries) {
+      const reversal = xmlValue(entry, 'RvslInd')?.toLowerCase() === 'true';
+      const credit = xmlValue(entry, 'CdtDbtInd') === 'CRDT';
+      if (credit === reversal) continue; // a debit, or the reversal of one
+
+      const amount = parseFloat(xmlValue(entry, 'Amt') ?? '');
+      if (isNaN(amount)) continue;
+      const currency = entry.match(/<Amt\s[^>]*Ccy="([A-Za-z]{3})"/)?.[1]?.toUpperCase();
+
+      const bookingBlock = xmlBlock(entry, 'BookgDt') ?? xmlBlock(entry, 'ValDt') ?? '';
+      const date = xmlValue(bookingBlock, 'Dt') ?? xmlValue(bookingBlock, 'DtTm') ?? new Date().toISOString();
+
+      const debtor = xmlBlock(entry, 'Dbtr') ?? xmlBlock(entry, 'UltmtDbtr') ?? '';
+      const customerId = xmlValue(xmlBlock(debtor, 'Othr') ?? '', 'Id') ?? '';
+
+      const unstructured = xmlValues(entry, 'Ustrd');
+      const documentNumbers = xmlValues(xmlBlock(entry, 'Strd') ?? '', 'Nb');
+      const reference = unstructured.join(' ') || xmlValue(entry, 'EndToEndId') || undefined;
+
+      (reversal ? returned : payments).push(this.buildRecord('camt053', {
+        paymentId:   xmlValue(entry, 'AcctSvcrRef') ?? xmlValue(entry, 'NtryRef'),
+        customerId,
+        paymentDate: toIsoDate(date),
+        amount,
+        currency,
+        reference,
+        remittance:  [...documentNumbers, ...this.extractInvoiceRefs(unstructured.join(' '))],
+      }));
+    }
+
+    // A returned payment cancels the credit it reverses
+    for (const reversal of returned) {
+      const index = payments.findIndex(p =>
+        p.amount === reversal.amount && p.currency === reversal.currency && p.customerId === reversal.customerId);
+      if (index >= 0) payments.splice(index, 1);
+    }
+    return payments;
+  }
+
+  private extractInvoiceRefs(text: string | undefined): string[] {
+    return text ? text.match(this.invoicePattern) ?? [] : [];
+  }
+
+  private buildRecord(
+    source: PaymentSource,
+    fields: {
+      paymentId?: string;
+      customerId: string;
+      paymentDate: string;
+      amount: number;
+      currency?: string;
+      reference?: string;
+      remittance: string[];
+    },
+  ): PaymentRecord {
+    const paymentId = fields.paymentId ?? createHash('sha1')
+      .update([source, fields.customerId, fields.paymentDate, fields.amount, fields.reference ?? ''].join('|'))
+      .digest('hex')
+      .slice(0, 16);
+
+    return {
+      paymentId,
+      customerId:           fields.customerId,
+      paymentDate:          fields.paymentDate,
+      amount:               fields.amount,
+      currency:             fields.currency,
+      reference:            fields.reference,
+      remittanceInvoiceIds: Array.from(new Set(fields.remittance)),
+      source,
+    };
+  }
+}
+
+function parseDecimalSeparator(value: string | undefined): DecimalSeparator | undefined {
+  if (!value) return undefined;
+  if (value !== '.' && value !== ',') {
+    throw new Error(`PAYMENT_CSV_DECIMAL_SEPARATOR must be "." or ",", not "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * What an amount says about its decimal separator: "1.234,56", "12,5" and
+ * "1.234.567" only read one way, "1,234" reads either way, and "1234" says
+ * nothing.
+ */
+function decimalEvidence(amount: string): DecimalSeparator | 'ambiguous' | undefined {
+  const separators = amount.replace(/[^.,]/g, '');
+  if (separators.length === 0) return undefined;
+  const last = separators[separators.length - 1] as DecimalSeparator;
+  if (separators.includes('.') && separators.includes(',')) return last;
+  if (separators.length > 1) return last === '.' ? ',' : '.';
+  const decimals = amount.slice(amount.lastIndexOf(last) + 1).replace(/\D/g, '');
+  return decimals.length === 3 ? 'ambiguous' : last;
+}
+
+/** The decimal separator a CSV file's amounts agree on; throws when they disagree. */
+function fileDecimalSeparator(amounts: string[]): DecimalSeparator | undefined {
+  let found: { separator: DecimalSeparator; amount: string } | undefined;
+  for (const amount of amounts) {
+    const evidence = decimalEvidence(amount);
+    if (evidence !== '.' && evidence !== ',') continue;
+    if (found && found.separator !== evidence) {
+      throw new Error(
+        `CSV payment file mixes decimal separators ("${found.amount}" and "${amount}"); ` +
+        'set PAYMENT_CSV_DECIMAL_SEPARATOR to "." or ","',
+      );
+    }
+    found = { separator: evidence, amount };
+  }
+  return found?.separator;
+}
+
+/**
+ * An amount written with the given decimal separator, optionally with
+ * thousands grouping and a currency symbol or code; NaN when it isn't one.
+ */
+function parseAmount(value: string, decimal: DecimalSeparator): number {
+  const group = decimal === '.' ? ',' : '.';
+  const text = value.replace(/[^0-9.,-]/g, '');
+  const grouped = new RegExp(`^-?\\d{1,3}(\\${group}\\d{3})*(\\${decimal}\\d+)?$`);
+  const plain = new RegExp(`^-?\\d+(\\${decimal}\\d+)?$`);
+  if (!grouped.test(text) && !plain.test(text)) return NaN;
+  return parseFloat(text.split(group).join('').replace(decimal, '.'));
+}
+
+function toIsoDate(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid payment date: "${value}"`);
+  return date.toISOString();
+}
+
+function parseYYMMDD(value: string): string {
+  const yy = parseInt(value.slice(0, 2), 10);
+  return new Date(Date.UTC(2000 + yy, parseInt(value.slice(2, 4), 10) - 1, parseInt(value.slice(4, 6), 10))).toISOString();
+}
+
+function xmlBlock(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`));
+  return match?.[1];
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const value = xmlBlock(xml, tag);
+  return value === undefined ? undefined : decodeXml(value.trim());
+}
+
+function xmlValues(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), m => decodeXml(m[1].trim()));
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -1,4 +1,6 @@
 import { PaymentPlan, PaymentScheduleItem } from '../types';
+import { formatCurrency } from './currencyService';
+import { dunningMessages, formatDate, formatPercent } from './localeService';
 
 export class PaymentPlanService {
   /**
@@ -8,7 +10,8 @@ export class PaymentPlanService {
     customerId: string,
     totalOutstanding: number,
     numberOfMonths: number = 6,
-    interestRate: number = 0
+    interestRate: number = 0,
+    currency?: string
   ): PaymentPlan {
     const monthlyPayment = totalOutstanding / numberOfMonths;
     const schedule: PaymentScheduleItem[] = [];
@@ -26,6 +29,7 @@ export class PaymentPlanService {
 
     return {
       customerId,
+      currency,
       totalAmount: totalOutstanding,
       numberOfPayments: numberOfMonths,
       paymentSchedule: schedule,
@@ -40,7 +44,8 @@ export class PaymentPlanService {
     customerId: string,
     principal: number,
     monthlyInterestRate: number,
-    numberOfMonths: number
+    numberOfMonths: number,
+    currency?: string
   ): PaymentPlan {
     // Calculate monthly payment using amortization formula
     const monthlyPayment =
@@ -61,12 +66,13 @@ export class PaymentPlanService {
       schedule.push({
         dueDate: dueDate.toISOString().split('T')[0],
         amount: monthlyPayment,
-        description: `Payment ${i + 1} of ${numberOfMonths} (Principal: $${principalPayment.toFixed(2)}, Interest: $${interestPayment.toFixed(2)})`,
+        description: `Payment ${i + 1} of ${numberOfMonths} (Principal: ${formatCurrency(principalPayment, currency)}, Interest: ${formatCurrency(interestPayment, currency)})`,
       });
     }
 
     return {
       customerId,
+      currency,
       totalAmount: monthlyPayment * numberOfMonths,
       numberOfPayments: numberOfMonths,
       paymentSchedule: schedule,
@@ -75,26 +81,28 @@ export class PaymentPlanService {
   }
 
   /**
-   * Format payment plan for email/communication
+   * Format payment plan for email/communication, in the language of the
+   * customer's locale with dates and amounts formatted for it
    */
-  formatPaymentPlanForEmail(plan: PaymentPlan): string {
+  formatPaymentPlanForEmail(plan: PaymentPlan, locale?: string): string {
+    const text = dunningMessages(locale).paymentPlan;
     let html = `
-      <h3>Proposed Payment Plan</h3>
-      <p><strong>Total Amount:</strong> $${plan.totalAmount.toFixed(2)}</p>
-      <p><strong>Number of Payments:</strong> ${plan.numberOfPayments}</p>
+      <h3>${text.heading}</h3>
+      <p><strong>${text.totalAmount}</strong> ${formatCurrency(plan.totalAmount, plan.currency, locale)}</p>
+      <p><strong>${text.numberOfPayments}</strong> ${plan.numberOfPayments}</p>
     `;
 
     if (plan.interestRate && plan.interestRate > 0) {
-      html += `<p><strong>Annual Interest Rate:</strong> ${(plan.interestRate * 100).toFixed(2)}%</p>`;
+      html += `<p><strong>${text.annualInterestRate}</strong> ${formatPercent(plan.interestRate, locale)}</p>`;
     }
 
     html += `
       <table style="border-collapse: collapse; width: 100%; margin-top: 20px;">
         <thead>
           <tr style="background-color: #f0f0f0;">
-            <th style="border: 1px solid #ddd; padding: 8px; text-align: left;">Payment #</th>
-            <th style="border: 1px solid #ddd; padding: 8px; text-align: left;">Due Date</th>
-            <th style="border: 1px solid #ddd; padding: 8px; text-align: right;">Amount</th>
+            <th style="border: 1px solid #ddd; padding: 8px; text-align: left;">${text.paymentNumber}</th>
+            <th style="border: 1px solid #ddd; padding: 8px; text-align: left;">${text.dueDate}</th>
+            <th style="border: 1px solid #ddd; padding: 8px; text-align: right;">${text.amount}</th>
           </tr>
         </thead>
         <tbody>
@@ -104,8 +112,8 @@ export class PaymentPlanService {
       html += `
         <tr>
           <td style="border: 1px solid #ddd; padding: 8px;">${index + 1}</td>
-          <td style="border: 1px solid #ddd; padding: 8px;">${payment.dueDate}</td>
-          <td style="border: 1px solid #ddd; padding: 8px; text-align: right;">$${payment.amount.toFixed(2)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px;">${formatDate(payment.dueDate, locale)}</td>
+          <td style="border: 1px solid #ddd; padding: 8px; text-align: right;">${formatCurrency(payment.amount, plan.currency, locale)}</td>
         </tr>
       `;
     });
@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto';
+import { PaymentRecord, PromiseChannel, PromiseStatus, PromiseToPay } from '../types';
+import { getReportingCurrency } from './currencyService';
+
+/**
+ * Resolve the lifecycle status of a promise. Older records (and ERP-sourced
+ * promises) only carry `fulfilled`, so derive a status from it and the due date.
+ */
+export function getPromiseStatus(promise: PromiseToPay, asOf: Date = new Date()): PromiseStatus {
+  if (promise.status) return promise.status;
+  if (promise.fulfilled) return 'kept';
+  return new Date(promise.promisedDate) < asOf ? 'broken' : 'open';
+}
+
+/**
+ * Share of resolved promises that were broken: broken = 1, partially kept =
+ * the unpaid share of the promise, kept = 0. Open promises haven't come due
+ * yet, so they are left out; with none resolved the rate is 0.
+ */
+export function brokenPromiseRate(promises: PromiseToPay[], asOf: Date = new Date()): number {
+  const resolved = promises.filter(p => getPromiseStatus(p, asOf) !== 'open');
+  if (resolved.length === 0) return 0;
+
+  const brokenWeight = resolved.reduce((sum, p) => {
+    const status = getPromiseStatus(p, asOf);
+    if (status === 'broken') return sum + 1;
+    if (status === 'partially-kept' && p.promisedAmount > 0) {
+      return sum + (1 - Math.min((p.amountPaid ?? 0) / p.promisedAmount, 1));
+    }
+    return sum;
+  }, 0);
+
+  return brokenWeight / resolved.length;
+}
+
+/**
+ * Promise-to-pay lifecycle: structured promise records and reconciliation of
+ * those promises against payments actually received.
+ */
+export class PromiseService {
+  private graceDays: number;
+  private tolerance: number;
+
+  /**
+   * @param graceDays  Days after the promised date a payment still counts toward the promise
+   * @param tolerance  Fraction of the promised amount that may be short and still count as kept
+   */
+  constructor(
+    graceDays: number = Number(process.env.PROMISE_GRACE_DAYS ?? 3),
+    tolerance: number = Number(process.env.PROMISE_AMOUNT_TOLERANCE ?? 0.01),
+  ) {
+    this.graceDays = graceDays;
+    this.tolerance = tolerance;
+  }
+
+  /**
+   * Create a new open promise record. The amount must be positive and the
+   * date a valid date.
+   */
+  createPromise(
+    customerId: string,
+    promisedAmount: number,
+    promisedDate: string,
+    channel: PromiseChannel = 'other',
+    collector?: string,
+    notes?: string,
+    currency?: string,
+  ): PromiseToPay {
+    if (!Number.isFinite(promisedAmount) || promisedAmount <= 0) {
+      throw new Error(`Promised amount must be a positive number, got ${promisedAmount}`);
+    }
+    if (Number.isNaN(new Date(promisedDate).getTime())) {
+      throw new Error(`Promised date is not a valid date: ${promisedDate}`);
+    }
+
+    return {
+      promiseId: randomUUID(),
+      customerId,
+      date: new Date().toISOString(),
+      promisedAmount,
+      currency: currency?.toUpperCase(),
+      promisedDate,
+      fulfilled: false,
+      status: 'open',
+      amountPaid: 0,
+      channel,
+      collector,
+      notes,
+    };
+  }
+
+  /**
+   * Match payments against promises and update their status.
+   *
+   * Promises are processed in promised-date order. A payment counts toward a
+   * promise when it was received between the day the promise was made and the
+   * promised date plus the grace period, and is in the promise's currency.
+   * Each payment is allocated only once, so one payment can't satisfy two
+   * promises.
+   *
+   * - Paid in full (within tolerance)            → kept
+   * - Window closed with a partial payment       → partially-kept
+   * - Window closed with nothing paid            → broken
+   * - Window still open and not yet paid in full → open
+   *
+   * Returns new promise objects; the inputs are not modified.
+   */
+  reconcile(
+    promises: PromiseToPay[],
+    payments: PaymentRecord[],
+    asOf: Date = new Date(),
+  ): PromiseToPay[] {
+    const remaining = new Map<string, number>(payments.map(p => [p.paymentId, p.amount]));
+    const sortedPayments = [...payments].sort(
+      (a, b) => new Date(a.paymentDate).getTime() - new Date(b.paymentDate).getTime(),
+    );
+    const sortedPromises = [...promises].sort(
+      (a, b) => new Date(a.promisedDate).getTime() - new Date(b.promisedDate).getTime(),
+    );
+
+    return sortedPromises.map(promise => {
+      const windowStart = startOfDay(new Date(promise.date));
+      const windowEnd   = new Date(endOfDay(new Date(promise.promisedDate)).getTime() + this.graceDays * 86_400_000);
+
+      let amountPaid = 0;
+      let lastPaymentDate: string | undefined;
+
+      const currency = currencyCode(promise.currency);
+      for (const payment of sortedPayments) {
+        if (currencyCode(payment.currency) !== currency) continue;
+        const paidAt = new Date(payment.paymentDate);
+        if (paidAt < windowStart || paidAt > windowEnd) continue;
+
+        const available = remaining.get(payment.paymentId) ?? 0;
+        if (available <= 0) continue;
+
+        const applied = Math.min(available, promise.promisedAmount - amountPaid);
+        remaining.set(payment.paymentId, available - applied);
+        amountPaid += applied;
+        lastPaymentDate = payment.paymentDate;
+
+        if (amountPaid >= promise.promisedAmount) break;
+      }
+
+      const paidInFull = amountPaid >= promise.promisedAmount * (1 - this.tolerance);
+      let status: PromiseStatus;
+      if (paidInFull)             status = 'kept';
+      else if (asOf <= windowEnd) status = 'open';
+      else if (amountPaid > 0)    status = 'partially-kept';
+      else                        status = 'broken';
+
+      return {
+        ...promise,
+        status,
+        fulfilled:         status === 'kept',
+        amountPaid,
+        actualPaymentDate: lastPaymentDate,
+        reconciledDate:    asOf.toISOString(),
+      };
+    });
+  }
+}
+
+/** Currency code of a promise or payment; omitted = reporting currency. */
+function currencyCode(currency: string | undefined): string {
+  return (currency ?? getReportingCurrency()).toUpperCase();
+}
+
+function startOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCHours(0, 0, 0, 0);
+  return d;
+}
+
+function endOfDay(date: Date): Date {
+  const d = new Date(date);
+  d.setUTCHours(23, 59, 59, 999);
+  return d;
+}
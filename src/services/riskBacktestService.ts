@@ -0,0 +1,300 @@
+import { readFileSync } from 'fs';
+import {
+  CalibrationBin, RiskBacktestReport, RiskBacktestSnapshot, RiskScore, ThresholdConfusion,
+} from '../types';
+import { RiskScoringService } from './riskScoringService';
+
+/** Cut-offs evaluated for the confusion matrices: 0.05, 0.10, … 0.95. */
+const THRESHOLD_GRID = Array.from({ length: 19 }, (_, i) => (i + 1) / 20);
+const CALIBRATION_BINS = 10;
+
+export interface RiskBacktestOptions {
+  /** Recommended medium threshold must still flag this share of unpaid balances (default 0.9) */
+  mediumRecall?: number;
+}
+
+interface ScoredSnapshot {
+  score: RiskScore;
+  /** 1 when the balance was not paid within the horizon */
+  unpaid: number;
+}
+
+/**
+ * Replays RiskScoringService over historical snapshots and measures how well
+ * the scores separated balances that were paid within the horizon from those
+ * that were not — AUC, calibration and a confusion matrix per threshold — and
+ * suggests RISK_THRESHOLD_HIGH / RISK_THRESHOLD_MEDIUM values.
+ */
+export class RiskBacktestService {
+  private scoring: RiskScoringService;
+  private mediumRecall: number;
+
+  constructor(scoring: RiskScoringService = new RiskScoringService(), options: RiskBacktestOptions = {}) {
+    this.scoring = scoring;
+    this.mediumRecall = options.mediumRecall ?? 0.9;
+  }
+
+  /**
+   * Score every snapshot as of its own date. The horizon defaults to the
+   * trained model's, else RISK_MODEL_HORIZON_DAYS, else 30 days.
+   */
+  run(snapshots: RiskBacktestSnapshot[], horizonDays?: number): RiskBacktestReport {
+    const open = snapshots.filter(s => s.arData.totalOutstanding > 0);
+    if (open.length === 0) throw new Error('No snapshots with an outstanding balance to backtest');
+
+    const scores = open.map(s => this.scoring.scoreRisk(s.arData, s.paymentHistory, new Date(s.asOfDate)));
+    const horizon = horizonDays ?? scores[0].horizonDays ?? Number(process.env.RISK_MODEL_HORIZON_DAYS ?? 30);
+    const scored: ScoredSnapshot[] = open.map((s, i) => ({
+      score: scores[i],
+      unpaid: s.daysToPay === null || s.daysToPay > horizon ? 1 : 0,
+    }));
+
+    const current = this.scoring.getRiskThresholds();
+    const thresholds = THRESHOLD_GRID.map(t => confusionAt(scored, t));
+
+    return {
+      generatedAt: new Date().toISOString(),
+      model: scores[0].model ?? 'heuristic',
+      horizonDays: horizon,
+      snapshots: scored.length,
+      skipped: snapshots.length - open.length,
+      unpaidRate: round(mean(scored.map(s => s.unpaid))),
+      auc: auc(scored),
+      brierScore: round(mean(scored.map(s => (s.score.score - s.unpaid) ** 2))),
+      calibration: calibration(scored),
+      thresholds,
+      riskLevels: (['high', 'medium', 'low'] as const).map(riskLevel => {
+        const level = scored.filter(s => s.score.riskLevel === riskLevel);
+        return { riskLevel, count: level.length, unpaidRate: round(mean(level.map(s => s.unpaid))) };
+      }),
+      current: { high: confusionAt(scored, current.high), medium: confusionAt(scored, current.medium) },
+      recommended: this.recommend(thresholds, current),
+    };
+  }
+
+  /**
+   * High: the cut-off that best separates unpaid from paid balances (largest
+   * Youden's J = recall − false positive rate), whatever the unpaid rate.
+   * Medium: the highest cut-off below it that still flags `mediumRecall` of
+   * the unpaid balances.
+   */
+  private recommend(
+    thresholds: ThresholdConfusion[],
+    current: { high: number; medium: number },
+  ): RiskBacktestReport['recommended'] {
+    const positives = thresholds[0].truePositives + thresholds[0].falseNegatives;
+    const negatives = thresholds[0].falsePositives + thresholds[0].trueNegatives;
+    if (positives === 0 || negatives === 0) {
+      return { ...current, rationale: 'Snapshots must include both paid and unpaid outcomes; keeping the current thresholds' };
+    }
+
+    const youden = (t: ThresholdConfusion) => t.recall - t.falsePositiveRate;
+    const high = thresholds.reduce((best, t) => (youden(t) > youden(best) ? t : best));
+    const medium = [...thresholds].reverse()
+      .find(t => t.threshold < high.threshold && t.recall >= this.mediumRecall) ?? thresholds[0];
+
+    return {
+      high: high.threshold,
+      medium: Math.min(medium.threshold, high.threshold),
+      rationale:
+        `High at ${high.threshold.toFixed(2)} best separates unpaid from paid balances ` +
+        `(flags ${pct(high.recall)} of unpaid and ${pct(high.falsePositiveRate)} of paid accounts). ` +
+        `Medium at ${medium.threshold.toFixed(2)} is the highest cut-off below it flagging at least ` +
+        `${pct(this.mediumRecall)} of unpaid accounts (${pct(medium.recall)}).`,
+    };
+  }
+
+  /** A self-contained HTML page presenting the report. */
+  renderHtml(report: RiskBacktestReport): string {
+    const marked = (t: number) => [
+      t === report.recommended.high ? 'recommended high' : '',
+      t === report.recommended.medium ? 'recommended medium' : '',
+    ].filter(Boolean).join(', ');
+
+    const confusionRow = (c: ThresholdConfusion, label: string) => `
+        <tr${label ? ' class="mark"' : ''}><td>${c.threshold.toFixed(2)}</td><td>${c.truePositives}</td><td>${c.falsePositives}</td>
+          <td>${c.trueNegatives}</td><td>${c.falseNegatives}</td><td>${pct(c.precision)}</td><td>${pct(c.recall)}</td>
+          <td>${pct(c.falsePositiveRate)}</td><td>${c.f1.toFixed(3)}</td><td>${escapeHtml(label)}</td></tr>`;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Risk Score Backtest</title>
+  <style>
+    body { font-family: Segoe UI, Arial, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; margin: 1rem 0; }
+    th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: right; }
+    th { background: #f3f3f3; }
+    tr.mark td { background: #fff4ce; }
+    .summary td:first-child { text-align: left; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>Risk Score Backtest</h1>
+  <p>Generated ${escapeHtml(report.generatedAt)} — ${escapeHtml(report.model)} model, unpaid = not paid within ${report.horizonDays} days.</p>
+
+  <table class="summary">
+    <tr><td>Snapshots</td><td>${report.snapshots} (${report.skipped} skipped with no balance)</td></tr>
+    <tr><td>Unpaid within horizon</td><td>${pct(report.unpaidRate)}</td></tr>
+    <tr><td>AUC</td><td>${report.auc === null ? 'n/a' : report.auc.toFixed(3)}</td></tr>
+    <tr><td>Brier score</td><td>${report.brierScore.toFixed(4)}</td></tr>
+    <tr><td>Current thresholds</td><td>high ${report.current.high.threshold}, medium ${report.current.medium.threshold}</td></tr>
+    <tr><td>Recommended thresholds</td><td>high ${report.recommended.high}, medium ${report.recommended.medium}</td></tr>
+  </table>
+  <p>${escapeHtml(report.recommended.rationale)}</p>
+
+  <h2>Calibration</h2>
+  ${calibrationSvg(report.calibration)}
+  <table>
+    <tr><th>Score range</th><th>Snapshots</th><th>Mean score</th><th>Observed unpaid</th></tr>${report.calibration.map(b => `
+    <tr><td>${b.fromScore.toFixed(1)}–${b.toScore.toFixed(1)}</td><td>${b.count}</td><td>${pct(b.meanScore)}</td><td>${pct(b.observedRate)}</td></tr>`).join('')}
+  </table>
+
+  <h2>Risk levels at current thresholds</h2>
+  <table>
+    <tr><th>Risk level</th><th>Snapshots</th><th>Observed unpaid</th></tr>${report.riskLevels.map(l => `
+    <tr><td>${l.riskLevel}</td><td>${l.count}</td><td>${pct(l.unpaidRate)}</td></tr>`).join('')}
+  </table>
+
+  <h2>Confusion matrix per threshold</h2>
+  <p>An account is flagged when its score is at or above the threshold.</p>
+  <table>
+    <tr><th>Threshold</th><th>TP</th><th>FP</th><th>TN</th><th>FN</th><th>Precision</th><th>Recall</th><th>FP rate</th><th>F1</th><th></th></tr>${
+      confusionRow(report.current.high, 'current high')}${confusionRow(report.current.medium, 'current medium')}${
+      report.thresholds.map(t => confusionRow(t, marked(t.threshold))).join('')}
+  </table>
+</body>
+</html>
+`;
+  }
+}
+
+/**
+ * Read snapshots from a JSON array (or an object with a `snapshots` array).
+ * Optional ARAgingData and PaymentHistory fields may be left out.
+ */
+export function loadBacktestSnapshots(file: string): RiskBacktestSnapshot[] {
+  const parsed: unknown = JSON.parse(readFileSync(file, 'utf8'));
+  const rows = Array.isArray(parsed) ? parsed : (parsed as { snapshots?: unknown })?.snapshots;
+  if (!Array.isArray(rows)) throw new Error(`${file} must contain a JSON array of snapshots`);
+
+  return (rows as Partial<RiskBacktestSnapshot>[]).map((row, index) => {
+    const where = `${file} snapshot ${index + 1}`;
+    if (!row.asOfDate || isNaN(new Date(row.asOfDate).getTime())) throw new Error(`${where}: missing or invalid asOfDate`);
+    if (!row.arData || typeof row.arData.totalOutstanding !== 'number') throw new Error(`${where}: missing arData`);
+    if (row.daysToPay !== null && typeof row.daysToPay !== 'number') {
+      throw new Error(`${where}: daysToPay must be a number or null`);
+    }
+
+    const customerId = row.arData.customerId;
+    return {
+      asOfDate: row.asOfDate,
+      arData: { ...row.arData, invoices: row.arData.invoices ?? [] },
+      paymentHistory: {
+        customerId,
+        averagePaymentDays:  30,
+        onTimePaymentRate:   1,
+        totalTransactions:   0,
+        lastPaymentDate:     row.asOfDate,
+        ...row.paymentHistory,
+        promiseToPayHistory: row.paymentHistory?.promiseToPayHistory ?? [],
+      },
+      daysToPay: row.daysToPay,
+    };
+  });
+}
+
+function confusionAt(scored: ScoredSnapshot[], threshold: number): ThresholdConfusion {
+  let tp = 0, fp = 0, tn = 0, fn = 0;
+  for (const { score, unpaid } of scored) {
+    const flagged = score.score >= threshold;
+    if (flagged && unpaid) tp++;
+    else if (flagged) fp++;
+    else if (unpaid) fn++;
+    else tn++;
+  }
+  const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+  const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+  return {
+    threshold,
+    truePositives: tp,
+    falsePositives: fp,
+    trueNegatives: tn,
+    falseNegatives: fn,
+    precision: round(precision),
+    recall: round(recall),
+    falsePositiveRate: round(fp + tn > 0 ? fp / (fp + tn) : 0),
+    f1: round(precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0),
+  };
+}
+
+/** Probability that an unpaid snapshot scores above a paid one (tied scores count half). */
+function auc(scored: ScoredSnapshot[]): number | null {
+  const positives = scored.filter(s => s.unpaid).length;
+  const negatives = scored.length - positives;
+  if (positives === 0 || negatives === 0) return null;
+
+  // Mann–Whitney U from average ranks
+  const sorted = [...scored].sort((a, b) => a.score.score - b.score.score);
+  let positiveRankSum = 0;
+  for (let i = 0; i < sorted.length;) {
+    let j = i;
+    while (j < sorted.length && sorted[j].score.score === sorted[i].score.score) j++;
+    const averageRank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) if (sorted[k].unpaid) positiveRankSum += averageRank;
+    i = j;
+  }
+  return round((positiveRankSum - positives * (positives + 1) / 2) / (positives * negatives));
+}
+
+function calibration(scored: ScoredSnapshot[]): CalibrationBin[] {
+  const bins: CalibrationBin[] = [];
+  for (let b = 0; b < CALIBRATION_BINS; b++) {
+    const fromScore = b / CALIBRATION_BINS;
+    const toScore = (b + 1) / CALIBRATION_BINS;
+    const last = b === CALIBRATION_BINS - 1;
+    const inBin = scored.filter(s => s.score.score >= fromScore && (s.score.score < toScore || last));
+    if (inBin.length === 0) continue;
+    bins.push({
+      fromScore,
+      toScore,
+      count: inBin.length,
+      meanScore: round(mean(inBin.map(s => s.score.score))),
+      observedRate: round(mean(inBin.map(s => s.unpaid))),
+    });
+  }
+  return bins;
+}
+
+/** Observed unpaid rate against mean score per bin, with the perfect-calibration diagonal. */
+function calibrationSvg(bins: CalibrationBin[]): string {
+  const size = 300, pad = 30, plot = size - 2 * pad;
+  const x = (v: number) => (pad + v * plot).toFixed(1);
+  const y = (v: number) => (size - pad - v * plot).toFixed(1);
+  const points = bins.map(b => `${x(b.meanScore)},${y(b.observedRate)}`).join(' ');
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}" role="img" aria-label="Calibration curve">
+    <rect x="${pad}" y="${pad}" width="${plot}" height="${plot}" fill="none" stroke="#999"/>
+    <line x1="${x(0)}" y1="${y(0)}" x2="${x(1)}" y2="${y(1)}" stroke="#bbb" stroke-dasharray="4"/>
+    <polyline points="${points}" fill="none" stroke="#0078d4" stroke-width="2"/>${bins.map(b => `
+    <circle cx="${x(b.meanScore)}" cy="${y(b.observedRate)}" r="${Math.min(8, 3 + Math.log2(b.count))}" fill="#0078d4"/>`).join('')}
+    <text x="${size / 2}" y="${size - 5}" text-anchor="middle" font-size="11">Mean risk score</text>
+    <text x="10" y="${size / 2}" text-anchor="middle" font-size="11" transform="rotate(-90 10 ${size / 2})">Observed unpaid</text>
+  </svg>`;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,235 @@
+import { readFileSync } from 'fs';
+import { ARAgingData, PaymentHistory, RiskFactorSetting } from '../types';
+import { resolveAgingBuckets } from './agingService';
+import { brokenPromiseRate, getPromiseStatus } from './promiseService';
+import { formatCurrency } from './currencyService';
+
+export interface RiskFactorContext {
+  arData: ARAgingData;
+  paymentHistory: PaymentHistory;
+  asOf: Date;
+}
+
+/**
+ * A risk factor for heuristic scoring. `evaluate` returns a sub-score from 0
+ * (no risk) to 1 (highest risk) with a plain-language explanation, or
+ * undefined when the customer lacks the data the factor needs — its weight is
+ * then shared among the other factors.
+ */
+export interface RiskFactorPlugin {
+  name: string;
+  label: string;
+  evaluate(
+    context: RiskFactorContext,
+    options: Record<string, unknown>,
+  ): { score: number; description: string } | undefined;
+}
+
+/** A configured factor with its plugin resolved and weight normalized. */
+export interface ResolvedRiskFactor {
+  plugin: RiskFactorPlugin;
+  label: string;
+  weight: number;
+  options: Record<string, unknown>;
+}
+
+const YEAR_MS = 365.25 * 86_400_000;
+
+/** Disputed amounts below half a cent are ignored. */
+const EPSILON = 0.005;
+
+const BUILT_IN_RISK_FACTORS: RiskFactorPlugin[] = [
+  {
+    name: 'aging',
+    label: 'Aged Receivables',
+    evaluate: ({ arData }) => {
+      // Higher score for older receivables — each bucket's share weighted by the aging scheme
+      const { scheme, buckets } = resolveAgingBuckets(arData);
+      const total = arData.totalOutstanding;
+      const bucketWeights = new Map(scheme.buckets.map(b => [b.key, b.weight]));
+      const score = total === 0 ? 0 : buckets.reduce(
+        (sum, bucket) => sum + (bucket.amount / total) * (bucketWeights.get(bucket.key) ?? 0),
+        0,
+      );
+
+      const agedAmount = buckets
+        .filter(b => b.minDays >= scheme.agedFromDays)
+        .reduce((sum, b) => sum + b.amount, 0);
+      const agedPercent = total > 0 ? agedAmount / total * 100 : 0;
+      return {
+        score,
+        description: `${agedPercent.toFixed(1)}% of outstanding balance is ${scheme.agedFromDays}+ days past due` +
+          (arData.disputedAmount ? ` (${formatCurrency(arData.disputedAmount, arData.currency)} under dispute excluded)` : ''),
+      };
+    },
+  },
+  {
+    name: 'paymentHistory',
+    label: 'Payment History',
+    evaluate: ({ paymentHistory }) => {
+      const description = `Average payment delay: ${paymentHistory.averagePaymentDays.toFixed(0)} days, ` +
+        `On-time rate: ${(paymentHistory.onTimePaymentRate * 100).toFixed(1)}%`;
+      if (paymentHistory.totalTransactions === 0) return { score: 0.5, description }; // Neutral for new customers
+
+      // Lower on-time rate and higher average days means higher risk
+      const onTimeScore = 1 - paymentHistory.onTimePaymentRate;
+      const daysScore = Math.min(paymentHistory.averagePaymentDays / 90, 1);
+      return { score: (onTimeScore * 0.6) + (daysScore * 0.4), description };
+    },
+  },
+  {
+    name: 'promiseKeeping',
+    label: 'Promise Keeping',
+    evaluate: ({ paymentHistory, asOf }) => {
+      // Open promises haven't come due yet, so they say nothing about reliability
+      const score = brokenPromiseRate(paymentHistory.promiseToPayHistory, asOf);
+      const statuses = paymentHistory.promiseToPayHistory.map(p => getPromiseStatus(p, asOf));
+      const resolved = statuses.filter(s => s !== 'open').length;
+      const broken = statuses.filter(s => s === 'broken').length;
+      const partial = statuses.filter(s => s === 'partially-kept').length;
+      return {
+        score,
+        description: resolved > 0
+          ? `${broken} of ${resolved} promises broken, ${partial} partially kept (${(score * 100).toFixed(0)}% broken rate)`
+          : 'No payment promises on record',
+      };
+    },
+  },
+  {
+    // options.fullRiskAt: utilization that scores 1 (default 1 — at the limit)
+    name: 'creditUtilization',
+    label: 'Credit Utilization',
+    evaluate: ({ arData }, options) => {
+      if (!arData.creditLimit || arData.creditLimit <= 0) return undefined;
+      const utilization = arData.totalOutstanding / arData.creditLimit;
+      const fullRiskAt = Number(options.fullRiskAt ?? 1);
+      return {
+        score: Math.min(Math.max(utilization / fullRiskAt, 0), 1),
+        description: `${(utilization * 100).toFixed(0)}% of the ${formatCurrency(arData.creditLimit, arData.currency)} credit limit in use`,
+      };
+    },
+  },
+  {
+    // options.fullRiskAt: open invoices under dispute that score 1 (default 3)
+    name: 'disputeCount',
+    label: 'Disputes',
+    evaluate: ({ arData }, options) => {
+      if (arData.invoices.length === 0) return undefined;
+      const disputed = arData.invoices.filter(inv => (inv.disputedAmount ?? 0) >= EPSILON).length;
+      const fullRiskAt = Number(options.fullRiskAt ?? 3);
+      return {
+        score: Math.min(disputed / fullRiskAt, 1),
+        description: disputed === 0
+          ? 'No open invoices under dispute'
+          : `${disputed} of ${arData.invoices.length} open invoices under dispute`,
+      };
+    },
+  },
+  {
+    // options.matureYears: tenure at which a customer no longer counts as new (default 5)
+    name: 'customerTenure',
+    label: 'Customer Tenure',
+    evaluate: ({ arData, asOf }, options) => {
+      if (!arData.customerSince) return undefined;
+      const years = Math.max(0, (asOf.getTime() - new Date(arData.customerSince).getTime()) / YEAR_MS);
+      const matureYears = Number(options.matureYears ?? 5);
+      return {
+        score: Math.max(0, 1 - years / matureYears),
+        description: years < 1
+          ? `Customer for ${Math.floor(years * 12)} months`
+          : `Customer for ${years.toFixed(1)} years`,
+      };
+    },
+  },
+  {
+    // options.riskByIndustry: industry name → risk 0–1; options.defaultRisk for others (default 0.5)
+    name: 'industry',
+    label: 'Industry',
+    evaluate: ({ arData }, options) => {
+      if (!arData.industry) return undefined;
+      const riskByIndustry = (options.riskByIndustry ?? {}) as Record<string, number>;
+      const match = Object.keys(riskByIndustry).find(k => k.toLowerCase() === arData.industry?.toLowerCase());
+      const score = match !== undefined ? riskByIndustry[match] : Number(options.defaultRisk ?? 0.5);
+      return { score, description: `${arData.industry} — industry risk ${(score * 100).toFixed(0)}%` };
+    },
+  },
+];
+
+const registry = new Map<string, RiskFactorPlugin>(BUILT_IN_RISK_FACTORS.map(p => [p.name, p]));
+
+/** The factors and weights used when no RISK_FACTORS_FILE is configured. */
+export const DEFAULT_RISK_FACTORS: RiskFactorSetting[] = [
+  { name: 'aging',          weight: 0.5 },
+  { name: 'paymentHistory', weight: 0.3 },
+  { name: 'promiseKeeping', weight: 0.2 },
+];
+
+/** Add a risk factor, or replace the one with the same name. */
+export function registerRiskFactor(plugin: RiskFactorPlugin): void {
+  registry.set(plugin.name, plugin);
+}
+
+/** Every registered risk factor plugin. */
+export function getRiskFactorPlugins(): RiskFactorPlugin[] {
+  return Array.from(registry.values());
+}
+
+let loadedSettings: { file: string | undefined; settings: RiskFactorSetting[] } | null = null;
+
+/**
+ * The configured factors: the JSON array of RiskFactorSetting at
+ * RISK_FACTORS_FILE, else DEFAULT_RISK_FACTORS.
+ */
+export function getRiskFactorSettings(file: string | undefined = process.env.RISK_FACTORS_FILE): RiskFactorSetting[] {
+  if (loadedSettings && loadedSettings.file === file) return loadedSettings.settings;
+
+  let settings = DEFAULT_RISK_FACTORS;
+  if (file) {
+    const parsed: unknown = JSON.parse(readFileSync(file, 'utf8'));
+    if (!Array.isArray(parsed)) throw new Error(`${file} must contain a JSON array of risk factors`);
+    settings = parsed as RiskFactorSetting[];
+  }
+
+  loadedSettings = { file, settings };
+  return settings;
+}
+
+/**
+ * Resolve settings to plugins, leaving out factors with no weight and scaling
+ * the rest to sum to 1.
+ */
+export function resolveRiskFactors(settings: RiskFactorSetting[] = getRiskFactorSettings()): ResolvedRiskFactor[] {
+  const seen = new Set<string>();
+  for (const setting of settings) {
+    if (!registry.has(setting.name)) {
+      throw new Error(`Unknown risk factor "${setting.name}". Available: ${Array.from(registry.keys()).join(', ')}`);
+    }
+    if (seen.has(setting.name)) throw new Error(`Risk factor "${setting.name}" is configured twice`);
+    if (!(setting.weight >= 0)) throw new Error(`Risk factor "${setting.name}" weight must be zero or more`);
+    seen.add(setting.name);
+  }
+
+  const active = settings.filter(s => s.weight > 0);
+  const total = active.reduce((sum, s) => sum + s.weight, 0);
+  if (total === 0) throw new Error('At least one risk factor needs a weight above zero');
+
+  return active.map(setting => {
+    const plugin = registry.get(setting.name) as RiskFactorPlugin;
+    return {
+      plugin,
+      label: setting.label ?? plugin.label,
+      weight: setting.weight / total,
+      options: setting.options ?? {},
+    };
+  });
+}
+
+/** The configured weights in words, e.g. "Aged Receivables 50%, Payment History 30%". */
+export function describeRiskFactorWeights(factors: ResolvedRiskFactor[] = resolveRiskFactors()): string {
+  return factors.map(f => `${f.label} ${formatWeight(f.weight)}`).join(', ');
+}
+
+/** A weight as a whole percentage, e.g. 0.3 → "30%". */
+export function formatWeight(weight: number): string {
+  return `${Math.round(weight * 100)}%`;
+}
@@ -0,0 +1,152 @@
+import {
+  ARAgingData,
+  PaymentHistory,
+  RiskFactorChange,
+  RiskHistoryPoint,
+  RiskScore,
+  RiskScoreRecord,
+  RiskTrend,
+} from '../types';
+
+const DAY_MS = 86_400_000;
+
+/** Score changes smaller than this are reported as stable. */
+const STABLE_CHANGE = 0.02;
+
+/**
+ * Risk Trend Service
+ *
+ * Turns a customer's recorded risk scores into a trend: the direction of
+ * travel, the change versus a week earlier, and which risk factors moved the
+ * score. Scores are compared with the latest one at least a week older than
+ * the current score, or with the oldest on record when there is no week of
+ * history yet.
+ *
+ * Scores are recorded once per customer per day, under an ID made of the
+ * customer and the day, and kept for RISK_HISTORY_RETENTION_DAYS.
+ */
+export class RiskHistoryService {
+  private windowDays: number;
+  readonly retentionDays: number;
+
+  /**
+   * @param windowDays    Days of history a trend returns by default (RISK_HISTORY_DAYS, else 90)
+   * @param retentionDays Days a recorded score is kept (RISK_HISTORY_RETENTION_DAYS, else 400)
+   */
+  constructor(
+    windowDays: number = Number(process.env.RISK_HISTORY_DAYS ?? 90),
+    retentionDays: number = Number(process.env.RISK_HISTORY_RETENTION_DAYS ?? 400),
+  ) {
+    this.windowDays = windowDays;
+    this.retentionDays = retentionDays;
+  }
+
+  /** The day's record for a score, with a summary of the data it was computed from. */
+  toRecord(riskScore: RiskScore, arData: ARAgingData, paymentHistory: PaymentHistory, scoredAt: Date = new Date()): RiskScoreRecord {
+    return {
+      customerId: riskScore.customerId,
+      scoredAt: scoredAt.toISOString(),
+      riskScore,
+      inputs: {
+        totalOutstanding: arData.totalOutstanding,
+        overdue: round(arData.days30 + arData.days60 + arData.days90 + arData.days120Plus),
+        openInvoices: arData.invoices.length,
+        onTimePaymentRate: paymentHistory.onTimePaymentRate,
+        averagePaymentDays: paymentHistory.averagePaymentDays,
+      },
+    };
+  }
+
+  /** Whether a new score is worth recording over the day's existing record. */
+  hasChanged(recorded: RiskScoreRecord | undefined, riskScore: RiskScore): boolean {
+    return !recorded ||
+      round(recorded.riskScore.score) !== round(riskScore.score) ||
+      recorded.riskScore.riskLevel !== riskScore.riskLevel;
+  }
+
+  /** Records older than the retention period on `now`. */
+  expired(records: RiskScoreRecord[], now: Date = new Date()): RiskScoreRecord[] {
+    const cutoff = now.getTime() - this.retentionDays * DAY_MS;
+    return records.filter(r => new Date(r.scoredAt).getTime() < cutoff);
+  }
+
+  /**
+   * Trend for a customer from its score records, in any order. `days` limits
+   * the returned history (default RISK_HISTORY_DAYS, else 90).
+   */
+  buildTrend(customerId: string, records: RiskScoreRecord[], days: number = this.windowDays): RiskTrend {
+    const sorted = [...records].sort((a, b) => a.scoredAt.localeCompare(b.scoredAt));
+    const latest = sorted[sorted.length - 1];
+    if (!latest) {
+      return { customerId, trend: 'insufficient-data', change: null, changeVsLastWeek: null, drivers: [], history: [] };
+    }
+
+    const latestTime = new Date(latest.scoredAt).getTime();
+    const weekOld = [...sorted].reverse().find(r => new Date(r.scoredAt).getTime() <= latestTime - 7 * DAY_MS);
+    const baseline = weekOld ?? (sorted.length > 1 ? sorted[0] : undefined);
+    const change = baseline ? round(latest.riskScore.score - baseline.riskScore.score) : null;
+
+    const windowStart = latestTime - days * DAY_MS;
+    const history = lastPerDay(sorted.filter(r => new Date(r.scoredAt).getTime() >= windowStart));
+
+    return {
+      customerId,
+      trend: change === null ? 'insufficient-data'
+        : change >= STABLE_CHANGE ? 'worsening'
+        : change <= -STABLE_CHANGE ? 'improving'
+        : 'stable',
+      current: toPoint(latest),
+      baseline: baseline && toPoint(baseline),
+      change,
+      changeVsLastWeek: weekOld ? round(latest.riskScore.score - weekOld.riskScore.score) : null,
+      drivers: baseline ? this.drivers(baseline, latest) : [],
+      history,
+    };
+  }
+
+  /** Factors present in both scores whose contribution changed, biggest change first. */
+  private drivers(previous: RiskScoreRecord, current: RiskScoreRecord): RiskFactorChange[] {
+    const changes: RiskFactorChange[] = [];
+    for (const factor of current.riskScore.factors) {
+      const before = previous.riskScore.factors.find(f => (f.name ?? f.factor) === (factor.name ?? factor.factor));
+      if (!before) continue;
+
+      const contributionChange = round((factor.impact - before.impact) * (factor.weight ?? 1));
+      if (contributionChange === 0) continue;
+
+      changes.push({
+        factor: factor.factor,
+        previousImpact: round(before.impact),
+        currentImpact: round(factor.impact),
+        contributionChange,
+        description: `${contributionChange > 0 ? 'Raised' : 'Lowered'} risk — was: ${before.description}; now: ${factor.description}`,
+      });
+    }
+    return changes.sort((a, b) => Math.abs(b.contributionChange) - Math.abs(a.contributionChange));
+  }
+}
+
+/** Store ID of a customer's score record for the (UTC) day of `scoredAt`. */
+export function riskScoreRecordId(customerId: string, scoredAt: string): string {
+  return `${customerId}:${scoredAt.slice(0, 10)}`;
+}
+
+function toPoint(record: RiskScoreRecord): RiskHistoryPoint {
+  return {
+    scoredAt: record.scoredAt,
+    score: round(record.riskScore.score),
+    riskLevel: record.riskScore.riskLevel,
+    model: record.riskScore.model,
+  };
+}
+
+/** The last record of each calendar day (UTC), as history points. */
+function lastPerDay(records: RiskScoreRecord[]): RiskHistoryPoint[] {
+  const byDay = new Map<string, RiskScoreRecord>();
+  for (const record of records) byDay.set(record.scoredAt.slice(0, 10), record);
+  return Array.from(byDay.values()).map(toPoint);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
@@ -0,0 +1,294 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { ARAgingData, PaymentHistory, RiskModelParameters, RiskTrainingExample } from '../types';
+import { oldestDaysOverdue, overdueAmount, resolveAgingBuckets } from './agingService';
+import { brokenPromiseRate } from './promiseService';
+import { parseCsv } from '../utils/csv';
+
+/** A model input computed from a customer's AR aging and payment history. */
+interface RiskFeature {
+  name: string;
+  /** Shown as the RiskFactor name */
+  label: string;
+  extract(arData: ARAgingData, history: PaymentHistory, asOf: Date): number;
+  /** Plain-language statement of the value, e.g. "62% of the balance is past due" */
+  describe(value: number): string;
+}
+
+export const RISK_FEATURES: RiskFeature[] = [
+  {
+    name: 'overdueShare',
+    label: 'Overdue Balance',
+    extract: arData => share(overdueAmount(resolveAgingBuckets(arData).buckets), arData.totalOutstanding),
+    describe: v => `${(v * 100).toFixed(0)}% of the balance is past due`,
+  },
+  {
+    name: 'agedShare',
+    label: 'Aged Receivables',
+    extract: arData => {
+      const { scheme, buckets } = resolveAgingBuckets(arData);
+      const aged = buckets.filter(b => b.minDays >= scheme.agedFromDays).reduce((sum, b) => sum + b.amount, 0);
+      return share(aged, arData.totalOutstanding);
+    },
+    describe: v => `${(v * 100).toFixed(0)}% of the balance is seriously aged`,
+  },
+  {
+    name: 'oldestDaysOverdue',
+    label: 'Oldest Invoice',
+    extract: arData => oldestDaysOverdue(arData),
+    describe: v => `Oldest open balance is ${v.toFixed(0)} days past due`,
+  },
+  {
+    name: 'logBalance',
+    label: 'Balance Size',
+    extract: arData => Math.log10(1 + Math.max(0, arData.totalOutstanding)),
+    describe: v => `Outstanding balance of about ${Math.round(10 ** v - 1).toLocaleString()}`,
+  },
+  {
+    name: 'lateRate',
+    label: 'Payment History',
+    extract: (_arData, history) => (history.totalTransactions > 0 ? 1 - history.onTimePaymentRate : 0),
+    describe: v => `${(v * 100).toFixed(0)}% of past payments were late`,
+  },
+  {
+    name: 'averagePaymentDays',
+    label: 'Days to Pay',
+    extract: (_arData, history) => history.averagePaymentDays,
+    describe: v => `Pays in ${v.toFixed(0)} days on average`,
+  },
+  {
+    name: 'brokenPromiseRate',
+    label: 'Promise Keeping',
+    extract: (_arData, history, asOf) => brokenPromiseRate(history.promiseToPayHistory, asOf),
+    describe: v => `${(v * 100).toFixed(0)}% of resolved promises to pay were broken`,
+  },
+  {
+    name: 'noPaymentHistory',
+    label: 'New Customer',
+    extract: (_arData, history) => (history.totalTransactions === 0 ? 1 : 0),
+    describe: v => (v ? 'No payment history on record' : 'Has an established payment history'),
+  },
+];
+
+/** Feature values for a customer, keyed by feature name. */
+export function extractRiskFeatures(
+  arData: ARAgingData,
+  history: PaymentHistory,
+  asOf: Date = new Date(),
+): Record<string, number> {
+  const features: Record<string, number> = {};
+  for (const feature of RISK_FEATURES) features[feature.name] = feature.extract(arData, history, asOf);
+  return features;
+}
+
+/** One feature's pull on a prediction, relative to the average training example. */
+export interface FeatureContribution {
+  name: string;
+  label: string;
+  value: number;
+  description: string;
+  /** Change in the log-odds of paying within the horizon */
+  contribution: number;
+}
+
+export interface RiskModelTrainingOptions {
+  /** Predict payment within this many days (default 30) */
+  horizonDays?: number;
+  iterations?: number;
+  learningRate?: number;
+  /** L2 penalty on the coefficients */
+  l2?: number;
+}
+
+/**
+ * Logistic regression over standardized risk features, predicting the
+ * probability that a customer pays within `horizonDays`.
+ *
+ * Each feature's contribution is its coefficient times its standardized
+ * value — how far it moves the log-odds of payment away from that of an
+ * average customer in the training data — which makes every score explainable.
+ */
+export class LogisticRiskModel {
+  readonly parameters: RiskModelParameters;
+
+  constructor(parameters: RiskModelParameters) {
+    this.parameters = parameters;
+  }
+
+  get horizonDays(): number {
+    return this.parameters.horizonDays;
+  }
+
+  /**
+   * Fit a model to historical outcomes by batch gradient descent. An example
+   * is positive when it was paid within `horizonDays`.
+   */
+  static train(examples: RiskTrainingExample[], options: RiskModelTrainingOptions = {}): LogisticRiskModel {
+    const horizonDays = options.horizonDays ?? 30;
+    const iterations = options.iterations ?? 1000;
+    const learningRate = options.learningRate ?? 0.5;
+    const l2 = options.l2 ?? 0.001;
+
+    const labels = examples.map(e => (isPaidWithin(e, horizonDays) ? 1 : 0));
+    const positives = labels.reduce<number>((sum, y) => sum + y, 0);
+    if (examples.length < 20) {
+      throw new Error(`At least 20 training examples are needed (got ${examples.length})`);
+    }
+    if (positives === 0 || positives === examples.length) {
+      throw new Error(`Training examples must include invoices both paid and not paid within ${horizonDays} days`);
+    }
+
+    // Standardize so one learning rate suits every feature and contributions are comparable
+    const names = RISK_FEATURES.map(f => f.name);
+    const stats = names.map(name => {
+      const values = examples.map(e => e.features[name]);
+      const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+      const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+      return { mean, std: Math.sqrt(variance) || 1 };
+    });
+    const rows = examples.map(e => names.map((name, j) => (e.features[name] - stats[j].mean) / stats[j].std));
+
+    const positiveRate = positives / examples.length;
+    const weights = new Array<number>(names.length).fill(0);
+    let intercept = Math.log(positiveRate / (1 - positiveRate));
+
+    for (let iter = 0; iter < iterations; iter++) {
+      const gradient = new Array<number>(names.length).fill(0);
+      let interceptGradient = 0;
+      rows.forEach((x, i) => {
+        const error = sigmoid(intercept + dot(weights, x)) - labels[i];
+        for (let j = 0; j < x.length; j++) gradient[j] += error * x[j];
+        interceptGradient += error;
+      });
+      for (let j = 0; j < weights.length; j++) {
+        weights[j] -= learningRate * (gradient[j] / rows.length + l2 * weights[j]);
+      }
+      intercept -= learningRate * interceptGradient / rows.length;
+    }
+
+    let logLoss = 0, correct = 0;
+    rows.forEach((x, i) => {
+      const p = Math.min(Math.max(sigmoid(intercept + dot(weights, x)), 1e-12), 1 - 1e-12);
+      logLoss -= labels[i] ? Math.log(p) : Math.log(1 - p);
+      if ((p >= 0.5 ? 1 : 0) === labels[i]) correct++;
+    });
+
+    return new LogisticRiskModel({
+      type: 'logistic-regression',
+      horizonDays,
+      trainedAt: new Date().toISOString(),
+      trainingExamples: examples.length,
+      intercept,
+      features: names.map((name, j) => ({ name, ...stats[j], coefficient: weights[j] })),
+      metrics: {
+        logLoss: logLoss / rows.length,
+        accuracy: correct / rows.length,
+        positiveRate,
+      },
+    });
+  }
+
+  /** Probability of payment within horizonDays. */
+  predict(features: Record<string, number>): number {
+    return sigmoid(this.parameters.intercept + this.explain(features).reduce((sum, c) => sum + c.contribution, 0));
+  }
+
+  /** Every feature's contribution to the prediction, largest effect first. */
+  explain(features: Record<string, number>): FeatureContribution[] {
+    return this.parameters.features
+      .map(f => {
+        const definition = RISK_FEATURES.find(d => d.name === f.name);
+        const value = features[f.name] ?? f.mean;
+        return {
+          name: f.name,
+          label: definition?.label ?? f.name,
+          value,
+          description: definition?.describe(value) ?? `${f.name} = ${value}`,
+          contribution: f.coefficient * (value - f.mean) / f.std,
+        };
+      })
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  }
+}
+
+/** Whether an example counts as paid within the horizon. */
+export function isPaidWithin(example: RiskTrainingExample, horizonDays: number): boolean {
+  return example.daysToPay !== null && example.daysToPay <= horizonDays;
+}
+
+/** Path of the saved model (RISK_MODEL_FILE, default ./data/risk-model.json). */
+export function getRiskModelFile(): string {
+  return process.env.RISK_MODEL_FILE ?? path.resolve(process.cwd(), 'data', 'risk-model.json');
+}
+
+/** Read a saved model; undefined when the file does not exist. */
+export function loadRiskModel(file: string = getRiskModelFile()): LogisticRiskModel | undefined {
+  if (!existsSync(file)) return undefined;
+
+  const parameters = JSON.parse(readFileSync(file, 'utf8')) as RiskModelParameters;
+  if (parameters.type !== 'logistic-regression' || !Array.isArray(parameters.features)) {
+    throw new Error(`${file} is not a logistic regression risk model`);
+  }
+  const unknown = parameters.features.find(f => !RISK_FEATURES.some(d => d.name === f.name));
+  if (unknown) throw new Error(`${file}: unknown feature "${unknown.name}"`);
+  return new LogisticRiskModel(parameters);
+}
+
+/**
+ * Read historical outcomes from a JSON array or a CSV file. Each row holds
+ * one column per feature in RISK_FEATURES plus daysToPay (blank = never
+ * paid), and optionally customerId, invoiceId and asOfDate. JSON rows may
+ * instead nest the feature values in a `features` object.
+ */
+export function loadTrainingExamples(file: string): RiskTrainingExample[] {
+  const content = readFileSync(file, 'utf8');
+  const rows: Record<string, unknown>[] = file.toLowerCase().endsWith('.csv')
+    ? parseCsv(content)
+    : JSON.parse(content);
+  if (!Array.isArray(rows)) throw new Error(`${file} must contain a JSON array of training examples`);
+
+  return rows.map((row, index) => {
+    const where = `${file} row ${index + 1}`;
+    const source = (row.features && typeof row.features === 'object' ? row.features : row) as Record<string, unknown>;
+
+    const features: Record<string, number> = {};
+    for (const { name } of RISK_FEATURES) {
+      const value = toNumber(source[name]);
+      if (value === null) throw new Error(`${where}: missing or invalid ${name}`);
+      features[name] = value;
+    }
+
+    const daysToPay = toNumber(row.daysToPay);
+    if (daysToPay === null && row.daysToPay !== undefined && row.daysToPay !== null && row.daysToPay !== '') {
+      throw new Error(`${where}: invalid daysToPay "${String(row.daysToPay)}"`);
+    }
+
+    return {
+      customerId: row.customerId ? String(row.customerId) : undefined,
+      invoiceId:  row.invoiceId ? String(row.invoiceId) : undefined,
+      asOfDate:   row.asOfDate ? String(row.asOfDate) : undefined,
+      features,
+      daysToPay,
+    };
+  });
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const n = typeof value === 'number' ? value : Number(value);
+  return isFinite(n) ? n : null;
+}
+
+function share(amount: number, total: number): number {
+  return total > 0 ? Math.min(Math.max(amount / total, 0), 1) : 0;
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
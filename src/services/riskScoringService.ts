@@ -1,52 +1,126 @@
-import { AzureOpenAI } from 'openai';
-import { DefaultAzureCredential, getBearerTokenProvider } from '@azure/identity';
 import { RiskScore, ARAgingData, PaymentHistory, RiskFactor } from '../types';
+import { excludeDisputedAmounts, installmentAmounts, resolveAgingBuckets, unknownAmounts } from './agingService';
+import { CurrencyService, formatCurrency } from './currencyService';
+import { LogisticRiskModel, extractRiskFeatures, getRiskModelFile, loadRiskModel } from './riskModel';
+import { ResolvedRiskFactor, formatWeight, resolveRiskFactors } from './riskFactors';
+import { LLMOutputError, LLMProvider, completeValidated, getLLMProvider } from '../llm';
+
+/**
+ * How customers are scored (RISK_MODEL):
+ *   auto                : the trained model at RISK_MODEL_FILE when there is one, else the heuristic
+ *   logistic-regression : the trained model; falls back to the heuristic if it can't be loaded
+ *   heuristic           : weighted sub-scores from the risk factors configured in RISK_FACTORS_FILE
+ *                         (default aging 50% / payment history 30% / promise keeping 20%)
+ */
+export type RiskScoringMode = 'auto' | 'logistic-regression' | 'heuristic';
 
 export class RiskScoringService {
-  private client: AzureOpenAI;
-  private deploymentName: string;
-
-  constructor() {
-    const endpoint = process.env.AZURE_OPENAI_ENDPOINT || '';
-    const apiKey = process.env.AZURE_OPENAI_API_KEY || '';
-    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || '2025-01-01-preview';
-    this.deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || 'gpt-5';
-    
-    // Use Microsoft Entra ID if API key is not provided, otherwise use API key
-    if (!apiKey) {
-      const credential = new DefaultAzureCredential();
-      const scope = 'https://cognitiveservices.azure.com/.default';
-      const azureADTokenProvider = getBearerTokenProvider(credential, scope);
-      this.client = new AzureOpenAI({
-        endpoint,
-        azureADTokenProvider,
-        deployment: this.deploymentName,
-        apiVersion,
-      });
-    } else {
-      this.client = new AzureOpenAI({
-        endpoint,
-        apiKey,
-        deployment: this.deploymentName,
-        apiVersion,
-      });
-    }
+  private llm: LLMProvider;
+  private model: LogisticRiskModel | undefined;
+  private riskFactors: ResolvedRiskFactor[];
+
+  constructor(
+    mode: RiskScoringMode = (process.env.RISK_MODEL as RiskScoringMode) || 'auto',
+    modelFile: string = getRiskModelFile(),
+    llm: LLMProvider = getLLMProvider(),
+  ) {
+    this.model = this.loadModel(mode, modelFile);
+    this.riskFactors = resolveRiskFactors();
+    this.llm = llm;
   }
 
   /**
-   * Calculate risk score for a customer based on AR aging and payment history
+   * Calculate risk score for a customer based on AR aging and payment history,
+   * with an AI-generated recommendation
    */
   async calculateRiskScore(
     arData: ARAgingData,
     paymentHistory: PaymentHistory
   ): Promise<RiskScore> {
-    // Calculate base metrics
-    const agingScore = this.calculateAgingScore(arData);
-    const paymentScore = this.calculatePaymentHistoryScore(paymentHistory);
-    const promiseKeepingScore = this.calculatePromiseKeepingScore(paymentHistory);
+    const riskScore = this.scoreRisk(arData, paymentHistory);
+    riskScore.recommendation = await this.generateRecommendation(arData, paymentHistory, riskScore);
+    return riskScore;
+  }
+
+  /**
+   * Score a customer without calling the LLM, with the trained model when one
+   * is loaded and the heuristic otherwise. The recommendation is the
+   * rule-based one for the risk score; use generateRecommendation for an AI one.
+   * `asOf` dates the score, e.g. when replaying a historical snapshot.
+   * Amounts under dispute are held out of the balance being scored.
+   */
+  scoreRisk(arData: ARAgingData, paymentHistory: PaymentHistory, asOf: Date = new Date()): RiskScore {
+    const collectible = excludeDisputedAmounts(arData);
+    return this.model
+      ? this.scoreWithModel(this.model, collectible, paymentHistory, asOf)
+      : this.scoreWithHeuristic(collectible, paymentHistory, asOf);
+  }
+
+  /** Scores at or above `high` are high risk, at or above `medium` medium risk. */
+  getRiskThresholds(): { high: number; medium: number } {
+    return {
+      high: parseFloat(process.env.RISK_THRESHOLD_HIGH || '0.7'),
+      medium: parseFloat(process.env.RISK_THRESHOLD_MEDIUM || '0.4'),
+    };
+  }
 
-    // Weighted average (aging increased to 50% to prioritize overdue balances)
-    const rawScore = (agingScore * 0.5) + (paymentScore * 0.3) + (promiseKeepingScore * 0.2);
+  /**
+   * Risk is the probability of NOT paying within the model's horizon. Each
+   * feature's contribution becomes a factor whose impact is the log-odds it
+   * adds to that risk (negative when it makes payment more likely).
+   */
+  private scoreWithModel(
+    model: LogisticRiskModel,
+    arData: ARAgingData,
+    paymentHistory: PaymentHistory,
+    asOf: Date,
+  ): RiskScore {
+    const features = extractRiskFeatures(arData, paymentHistory, asOf);
+    const paymentProbability = model.predict(features);
+    const score = 1 - paymentProbability;
+
+    const factors: RiskFactor[] = model.explain(features).map(c => ({
+      name: c.name,
+      factor: c.label,
+      impact: -c.contribution,
+      description: `${c.description} — ${
+        Math.abs(c.contribution) < 0.05 ? 'little effect on'
+          : c.contribution < 0 ? 'lowers' : 'raises'
+      } the chance of payment within ${model.horizonDays} days`,
+    }));
+
+    return {
+      customerId: arData.customerId,
+      score,
+      riskLevel: this.getRiskLevel(score),
+      factors,
+      recommendation: this.getFallbackRecommendation(score),
+      model: 'logistic-regression',
+      paymentProbability,
+      horizonDays: model.horizonDays,
+    };
+  }
+
+  private scoreWithHeuristic(arData: ARAgingData, paymentHistory: PaymentHistory, asOf: Date): RiskScore {
+    // Evaluate the configured factors; those without the data they need drop out
+    const evaluated = this.riskFactors.flatMap(factor => {
+      const result = factor.plugin.evaluate({ arData, paymentHistory, asOf }, factor.options);
+      return result ? [{ factor, ...result }] : [];
+    });
+    const totalWeight = evaluated.reduce((sum, e) => sum + e.factor.weight, 0);
+
+    // Weighted average over the factors that apply, their weights rescaled to sum to 1
+    const factors: RiskFactor[] = evaluated.map(({ factor, score, description }) => {
+      const weight = totalWeight > 0 ? factor.weight / totalWeight : 0;
+      return {
+        name: factor.plugin.name,
+        factor: `${factor.label} (${formatWeight(weight)} weight)`,
+        impact: score,
+        weight,
+        description,
+      };
+    });
+    const rawScore = factors.reduce((sum, f) => sum + f.impact * (f.weight ?? 0), 0);
 
     // Normalize to 0-1 range
     const normalizedScore = Math.min(Math.max(rawScore, 0), 1);
@@ -54,120 +128,64 @@ export class RiskScoringService {
     // Determine risk level
     const riskLevel = this.getRiskLevel(normalizedScore);
 
-    // Generate risk factors
-    const factors = this.generateRiskFactors(arData, paymentHistory, agingScore, paymentScore, promiseKeepingScore);
-
-    // Generate AI recommendation
-    const recommendation = await this.generateRecommendation(arData, paymentHistory, normalizedScore, factors);
-
     return {
       customerId: arData.customerId,
       score: normalizedScore,
       riskLevel,
       factors,
-      recommendation,
+      recommendation: this.getFallbackRecommendation(normalizedScore),
+      model: 'heuristic',
     };
   }
 
-  private calculateAgingScore(arData: ARAgingData): number {
-    const total = arData.totalOutstanding;
-    if (total === 0) return 0;
-
-    // Higher score for older receivables
-    const score = (
-      (arData.current / total) * 0 +
-      (arData.days30 / total) * 0.25 +
-      (arData.days60 / total) * 0.5 +
-      (arData.days90 / total) * 0.75 +
-      (arData.days120Plus / total) * 1.0
-    );
-
-    return score;
-  }
-
-  private calculatePaymentHistoryScore(paymentHistory: PaymentHistory): number {
-    if (paymentHistory.totalTransactions === 0) return 0.5; // Neutral for new customers
-
-    // Lower on-time rate and higher average days means higher risk
-    const onTimeScore = 1 - paymentHistory.onTimePaymentRate;
-    const daysScore = Math.min(paymentHistory.averagePaymentDays / 90, 1);
+  private loadModel(mode: RiskScoringMode, modelFile: string): LogisticRiskModel | undefined {
+    if (mode === 'heuristic') return undefined;
 
-    return (onTimeScore * 0.6) + (daysScore * 0.4);
-  }
-
-  private calculatePromiseKeepingScore(paymentHistory: PaymentHistory): number {
-    const promises = paymentHistory.promiseToPayHistory;
-    if (promises.length === 0) return 0; // No broken promises
-
-    const brokenPromises = promises.filter(p => !p.fulfilled).length;
-    return brokenPromises / promises.length;
+    try {
+      const model = loadRiskModel(modelFile);
+      if (!model && mode === 'logistic-regression') {
+        console.log(`⚠️  No trained risk model at ${modelFile}. Using heuristic risk scoring.`);
+      }
+      return model;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.log(`⚠️  Risk model could not be loaded (${message}). Using heuristic risk scoring.`);
+      return undefined;
+    }
   }
 
   private getRiskLevel(score: number): 'low' | 'medium' | 'high' {
-    const highThreshold = parseFloat(process.env.RISK_THRESHOLD_HIGH || '0.7');
-    const mediumThreshold = parseFloat(process.env.RISK_THRESHOLD_MEDIUM || '0.4');
+    const thresholds = this.getRiskThresholds();
 
-    if (score >= highThreshold) return 'high';
-    if (score >= mediumThreshold) return 'medium';
+    if (score >= thresholds.high) return 'high';
+    if (score >= thresholds.medium) return 'medium';
     return 'low';
   }
 
-  private generateRiskFactors(
-    arData: ARAgingData,
-    paymentHistory: PaymentHistory,
-    agingScore: number,
-    paymentScore: number,
-    promiseScore: number
-  ): RiskFactor[] {
-    const factors: RiskFactor[] = [];
-
-    // Always show aging factor
-    const agedPercent = ((arData.days90 + arData.days120Plus) / arData.totalOutstanding * 100);
-    factors.push({
-      factor: 'Aged Receivables (50% weight)',
-      impact: agingScore,
-      description: `${agedPercent.toFixed(1)}% of outstanding balance is over 90 days old`,
-    });
-
-    // Always show payment history factor
-    factors.push({
-      factor: 'Payment History (30% weight)',
-      impact: paymentScore,
-      description: `Average payment delay: ${paymentHistory.averagePaymentDays.toFixed(0)} days, On-time rate: ${(paymentHistory.onTimePaymentRate * 100).toFixed(1)}%`,
-    });
-
-    // Always show promise keeping factor
-    const totalPromises = paymentHistory.promiseToPayHistory.length;
-    const brokenPromises = paymentHistory.promiseToPayHistory.filter(p => !p.fulfilled).length;
-    factors.push({
-      factor: 'Promise Keeping (20% weight)',
-      impact: promiseScore,
-      description: totalPromises > 0
-        ? `${brokenPromises} of ${totalPromises} promises broken (${(promiseScore * 100).toFixed(0)}% broken rate)`
-        : 'No payment promises on record',
-    });
-
-    return factors;
-  }
-
-  private async generateRecommendation(
+  /**
+   * Ask the model for a collection approach for a scored customer. Falls back
+   * to the rule-based recommendation when Azure OpenAI is unavailable, or when
+   * its reply is still empty or quotes amounts not in the AR data after one
+   * repair round.
+   */
+  async generateRecommendation(
     arData: ARAgingData,
     paymentHistory: PaymentHistory,
-    riskScore: number,
-    factors: RiskFactor[]
+    riskScore: RiskScore
   ): Promise<string> {
+    arData = excludeDisputedAmounts(arData);
     const prompt = `As a collections specialist, analyze this customer situation and provide a specific recommendation:
 
 Customer: ${arData.customerName} (ID: ${arData.customerId})
-Total Outstanding: $${arData.totalOutstanding.toFixed(2)}
-Risk Score: ${(riskScore * 100).toFixed(1)}%
+Total Outstanding: ${formatCurrency(arData.totalOutstanding, arData.currency)}${arData.disputedAmount
+  ? ` (excluding ${formatCurrency(arData.disputedAmount, arData.currency)} under dispute)`
+  : ''}
+Risk Score: ${(riskScore.score * 100).toFixed(1)}%${riskScore.paymentProbability !== undefined
+  ? `\nChance of Payment Within ${riskScore.horizonDays} Days: ${(riskScore.paymentProbability * 100).toFixed(1)}%`
+  : ''}
 
 Aging Breakdown:
-- Current: $${arData.current.toFixed(2)}
-- 30 days: $${arData.days30.toFixed(2)}
-- 60 days: $${arData.days60.toFixed(2)}
-- 90 days: $${arData.days90.toFixed(2)}
-- 120+ days: $${arData.days120Plus.toFixed(2)}
+${resolveAgingBuckets(arData).buckets.map(b => `- ${b.label}: ${formatCurrency(b.amount, arData.currency)}`).join('\n')}
 
 Payment History:
 - Average Payment Days: ${paymentHistory.averagePaymentDays.toFixed(0)}
@@ -175,13 +193,12 @@ Payment History:
 - Last Payment: ${paymentHistory.lastPaymentDate}
 
 Key Risk Factors:
-${factors.map(f => `- ${f.factor}: ${f.description}`).join('\n')}
+${riskScore.factors.map(f => `- ${f.factor}: ${f.description}`).join('\n')}
 
 Provide a concise recommendation (2-3 sentences) on the best collection approach.`;
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.deploymentName,
+      return await completeValidated(this.llm, {
         messages: [
           {
             role: 'system',
@@ -192,21 +209,29 @@ Provide a concise recommendation (2-3 sentences) on the best collection approach
             content: prompt,
           },
         ],
-        max_completion_tokens: 200,  // Updated for newer models (GPT-4o, GPT-4.5)
-        // temperature removed - this model only supports default value
+        maxTokens: 200,
+      }, content => {
+        if (!content.trim()) throw new LLMOutputError('empty', ['no recommendation text'], content);
+        // A recommendation may suggest a payment plan, so installments of the balance count as known
+        const currency = new CurrencyService();
+        const unknown = unknownAmounts(content, arData, currency, undefined, installmentAmounts(arData, currency));
+        if (unknown.length > 0) {
+          throw new LLMOutputError('amount', unknown.map(a => `${a.text} is not an amount in the account data`), content);
+        }
+        return content.trim();
       });
-
-      return response.choices[0]?.message?.content || 'Contact customer to discuss payment options.';
     } catch (error: any) {
       // Log concise error message
-      if (error.status === 404) {
-        console.log(`⚠️  Azure OpenAI deployment not found. Using rule-based recommendation.`);
+      if (error instanceof LLMOutputError) {
+        console.log(`⚠️  ${this.llm.name} recommendation rejected: ${error.message}. Using rule-based recommendation.`);
+      } else if (error.status === 404) {
+        console.log(`⚠️  ${this.llm.name} model or deployment not found. Using rule-based recommendation.`);
       } else if (error.status === 401) {
-        console.log(`⚠️  Azure OpenAI authentication failed. Check API key.`);
+        console.log(`⚠️  ${this.llm.name} authentication failed. Check API key.`);
       } else {
-        console.log(`⚠️  Azure OpenAI unavailable: ${error.message}. Using rule-based recommendation.`);
+        console.log(`⚠️  ${this.llm.name} unavailable: ${error.message}. Using rule-based recommendation.`);
       }
-      return this.getFallbackRecommendation(riskScore);
+      return this.getFallbackRecommendation(riskScore.score);
     }
   }
 
@@ -0,0 +1,215 @@
+import { ARAgingData, EmailAttachment, StatementLine, StatementOfAccount, StatementTotal } from '../types';
+import { CurrencyService, formatCurrency } from './currencyService';
+import { dunningMessages, formatDate } from './localeService';
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, textWidth } from '../utils/pdf';
+
+const EPSILON = 0.005;
+
+const MARGIN = 50;
+const ROW_HEIGHT = 14;
+const TABLE_SIZE = 9;
+/** Lowest baseline a table row or total is drawn on before a new page is started */
+const BOTTOM = 80;
+
+/** Statement table columns: left edge of text columns, right edge of numbers. */
+const COLUMNS = {
+  invoice:     MARGIN,
+  invoiceDate: 142,
+  dueDate:     218,
+  amount:      385,
+  outstanding: 475,
+  daysOverdue: PAGE_WIDTH - MARGIN,
+};
+const INVOICE_WIDTH = 88;
+
+/**
+ * Statement Service
+ *
+ * Statements of account — every open invoice of a customer with its number,
+ * dates, amount and days overdue — rendered as a PDF in the customer's
+ * language and attached to dunning emails. ATTACH_STATEMENT=false turns the
+ * attachment off.
+ */
+export class StatementService {
+  readonly attach: boolean;
+  private currency: CurrencyService;
+
+  constructor(attach: boolean = process.env.ATTACH_STATEMENT !== 'false') {
+    this.attach = attach;
+    this.currency = new CurrencyService();
+  }
+
+  /**
+   * Statement of the customer's open invoices, oldest due date first, with
+   * totals per invoice currency. Takes AR data before disputed amounts are
+   * excluded: disputed invoices are listed with the amount on hold, which is
+   * left out of the amount due.
+   */
+  buildStatement(arData: ARAgingData, locale?: string, asOf: Date = new Date()): StatementOfAccount {
+    const lines: StatementLine[] = arData.invoices
+      .filter(inv => inv.amountOutstanding >= EPSILON)
+      .sort((a, b) => a.dueDate.localeCompare(b.dueDate))
+      .map(inv => {
+        const disputed = Math.min(inv.disputedAmount ?? 0, inv.amountOutstanding);
+        return {
+          invoiceId: inv.invoiceId,
+          invoiceNumber: inv.invoiceNumber,
+          invoiceDate: inv.invoiceDate,
+          dueDate: inv.dueDate,
+          currency: this.currency.code(inv.currency ?? arData.currency),
+          amount: inv.amount,
+          amountOutstanding: inv.amountOutstanding,
+          daysOverdue: inv.daysOverdue,
+          disputedAmount: disputed >= EPSILON ? disputed : undefined,
+        };
+      });
+
+    const totals = new Map<string, StatementTotal>();
+    for (const line of lines) {
+      const total = totals.get(line.currency)
+        ?? { currency: line.currency, totalOutstanding: 0, disputedAmount: 0, amountDue: 0 };
+      total.totalOutstanding = round(total.totalOutstanding + line.amountOutstanding);
+      total.disputedAmount = round(total.disputedAmount + (line.disputedAmount ?? 0));
+      total.amountDue = round(total.totalOutstanding - total.disputedAmount);
+      totals.set(line.currency, total);
+    }
+
+    return {
+      customerId: arData.customerId,
+      customerName: arData.customerName,
+      statementDate: asOf.toISOString().split('T')[0],
+      locale,
+      lines,
+      totals: Array.from(totals.values()).sort((a, b) => b.totalOutstanding - a.totalOutstanding),
+    };
+  }
+
+  /** The statement as an A4 PDF; the invoice table continues over as many pages as it needs. */
+  renderPdf(statement: StatementOfAccount): Buffer {
+    const { locale } = statement;
+    const text = dunningMessages(locale).statement;
+    const pdf = new PdfDocument();
+    const right = PAGE_WIDTH - MARGIN;
+
+    let y = PAGE_HEIGHT - MARGIN - 10;
+    pdf.text(MARGIN, y, text.title, { size: 18, bold: true });
+    y -= 30;
+    for (const [label, value] of [
+      [text.customer, statement.customerName],
+      [text.customerId, statement.customerId],
+      [text.statementDate, formatDate(statement.statementDate, locale)],
+    ]) {
+      pdf.text(MARGIN, y, `${label}:`, { bold: true });
+      pdf.text(MARGIN + 110, y, fit(value, right - MARGIN - 110, 10));
+      y -= 15;
+    }
+
+    const tableHeader = () => {
+      y -= 10;
+      const header = { size: TABLE_SIZE, bold: true };
+      pdf.text(COLUMNS.invoice, y, text.invoice, header);
+      pdf.text(COLUMNS.invoiceDate, y, text.invoiceDate, header);
+      pdf.text(COLUMNS.dueDate, y, text.dueDate, header);
+      pdf.text(COLUMNS.amount, y, text.amount, { ...header, align: 'right' });
+      pdf.text(COLUMNS.outstanding, y, text.outstanding, { ...header, align: 'right' });
+      pdf.text(COLUMNS.daysOverdue, y, text.daysOverdue, { ...header, align: 'right' });
+      pdf.line(MARGIN, y - 4, right, y - 4);
+      y -= ROW_HEIGHT + 2;
+    };
+    const nextRow = () => {
+      if (y >= BOTTOM) return;
+      pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    };
+
+    tableHeader();
+    for (const line of statement.lines) {
+      nextRow();
+      const row = { size: TABLE_SIZE };
+      const number = `${line.invoiceNumber ?? line.invoiceId}${line.disputedAmount ? ' *' : ''}`;
+      pdf.text(COLUMNS.invoice, y, fit(number, INVOICE_WIDTH, TABLE_SIZE), row);
+      pdf.text(COLUMNS.invoiceDate, y, formatDate(line.invoiceDate, locale), row);
+      pdf.text(COLUMNS.dueDate, y, formatDate(line.dueDate, locale), row);
+      pdf.text(COLUMNS.amount, y, formatCurrency(line.amount, line.currency, locale), { ...row, align: 'right' });
+      pdf.text(COLUMNS.outstanding, y, formatCurrency(line.amountOutstanding, line.currency, locale), { ...row, align: 'right' });
+      pdf.text(COLUMNS.daysOverdue, y, line.daysOverdue > 0 ? String(line.daysOverdue) : '', { ...row, align: 'right' });
+      y -= ROW_HEIGHT;
+    }
+    pdf.line(MARGIN, y + ROW_HEIGHT - 4, right, y + ROW_HEIGHT - 4);
+
+    // Totals per currency, right-aligned under the outstanding column
+    const disputed = statement.totals.some(t => t.disputedAmount >= EPSILON);
+    for (const total of statement.totals) {
+      y -= 4;
+      const rows: [string, number, boolean][] = [[text.totalOutstanding, total.totalOutstanding, !disputed]];
+      if (total.disputedAmount >= EPSILON) rows.push([text.disputed, -total.disputedAmount, false]);
+      if (disputed) rows.push([text.amountDue, total.amountDue, true]);
+      for (const [label, amount, bold] of rows) {
+        if (y < BOTTOM) {
+          pdf.addPage();
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        pdf.text(COLUMNS.amount, y, label, { size: TABLE_SIZE + 1, bold, align: 'right' });
+        pdf.text(COLUMNS.outstanding, y, formatCurrency(amount, total.currency, locale), { size: TABLE_SIZE + 1, bold, align: 'right' });
+        y -= ROW_HEIGHT + 1;
+      }
+    }
+
+    if (statement.lines.some(line => line.disputedAmount)) {
+      y -= 10;
+      for (const noteLine of wrap(text.disputedNote, right - MARGIN, 8)) {
+        if (y < MARGIN) {
+          pdf.addPage();
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        pdf.text(MARGIN, y, noteLine, { size: 8 });
+        y -= 10;
+      }
+    }
+
+    return pdf.toBuffer();
+  }
+
+  /** The statement's PDF as an email attachment, e.g. "Statement-C001-2026-10-19.pdf". */
+  toAttachment(statement: StatementOfAccount): EmailAttachment {
+    const fileName = dunningMessages(statement.locale).statement.fileName;
+    const customerId = statement.customerId.replace(/[^A-Za-z0-9_-]/g, '');
+    return {
+      name: `${fileName}-${customerId}-${statement.statementDate}.pdf`,
+      contentType: 'application/pdf',
+      content: this.renderPdf(statement),
+    };
+  }
+}
+
+/** Text shortened with "…" to fit a width. */
+function fit(text: string, width: number, size: number): string {
+  if (textWidth(text, size) <= width) return text;
+  let shortened = text;
+  while (shortened.length > 1 && textWidth(`${shortened}…`, size) > width) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened}…`;
+}
+
+/** Text broken into lines no wider than `width`, at spaces. */
+function wrap(text: string, width: number, size: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size) > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
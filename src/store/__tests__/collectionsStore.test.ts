@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryCollectionsStore, SqliteCollectionsStore } from '..';
+import type { CollectionsStore } from '..';
+
+interface Note {
+  id: string;
+  text: string;
+  tags?: string[];
+}
+
+let directory: string;
+
+beforeAll(async () => {
+  directory = await fs.mkdtemp(path.join(os.tmpdir(), 'collections-store-'));
+});
+
+afterAll(async () => {
+  await fs.rm(directory, { recursive: true, force: true });
+});
+
+let databases = 0;
+const backends: Array<[string, () => CollectionsStore]> = [
+  ['MemoryCollectionsStore', () => new MemoryCollectionsStore()],
+  ['SqliteCollectionsStore', () => new SqliteCollectionsStore(path.join(directory, `store-${++databases}.db`))],
+];
+
+describe.each(backends)('%s', (_name, create) => {
+  it('returns a stored record and nothing for an unknown id', async () => {
+    const store = create();
+    const note: Note = { id: 'N1', text: 'Called AP', tags: ['phone'] };
+
+    await store.put('crm_notes', note.id, 'C001', note);
+
+    expect(await store.get<Note>('crm_notes', 'N1')).toEqual(note);
+    expect(await store.get('crm_notes', 'N2')).toBeUndefined();
+    expect(await store.get('promises', 'N1')).toBeUndefined();
+    await store.close();
+  });
+
+  it('does not let callers change stored records by reference', async () => {
+    const store = create();
+    const note: Note = { id: 'N1', text: 'Called AP', tags: ['phone'] };
+
+    await store.put('crm_notes', note.id, 'C001', note);
+    note.tags?.push('changed');
+    const stored = await store.get<Note>('crm_notes', 'N1');
+    stored?.tags?.push('changed');
+
+    expect((await store.get<Note>('crm_notes', 'N1'))?.tags).toEqual(['phone']);
+    await store.close();
+  });
+
+  it('lists a customer\'s records oldest first, keeping a replaced record in its place', async () => {
+    const store = create();
+    await store.put<Note>('crm_notes', 'N1', 'C001', { id: 'N1', text: 'first' });
+    await store.put<Note>('crm_notes', 'N2', 'C002', { id: 'N2', text: 'other customer' });
+    await store.put<Note>('crm_notes', 'N3', 'C001', { id: 'N3', text: 'second' });
+    await store.put<Note>('crm_notes', 'N1', 'C001', { id: 'N1', text: 'first, edited' });
+
+    expect((await store.listByCustomer<Note>('crm_notes', 'C001')).map(n => n.text)).toEqual(['first, edited', 'second']);
+    expect(await store.listByCustomer('crm_notes', 'C003')).toEqual([]);
+    expect((await store.listAll<Note>('crm_notes')).map(n => n.id)).toEqual(['N1', 'N2', 'N3']);
+    await store.close();
+  });
+
+  it('deletes a record by id and ignores an unknown one', async () => {
+    const store = create();
+    await store.put<Note>('crm_notes', 'N1', 'C001', { id: 'N1', text: 'first' });
+    await store.put<Note>('crm_notes', 'N2', 'C001', { id: 'N2', text: 'second' });
+
+    await store.delete('crm_notes', 'N1');
+    await store.delete('crm_notes', 'N9');
+
+    expect(await store.get('crm_notes', 'N1')).toBeUndefined();
+    expect((await store.listByCustomer<Note>('crm_notes', 'C001')).map(n => n.id)).toEqual(['N2']);
+    await store.close();
+  });
+
+  it('refuses a record without an id or customer', async () => {
+    const store = create();
+    const missing = undefined as unknown as string;
+
+    await expect(store.put('payments', missing, 'C001', {})).rejects.toThrow('Cannot store a payments record without an id');
+    await expect(store.put('payments', '', 'C001', {})).rejects.toThrow('Cannot store a payments record without an id');
+    await expect(store.put('payments', 'P1', missing, {})).rejects.toThrow('Cannot store payments record "P1" without a customer ID');
+    expect(await store.listAll('payments')).toEqual([]);
+    await store.close();
+  });
+});
+
+describe('SqliteCollectionsStore on disk', () => {
+  it('keeps records, their order and deletions across a restart', async () => {
+    const file = path.join(directory, 'nested', 'restart.db');
+    const first = new SqliteCollectionsStore(file);
+    await first.put<Note>('crm_notes', 'N1', 'C001', { id: 'N1', text: 'first' });
+    await first.put<Note>('crm_notes', 'N2', 'C001', { id: 'N2', text: 'second' });
+    await first.put<Note>('crm_notes', 'N3', 'C001', { id: 'N3', text: 'third' });
+    await first.delete('crm_notes', 'N2');
+    await first.close();
+
+    const reopened = new SqliteCollectionsStore(file);
+
+    expect((await reopened.listByCustomer<Note>('crm_notes', 'C001')).map(n => n.text)).toEqual(['first', 'third']);
+    expect(await reopened.get('crm_notes', 'N2')).toBeUndefined();
+    await reopened.close();
+  });
+
+  it('starts empty when the file does not exist yet and does not create it just by reading', async () => {
+    const file = path.join(directory, 'absent.db');
+    const store = new SqliteCollectionsStore(file);
+
+    expect(await store.listAll('disputes')).toEqual([]);
+    await store.delete('disputes', 'D1');
+    await store.close();
+    await expect(fs.access(file)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Collections Store
+ *
+ * Pluggable persistence for collections workflow data that the ERP does not
+ * own: CRM notes, promises to pay, dunning actions, payment plans, cadence
+ * state, ingested payments, risk score history, invoice disputes, outbound
+ * drafts, contact preferences and dunning templates. Records are stored per
+ * collection and keyed by customer so history survives restarts and can be
+ * queried per account; dunning templates are keyed by template ID instead.
+ *
+ * Backends:
+ *   - sqlite : embedded SQLite database file (default, via sql.js — no native build)
+ *   - memory : in-process only, lost on exit (useful for demos and scripts)
+ */
+
+/** Every collection the store knows about. Each maps to its own table. */
+export const STORE_COLLECTIONS = [
+  'crm_notes',
+  'promises',
+  'dunning_actions',
+  'payment_plans',
+  'cadences',
+  'payments',
+  'risk_scores',
+  'disputes',
+  'drafts',
+  'contact_preferences',
+  'dunning_templates',
+] as const;
+
+export type StoreCollection = typeof STORE_COLLECTIONS[number];
+
+/** Throw unless a record has the id and customer it is stored under. */
+export function checkRecordKeys(collection: StoreCollection, id: string, customerId: string): void {
+  if (typeof id !== 'string' || id === '') {
+    throw new Error(`Cannot store a ${collection} record without an id`);
+  }
+  if (typeof customerId !== 'string' || customerId === '') {
+    throw new Error(`Cannot store ${collection} record "${id}" without a customer ID`);
+  }
+}
+
+export interface CollectionsStore {
+  /** Insert or replace a record. `id` is unique within the collection. */
+  put<T>(collection: StoreCollection, id: string, customerId: string, data: T): Promise<void>;
+
+  /** Get a single record by id. */
+  get<T>(collection: StoreCollection, id: string): Promise<T | undefined>;
+
+  /** All records for a customer, oldest first. */
+  listByCustomer<T>(collection: StoreCollection, customerId: string): Promise<T[]>;
+
+  /** All records in a collection, oldest first. */
+  listAll<T>(collection: StoreCollection): Promise<T[]>;
+
+  /** Remove a record by id. Removing a record that doesn't exist does nothing. */
+  delete(collection: StoreCollection, id: string): Promise<void>;
+
+  /** Flush pending writes and release resources. */
+  close(): Promise<void>;
+}
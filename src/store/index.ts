@@ -0,0 +1,27 @@
+import path from 'path';
+import { SqliteCollectionsStore } from './sqliteCollectionsStore';
+import { MemoryCollectionsStore } from './memoryCollectionsStore';
+import type { CollectionsStore } from './collectionsStore';
+
+export type { CollectionsStore, StoreCollection } from './collectionsStore';
+export { SqliteCollectionsStore, MemoryCollectionsStore };
+
+/**
+ * Create the store configured by environment:
+ *   COLLECTIONS_STORE   : 'sqlite' (default) or 'memory'
+ *   COLLECTIONS_DB_FILE : SQLite database file (default ./data/collections.db)
+ */
+export function createCollectionsStore(): CollectionsStore {
+  const backend = process.env.COLLECTIONS_STORE ?? 'sqlite';
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryCollectionsStore();
+    case 'sqlite':
+      return new SqliteCollectionsStore(
+        process.env.COLLECTIONS_DB_FILE ?? path.resolve(process.cwd(), 'data', 'collections.db'),
+      );
+    default:
+      throw new Error(`Unknown COLLECTIONS_STORE backend: ${backend}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { checkRecordKeys } from './collectionsStore';
+import type { CollectionsStore, StoreCollection } from './collectionsStore';
+
+interface MemoryRecord {
+  customerId: string;
+  data: unknown;
+}
+
+/**
+ * In-memory CollectionsStore — nothing is written to disk.
+ */
+export class MemoryCollectionsStore implements CollectionsStore {
+  // Map preserves insertion order, which gives us "oldest first" listing for free.
+  private collections = new Map<StoreCollection, Map<string, MemoryRecord>>();
+
+  private collection(name: StoreCollection): Map<string, MemoryRecord> {
+    let records = this.collections.get(name);
+    if (!records) {
+      records = new Map();
+      this.collections.set(name, records);
+    }
+    return records;
+  }
+
+  async put<T>(collection: StoreCollection, id: string, customerId: string, data: T): Promise<void> {
+    checkRecordKeys(collection, id, customerId);
+    // Replacing an existing key keeps its original position (creation order).
+    // Clone so callers can't mutate stored state by reference.
+    this.collection(collection).set(id, { customerId, data: structuredClone(data) });
+  }
+
+  async get<T>(collection: StoreCollection, id: string): Promise<T | undefined> {
+    const record = this.collection(collection).get(id);
+    return record ? structuredClone(record.data) as T : undefined;
+  }
+
+  async listByCustomer<T>(collection: StoreCollection, customerId: string): Promise<T[]> {
+    return Array.from(this.collection(collection).values())
+      .filter(r => r.customerId === customerId)
+      .map(r => structuredClone(r.data) as T);
+  }
+
+  async listAll<T>(collection: StoreCollection): Promise<T[]> {
+    return Array.from(this.collection(collection).values()).map(r => structuredClone(r.data) as T);
+  }
+
+  async delete(collection: StoreCollection, id: string): Promise<void> {
+    this.collection(collection).delete(id);
+  }
+
+  async close(): Promise<void> {
+    this.collections.clear();
+  }
+}
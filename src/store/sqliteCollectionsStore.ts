@@ -0,0 +1,134 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import type { Database } from 'sql.js';
+import { STORE_COLLECTIONS, checkRecordKeys } from './collectionsStore';
+import type { CollectionsStore, StoreCollection } from './collectionsStore';
+
+/**
+ * SQLite-backed CollectionsStore.
+ *
+ * Uses sql.js (SQLite compiled to WebAssembly) so no native build is needed.
+ * The database is loaded from disk on first use and written back after every
+ * change. Each collection is a table of (id, customer_id, created_at,
+ * updated_at, data) with the record serialized as JSON in `data`.
+ *
+ * Only one process should write to a given database file at a time.
+ */
+export class SqliteCollectionsStore implements CollectionsStore {
+  private dbFile: string;
+  private db: Promise<Database> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+  private queuedWrite: Promise<void> | null = null;
+
+  constructor(dbFile: string) {
+    this.dbFile = dbFile;
+  }
+
+  private getDb(): Promise<Database> {
+    if (!this.db) this.db = this.open();
+    return this.db;
+  }
+
+  private async open(): Promise<Database> {
+    const SQL = await initSqlJs();
+
+    let db: Database;
+    try {
+      db = new SQL.Database(await fs.readFile(this.dbFile));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      db = new SQL.Database();
+    }
+
+    for (const collection of STORE_COLLECTIONS) {
+      db.run(
+        `CREATE TABLE IF NOT EXISTS ${collection} (
+          id          TEXT PRIMARY KEY,
+          customer_id TEXT NOT NULL,
+          created_at  TEXT NOT NULL,
+          updated_at  TEXT NOT NULL,
+          data        TEXT NOT NULL
+        )`,
+      );
+      db.run(`CREATE INDEX IF NOT EXISTS idx_${collection}_customer ON ${collection} (customer_id)`);
+    }
+
+    return db;
+  }
+
+  /**
+   * Serialize the database to disk. Writes are chained so they never
+   * interleave, and changes made while a write is still queued share it.
+   */
+  private persist(db: Database): Promise<void> {
+    if (this.queuedWrite) return this.queuedWrite;
+
+    this.queuedWrite = this.pendingWrite = this.pendingWrite.then(async () => {
+      this.queuedWrite = null;
+      await fs.mkdir(path.dirname(this.dbFile), { recursive: true });
+      const tmpFile = `${this.dbFile}.tmp`;
+      await fs.writeFile(tmpFile, Buffer.from(db.export()));
+      await fs.rename(tmpFile, this.dbFile);
+    });
+    return this.pendingWrite;
+  }
+
+  async put<T>(collection: StoreCollection, id: string, customerId: string, data: T): Promise<void> {
+    checkRecordKeys(collection, id, customerId);
+    const db = await this.getDb();
+    const now = new Date().toISOString();
+    db.run(
+      `INSERT INTO ${collection} (id, customer_id, created_at, updated_at, data)
+       VALUES ($id, $customerId, $now, $now, $data)
+       ON CONFLICT(id) DO UPDATE SET customer_id = $customerId, updated_at = $now, data = $data`,
+      { $id: id, $customerId: customerId, $now: now, $data: JSON.stringify(data) },
+    );
+    await this.persist(db);
+  }
+
+  async get<T>(collection: StoreCollection, id: string): Promise<T | undefined> {
+    const rows = this.query<T>(await this.getDb(), `SELECT data FROM ${collection} WHERE id = $id`, { $id: id });
+    return rows[0];
+  }
+
+  async listByCustomer<T>(collection: StoreCollection, customerId: string): Promise<T[]> {
+    return this.query<T>(
+      await this.getDb(),
+      `SELECT data FROM ${collection} WHERE customer_id = $customerId ORDER BY created_at, rowid`,
+      { $customerId: customerId },
+    );
+  }
+
+  async listAll<T>(collection: StoreCollection): Promise<T[]> {
+    return this.query<T>(await this.getDb(), `SELECT data FROM ${collection} ORDER BY created_at, rowid`);
+  }
+
+  async delete(collection: StoreCollection, id: string): Promise<void> {
+    const db = await this.getDb();
+    db.run(`DELETE FROM ${collection} WHERE id = $id`, { $id: id });
+    if (db.getRowsModified() > 0) await this.persist(db);
+  }
+
+  async close(): Promise<void> {
+    if (!this.db) return;
+    const db = await this.db;
+    await this.pendingWrite;
+    db.close();
+    this.db = null;
+  }
+
+  private query<T>(db: Database, sql: string, params: Record<string, string> = {}): T[] {
+    const stmt = db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) {
+        rows.push(JSON.parse(stmt.getAsObject().data as string) as T);
+      }
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+}
@@ -8,16 +8,98 @@ export interface ARAgingData {
   days90: number;
   days120Plus: number;
   invoices: Invoice[];
+  unappliedCash?: number;
+  /** ISO 4217 currency of totalOutstanding, the aging fields and buckets (the reporting currency) */
+  currency?: string;
+  /** Open balance per invoice currency, before conversion */
+  currencyBalances?: CurrencyBalance[];
+  /** Name of the aging scheme `buckets` was computed with */
+  agingScheme?: string;
+  /** Balance per bucket of the configured aging scheme, youngest first */
+  buckets?: AgingBucketAmount[];
+  /** Collector who owns the account in the ERP (email address or name) */
+  collector?: string;
+  /** Credit limit granted to the customer, in the reporting currency */
+  creditLimit?: number;
+  /** When the customer relationship started (ISO date) */
+  customerSince?: string;
+  industry?: string;
+  /**
+   * Outstanding amount under dispute, in the reporting currency. Set once
+   * disputed amounts have been taken out of the totals and buckets above.
+   */
+  disputedAmount?: number;
+}
+
+/**
+ * One bucket of an aging scheme, covering invoices from `minDays` to
+ * `maxDays` days past due (both inclusive; no `maxDays` = open-ended).
+ */
+export interface AgingBucketDefinition {
+  key: string;
+  label: string;
+  minDays: number;
+  maxDays?: number;
+  /** Contribution of this bucket's share of the balance to the aging risk score (0–1) */
+  weight: number;
+}
+
+export interface AgingScheme {
+  name: string;
+  description?: string;
+  /** Contiguous buckets starting at 0 days, youngest first; the last is open-ended */
+  buckets: AgingBucketDefinition[];
+  /** Balances at least this many days past due count as aged receivables in risk factors */
+  agedFromDays: number;
+}
+
+/**
+ * A risk factor used by heuristic scoring and its weight. Weights are
+ * normalized to sum to 1 over the factors that apply to a customer.
+ */
+export interface RiskFactorSetting {
+  /** Name of a registered risk factor plugin */
+  name: string;
+  weight: number;
+  /** Replaces the plugin's label */
+  label?: string;
+  /** Plugin-specific settings */
+  options?: Record<string, unknown>;
+}
+
+export interface CurrencyBalance {
+  currency: string;
+  /** Open balance in `currency` */
+  amount: number;
+  /** The same balance converted to the reporting currency */
+  reportingAmount: number;
+}
+
+export interface AgingBucketAmount {
+  key: string;
+  label: string;
+  minDays: number;
+  maxDays?: number;
+  amount: number;
 }
 
 export interface Invoice {
   invoiceId: string;
+  invoiceNumber?: string;
   invoiceDate: string;
   dueDate: string;
+  /** ISO 4217 currency of the amounts below; omitted = reporting currency */
+  currency?: string;
   amount: number;
   amountPaid: number;
   amountOutstanding: number;
   daysOverdue: number;
+  /** Part of the outstanding amount the customer contests, as flagged in the ERP */
+  disputedAmount?: number;
+  /** Why the invoice is contested, e.g. "pricing" or "damaged-goods" */
+  disputeReason?: string;
+  /** Open dispute record for this invoice, when one was raised here rather than in the ERP */
+  disputeId?: string;
 }
 
 export interface PaymentHistory {
@@ -27,14 +109,146 @@ export interface PaymentHistory {
   totalTransactions: number;
   lastPaymentDate: string;
   promiseToPayHistory: PromiseToPay[];
+  payments?: PaymentRecord[];
+}
+
+/** AR aging and payment history for one customer, fetched together in bulk. */
+export interface CustomerAccountData {
+  customerId: string;
+  arData: ARAgingData;
+  paymentHistory: PaymentHistory;
+}
+
+/** Result of a bulk account fetch — customers that could not be loaded are listed separately. */
+export interface CustomerAccountsResult {
+  accounts: CustomerAccountData[];
+  failed: { customerId: string; error: string }[];
+}
+
+export interface PaymentRecord {
+  paymentId: string;
+  customerId: string;
+  paymentDate: string;
+  amount: number;
+  /** ISO 4217 currency of `amount`; omitted = reporting currency */
+  currency?: string;
+  reference?: string;
+  remittanceInvoiceIds?: string[];
+  source?: PaymentSource;
+  /**
+   * Ledger payments only: the ERP invoices this payment was applied to. Those
+   * parts are applied to the same invoices again for as long as the ERP keeps
+   * them open, and dropped once it closes them.
+   */
+  settlements?: InvoiceSettlement[];
+  /** Ledger payments only: the ERP payment recording the same receipt, once the ERP shows it */
+  erpPaymentId?: string;
+}
+
+/** Part of a ledger payment applied to one ERP invoice. */
+export interface InvoiceSettlement {
+  invoiceId: string;
+  amount: number;
+  method: AllocationMethod;
+}
+
+export type PaymentSource = 'erp' | 'manual' | 'csv' | 'bai2' | 'camt053';
+
+export type AllocationMethod = 'remittance' | 'exact-match' | 'oldest-first';
+
+export interface PaymentIngestionResult {
+  received: number;
+  recorded: number;
+  duplicates: number;
+  unidentified: PaymentRecord[];
 }
 
+export interface PaymentAllocation {
+  paymentId: string;
+  invoiceId: string;
+  amount: number;
+  method: AllocationMethod;
+}
+
+export type PromiseStatus = 'open' | 'kept' | 'partially-kept' | 'broken';
+
+export type PromiseChannel = 'phone' | 'email' | 'teams' | 'portal' | 'other';
+
 export interface PromiseToPay {
+  promiseId?: string;
+  customerId?: string;
   date: string;
   promisedAmount: number;
+  /** ISO 4217 currency of promisedAmount and amountPaid; omitted = reporting currency */
+  currency?: string;
   promisedDate: string;
   fulfilled: boolean;
   actualPaymentDate?: string;
+  status?: PromiseStatus;
+  amountPaid?: number;
+  channel?: PromiseChannel;
+  collector?: string;
+  notes?: string;
+  reconciledDate?: string;
+}
+
+export type DisputeReason =
+  | 'pricing'
+  | 'quantity'
+  | 'damaged-goods'
+  | 'not-received'
+  | 'duplicate-billing'
+  | 'service-issue'
+  | 'other';
+
+/** open → under-review → resolved; a dispute can be resolved from either earlier status. */
+export type DisputeStatus = 'open' | 'under-review' | 'resolved';
+
+/**
+ * How a dispute ended: the customer was right (credited, in full or in part),
+ * the charge stands (rejected), or the customer dropped it (withdrawn).
+ */
+export type DisputeResolution = 'credited' | 'partially-credited' | 'rejected' | 'withdrawn';
+
+/** A customer contesting all or part of one invoice. */
+export interface Dispute {
+  disputeId: string;
+  customerId: string;
+  invoiceId: string;
+  invoiceNumber?: string;
+  reason: DisputeReason;
+  /** Amount contested, in the invoice currency */
+  amount: number;
+  /** ISO 4217 currency of `amount`; omitted = reporting currency */
+  currency?: string;
+  status: DisputeStatus;
+  /** Who is working the dispute (email address or name) */
+  owner?: string;
+  description?: string;
+  openedDate: string;
+  updatedDate: string;
+  resolvedDate?: string;
+  resolution?: DisputeResolution;
+  /** Credit note or write-off granted on resolution, in the invoice currency */
+  creditAmount?: number;
+  /**
+   * The invoice's open and paid amounts in the ERP when the dispute was
+   * resolved with a credit, to tell when the ERP has posted the credit
+   */
+  invoiceAtResolution?: { amountOutstanding: number; amountPaid: number };
+  resolutionNotes?: string;
+  /** Progress notes, oldest first */
+  notes: { date: string; author?: string; text: string }[];
+}
+
+/** Changes to an unresolved dispute; omitted fields are left as they are. */
+export interface DisputeUpdate {
+  status?: Exclude<DisputeStatus, 'resolved'>;
+  owner?: string;
+  reason?: DisputeReason;
+  amount?: number;
+  note?: string;
+  author?: string;
 }
 
 export interface RiskScore {
@@ -43,12 +257,155 @@ export interface RiskScore {
   riskLevel: 'low' | 'medium' | 'high';
   factors: RiskFactor[];
   recommendation: string;
+  /** How the score was produced; absent on scores from earlier releases (heuristic) */
+  model?: RiskModelType;
+  /** Trained model only: probability the customer pays within `horizonDays` */
+  paymentProbability?: number;
+  horizonDays?: number;
+}
+
+export type RiskModelType = 'heuristic' | 'logistic-regression';
+
+/**
+ * One historical outcome to learn from: a customer's risk features as they
+ * stood when an invoice came due, and how many days later it was paid.
+ */
+export interface RiskTrainingExample {
+  customerId?: string;
+  invoiceId?: string;
+  /** Date the features were taken (ISO 8601) */
+  asOfDate?: string;
+  features: Record<string, number>;
+  /** Days from asOfDate until paid in full; null = not paid */
+  daysToPay: number | null;
+}
+
+/** A trained logistic regression risk model, as saved to RISK_MODEL_FILE. */
+export interface RiskModelParameters {
+  type: 'logistic-regression';
+  /** The model predicts payment within this many days */
+  horizonDays: number;
+  trainedAt: string;
+  trainingExamples: number;
+  intercept: number;
+  /** Standardization and weight per feature; contributions are coefficient × (x − mean) / std */
+  features: { name: string; mean: number; std: number; coefficient: number }[];
+  metrics: { logLoss: number; accuracy: number; positiveRate: number };
+}
+
+/**
+ * A customer's AR aging and payment history as they stood on `asOfDate`,
+ * with what happened next: the days until the balance open on that date was
+ * paid in full, or null if it never was.
+ */
+export interface RiskBacktestSnapshot {
+  asOfDate: string;
+  arData: ARAgingData;
+  paymentHistory: PaymentHistory;
+  daysToPay: number | null;
+}
+
+/** Outcomes at one score cut-off; a positive is a balance not paid within the horizon. */
+export interface ThresholdConfusion {
+  threshold: number;
+  truePositives: number;
+  falsePositives: number;
+  trueNegatives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  falsePositiveRate: number;
+  f1: number;
+}
+
+/** Snapshots whose score fell in [fromScore, toScore), and how many went unpaid. */
+export interface CalibrationBin {
+  fromScore: number;
+  toScore: number;
+  count: number;
+  meanScore: number;
+  observedRate: number;
+}
+
+export interface RiskBacktestReport {
+  generatedAt: string;
+  model: RiskModelType;
+  horizonDays: number;
+  snapshots: number;
+  /** Snapshots left out because nothing was outstanding */
+  skipped: number;
+  /** Share of snapshots not paid within the horizon */
+  unpaidRate: number;
+  /** Area under the ROC curve; null when every snapshot had the same outcome */
+  auc: number | null;
+  brierScore: number;
+  calibration: CalibrationBin[];
+  thresholds: ThresholdConfusion[];
+  riskLevels: { riskLevel: 'low' | 'medium' | 'high'; count: number; unpaidRate: number }[];
+  current: { high: ThresholdConfusion; medium: ThresholdConfusion };
+  recommended: { high: number; medium: number; rationale: string };
 }
 
 export interface RiskFactor {
+  /** Stable identifier — the risk factor plugin or model feature name */
+  name?: string;
   factor: string;
   impact: number;
   description: string;
+  /** Share of the overall score the factor carries (heuristic scores); its contribution is impact × weight */
+  weight?: number;
+}
+
+/** A customer's risk score for one day, with the main figures it was computed from. */
+export interface RiskScoreRecord {
+  customerId: string;
+  scoredAt: string;
+  riskScore: RiskScore;
+  inputs: RiskScoreInputs;
+}
+
+/** Summary of the AR aging and payment history behind a recorded risk score. */
+export interface RiskScoreInputs {
+  /** In the reporting currency, like the aging buckets */
+  totalOutstanding: number;
+  /** Outstanding balance 30 or more days past due */
+  overdue: number;
+  openInvoices: number;
+  onTimePaymentRate: number;
+  averagePaymentDays: number;
+}
+
+export interface RiskHistoryPoint {
+  scoredAt: string;
+  score: number;
+  riskLevel: 'low' | 'medium' | 'high';
+  model?: RiskModelType;
+}
+
+/** How far one factor moved between two scores. */
+export interface RiskFactorChange {
+  factor: string;
+  previousImpact: number;
+  currentImpact: number;
+  /** Change in the factor's contribution — weighted sub-score (heuristic) or log-odds (trained model) */
+  contributionChange: number;
+  description: string;
+}
+
+export interface RiskTrend {
+  customerId: string;
+  trend: 'worsening' | 'improving' | 'stable' | 'insufficient-data';
+  current?: RiskHistoryPoint;
+  /** Latest score at least a week older than the current one, else the oldest on record */
+  baseline?: RiskHistoryPoint;
+  /** Score change since the baseline */
+  change: number | null;
+  /** Score change since a week before the current score; null without a week of history */
+  changeVsLastWeek: number | null;
+  /** Factors that moved since the baseline, biggest contribution change first */
+  drivers: RiskFactorChange[];
+  /** Last score of each day within the requested window, oldest first */
+  history: RiskHistoryPoint[];
 }
 
 export interface DunningAction {
@@ -57,14 +414,299 @@ export interface DunningAction {
   priority: number;
   message: string;
   scheduledDate: string;
+  /** Template version a dunning email was produced from */
+  template?: DunningTemplateRef;
+}
+
+export type DunningTone = 'reminder' | 'firm';
+
+/** Escalation stage of a dunning email, mildest first. */
+export type DunningStage = 'friendly-reminder' | 'second-notice' | 'final-demand' | 'pre-legal';
+
+/**
+ * How a template produces an email: rendered as written, or given to the LLM
+ * as the draft and style to follow.
+ */
+export type TemplateMode = 'deterministic' | 'llm-guided';
+
+/** One version of the dunning email template for a stage and language. */
+export interface DunningTemplate {
+  /** Stage and language, e.g. "final-demand.de" */
+  templateId: string;
+  stage: DunningStage;
+  /** Language code, e.g. "de" */
+  language: string;
+  /** 1 for the built-in template, counting up with each change */
+  version: number;
+  /** Subject line; may use the same {{variables}} as the body */
+  subject: string;
+  /** HTML body with {{variable}} placeholders and {{#variable}}…{{/variable}} sections */
+  body: string;
+  /** Tone and wording the LLM is asked to follow in llm-guided mode */
+  style: string;
+  /** Omitted = DUNNING_TEMPLATE_MODE */
+  mode?: TemplateMode;
+  createdDate: string;
+  createdBy?: string;
+  /** Why this version was made */
+  comment?: string;
+}
+
+/** Changes for a new template version; omitted fields are copied from the latest one. */
+export interface DunningTemplateEdit {
+  subject?: string;
+  body?: string;
+  style?: string;
+  mode?: TemplateMode;
+  comment?: string;
+}
+
+/** Which template version produced a message, and how. */
+export interface DunningTemplateRef {
+  templateId: string;
+  version: number;
+  /** llm-guided, or deterministic when the template was rendered as written */
+  mode: TemplateMode;
+}
+
+export interface CadenceStep {
+  stepId: string;
+  offsetDays: number;
+  actionType: DunningAction['actionType'];
+  tone?: DunningTone;
+  /** Template stage of an email step; omitted = from how many email steps come before it */
+  stage?: DunningStage;
+  description: string;
+}
+
+export interface ScheduledDunningAction extends DunningAction {
+  stepId: string;
+  tone?: DunningTone;
+  /** Template stage of an email step */
+  stage?: DunningStage;
+  /** queued = an email step's draft is waiting for approval; later steps wait with it */
+  status: 'scheduled' | 'queued' | 'completed' | 'skipped' | 'failed';
+  completedDate?: string;
+  statusReason?: string;
+  /** Draft an email step produced, once it has run */
+  draftId?: string;
+}
+
+export interface DunningCadence {
+  customerId: string;
+  riskLevel: RiskScore['riskLevel'];
+  /** Recipient of every cadence email; omitted = the customer's contacts, looked up at each send */
+  contactEmail?: string;
+  collectorEmail?: string;
+  startDate: string;
+  balanceAtStart: number;
+  status: 'active' | 'stopped' | 'completed';
+  stopReason?: string;
+  lastEvaluated?: string;
+  actions: ScheduledDunningAction[];
 }
 
 export interface PaymentPlan {
   customerId: string;
+  /** ISO 4217 currency of the plan amounts; omitted = reporting currency */
+  currency?: string;
   totalAmount: number;
   numberOfPayments: number;
   paymentSchedule: PaymentScheduleItem[];
   interestRate?: number;
+  proposedDate?: string;
+}
+
+export type DraftKind = 'dunning-email' | 'payment-plan';
+
+/**
+ * pending → approved → sent, or pending → rejected. A draft whose send failed
+ * or was blocked by the compliance policy can be edited and approved again.
+ */
+export type DraftStatus = 'pending' | 'approved' | 'rejected' | 'sent' | 'failed' | 'blocked';
+
+/** One step in a draft's audit trail. */
+export interface DraftDecision {
+  action: 'created' | 'edited' | 'approved' | 'rejected' | 'sent' | 'failed' | 'blocked';
+  /** Who took the action (email address or name), or "system" */
+  by: string;
+  date: string;
+  comment?: string;
+}
+
+/** A generated customer communication waiting for, or past, review. */
+export interface OutboundDraft {
+  draftId: string;
+  customerId: string;
+  customerName?: string;
+  kind: DraftKind;
+  status: DraftStatus;
+  to: string;
+  from?: string;
+  subject: string;
+  /** HTML email body */
+  body: string;
+  /** Locale the email was written in, e.g. "de-DE"; omitted = English */
+  locale?: string;
+  /** Template version a dunning email was produced from */
+  template?: DunningTemplateRef;
+  /** Statement of account attached as a PDF when the email is sent */
+  statement?: StatementOfAccount;
+  /** Risk score the draft was generated with, recorded with the dunning action once sent */
+  riskScore?: RiskScore;
+  /** The plan a payment-plan draft proposes, stored once sent */
+  paymentPlan?: PaymentPlan;
+  createdDate: string;
+  updatedDate: string;
+  approvedBy?: string;
+  approvedDate?: string;
+  sentDate?: string;
+  /** Why the last send failed */
+  error?: string;
+  /** What the compliance policy blocked or rewrote when the draft was last checked */
+  compliance?: ComplianceFinding[];
+  /** Every action on the draft and who took it, oldest first */
+  history: DraftDecision[];
+}
+
+/** One open invoice on a statement of account. */
+export interface StatementLine {
+  invoiceId: string;
+  invoiceNumber?: string;
+  invoiceDate: string;
+  dueDate: string;
+  /** ISO 4217 currency of the amounts below */
+  currency: string;
+  amount: number;
+  amountOutstanding: number;
+  daysOverdue: number;
+  /** Part of the outstanding amount on hold for a dispute */
+  disputedAmount?: number;
+}
+
+/** Statement totals in one invoice currency. */
+export interface StatementTotal {
+  currency: string;
+  totalOutstanding: number;
+  disputedAmount: number;
+  /** Outstanding less the amounts under dispute */
+  amountDue: number;
+}
+
+/** Every open invoice of a customer as of a date, sent as a PDF with dunning emails. */
+export interface StatementOfAccount {
+  customerId: string;
+  customerName: string;
+  statementDate: string;
+  /** Locale the statement is written in; omitted = English */
+  locale?: string;
+  /** Open invoices, oldest due date first */
+  lines: StatementLine[];
+  totals: StatementTotal[];
+}
+
+/** A file attached to an outbound email. */
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  content: Buffer;
+}
+
+/** Reviewer changes to a draft; omitted fields are left as they are. */
+export interface DraftEdit {
+  to?: string;
+  subject?: string;
+  body?: string;
+}
+
+export type OutboundChannel = 'email' | 'teams';
+
+/**
+ * Contact restrictions for a customer, recorded locally and applied by the
+ * compliance policy to every outbound email and Teams message.
+ */
+export interface ContactPreferences {
+  customerId: string;
+  /** IANA time zone for quiet hours, e.g. "America/Chicago"; omitted = COMPLIANCE_DEFAULT_TIMEZONE */
+  timeZone?: string;
+  /** Locale emails and messages are written in, e.g. "fr-FR"; omitted = the billing contact's language */
+  locale?: string;
+  /** No collections contact until the flag is cleared */
+  doNotContact?: boolean;
+  /** The customer has asked in writing that collection communications stop */
+  ceaseCommunication?: boolean;
+  /** Why the flags were set, e.g. "Customer request by phone 2026-03-02" */
+  reason?: string;
+  updatedBy?: string;
+  updatedDate: string;
+}
+
+/** Changes to a customer's contact preferences; omitted fields are left as they are. */
+export interface ContactPreferencesUpdate {
+  timeZone?: string;
+  locale?: string;
+  doNotContact?: boolean;
+  ceaseCommunication?: boolean;
+  reason?: string;
+}
+
+export type ComplianceRule =
+  | 'do-not-contact'
+  | 'cease-communication'
+  | 'frequency-cap'
+  | 'quiet-hours'
+  | 'prohibited-language'
+  | 'disclosure';
+
+/** One thing the compliance policy blocked or changed in a message. */
+export interface ComplianceFinding {
+  rule: ComplianceRule;
+  /** block: the message may not be sent; rewrite: the content was changed so it can be */
+  action: 'block' | 'rewrite';
+  reason: string;
+}
+
+/** Outcome of running an outbound message through the compliance policy. */
+export interface ComplianceReview {
+  allowed: boolean;
+  /** The subject and body to send, after any rewriting */
+  subject?: string;
+  body: string;
+  findings: ComplianceFinding[];
+}
+
+/** What a customer contact is there for: billing gets dunning, escalation gets firm follow-ups. */
+export type ContactRole = 'billing' | 'escalation' | 'other';
+
+export type ContactChannel = 'email' | 'phone' | 'mail';
+
+/** A person at a customer, from the ERP's contacts or the flat-file export. */
+export interface CustomerContact {
+  contactId: string;
+  customerId: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  jobTitle?: string;
+  role: ContactRole;
+  /** The account's primary contact in the ERP */
+  primary?: boolean;
+  preferredChannel?: ContactChannel;
+  /** Preferred language as a BCP 47 tag, e.g. "en" or "de-DE" */
+  language?: string;
+  /** The contact has opted out of email */
+  doNotEmail?: boolean;
+}
+
+/**
+ * A customer's contacts with the ones outbound email goes to by default.
+ * Either default is omitted when no contact can receive email.
+ */
+export interface CustomerContactDirectory {
+  customerId: string;
+  contacts: CustomerContact[];
+  billing?: CustomerContact;
+  escalation?: CustomerContact;
 }
 
 export interface PaymentScheduleItem {
@@ -78,7 +720,7 @@ export interface CRMNote {
   noteDate: string;
   author: string;
   content: string;
-  category: 'promise-to-pay' | 'contact-attempt' | 'payment-plan' | 'general';
+  category: 'promise-to-pay' | 'contact-attempt' | 'payment-plan' | 'dispute' | 'compliance' | 'general';
 }
 
 export interface PrioritizedCustomer {
@@ -87,6 +729,37 @@ export interface PrioritizedCustomer {
   riskScore: RiskScore;
   totalOutstanding: number;
   priority: number;
+  /** Days past due of the oldest open balance */
+  daysOverdue: number;
+  /** Collector who owns the account in the ERP */
+  collector?: string;
+}
+
+export type CustomerSortField = 'priority' | 'balance' | 'oldest-invoice';
+
+/** Filters, sort order and page position for a prioritized customer list. */
+export interface CustomerListQuery {
+  riskLevels?: RiskScore['riskLevel'][];
+  minBalance?: number;
+  minDaysOverdue?: number;
+  /** Collector email or name, matched case-insensitively */
+  collector?: string;
+  /** Case-insensitive substring of the customer name */
+  search?: string;
+  /** Default: priority */
+  sort?: CustomerSortField;
+  /** Page size (default 5) */
+  limit?: number;
+  /** nextCursor from the previous page */
+  cursor?: string;
+}
+
+export interface CustomerPage {
+  customers: PrioritizedCustomer[];
+  /** Customers matching the filters across all pages */
+  totalMatched: number;
+  /** Pass as `cursor` to fetch the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 export interface PromiseSummary {
@@ -94,9 +767,19 @@ export interface PromiseSummary {
   customerName: string;
   totalPromises: number;
   fulfilledPromises: number;
+  partiallyKeptPromises: number;
   brokenPromises: number;
   pendingPromises: number;
   totalPromisedAmount: number;
   fulfillmentRate: number;
   recentPromises: PromiseToPay[];
 }
+
+export interface CustomerActivityHistory {
+  customerId: string;
+  notes: CRMNote[];
+  promises: PromiseToPay[];
+  dunningActions: DunningAction[];
+  paymentPlans: PaymentPlan[];
+  disputes: Dispute[];
+}
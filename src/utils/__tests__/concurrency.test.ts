@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { mapWithConcurrency } from '../concurrency';
+
+/** Resolves after `ms` milliseconds. */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('mapWithConcurrency', () => {
+  it('never has more than `limit` calls in flight', async () => {
+    let inFlight = 0;
+    let most = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async i => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await delay((i * 7) % 5);
+      inFlight--;
+    });
+
+    expect(most).toBe(3);
+  });
+
+  it('returns results in input order however the calls finish', async () => {
+    const results = await mapWithConcurrency([30, 5, 20, 0], 4, async (ms, index) => {
+      await delay(ms);
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', value: '0:30' },
+      { status: 'fulfilled', value: '1:5' },
+      { status: 'fulfilled', value: '2:20' },
+      { status: 'fulfilled', value: '3:0' },
+    ]);
+  });
+
+  it('settles a failing item as rejected and carries on with the rest', async () => {
+    const called: number[] = [];
+    const failure = new Error('item 1 failed');
+
+    const results = await mapWithConcurrency([0, 1, 2, 3], 1, async i => {
+      called.push(i);
+      if (i === 1) throw failure;
+      return i * 10;
+    });
+
+    expect(called).toEqual([0, 1, 2, 3]);
+    expect(results).toEqual([
+      { status: 'fulfilled', value: 0 },
+      { status: 'rejected', reason: failure },
+      { status: 'fulfilled', value: 20 },
+      { status: 'fulfilled', value: 30 },
+    ]);
+  });
+
+  it('runs one at a time for a limit below 1 and returns nothing for no items', async () => {
+    let inFlight = 0;
+    let most = 0;
+    const track = async () => {
+      inFlight++;
+      most = Math.max(most, inFlight);
+      await delay(1);
+      inFlight--;
+    };
+
+    await mapWithConcurrency([1, 2, 3], 0, track);
+
+    expect(most).toBe(1);
+    expect(await mapWithConcurrency([], 5, track)).toEqual([]);
+  });
+});
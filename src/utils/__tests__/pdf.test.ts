@@ -0,0 +1,72 @@
+import { describe, expect, it } from '@jest/globals';
+import { PdfDocument, textWidth } from '../pdf';
+
+/** The document as Latin-1 text, one character per byte. */
+function source(pdf: PdfDocument): string {
+  return pdf.toBuffer().toString('latin1');
+}
+
+describe('textWidth', () => {
+  it('measures Helvetica and Helvetica-Bold glyphs in points', () => {
+    expect(textWidth('Hi', 10)).toBeCloseTo((722 + 222) / 100);
+    expect(textWidth('Hi', 10, true)).toBeCloseTo((722 + 278) / 100);
+    expect(textWidth('€', 20)).toBeCloseTo(556 * 20 / 1000);
+  });
+});
+
+describe('PdfDocument', () => {
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const pdf = new PdfDocument();
+    pdf.text(50, 800, 'Page one');
+    pdf.addPage();
+    pdf.line(50, 700, 545, 700);
+    const text = source(pdf);
+
+    expect(text.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf.pageCount).toBe(2);
+    expect(text).toContain('/Kids [5 0 R 7 0 R] /Count 2');
+
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    expect(offsets).toHaveLength(8);
+    offsets.forEach((offset, i) => expect(text.startsWith(`${i + 1} 0 obj\n`, offset)).toBe(true));
+
+    const startxref = Number(text.match(/startxref\n(\d+)\n/)?.[1]);
+    expect(text.startsWith('xref\n0 9\n', startxref)).toBe(true);
+  });
+
+  it('gives each content stream its length in bytes', () => {
+    const pdf = new PdfDocument();
+    pdf.text(50, 800, 'Fälliger Betrag: 1.234,50 €');
+    const text = source(pdf);
+
+    const [, length, stream] = text.match(/<< \/Length (\d+) >>\nstream\n([\s\S]*?)\nendstream/) ?? [];
+    expect(Buffer.byteLength(stream, 'latin1')).toBe(Number(length));
+  });
+
+  it('encodes text in WinAnsi and escapes string delimiters', () => {
+    const pdf = new PdfDocument();
+    pdf.text(50, 800, 'Größe (netto) \\ 5 € – 日本');
+    const bytes = pdf.toBuffer();
+
+    const expected = Buffer.from([
+      ...Buffer.from('(Gr'), 0xf6, 0xdf, ...Buffer.from('e \\(netto\\) \\\\ 5 '), 0x80, 0x20, 0x96, ...Buffer.from(' ??) Tj'),
+    ]);
+    expect(bytes.includes(expected)).toBe(true);
+  });
+
+  it('writes thin and narrow no-break spaces from number formats as spaces', () => {
+    const pdf = new PdfDocument();
+    pdf.text(50, 800, '1\u202f234,50\u2009€');
+
+    expect(pdf.toBuffer().includes(Buffer.from([...Buffer.from('(1 234,50 '), 0x80, ...Buffer.from(')')]))).toBe(true);
+  });
+
+  it('puts right-aligned text so that it ends at x, in the bold font when asked', () => {
+    const pdf = new PdfDocument();
+    pdf.text(500, 700, 'Total', { size: 12, bold: true, align: 'right' });
+    const left = Math.round((500 - textWidth('Total', 12, true)) * 100) / 100;
+
+    expect(source(pdf)).toContain(`BT /F2 12 Tf ${left} 700 Td (Total) Tj ET`);
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { TtlCache } from '../ttlCache';
+
+describe('TtlCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2026-10-19T10:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /** A loader that counts its calls and returns `value` plus the call number. */
+  function loader(value = 'v') {
+    const load = jest.fn(async () => `${value}${load.mock.calls.length}`);
+    return load;
+  }
+
+  it('loads once while an entry is fresh and again once it expires', async () => {
+    const cache = new TtlCache<string>(1000);
+    const load = loader();
+
+    expect(await cache.getOrLoad('a', load)).toBe('v1');
+    now += 999;
+    expect(await cache.getOrLoad('a', load)).toBe('v1');
+    expect(cache.has('a')).toBe(true);
+    now += 1;
+    expect(cache.has('a')).toBe(false);
+    expect(await cache.getOrLoad('a', load)).toBe('v2');
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one load between concurrent callers and keeps keys apart', async () => {
+    const cache = new TtlCache<string>(1000);
+    const load = loader();
+
+    const [first, second, other] = await Promise.all([
+      cache.getOrLoad('a', load), cache.getOrLoad('a', load), cache.getOrLoad('b', loader('w')),
+    ]);
+
+    expect([first, second, other]).toEqual(['v1', 'v1', 'w1']);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops a failed load so the next call retries', async () => {
+    const cache = new TtlCache<string>(1000);
+    const failing = jest.fn(async (): Promise<string> => { throw new Error('ERP unavailable'); });
+
+    await expect(cache.getOrLoad('a', failing)).rejects.toThrow('ERP unavailable');
+    expect(cache.has('a')).toBe(false);
+    expect(await cache.getOrLoad('a', loader())).toBe('v1');
+  });
+
+  it('keeps values that are set directly until they expire or are dropped', async () => {
+    const cache = new TtlCache<string>(1000);
+    const load = loader();
+    cache.set('a', 'bulk');
+    cache.set('b', 'bulk');
+
+    expect(await cache.getOrLoad('a', load)).toBe('bulk');
+    cache.delete('a');
+    expect(cache.has('a')).toBe(false);
+    expect(cache.has('b')).toBe(true);
+    cache.clear();
+    expect(cache.has('b')).toBe(false);
+    now += 1000;
+    cache.set('c', 'bulk');
+    now += 1000;
+    expect(await cache.getOrLoad('c', load)).toBe('v1');
+  });
+
+  it('caches nothing with a TTL of 0', async () => {
+    const cache = new TtlCache<string>(0);
+    const load = loader();
+    cache.set('a', 'bulk');
+
+    expect(cache.has('a')).toBe(false);
+    expect(await cache.getOrLoad('a', load)).toBe('v1');
+    expect(await cache.getOrLoad('a', load)).toBe('v2');
+  });
+});
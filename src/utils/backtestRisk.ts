@@ -0,0 +1,60 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RiskBacktestService, loadBacktestSnapshots } from '../services/riskBacktestService';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Replay risk scoring over historical snapshots and report how well the
+ * scores predicted non-payment, as risk-backtest.json and risk-backtest.html.
+ *
+ * Usage: npm run backtest-risk -- <snapshots.json> [horizonDays] [outputDir]
+ * outputDir defaults to ./data/backtest.
+ */
+async function backtestRisk() {
+  console.log('=== Risk Score Backtest ===\n');
+
+  const [filePath, horizonArg, outputArg] = process.argv.slice(2);
+  if (!filePath) {
+    console.error('Usage: npm run backtest-risk -- <snapshots.json> [horizonDays] [outputDir]');
+    process.exit(1);
+  }
+
+  const horizonDays = horizonArg ? Number(horizonArg) : undefined;
+  if (horizonDays !== undefined && !(horizonDays > 0)) {
+    console.error(`❌ horizonDays must be a positive number (got "${horizonArg}")`);
+    process.exit(1);
+  }
+
+  const snapshots = loadBacktestSnapshots(filePath);
+  console.log(`📄 ${filePath}: ${snapshots.length} snapshots`);
+
+  const service = new RiskBacktestService();
+  const report = service.run(snapshots, horizonDays);
+
+  console.log(`\n✅ ${report.model} scores over ${report.snapshots} snapshots (${report.skipped} skipped)`);
+  console.log(`   Unpaid within ${report.horizonDays} days: ${(report.unpaidRate * 100).toFixed(1)}%`);
+  console.log(`   AUC:         ${report.auc === null ? 'n/a' : report.auc.toFixed(3)}`);
+  console.log(`   Brier score: ${report.brierScore.toFixed(4)}`);
+  for (const level of report.riskLevels) {
+    console.log(`   ${level.riskLevel.padEnd(6)} ${String(level.count).padStart(6)} snapshots, ${(level.unpaidRate * 100).toFixed(1)}% unpaid`);
+  }
+  console.log(`\n   Current thresholds:     high ${report.current.high.threshold}, medium ${report.current.medium.threshold}`);
+  console.log(`   Recommended thresholds: high ${report.recommended.high}, medium ${report.recommended.medium}`);
+  console.log(`   ${report.recommended.rationale}`);
+
+  const outputDir = outputArg ?? path.resolve(process.cwd(), 'data', 'backtest');
+  await fs.mkdir(outputDir, { recursive: true });
+  const jsonFile = path.join(outputDir, 'risk-backtest.json');
+  const htmlFile = path.join(outputDir, 'risk-backtest.html');
+  await fs.writeFile(jsonFile, JSON.stringify(report, null, 2), 'utf8');
+  await fs.writeFile(htmlFile, service.renderHtml(report), 'utf8');
+  console.log(`\n💾 ${jsonFile}\n💾 ${htmlFile}`);
+
+  console.log('\n=== Backtest Complete ===');
+}
+
+// Run the backtest
+backtestRisk().catch(console.error);
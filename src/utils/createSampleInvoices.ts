@@ -312,8 +312,10 @@ async function createPaymentHistory(
     for (let i = 0; i < 10; i++) {
       const isOnTime = Math.random() < pattern.onTimeRate;
       const daysLate = isOnTime ? 0 : Math.floor(Math.random() * pattern.avgDaysLate);
+      // Historical payments settled earlier invoices, so they predate the open
+      // sample invoices (the oldest is 165 days old) and aren't applied to them
       const paymentDate = new Date();
-      paymentDate.setDate(paymentDate.getDate() - (90 - i * 9) - daysLate);
+      paymentDate.setDate(paymentDate.getDate() - 170 - (90 - i * 9) - daysLate);
 
       const paymentAmount = 5000 + Math.floor(Math.random() * 10000);
 
@@ -0,0 +1,40 @@
+/** Split one CSV line, honouring double-quoted fields with "" escapes. */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { current += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else current += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current);
+  return cells;
+}
+
+/**
+ * Parse CSV content with a header row into one object per data row, keyed by
+ * the header names as written. Blank lines are ignored.
+ */
+export function parseCsv(content: string): Record<string, string>[] {
+  const rows = content.split(/\r?\n/).filter(line => line.trim().length > 0).map(splitCsvLine);
+  if (rows.length === 0) return [];
+
+  const headers = rows[0].map(h => h.trim());
+  return rows.slice(1).map(cells => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, i) => { row[header] = (cells[i] ?? '').trim(); });
+    return row;
+  });
+}
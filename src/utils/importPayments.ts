@@ -0,0 +1,59 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ERPConnector } from '../connectors/erpConnector';
+import { PAYMENT_FILE_FORMATS } from '../services/paymentImportService';
+import type { PaymentFileFormat } from '../services/paymentImportService';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Import a bank or lockbox payment file into the ERP payment ledger.
+ *
+ * Usage: npm run import-payments -- <file> [csv|bai2|camt053]
+ * The format is inferred from the file extension when not given.
+ */
+async function importPayments() {
+  console.log('=== Payment File Import ===\n');
+
+  const [filePath, formatArg] = process.argv.slice(2);
+  if (!filePath) {
+    console.error('Usage: npm run import-payments -- <file> [csv|bai2|camt053]');
+    process.exit(1);
+  }
+
+  const format = (formatArg ?? inferFormat(filePath)) as PaymentFileFormat;
+  if (!PAYMENT_FILE_FORMATS.includes(format)) {
+    console.error(`❌ Unknown format "${format}". Use one of: ${PAYMENT_FILE_FORMATS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const content = await fs.readFile(filePath, 'utf8');
+  console.log(`📄 ${filePath} (${format})`);
+
+  const connector = new ERPConnector();
+  try {
+    const result = await connector.importPaymentFile(format, content);
+    console.log(`✅ Recorded:     ${result.recorded} of ${result.received}`);
+    console.log(`   Duplicates:   ${result.duplicates}`);
+    console.log(`   Unidentified: ${result.unidentified.length}`);
+    for (const payment of result.unidentified) {
+      console.log(`   ⚠️  ${payment.paymentId}: $${payment.amount.toFixed(2)} on ${payment.paymentDate.split('T')[0]} — ${payment.reference ?? 'no reference'}`);
+    }
+  } finally {
+    await connector.close();
+  }
+
+  console.log('\n=== Import Complete ===');
+}
+
+function inferFormat(filePath: string): string {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.xml') return 'camt053';
+  return 'bai2';
+}
+
+// Run the import
+importPayments().catch(console.error);
@@ -0,0 +1,159 @@
+/**
+ * Minimal PDF writer for generated documents such as statements of account.
+ *
+ * Text only, in the standard Helvetica and Helvetica-Bold fonts with
+ * WinAnsiEncoding, so nothing is embedded and Western European text (accents,
+ * umlauts, €) renders in every viewer. Characters outside that encoding are
+ * written as "?". Coordinates are in points from the bottom-left of an A4 page.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  /** `x` is the left edge (default) or the right edge of the text */
+  align?: 'left' | 'right';
+}
+
+// Glyph widths per 1000 units of font size for characters 32–126, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding bytes 0x80–0x9F; the rest of 0xA0–0xFF matches Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/** Text as WinAnsi bytes; thin and narrow no-break spaces (used by Intl number formats) become spaces. */
+function encode(text: string): Buffer {
+  const bytes = [...text].map(ch => {
+    const code = ch.codePointAt(0) as number;
+    if (code === 0x2009 || code === 0x202f) return 0x20;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+    return WIN_ANSI[ch] ?? 0x3f;
+  });
+  return Buffer.from(bytes);
+}
+
+/** Width of text in points; characters beyond ASCII are counted as an average glyph. */
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const byte of encode(text)) {
+    units += byte >= 32 && byte <= 126 ? widths[byte - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+/** A PDF string literal with (, ) and \ escaped. */
+function pdfString(text: string): Buffer {
+  const escaped = [...encode(text)].flatMap(byte =>
+    byte === 0x28 || byte === 0x29 || byte === 0x5c ? [0x5c, byte] : [byte]);
+  return Buffer.concat([Buffer.from('('), Buffer.from(escaped), Buffer.from(')')]);
+}
+
+export class PdfDocument {
+  private pages: Buffer[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Start a new page; later drawing goes on it. */
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === 'right' ? x - textWidth(text, size, bold) : x;
+    this.draw(Buffer.concat([
+      Buffer.from(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${round(left)} ${round(y)} Td `),
+      pdfString(text),
+      Buffer.from(' Tj ET\n'),
+    ]));
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.draw(Buffer.from(`${width} w ${round(x1)} ${round(y1)} m ${round(x2)} ${round(y2)} l S\n`));
+  }
+
+  /** The finished document. */
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: Buffer | string) => objects.push(typeof body === 'string' ? Buffer.from(body) : body);
+
+    // 1 catalog, 2 page tree, 3–4 fonts, then a page and its content stream per page
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`);
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    this.pages.forEach((content, i) => {
+      const stream = Buffer.concat(content);
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+      add(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream'),
+      ]));
+    });
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    let offset = chunks[0].length;
+    const offsets = objects.map((body, i) => {
+      const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+      chunks.push(chunk);
+      const start = offset;
+      offset += chunk.length;
+      return start;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF',
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`));
+    return Buffer.concat(chunks);
+  }
+
+  private draw(operation: Buffer): void {
+    this.pages[this.pages.length - 1].push(operation);
+  }
+}
+
+function round(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
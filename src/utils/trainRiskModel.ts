@@ -0,0 +1,57 @@
+import * as dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LogisticRiskModel, RISK_FEATURES, getRiskModelFile, loadTrainingExamples } from '../services/riskModel';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Train the logistic regression risk model on historical invoice outcomes and
+ * save it to RISK_MODEL_FILE, where RiskScoringService picks it up.
+ *
+ * Usage: npm run train-risk-model -- <outcomes.csv|json> [horizonDays]
+ * horizonDays defaults to RISK_MODEL_HORIZON_DAYS, else 30.
+ */
+async function trainRiskModel() {
+  console.log('=== Risk Model Training ===\n');
+
+  const [filePath, horizonArg] = process.argv.slice(2);
+  if (!filePath) {
+    console.error('Usage: npm run train-risk-model -- <outcomes.csv|json> [horizonDays]');
+    console.error(`Columns: ${RISK_FEATURES.map(f => f.name).join(', ')}, daysToPay`);
+    process.exit(1);
+  }
+
+  const horizonDays = Number(horizonArg ?? process.env.RISK_MODEL_HORIZON_DAYS ?? 30);
+  if (!(horizonDays > 0)) {
+    console.error(`❌ horizonDays must be a positive number (got "${horizonArg}")`);
+    process.exit(1);
+  }
+
+  const examples = loadTrainingExamples(filePath);
+  console.log(`📄 ${filePath}: ${examples.length} outcomes`);
+
+  const model = LogisticRiskModel.train(examples, { horizonDays });
+  const { metrics, features, intercept } = model.parameters;
+
+  console.log(`\n✅ Trained: P(paid within ${horizonDays} days)`);
+  console.log(`   Paid within horizon: ${(metrics.positiveRate * 100).toFixed(1)}% of outcomes`);
+  console.log(`   Training log-loss:   ${metrics.logLoss.toFixed(4)}`);
+  console.log(`   Training accuracy:   ${(metrics.accuracy * 100).toFixed(1)}%`);
+  console.log(`\n   Coefficients (per standard deviation, + = more likely to pay):`);
+  console.log(`     ${'intercept'.padEnd(20)} ${intercept.toFixed(3)}`);
+  for (const f of [...features].sort((a, b) => Math.abs(b.coefficient) - Math.abs(a.coefficient))) {
+    console.log(`     ${f.name.padEnd(20)} ${f.coefficient >= 0 ? ' ' : ''}${f.coefficient.toFixed(3)}`);
+  }
+
+  const modelFile = getRiskModelFile();
+  await fs.mkdir(path.dirname(modelFile), { recursive: true });
+  await fs.writeFile(modelFile, JSON.stringify(model.parameters, null, 2), 'utf8');
+  console.log(`\n💾 Saved to ${modelFile}`);
+
+  console.log('\n=== Training Complete ===');
+}
+
+// Run the training
+trainRiskModel().catch(console.error);
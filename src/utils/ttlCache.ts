@@ -0,0 +1,52 @@
+/**
+ * In-memory cache whose entries expire a fixed time after they are loaded.
+ *
+ * Values are stored as promises, so concurrent callers asking for the same
+ * key share one load. A load that fails is dropped rather than cached.
+ */
+export class TtlCache<T> {
+  private entries = new Map<string, { expiresAt: number; value: Promise<T> }>();
+  private ttlMs: number;
+
+  /** @param ttlMs How long an entry stays fresh; 0 disables caching */
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Return the cached value for `key`, calling `load` when it is missing or expired. */
+  getOrLoad(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > now) return cached.value;
+
+    const value = load();
+    if (this.ttlMs > 0) {
+      this.entries.set(key, { expiresAt: now + this.ttlMs, value });
+      value.catch(() => {
+        if (this.entries.get(key)?.value === value) this.entries.delete(key);
+      });
+    }
+    return value;
+  }
+
+  /** Store a value loaded some other way, e.g. by a bulk fetch. */
+  set(key: string, value: T): void {
+    if (this.ttlMs > 0) this.entries.set(key, { expiresAt: Date.now() + this.ttlMs, value: Promise.resolve(value) });
+  }
+
+  /** Whether a fresh entry exists for `key`. */
+  has(key: string): boolean {
+    const cached = this.entries.get(key);
+    return cached !== undefined && cached.expiresAt > Date.now();
+  }
+
+  /** Drop one entry. */
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  /** Drop every entry. */
+  clear(): void {
+    this.entries.clear();
+  }
+}